@@ -0,0 +1,57 @@
+import nextPWA from 'next-pwa';
+import defaultRuntimeCaching from 'next-pwa/cache.js';
+
+// Pyodide's runtime and packages never change under a versioned URL, so they
+// are kept once fetched and Python cells keep working offline. The wheel index
+// is checked for new wheels whenever the network is there.
+const pyodideRuntimeCaching = [
+  {
+    urlPattern: ({ url }) => url.pathname.startsWith('/pyodide/') && url.pathname.endsWith('/index.json'),
+    handler: 'NetworkFirst',
+    options: { cacheName: 'pyodide-index' },
+  },
+  {
+    urlPattern: ({ url }) => url.pathname.startsWith('/pyodide/'),
+    handler: 'CacheFirst',
+    options: {
+      cacheName: 'pyodide',
+      expiration: { maxEntries: 400, maxAgeSeconds: 365 * 24 * 60 * 60 },
+      cacheableResponse: { statuses: [0, 200] },
+    },
+  },
+];
+
+const withPWA = nextPWA({
+  dest: 'public',
+  disable: process.env.NODE_ENV === 'development',
+  register: true,
+  skipWaiting: true,
+  runtimeCaching: [...pyodideRuntimeCaching, ...defaultRuntimeCaching],
+  // Pyodide is cached as it is used, not precached on install
+  publicExcludes: ['!noprecache/**/*', '!pyodide/**/*'],
+});
+
+// Cross-origin isolation enables SharedArrayBuffer, which the Pyodide worker
+// uses to interrupt running Python cells in place. It is opt-in because
+// embedded third-party iframes (e.g. YouTube) stop loading under COEP.
+const crossOriginIsolation = process.env.NAVA_CROSS_ORIGIN_ISOLATION === '1';
+
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  reactStrictMode: true,
+  output: 'standalone',
+  async headers() {
+    if (!crossOriginIsolation) return [];
+    return [
+      {
+        source: '/:path*',
+        headers: [
+          { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+          { key: 'Cross-Origin-Embedder-Policy', value: 'credentialless' },
+        ],
+      },
+    ];
+  },
+};
+
+export default withPWA(nextConfig);
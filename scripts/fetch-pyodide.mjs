@@ -0,0 +1,72 @@
+/**
+ * Fetch Pyodide
+ *
+ * Puts the Pyodide distribution under public/pyodide/v<version>/full/, where
+ * the Python kernel loads it from this origin, and writes the index of the
+ * local wheel directory (public/pyodide/wheels/) that %pip install reads.
+ *
+ *   node scripts/fetch-pyodide.mjs            download (if missing) and index
+ *   node scripts/fetch-pyodide.mjs --wheels   only rebuild the wheel index
+ *
+ * The version is NEXT_PUBLIC_PYODIDE_VERSION, as in the app.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const VERSION = process.env.NEXT_PUBLIC_PYODIDE_VERSION || '0.24.1';
+const ROOT = join(process.cwd(), 'public', 'pyodide');
+const TARGET = join(ROOT, `v${VERSION}`, 'full');
+const WHEELS = join(ROOT, 'wheels');
+
+async function fetchDistribution() {
+  if (existsSync(join(TARGET, 'pyodide.js'))) {
+    console.log(`Pyodide ${VERSION} is already in ${TARGET}`);
+    return;
+  }
+  const url = `https://github.com/pyodide/pyodide/releases/download/${VERSION}/pyodide-${VERSION}.tar.bz2`;
+  console.log(`Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  const work = mkdtempSync(join(tmpdir(), 'pyodide-'));
+  try {
+    const archive = join(work, 'pyodide.tar.bz2');
+    writeFileSync(archive, Buffer.from(await response.arrayBuffer()));
+    execFileSync('tar', ['-xjf', archive, '-C', work], { stdio: 'inherit' });
+    mkdirSync(join(TARGET, '..'), { recursive: true });
+    // The archive unpacks to pyodide/
+    renameSync(join(work, 'pyodide'), TARGET);
+  } finally {
+    rmSync(work, { recursive: true, force: true });
+  }
+  console.log(`Pyodide ${VERSION} is in ${TARGET}`);
+}
+
+/**
+ * index.json maps each wheel's normalized project name to its file; with
+ * several versions of a project the last one in sort order wins
+ */
+function indexWheels() {
+  mkdirSync(WHEELS, { recursive: true });
+  const index = {};
+  for (const file of readdirSync(WHEELS).filter(name => name.endsWith('.whl')).sort()) {
+    const project = file.split('-')[0].replace(/[-_.]+/g, '-').toLowerCase();
+    index[project] = file;
+  }
+  writeFileSync(join(WHEELS, 'index.json'), `${JSON.stringify(index, null, 2)}\n`);
+  console.log(`Indexed ${Object.keys(index).length} wheel(s) in ${WHEELS}`);
+}
+
+try {
+  if (!process.argv.includes('--wheels')) {
+    await fetchDistribution();
+  }
+  indexWheels();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
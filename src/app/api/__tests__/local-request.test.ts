@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { rejectUntrustedRequest } from '../local-request';
+
+const request = (headers: Record<string, string>) =>
+    new Request('http://localhost:3000/api/python/execute', { method: 'POST', headers, body: '{}' });
+
+describe('rejectUntrustedRequest', () => {
+    it('lets the app through', () => {
+        expect(rejectUntrustedRequest(request({
+            'content-type': 'application/json',
+            'host': 'localhost:3000',
+            'origin': 'http://localhost:3000',
+            'sec-fetch-site': 'same-origin',
+        }))).toBeNull();
+    });
+
+    it('lets non-browser clients through', () => {
+        expect(rejectUntrustedRequest(request({ 'content-type': 'application/json; charset=utf-8' }))).toBeNull();
+    });
+
+    it('refuses a cross-site text/plain POST', () => {
+        const response = rejectUntrustedRequest(request({
+            'content-type': 'text/plain',
+            'host': 'localhost:3000',
+            'origin': 'https://evil.example',
+            'sec-fetch-site': 'cross-site',
+        }));
+        expect(response?.status).toBe(403);
+    });
+
+    it.each<Record<string, string>>([
+        { 'origin': 'https://evil.example' },
+        { 'origin': 'null' },
+        { 'sec-fetch-site': 'same-site' },
+    ])('refuses %o', headers => {
+        expect(rejectUntrustedRequest(request({ 'content-type': 'application/json', 'host': 'localhost:3000', ...headers }))?.status).toBe(403);
+    });
+
+    it('requires a JSON body unless told otherwise', () => {
+        expect(rejectUntrustedRequest(request({ 'content-type': 'text/plain' }))?.status).toBe(415);
+        expect(rejectUntrustedRequest(request({}), { json: false })).toBeNull();
+    });
+});
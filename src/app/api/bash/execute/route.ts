@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server';
+import { spawn } from 'child_process';
+import { statSync } from 'fs';
+import type { CellExecutionResult, NotebookOutput } from '@/services/jupyter-notebook-service';
+import { appendOutput } from '@/services/notebook-outputs';
+import { rejectUntrustedRequest } from '../../local-request';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_TIMEOUT_MS = 10 * 60 * 1000;
+// Output beyond this many characters is dropped so a runaway loop can't exhaust memory
+const MAX_OUTPUT_CHARS = 1024 * 1024;
+// Time a process group gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+
+const DISABLED_MESSAGE = 'The shell backend is disabled. Set NAVA_ENABLE_SHELL_BACKEND=1 to enable it.';
+
+// Cells run arbitrary commands as the server user, so the backend is off until explicitly enabled, in development too
+function isShellBackendEnabled(): boolean {
+    return process.env.NAVA_ENABLE_SHELL_BACKEND === '1';
+}
+
+interface ShellRequest {
+    code: string;
+    executionCount: number;
+    timeout: number;
+    cwd: string;
+    environment?: Record<string, string>;
+    signal: AbortSignal;
+}
+
+/**
+ * Run a cell with `bash -c` in its own process group so that timeouts and
+ * interrupts also stop the commands it started
+ */
+function runShell(request: ShellRequest): Promise<CellExecutionResult> {
+    return new Promise(resolve => {
+        let outputs: NotebookOutput[] = [];
+        let outputChars = 0;
+        let truncated = false;
+        let stopReason: string | null = null;
+        let killTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const child = spawn(process.env.NAVA_BASH_PATH || 'bash', ['-c', request.code], {
+            cwd: request.cwd,
+            env: { ...process.env, ...request.environment },
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: true,
+        });
+
+        const stop = (reason: string) => {
+            if (stopReason || child.exitCode !== null || !child.pid) return;
+            stopReason = reason;
+            try {
+                process.kill(-child.pid, 'SIGTERM');
+            } catch {
+                // Already gone
+            }
+            killTimer = setTimeout(() => {
+                try {
+                    process.kill(-child.pid!, 'SIGKILL');
+                } catch {
+                    // Already gone
+                }
+            }, KILL_GRACE_MS);
+        };
+
+        const onAbort = () => stop('Execution interrupted');
+        request.signal.addEventListener('abort', onAbort);
+        const timer = setTimeout(() => stop(`Execution timed out after ${request.timeout / 1000}s`), request.timeout);
+
+        const collect = (name: 'stdout' | 'stderr') => (text: string) => {
+            if (truncated) return;
+            if (outputChars + text.length > MAX_OUTPUT_CHARS) {
+                text = text.slice(0, MAX_OUTPUT_CHARS - outputChars) + '\n[output truncated]\n';
+                truncated = true;
+            }
+            outputChars += text.length;
+            outputs = appendOutput(outputs, { output_type: 'stream', name, text });
+        };
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        child.stdout.on('data', collect('stdout'));
+        child.stderr.on('data', collect('stderr'));
+
+        const finish = (ename: string | null, evalue: string) => {
+            clearTimeout(timer);
+            if (killTimer) clearTimeout(killTimer);
+            request.signal.removeEventListener('abort', onAbort);
+            if (!ename) {
+                resolve({ success: true, outputs, execution_count: request.executionCount });
+                return;
+            }
+            const error = { ename, evalue, traceback: [`${ename}: ${evalue}`] };
+            resolve({
+                success: false,
+                outputs: [...outputs, { output_type: 'error', ...error }],
+                execution_count: request.executionCount,
+                error,
+            });
+        };
+
+        child.on('error', error => finish('ShellError', error.message));
+        child.on('close', (code, signal) => {
+            if (stopReason) {
+                finish(stopReason.startsWith('Execution timed out') ? 'TimeoutError' : 'KeyboardInterrupt', stopReason);
+            } else if (code === 0) {
+                finish(null, '');
+            } else {
+                finish('CalledProcessError', signal ? `Command terminated by ${signal}` : `Command exited with status ${code}`);
+            }
+        });
+    });
+}
+
+export async function POST(req: Request) {
+    if (!isShellBackendEnabled()) {
+        return NextResponse.json({ error: DISABLED_MESSAGE }, { status: 403 });
+    }
+    const rejected = rejectUntrustedRequest(req);
+    if (rejected) return rejected;
+
+    try {
+        const { code, timeout, workingDirectory, environment, executionCount } = await req.json();
+
+        if (typeof code !== 'string') return NextResponse.json({ error: "Code is required" }, { status: 400 });
+        if (environment !== undefined && (typeof environment !== 'object' || environment === null || Array.isArray(environment))) {
+            return NextResponse.json({ error: "Environment must be an object of strings" }, { status: 400 });
+        }
+
+        const cwd = typeof workingDirectory === 'string' && workingDirectory
+            ? workingDirectory
+            : process.env.NAVA_SHELL_CWD || process.cwd();
+        let isDirectory = false;
+        try {
+            isDirectory = statSync(cwd).isDirectory();
+        } catch {
+            // Reported below
+        }
+        if (!isDirectory) {
+            return NextResponse.json({ error: `Working directory does not exist: ${cwd}` }, { status: 400 });
+        }
+
+        const result = await runShell({
+            code,
+            executionCount: typeof executionCount === 'number' ? executionCount : 0,
+            timeout: typeof timeout === 'number' && timeout > 0 ? Math.min(timeout, MAX_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS,
+            cwd,
+            environment,
+            // Fires when the client aborts the request (Stop)
+            signal: req.signal,
+        });
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Shell execution failed:", error);
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createLlmProvider, LlmProviderConfig, MockProvider } from '@/services/llm-providers';
+import type { FluxSchema } from '@/services/flux-schema';
+
+vi.mock('@/services/llm-providers', async importOriginal => {
+    const actual = await importOriginal<typeof import('@/services/llm-providers')>();
+    return { ...actual, createLlmProvider: vi.fn(actual.createLlmProvider) };
+});
+
+let POST: (req: Request) => Promise<Response>;
+
+beforeAll(async () => {
+    // The route reads its defaults when it is loaded
+    vi.stubEnv('LLM_PROVIDER', 'openai-compatible');
+    vi.stubEnv('LLM_API_KEY', 'server-key');
+    vi.stubEnv('LLM_BASE_URL', 'http://llm.internal/v1');
+    vi.stubEnv('OPENROUTER_BASE_URL', '');
+    vi.stubEnv('LLM_ALLOWED_BASE_URLS', 'https://mine.example, http://localhost:11434');
+    ({ POST } = await import('../route'));
+});
+
+afterEach(() => {
+    vi.mocked(createLlmProvider).mockClear();
+});
+
+const post = (body: Record<string, unknown>, headers: Record<string, string> = {}) => POST(new Request('http://localhost/api/flux', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+}));
+
+const ask = async (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    await (await post(body, headers)).json() as FluxSchema;
+
+const lastConfig = (): LlmProviderConfig => vi.mocked(createLlmProvider).mock.calls.at(-1)![0];
+
+// Answers the route with `replies` in turn instead of calling a model
+const scripted = (...replies: string[]) => {
+    const provider = new MockProvider(() => replies.shift() ?? '');
+    vi.mocked(createLlmProvider).mockImplementationOnce(() => provider);
+    return provider;
+};
+
+const chat = JSON.stringify({ mode: 'chat', components: [{ id: 'm', type: 'message', content: 'Hi' }] });
+
+describe('POST /api/flux', () => {
+    it('answers from the mock provider the request picks', async () => {
+        const schema = await ask({ intent: 'show me the data', llm: { provider: 'mock' } });
+        expect(lastConfig().provider).toBe('mock');
+        expect(schema.mode).toBe('chat');
+        expect(schema.components[0]).toMatchObject({ type: 'header', text: 'show me the data' });
+    });
+
+    it('uses the server provider, key and endpoint by default', async () => {
+        scripted(chat);
+        await ask({ intent: 'hello' });
+        expect(lastConfig()).toMatchObject({ provider: 'openai-compatible', apiKey: 'server-key', baseURL: 'http://llm.internal/v1' });
+    });
+
+    it('keeps the endpoint env var to its own provider', async () => {
+        scripted(chat);
+        await ask({ intent: 'hello', llm: { provider: 'openrouter' } }, { 'x-llm-key': 'client-key' });
+        expect(lastConfig().baseURL).toBeFalsy();
+    });
+
+    it('never sends the server key to an endpoint the request names', async () => {
+        scripted(chat);
+        await ask({ intent: 'hello', llm: { baseURL: 'https://mine.example/v1' } });
+        expect(lastConfig()).toMatchObject({ baseURL: 'https://mine.example/v1', apiKey: undefined });
+
+        scripted(chat);
+        await ask({ intent: 'hello', llm: { baseURL: 'http://localhost:11434/v1' } }, { 'x-llm-key': 'client-key' });
+        expect(lastConfig()).toMatchObject({ baseURL: 'http://localhost:11434/v1', apiKey: 'client-key' });
+    });
+
+    it.each([
+        'https://attacker.example/v1',
+        'http://169.254.169.254/latest',
+        'https://mine.example.attacker.example/v1',
+        'http://mine.example/v1',
+        'file:///etc/passwd',
+    ])('only calls the endpoints the server allows, not %s', async baseURL => {
+        const response = await post({ intent: 'hello', llm: { baseURL } }, { 'x-llm-key': 'client-key' });
+        expect(response.status).toBe(403);
+        expect(((await response.json()) as FluxSchema).components[0]).toMatchObject({ type: 'message', content: expect.stringContaining('LLM_ALLOWED_BASE_URLS') });
+        expect(createLlmProvider).not.toHaveBeenCalled();
+    });
+
+    it('refuses cross-origin requests', async () => {
+        const response = await post(
+            { intent: 'hello', llm: { provider: 'mock' } },
+            { 'host': 'localhost', 'origin': 'https://evil.example', 'sec-fetch-site': 'cross-site' }
+        );
+        expect(response.status).toBe(403);
+        expect(createLlmProvider).not.toHaveBeenCalled();
+    });
+
+    it('asks the model once to repair an invalid reply', async () => {
+        const provider = scripted('{"mode": "chat", "components": [{"id": "m", "type": "message"}]}', chat);
+        const schema = await ask({ intent: 'hello' });
+        expect(provider.calls).toHaveLength(2);
+        expect(provider.calls[1].messages.at(-1)?.content).toContain('components[0]: missing required property "content"');
+        expect(schema.components[0]).toMatchObject({ type: 'message', content: 'Hi' });
+    });
+
+    it('falls back to a message when the repair is invalid too', async () => {
+        const provider = scripted('not json', '{"mode": "nowhere"}');
+        const schema = await ask({ intent: 'hello' });
+        expect(provider.calls).toHaveLength(2);
+        expect(schema.mode).toBe('chat');
+        expect(schema.components[0]).toMatchObject({ type: 'message', content: expect.stringContaining('could not build') });
+    });
+});
@@ -1,47 +1,134 @@
 
 import { NextResponse } from 'next/server';
+import { FLUX_JSON_SCHEMA, fluxMessage, formatFluxIssues, parseFluxResponse, FluxSchema } from '@/services/flux-schema';
+import {
+    createLlmProvider,
+    LlmMessage,
+    LlmProvider,
+    LlmProviderConfig,
+    LlmProviderError,
+    LlmProviderId,
+    LlmRequest
+} from '@/services/llm-providers';
+import { rejectUntrustedRequest } from '../local-request';
+
+// Server-side defaults; a request can choose its own provider and model, and an allowed endpoint
+const ENV_KEYS: Record<LlmProviderId, string | undefined> = {
+    "openrouter": process.env.OPENROUTER_API_KEY,
+    "openai-compatible": process.env.LLM_API_KEY,
+    "anthropic": process.env.ANTHROPIC_API_KEY,
+    "mock": undefined
+};
+
+const ENV_BASE_URLS: Record<LlmProviderId, string | undefined> = {
+    "openrouter": process.env.OPENROUTER_BASE_URL,
+    "openai-compatible": process.env.LLM_BASE_URL,
+    "anthropic": process.env.ANTHROPIC_BASE_URL,
+    "mock": undefined
+};
+
+// Endpoints a request may name instead of the server's: origins listed in
+// LLM_ALLOWED_BASE_URLS (comma-separated, "*" for any). Unset, it names none,
+// so the server can't be used to reach hosts on its own network.
+const ALLOWED_ENDPOINTS = (process.env.LLM_ALLOWED_BASE_URLS || "").split(",").map(entry => entry.trim()).filter(Boolean);
+
+function originOf(url: string): string | null {
+    try {
+        const { protocol, origin } = new URL(url);
+        return protocol === "https:" || protocol === "http:" ? origin : null;
+    } catch {
+        return null;
+    }
+}
+
+function isAllowedEndpoint(baseURL: string): boolean {
+    const origin = originOf(baseURL);
+    return origin !== null && ALLOWED_ENDPOINTS.some(allowed => allowed === "*" || originOf(allowed) === origin);
+}
+
+function resolveLlmConfig(req: Request, requested: Partial<LlmProviderConfig> = {}): LlmProviderConfig {
+    const provider = (requested.provider || process.env.LLM_PROVIDER || "openrouter") as LlmProviderId;
+    // Prioritize Header Key (Client), Fallback to Env
+    const headerKey = req.headers.get("x-llm-key") || req.headers.get("x-openrouter-key");
+    // The server's key only ever goes to the server's endpoint: a request naming its own endpoint brings its own key (or none)
+    const clientEndpoint = requested.baseURL || undefined;
+    return {
+        provider,
+        model: requested.model || process.env.LLM_MODEL || (provider === "openrouter" ? process.env.OPENROUTER_MODEL : undefined),
+        apiKey: headerKey || (clientEndpoint ? undefined : ENV_KEYS[provider]),
+        baseURL: clientEndpoint || ENV_BASE_URLS[provider]
+    };
+}
+
+// The mock provider's answer: a fixed screen that repeats the intent
+function mockFluxReply(request: LlmRequest): string {
+    const intent = request.messages.filter(message => message.role === "user").pop()?.content ?? "";
+    return JSON.stringify({
+        mode: "chat",
+        voice_response: "Mock response.",
+        components: [
+            { id: "intent", type: "header", text: intent },
+            { id: "reply", type: "message", role: "assistant", content: `Mock provider received: ${intent}` }
+        ]
+    });
+}
 
 export async function POST(req: Request) {
+    const rejected = rejectUntrustedRequest(req);
+    if (rejected) return rejected;
+
     try {
-        const { intent } = await req.json();
-        
-        // Prioritize Header Key (Client), Fallback to Env
-        const headerKey = req.headers.get("x-openrouter-key");
-        const apiKey = headerKey || process.env.OPENROUTER_API_KEY;
-        const model = process.env.OPENROUTER_MODEL || "google/gemini-pro-1.5";
+        const { intent, llm } = await req.json();
+
+        if (llm?.baseURL && !isAllowedEndpoint(llm.baseURL)) {
+            return NextResponse.json(fluxMessage(
+                `This server does not call the LLM endpoint ${llm.baseURL}. Clear the Base URL in Settings, or add its origin to LLM_ALLOWED_BASE_URLS on the server.`,
+                "That model endpoint is not allowed on this server.",
+                "system"
+            ), { status: 403 });
+        }
 
-        console.log("DEBUG: Using Key Source:", headerKey ? "Client-Header" : "Env-Var");
-        console.log("DEBUG: API Key Length:", apiKey ? apiKey.length : "undefined");
+        let provider: LlmProvider | null = null;
+        let configError = "";
+        try {
+            provider = createLlmProvider(resolveLlmConfig(req, llm), mockFluxReply);
+        } catch (error) {
+            if (!(error instanceof LlmProviderError)) throw error;
+            configError = error.message;
+        }
 
-        if (!apiKey) {
+        if (!provider) {
             // Check for local intents even if API key is missing
             if (intent.toLowerCase().includes("studio")) {
-                return NextResponse.json({
+                return NextResponse.json<FluxSchema>({
                     mode: "studio",
-                    voice_response: "Accessing Research Studio."
+                    voice_response: "Accessing Research Studio.",
+                    components: []
                 });
             }
             if (intent.toLowerCase().includes("dissolve") || intent.toLowerCase().includes("void")) {
-                 return NextResponse.json({
+                 return NextResponse.json<FluxSchema>({
                     mode: "void",
-                    voice_response: "Dissolving interface."
+                    voice_response: "Dissolving interface.",
+                    components: []
                 });
             }
 
-            console.error("Missing OPENROUTER_API_KEY");
+            console.error("LLM configuration error:", configError);
             // Fallback to mock if no key (for safety)
-            return NextResponse.json({
-                mode: "chat",
-                components: [{ id: "err", type: "message", role: "system", content: "System Error: API Configuration Missing." }],
-                voice_response: "I cannot access my neural pathways. Please check the server configuration."
-            });
+            return NextResponse.json(fluxMessage(
+                "System Error: API Configuration Missing.",
+                "I cannot access my neural pathways. Please check the server configuration.",
+                "system"
+            ));
         }
 
         // DETEMINISTIC OVERRIDES (Speed + Reliability)
         if (intent.toLowerCase().includes("studio")) {
-             return NextResponse.json({
+             return NextResponse.json<FluxSchema>({
                 mode: "studio",
-                voice_response: "Welcome to the Studio."
+                voice_response: "Welcome to the Studio.",
+                components: []
             });
         }
 
@@ -52,27 +139,8 @@ export async function POST(req: Request) {
         
         You must return ONLY valid JSON. No markdown formatting.
         
-        Schema Definition:
-        {
-          "mode": "void" | "visual" | "analysis" | "comparison" | "chat" | "studio",
-          "voice_response": "A short, conversational sentence allowing the AI to speak its action.",
-          "components": [
-            {
-              "id": "string",
-              "type": "header" | "message" | "gallery" | "pdf_viewer" | "chat_analysis" | "table",
-              "text": "string (for header)",
-              "content": "string (for message)",
-              "role": "user" | "assistant" | "system",
-              "items": [ { "src": "string", "caption": "string" } ] (for gallery),
-              "src": "string" (for pdf_viewer),
-              "page": number (for pdf_viewer),
-              "insight": "string" (for chat_analysis),
-              "initial_thought": "string" (for chat_analysis),
-              "headers": ["string"] (for table),
-              "rows": [["string"]] (for table)
-            }
-          ]
-        }
+        Schema Definition (JSON Schema):
+        ${JSON.stringify(FLUX_JSON_SCHEMA)}
 
         Be creative. If they ask for "visuals", generate a gallery with placeholder images (use /demo/graph1.png etc).
         If they ask to "analyze", show a PDF viewer and analysis component.
@@ -80,46 +148,33 @@ export async function POST(req: Request) {
         If they clear/reset, return mode: "void".
         `;
 
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "HTTP-Referer": "https://nava.ai", // Required by OpenRouter
-                "X-Title": "NavaNotebookLLM",
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                model: model,
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: intent }
-                ],
-                temperature: 0.7,
-                response_format: { type: "json_object" } 
-            })
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error("OpenRouter Error:", errorText);
-            throw new Error(`OpenRouter API Error: ${response.statusText}`);
-        }
+        const messages: LlmMessage[] = [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: intent }
+        ];
+        const complete = () => provider.complete({ messages, temperature: 0.7, json: true });
+        const content = await complete();
+        let result = parseFluxResponse(content);
 
-        const data = await response.json();
-        let content = data.choices[0].message.content;
-        
-        // Clean markdown if present (sometimes models add it despite instructions)
-        content = content.replace(/```json/g, "").replace(/```/g, "").trim();
+        // One repair round-trip: show the model what was wrong with its reply
+        if (!result.schema) {
+            const issues = formatFluxIssues(result.issues);
+            console.warn("Invalid Flux Schema, asking for a repair:\n" + issues);
+            messages.push(
+                { role: "assistant", content },
+                { role: "user", content: `Your JSON does not match the Flux Schema:\n${issues}\nReturn the corrected JSON only.` }
+            );
+            result = parseFluxResponse(await complete());
+        }
 
-        const schema = JSON.parse(content);
-        return NextResponse.json(schema);
+        if (!result.schema) {
+            console.error("Invalid Flux Schema after repair:\n" + formatFluxIssues(result.issues));
+            return NextResponse.json(fluxMessage("I could not build an interface for that request. Please try rephrasing it."));
+        }
+        return NextResponse.json(result.schema);
 
     } catch (error) {
         console.error("Intent Processing Error:", error);
-        return NextResponse.json({ 
-            mode: "chat",
-            components: [{ id: "err", type: "message", role: "assistant", content: "I encountered an error processing your request." }],
-            voice_response: "I encountered an error processing your request."
-        });
+        return NextResponse.json(fluxMessage("I encountered an error processing your request."));
     }
 }
@@ -0,0 +1,44 @@
+/**
+ * Local Request Guard
+ *
+ * The code-execution routes run whatever they are sent as the server user, so
+ * they only answer the app itself. A page on another site can still make the
+ * browser POST here (a form or a `no-cors` fetch with a text/plain body), so
+ * requests must come from this origin and, when they carry a body, be
+ * application/json, which a cross-site page can't send without a CORS
+ * preflight that these routes never grant.
+ */
+
+import { NextResponse } from 'next/server';
+
+const SAME_SITE_FETCHES = new Set(['same-origin', 'none']);
+
+function isSameOrigin(req: Request): boolean {
+    // Sent by browsers on every request; "none" is the user typing the URL
+    const fetchSite = req.headers.get('sec-fetch-site');
+    if (fetchSite && !SAME_SITE_FETCHES.has(fetchSite)) return false;
+
+    const origin = req.headers.get('origin');
+    if (!origin) return true;
+    const host = req.headers.get('host') || new URL(req.url).host;
+    try {
+        return new URL(origin).host === host;
+    } catch {
+        return false; // "null" from sandboxed frames and file:// pages
+    }
+}
+
+/**
+ * The response refusing `req`, or null when it may go ahead; `json` requires
+ * an application/json body
+ */
+export function rejectUntrustedRequest(req: Request, { json = true }: { json?: boolean } = {}): NextResponse | null {
+    if (!isSameOrigin(req)) {
+        return NextResponse.json({ error: "Cross-origin requests are not allowed" }, { status: 403 });
+    }
+    const contentType = req.headers.get('content-type') || '';
+    if (json && !/^application\/json\s*(;|$)/i.test(contentType)) {
+        return NextResponse.json({ error: "Content-Type must be application/json" }, { status: 415 });
+    }
+    return null;
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DELETE, POST } from '../execute/route';
+import { POST as interrupt } from '../interrupt/route';
+
+const request = (method: string, headers: Record<string, string> = {}) =>
+    new Request('http://localhost:3000/api/python/execute', {
+        method,
+        headers: { 'content-type': 'application/json', 'host': 'localhost:3000', ...headers },
+        body: method === 'POST' ? JSON.stringify({ code: 'print(1)', sessionId: 'test' }) : undefined,
+    });
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('/api/python', () => {
+    it.each(['development', 'test', 'production'])('is disabled by default when NODE_ENV is %s', async nodeEnv => {
+        vi.stubEnv('NODE_ENV', nodeEnv);
+        for (const response of [await POST(request('POST')), await DELETE(request('DELETE')), await interrupt(request('POST'))]) {
+            expect(response.status).toBe(403);
+        }
+    });
+
+    it('needs the opt-in to be exactly "1"', async () => {
+        vi.stubEnv('NAVA_ENABLE_PYTHON_BACKEND', 'true');
+        expect((await POST(request('POST'))).status).toBe(403);
+    });
+
+    it('refuses cross-origin requests once enabled', async () => {
+        vi.stubEnv('NAVA_ENABLE_PYTHON_BACKEND', '1');
+        const crossSite = { 'origin': 'https://evil.example', 'sec-fetch-site': 'cross-site' };
+        expect((await POST(request('POST', crossSite))).status).toBe(403);
+        expect((await DELETE(request('DELETE', crossSite))).status).toBe(403);
+        expect((await interrupt(request('POST', crossSite))).status).toBe(403);
+    });
+
+    it('answers the app once enabled', async () => {
+        vi.stubEnv('NAVA_ENABLE_PYTHON_BACKEND', '1');
+        const response = await DELETE(request('DELETE', { 'origin': 'http://localhost:3000', 'sec-fetch-site': 'same-origin' }));
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ shutdown: false });
+    });
+});
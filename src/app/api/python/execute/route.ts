@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getSubprocessKernel, shutdownSubprocessKernel, isPythonBackendEnabled } from '../subprocess-kernel';
+import { rejectUntrustedRequest } from '../../local-request';
+
+export const runtime = 'nodejs';
+
+const DISABLED_MESSAGE = 'The local Python backend is disabled. Set NAVA_ENABLE_PYTHON_BACKEND=1 to enable it.';
+
+export async function POST(req: Request) {
+    if (!isPythonBackendEnabled()) {
+        return NextResponse.json({ error: DISABLED_MESSAGE }, { status: 403 });
+    }
+    const rejected = rejectUntrustedRequest(req);
+    if (rejected) return rejected;
+
+    try {
+        const { code, timeout, workingDirectory, environment, sessionId, executionCount } = await req.json();
+
+        if (typeof code !== 'string') return NextResponse.json({ error: "Code is required" }, { status: 400 });
+        if (environment !== undefined && (typeof environment !== 'object' || environment === null || Array.isArray(environment))) {
+            return NextResponse.json({ error: "Environment must be an object of strings" }, { status: 400 });
+        }
+
+        const kernel = getSubprocessKernel(typeof sessionId === 'string' && sessionId ? sessionId : 'default');
+        const result = await kernel.execute({
+            code,
+            executionCount: typeof executionCount === 'number' ? executionCount : 0,
+            timeout: typeof timeout === 'number' && timeout > 0 ? timeout : undefined,
+            workingDirectory: typeof workingDirectory === 'string' ? workingDirectory : undefined,
+            environment,
+        });
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Python execution failed:", error);
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
+
+// Shut down a session's kernel (used by Restart Kernel)
+export async function DELETE(req: Request) {
+    if (!isPythonBackendEnabled()) {
+        return NextResponse.json({ error: DISABLED_MESSAGE }, { status: 403 });
+    }
+    const rejected = rejectUntrustedRequest(req, { json: false });
+    if (rejected) return rejected;
+
+    const sessionId = new URL(req.url).searchParams.get('sessionId') || 'default';
+    return NextResponse.json({ shutdown: shutdownSubprocessKernel(sessionId) });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { interruptSubprocessKernel, isPythonBackendEnabled } from '../subprocess-kernel';
+import { rejectUntrustedRequest } from '../../local-request';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+    if (!isPythonBackendEnabled()) {
+        return NextResponse.json({ error: "The local Python backend is disabled." }, { status: 403 });
+    }
+    const rejected = rejectUntrustedRequest(req);
+    if (rejected) return rejected;
+
+    try {
+        const { sessionId } = await req.json();
+        return NextResponse.json({ interrupted: interruptSubprocessKernel(typeof sessionId === 'string' && sessionId ? sessionId : 'default') });
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
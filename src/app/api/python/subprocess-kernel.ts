@@ -0,0 +1,422 @@
+/**
+ * Subprocess Python Kernel
+ *
+ * One persistent `python3` process per notebook session, driven over a
+ * JSON-lines protocol. Variables, imports and the working directory survive
+ * between executions, like a Jupyter kernel. Used by /api/python/execute.
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import * as readline from 'readline';
+import type { CellExecutionResult } from '@/services/jupyter-notebook-service';
+import { appendOutput } from '@/services/notebook-outputs';
+
+export interface SubprocessExecuteRequest {
+    code: string;
+    executionCount: number;
+    timeout?: number;
+    workingDirectory?: string;
+    environment?: Record<string, string>;
+}
+
+// Python side of the protocol. The real stdout (fd 1) is kept for protocol
+// messages; fd 1 is then pointed at stderr so output from C extensions and
+// child processes cannot corrupt the stream.
+const DRIVER = String.raw`
+import ast, base64, builtins, io, json, linecache, os, sys, traceback, uuid
+
+_protocol = os.fdopen(os.dup(1), 'w', encoding='utf-8')
+os.dup2(2, 1)
+os.environ.setdefault('MPLBACKEND', 'Agg')
+
+_namespace = {'__name__': '__main__', '__builtins__': builtins}
+_outputs = []
+
+def _send(message):
+    try:
+        line = json.dumps(message, default=repr, allow_nan=False)
+    except ValueError as exc:
+        error = {'ename': 'ValueError', 'evalue': 'Output could not be serialized: ' + str(exc), 'traceback': []}
+        line = json.dumps({
+            'id': message['id'],
+            'success': False,
+            'outputs': [dict(output_type='error', **error)],
+            'error': error,
+        })
+    _protocol.write(line + '\n')
+    _protocol.flush()
+
+class _CaptureStream(io.TextIOBase):
+    def __init__(self, name):
+        self.name = name
+
+    def writable(self):
+        return True
+
+    def write(self, text):
+        if not isinstance(text, str):
+            raise TypeError('write() argument must be str, not ' + type(text).__name__)
+        if text:
+            last = _outputs[-1] if _outputs else None
+            if last and last['output_type'] == 'stream' and last['name'] == self.name:
+                last['text'] += text
+            else:
+                _outputs.append({'output_type': 'stream', 'name': self.name, 'text': text})
+        return len(text)
+
+_REPR_METHODS = [
+    ('_repr_html_', 'text/html'),
+    ('_repr_markdown_', 'text/markdown'),
+    ('_repr_latex_', 'text/latex'),
+    ('_repr_svg_', 'image/svg+xml'),
+    ('_repr_png_', 'image/png'),
+    ('_repr_jpeg_', 'image/jpeg'),
+    ('_repr_json_', 'application/json'),
+]
+
+def _encode(mime, value):
+    if isinstance(value, bytes):
+        if mime.startswith('image/') and mime != 'image/svg+xml':
+            return base64.b64encode(value).decode('ascii')
+        return value.decode('utf-8')
+    return value
+
+def _mime_bundle(obj):
+    data, metadata = {'text/plain': repr(obj)}, {}
+    if isinstance(obj, type):
+        return data, metadata
+    for method, mime in _REPR_METHODS:
+        fn = getattr(obj, method, None)
+        if not callable(fn):
+            continue
+        try:
+            value = fn()
+        except Exception:
+            continue
+        if isinstance(value, tuple) and len(value) == 2:
+            value, metadata[mime] = value
+        if value is not None:
+            data[mime] = _encode(mime, value)
+    return data, metadata
+
+class DisplayHandle:
+    def __init__(self, display_id):
+        self.display_id = display_id
+
+    def display(self, obj, **kwargs):
+        display(obj, display_id=self.display_id, **kwargs)
+
+    def update(self, obj, **kwargs):
+        update_display(obj, display_id=self.display_id, **kwargs)
+
+def display(*objs, raw=False, metadata=None, display_id=None):
+    if display_id is True:
+        display_id = uuid.uuid4().hex
+    for obj in objs:
+        data, bundle_metadata = (obj, {}) if raw else _mime_bundle(obj)
+        output = {'output_type': 'display_data', 'data': data, 'metadata': metadata or bundle_metadata}
+        if display_id:
+            output['transient'] = {'display_id': display_id}
+        _outputs.append(output)
+    return DisplayHandle(display_id) if display_id else None
+
+def update_display(obj, *, display_id, raw=False, metadata=None):
+    data, bundle_metadata = (obj, {}) if raw else _mime_bundle(obj)
+    for output in _outputs:
+        if output.get('transient', {}).get('display_id') == display_id:
+            output['data'] = data
+            output['metadata'] = metadata or bundle_metadata
+
+builtins.display = display
+builtins.update_display = update_display
+builtins.DisplayHandle = DisplayHandle
+
+def _flush_figures():
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for number in pyplot.get_fignums():
+        buffer = io.BytesIO()
+        pyplot.figure(number).savefig(buffer, format='png', bbox_inches='tight')
+        _outputs.append({
+            'output_type': 'display_data',
+            'data': {'image/png': base64.b64encode(buffer.getvalue()).decode('ascii'), 'text/plain': '<Figure>'},
+            'metadata': {},
+        })
+    pyplot.close('all')
+
+def _run(code, execution_count):
+    linecache.cache['<cell>'] = (len(code), None, code.splitlines(True), '<cell>')
+    tree = ast.parse(code, '<cell>', 'exec')
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, '<cell>', 'exec'), _namespace)
+    if last is not None:
+        value = eval(compile(last, '<cell>', 'eval'), _namespace)
+        if value is not None:
+            builtins._ = value
+            data, metadata = _mime_bundle(value)
+            _outputs.append({
+                'output_type': 'execute_result',
+                'execution_count': execution_count,
+                'data': data,
+                'metadata': metadata,
+            })
+
+def _format_error(exc):
+    tb = exc.__traceback__
+    # Hide the driver's own frames
+    while tb is not None and tb.tb_frame.f_code.co_filename != '<cell>':
+        tb = tb.tb_next
+    lines = traceback.format_exception(type(exc), exc, tb)
+    return {
+        'ename': type(exc).__name__,
+        'evalue': str(exc),
+        'traceback': ''.join(lines).rstrip('\n').split('\n'),
+    }
+
+def _handle(request):
+    global _outputs
+    _outputs = []
+    error = None
+    sys.stdout, sys.stderr = _CaptureStream('stdout'), _CaptureStream('stderr')
+    try:
+        if request.get('cwd'):
+            os.chdir(request['cwd'])
+        os.environ.update({str(k): str(v) for k, v in (request.get('env') or {}).items()})
+        _run(request['code'], request['execution_count'])
+    except BaseException as exc:
+        error = _format_error(exc)
+    finally:
+        try:
+            _flush_figures()
+        except Exception:
+            pass
+        sys.stdout, sys.stderr = sys.__stdout__, sys.__stderr__
+    if error:
+        _outputs.append(dict(output_type='error', **error))
+    _send({'id': request['id'], 'success': error is None, 'outputs': _outputs, 'error': error})
+
+while True:
+    try:
+        line = sys.stdin.readline()
+        if not line:
+            break
+        request = json.loads(line)
+        _handle(request)
+    except KeyboardInterrupt:
+        # An interrupt that lands between executions has nothing to stop
+        continue
+`;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// After SIGINT, how long the kernel gets to report KeyboardInterrupt before it is killed
+const INTERRUPT_GRACE_MS = 2000;
+// Kernels of sessions that have gone quiet are shut down
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const STDERR_TAIL_LENGTH = 4000;
+
+interface RunningExecution {
+    id: string;
+    executionCount: number;
+    stderr: string;
+    resolve: (result: CellExecutionResult) => void;
+}
+
+const errorResult = (ename: string, evalue: string, executionCount: number, traceback = [`${ename}: ${evalue}`]): CellExecutionResult => ({
+    success: false,
+    outputs: [{ output_type: 'error', ename, evalue, traceback }],
+    execution_count: executionCount,
+    error: { ename, evalue, traceback },
+});
+
+class SubprocessKernel {
+    private child: ChildProcessWithoutNullStreams;
+    private queue: Promise<unknown> = Promise.resolve();
+    private running: RunningExecution | null = null;
+    private requestCounter = 0;
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+    private stderrTail = '';
+    alive = true;
+
+    constructor(private onExit: () => void) {
+        const python = process.env.NAVA_PYTHON_PATH || 'python3';
+        this.child = spawn(python, ['-u', '-c', DRIVER], {
+            env: { ...process.env, PYTHONUNBUFFERED: '1', PYTHONIOENCODING: 'utf-8' },
+            stdio: 'pipe',
+        });
+
+        readline.createInterface({ input: this.child.stdout }).on('line', line => this.handleLine(line));
+        this.child.stderr.setEncoding('utf8');
+        this.child.stderr.on('data', (chunk: string) => {
+            if (this.running) {
+                this.running.stderr += chunk;
+            } else {
+                this.stderrTail = (this.stderrTail + chunk).slice(-STDERR_TAIL_LENGTH);
+            }
+        });
+        this.child.on('error', error => this.handleExit(`Could not start ${python}: ${error.message}`));
+        this.child.on('exit', (code, signal) => this.handleExit(`Python process exited (${signal || `code ${code}`})`));
+        this.touch();
+    }
+
+    /**
+     * Queue code for execution; runs one cell at a time
+     */
+    execute(request: SubprocessExecuteRequest): Promise<CellExecutionResult> {
+        const run = this.queue.then(() => this.run(request));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Raise KeyboardInterrupt in the running cell
+     */
+    interrupt(): void {
+        if (this.running && this.alive) {
+            this.child.kill('SIGINT');
+        }
+    }
+
+    shutdown(reason = 'Kernel shut down'): void {
+        if (this.idleTimer) clearTimeout(this.idleTimer);
+        if (this.alive) {
+            this.child.kill('SIGKILL');
+        }
+        this.handleExit(reason);
+    }
+
+    private run(request: SubprocessExecuteRequest): Promise<CellExecutionResult> {
+        if (!this.alive) {
+            return Promise.resolve(errorResult('KernelError', 'The Python kernel is not running', request.executionCount));
+        }
+        this.touch();
+        this.requestCounter++;
+        const id = `exec-${this.requestCounter}`;
+
+        return new Promise(resolve => {
+            const timeout = request.timeout || DEFAULT_TIMEOUT_MS;
+            let killTimer: ReturnType<typeof setTimeout> | null = null;
+            const timer = setTimeout(() => {
+                if (this.running) {
+                    this.running.stderr += `Execution timed out after ${timeout / 1000}s\n`;
+                }
+                // Ask nicely first; a cell stuck in native code may ignore SIGINT
+                this.child.kill('SIGINT');
+                killTimer = setTimeout(() => {
+                    this.shutdown(`Execution timed out after ${timeout / 1000}s`);
+                }, INTERRUPT_GRACE_MS);
+            }, timeout);
+
+            this.running = {
+                id,
+                executionCount: request.executionCount,
+                stderr: '',
+                resolve: result => {
+                    clearTimeout(timer);
+                    if (killTimer) clearTimeout(killTimer);
+                    this.running = null;
+                    this.touch();
+                    resolve(result);
+                },
+            };
+
+            this.child.stdin.write(JSON.stringify({
+                id,
+                code: request.code,
+                execution_count: request.executionCount,
+                cwd: request.workingDirectory,
+                env: request.environment,
+            }) + '\n');
+        });
+    }
+
+    private handleLine(line: string): void {
+        const running = this.running;
+        if (!running) return;
+        let message: CellExecutionResult & { id: string; error: CellExecutionResult['error'] | null };
+        try {
+            message = JSON.parse(line);
+        } catch {
+            return;
+        }
+        if (message.id !== running.id) return;
+
+        let outputs = message.outputs;
+        // Output written straight to the process's file descriptors goes before the error, if any
+        if (running.stderr) {
+            const last = outputs[outputs.length - 1];
+            const errorOutput = last?.output_type === 'error' ? [last] : [];
+            outputs = appendOutput(outputs.slice(0, outputs.length - errorOutput.length), {
+                output_type: 'stream',
+                name: 'stderr',
+                text: running.stderr,
+            }).concat(errorOutput);
+        }
+        running.resolve({
+            success: message.success,
+            outputs,
+            execution_count: running.executionCount,
+            ...(message.error ? { error: message.error } : {}),
+        });
+    }
+
+    private handleExit(reason: string): void {
+        if (!this.alive) return;
+        this.alive = false;
+        if (this.idleTimer) clearTimeout(this.idleTimer);
+        const running = this.running;
+        if (running) {
+            const details = (this.stderrTail + running.stderr).trim();
+            running.resolve(errorResult(
+                'KernelDied',
+                `${reason}. The session's state was lost.`,
+                running.executionCount,
+                details ? [`KernelDied: ${reason}`, ...details.split('\n')] : undefined
+            ));
+        }
+        this.onExit();
+    }
+
+    private touch(): void {
+        if (this.idleTimer) clearTimeout(this.idleTimer);
+        this.idleTimer = setTimeout(() => this.shutdown(), IDLE_TIMEOUT_MS);
+        this.idleTimer.unref?.();
+    }
+}
+
+// Kept on globalThis so dev-server hot reloads don't orphan running kernels
+const globalKernels = globalThis as typeof globalThis & { __navaPythonKernels?: Map<string, SubprocessKernel> };
+const kernels = globalKernels.__navaPythonKernels ??= new Map<string, SubprocessKernel>();
+
+/**
+ * Get the session's kernel, starting one if needed
+ */
+export function getSubprocessKernel(sessionId: string): SubprocessKernel {
+    let kernel = kernels.get(sessionId);
+    if (!kernel || !kernel.alive) {
+        kernel = new SubprocessKernel(() => {
+            if (kernels.get(sessionId) === kernel) kernels.delete(sessionId);
+        });
+        kernels.set(sessionId, kernel);
+    }
+    return kernel;
+}
+
+export function interruptSubprocessKernel(sessionId: string): boolean {
+    const kernel = kernels.get(sessionId);
+    kernel?.interrupt();
+    return kernel !== undefined;
+}
+
+export function shutdownSubprocessKernel(sessionId: string): boolean {
+    const kernel = kernels.get(sessionId);
+    kernel?.shutdown();
+    return kernel !== undefined;
+}
+
+// Cells run arbitrary code as the server user, so the backend is off until explicitly enabled, in development too
+export function isPythonBackendEnabled(): boolean {
+    return process.env.NAVA_ENABLE_PYTHON_BACKEND === '1';
+}
@@ -5,13 +5,8 @@ import { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Command, Mic, Sparkles, X, Power, Settings } from "lucide-react";
 import StudioGrid from "@/components/studio/StudioGrid";
-import SettingsModal, { VoiceSettings } from "@/components/studio/SettingsModal";
-
-// --- FLUX PROTOCOL ---
-type FluxSchema = {
-    mode: "void" | "visual" | "analysis" | "comparison" | "chat" | "studio";
-    components: any[];
-};
+import SettingsModal, { getLlmKey, VoiceSettings } from "@/components/studio/SettingsModal";
+import { FluxSchema, fluxMessage, formatFluxIssues, validateFluxSchema } from "@/services/flux-schema";
 
 export default function FluxEngine() {
     const [intent, setIntent] = useState("");
@@ -145,21 +140,34 @@ export default function FluxEngine() {
         setIsProcessing(true);
         try {
             const headers: any = { 'Content-Type': 'application/json' };
-            if (voiceSettings.openRouterKey) {
-                headers['x-openrouter-key'] = voiceSettings.openRouterKey;
+            const llmKey = getLlmKey(voiceSettings);
+            if (llmKey) {
+                headers['x-llm-key'] = llmKey;
             }
 
             const res = await fetch('/api/flux', {
                 method: 'POST',
                 headers: headers,
-                body: JSON.stringify({ intent: text })
+                body: JSON.stringify({
+                    intent: text,
+                    llm: {
+                        provider: voiceSettings.llmProvider,
+                        model: voiceSettings.llmModel || undefined,
+                        baseURL: voiceSettings.llmBaseURL || undefined
+                    }
+                })
             });
-            const data = await res.json();
-            setSchema(data);
+            const { schema: next, issues } = validateFluxSchema(await res.json());
+            if (!next) {
+                console.error("Invalid Flux Schema from /api/flux:\n" + formatFluxIssues(issues));
+                setSchema(fluxMessage("I received an interface I could not display."));
+                return;
+            }
+            setSchema(next);
             
             // Speak response if available
-            if (data.voice_response) {
-                speak(data.voice_response);
+            if (next.voice_response) {
+                speak(next.voice_response);
             }
         } catch (err) {
             console.error(err);
@@ -249,7 +257,7 @@ export default function FluxEngine() {
                         ) : (
                             /* COMPONENT GRID (Existing) */
                             <div className="grid grid-cols-1 md:grid-cols-12 gap-6 pb-24">
-                                {schema.components.map((comp: any, idx: number) => (
+                                {schema.components.map((comp, idx) => (
                                     <motion.div 
                                         key={idx}
                                         initial={{ opacity: 0, y: 20 }}
@@ -276,7 +284,7 @@ export default function FluxEngine() {
 
                                         {comp.type === 'gallery' && (
                                             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                                                {comp.items.map((item: any, i: number) => (
+                                                {comp.items.map((item, i) => (
                                                     <div key={i} className="group relative aspect-[4/3] bg-zinc-900 rounded-2xl overflow-hidden border border-white/5 hover:border-indigo-500/50 transition-all cursor-pointer">
                                                         <div className="absolute inset-0 flex flex-col items-center justify-center text-white/10 group-hover:text-white/30 transition-colors">
                                                             <span className="text-4xl">🖼️</span>
@@ -299,9 +307,9 @@ export default function FluxEngine() {
                                                         </tr>
                                                     </thead>
                                                     <tbody className="divide-y divide-white/5">
-                                                        {comp.rows.map((row: string[], r: number) => (
+                                                        {comp.rows.map((row, r) => (
                                                             <tr key={r} className="hover:bg-white/5 transition-colors">
-                                                                {row.map((cell: any, c: any) => <td key={c} className="p-4 font-light">{cell}</td>)}
+                                                                {row.map((cell, c) => <td key={c} className="p-4 font-light">{cell}</td>)}
                                                             </tr>
                                                         ))}
                                                     </tbody>
@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Key, Mic, Activity, ChevronRight, Zap } from 'lucide-react'; // Added icons
+import { X, Key, Mic, Activity, ChevronRight, Zap, Server, Cpu, Terminal } from 'lucide-react'; // Added icons
 import { motion, AnimatePresence } from 'framer-motion';
+import { getLlmProviderInfo, LLM_PROVIDERS, LlmProviderId } from '@/services/llm-providers';
+import { jupyterKernelClient } from '@/services/jupyter-kernel-client';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -17,8 +19,30 @@ export type VoiceSettings = {
     elevenLabsKey?: string;
     elevenLabsVoiceId?: string;
     openRouterKey?: string;
+    // Flux engine model backend; empty model/base URL mean the provider's defaults
+    llmProvider?: LlmProviderId;
+    llmModel?: string;
+    llmBaseURL?: string;
+    llmApiKey?: string; // OpenAI-compatible server
+    anthropicKey?: string;
 };
 
+// Where each LLM provider's key is kept
+const LLM_KEY_FIELDS: Record<LlmProviderId, 'openRouterKey' | 'llmApiKey' | 'anthropicKey' | null> = {
+    'openrouter': 'openRouterKey',
+    'openai-compatible': 'llmApiKey',
+    'anthropic': 'anthropicKey',
+    'mock': null,
+};
+
+/**
+ * The API key of the selected LLM provider
+ */
+export function getLlmKey(settings: VoiceSettings): string | undefined {
+    const field = LLM_KEY_FIELDS[settings.llmProvider || 'openrouter'];
+    return field ? settings[field] : undefined;
+}
+
 interface ElevenLabsVoice {
     voice_id: string;
     name: string;
@@ -142,22 +166,173 @@ function ElevenLabsSettings({ settings, setSettings }: { settings: VoiceSettings
     );
 }
 
+function LlmSettings({ settings, setSettings }: { settings: VoiceSettings, setSettings: (s: VoiceSettings) => void }) {
+    const provider = settings.llmProvider || 'openrouter';
+    const info = getLlmProviderInfo(provider) || LLM_PROVIDERS[0];
+    const keyField = LLM_KEY_FIELDS[provider];
+    const model = settings.llmModel || info.defaultModel;
+
+    const field = (label: React.ReactNode, input: React.ReactNode) => (
+        <div className="space-y-2 group">
+            <label className="text-[10px] text-cyan-400/60 uppercase tracking-widest font-mono flex items-center gap-2">
+                {label}
+            </label>
+            <div className="flex gap-0 border-b border-white/10 group-focus-within:border-cyan-500/50 transition-colors relative">
+                {input}
+                <div className="absolute bottom-[-1px] left-0 w-0 h-[1px] bg-cyan-400 group-focus-within:w-full transition-all duration-500" />
+            </div>
+        </div>
+    );
+    const inputClass = "w-full bg-transparent px-0 py-3 text-white font-mono text-sm focus:outline-none placeholder:text-white/10";
+
+    return (
+        <div className="space-y-6">
+            {/* Provider Selector */}
+            <div className="space-y-3">
+                <label className="text-[10px] text-white/30 uppercase tracking-widest font-mono">Model Provider</label>
+                <div className="flex flex-wrap gap-2">
+                    {LLM_PROVIDERS.map((p) => (
+                        <button
+                            key={p.id}
+                            // Model and endpoint belong to the provider, so they start over from its defaults
+                            onClick={() => setSettings({ ...settings, llmProvider: p.id, llmModel: '', llmBaseURL: '' })}
+                            className={`
+                                px-4 py-2 text-[10px] font-mono tracking-wider uppercase border transition-all relative overflow-hidden
+                                ${provider === p.id
+                                    ? 'border-cyan-500/50 text-white bg-cyan-500/10 shadow-[0_0_15px_-5px_rgba(6,182,212,0.5)]'
+                                    : 'border-white/10 text-white/40 hover:border-white/20 hover:text-white'}
+                            `}
+                        >
+                            {p.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-4 pt-2 border-t border-white/5">
+                {keyField && field(
+                    <><Key className="w-3 h-3" /> {info.label} API Key{info.keyRequired ? '' : ' (optional)'}</>,
+                    <input
+                        type="password"
+                        value={settings[keyField] || ''}
+                        onChange={(e) => setSettings({ ...settings, [keyField]: e.target.value })}
+                        placeholder={provider === 'openrouter' ? 'sk-or-v1-...' : provider === 'anthropic' ? 'sk-ant-...' : 'not needed by most local servers'}
+                        className={inputClass}
+                    />
+                )}
+
+                {info.defaultBaseURL && field(
+                    <><Server className="w-3 h-3" /> Base URL</>,
+                    <input
+                        type="text"
+                        value={settings.llmBaseURL || ''}
+                        onChange={(e) => setSettings({ ...settings, llmBaseURL: e.target.value })}
+                        placeholder={info.defaultBaseURL}
+                        className={inputClass}
+                    />
+                )}
+
+                {provider !== 'mock' && field(
+                    <><Cpu className="w-3 h-3" /> Model</>,
+                    <input
+                        type="text"
+                        value={settings.llmModel || ''}
+                        onChange={(e) => setSettings({ ...settings, llmModel: e.target.value })}
+                        placeholder={info.defaultModel}
+                        className={inputClass}
+                    />
+                )}
+
+                <p className="text-[9px] text-white/20 font-mono pl-1 border-l border-white/10">
+                    {provider === 'mock'
+                        ? 'DETERMINISTIC RESPONSES WITHOUT A NETWORK. FOR TESTS AND DEMOS.'
+                        : `REQUIRED FOR FLUX ENGINE INTENT PARSING. TARGETING ${model.toUpperCase()}.`}
+                </p>
+            </div>
+        </div>
+    );
+}
+
+// The Jupyter Server connection; kept by the kernel client rather than in VoiceSettings
+type JupyterSettings = { baseUrl: string; token: string };
+
+const readJupyterSettings = (): JupyterSettings => {
+    const config = jupyterKernelClient.getConfig();
+    return { baseUrl: config?.baseUrl || '', token: config?.token || '' };
+};
+
+function KernelSettings({ jupyter, setJupyter }: { jupyter: JupyterSettings, setJupyter: (j: JupyterSettings) => void }) {
+    const inputClass = "w-full bg-transparent px-0 py-3 text-white font-mono text-sm focus:outline-none placeholder:text-white/10";
+    const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000';
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2 group">
+                <label className="text-[10px] text-cyan-400/60 uppercase tracking-widest font-mono flex items-center gap-2">
+                    <Server className="w-3 h-3" /> Jupyter Server URL
+                </label>
+                <div className="border-b border-white/10 group-focus-within:border-cyan-500/50 transition-colors relative">
+                    <input
+                        type="text"
+                        value={jupyter.baseUrl}
+                        onChange={(e) => setJupyter({ ...jupyter, baseUrl: e.target.value })}
+                        placeholder="http://localhost:8888"
+                        className={inputClass}
+                    />
+                    <div className="absolute bottom-[-1px] left-0 w-0 h-[1px] bg-cyan-400 group-focus-within:w-full transition-all duration-500" />
+                </div>
+            </div>
+
+            <div className="space-y-2 group">
+                <label className="text-[10px] text-cyan-400/60 uppercase tracking-widest font-mono flex items-center gap-2">
+                    <Key className="w-3 h-3" /> Token (optional)
+                </label>
+                <div className="border-b border-white/10 group-focus-within:border-cyan-500/50 transition-colors relative">
+                    <input
+                        type="password"
+                        value={jupyter.token}
+                        onChange={(e) => setJupyter({ ...jupyter, token: e.target.value })}
+                        placeholder="from the server's startup URL"
+                        className={inputClass}
+                    />
+                    <div className="absolute bottom-[-1px] left-0 w-0 h-[1px] bg-cyan-400 group-focus-within:w-full transition-all duration-500" />
+                </div>
+            </div>
+
+            <p className="text-[9px] text-white/20 font-mono pl-1 border-l border-white/10 leading-relaxed">
+                {jupyter.baseUrl
+                    ? `NOTEBOOK CELLS RUN ON THE SERVER'S KERNELS. START IT WITH --ServerApp.allow_origin='${origin}'.`
+                    : 'LEAVE EMPTY TO RUN CELLS IN THE BROWSER.'}
+            </p>
+        </div>
+    );
+}
+
 // --- Main Component ---
 
 export default function SettingsModal({ isOpen, onClose, onSave, initialSettings }: SettingsModalProps) {
     const [settings, setSettings] = useState<VoiceSettings>(initialSettings);
-    const [activeTab, setActiveTab] = useState<'voice' | 'llm'>('voice');
+    const [jupyter, setJupyter] = useState<JupyterSettings>(readJupyterSettings);
+    const [activeTab, setActiveTab] = useState<'voice' | 'llm' | 'kernels'>('voice');
 
     // Reset settings if modal opens/initialSettings change
     useEffect(() => {
         if (isOpen) {
             setSettings(initialSettings);
+            setJupyter(readJupyterSettings());
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isOpen]);
 
     const handleSave = () => {
         onSave(settings);
+        // Reconfiguring shuts down the kernels in use, so only when something changed
+        const current = readJupyterSettings();
+        const baseUrl = jupyter.baseUrl.trim();
+        if (baseUrl !== current.baseUrl || jupyter.token !== current.token) {
+            const config = jupyterKernelClient.getConfig();
+            jupyterKernelClient.configure(baseUrl ? { ...config, baseUrl, token: jupyter.token || undefined } : null);
+        }
         onClose();
     };
 
@@ -203,6 +378,7 @@ export default function SettingsModal({ isOpen, onClose, onSave, initialSettings
                         {[
                             { id: 'voice', label: 'VOICE SYNTHESIS', icon: Mic },
                             { id: 'llm', label: 'INTELLIGENCE', icon: Activity },
+                            { id: 'kernels', label: 'KERNELS', icon: Terminal },
                         ].map((tab) => (
                             <button
                                 key={tab.id}
@@ -234,26 +410,19 @@ export default function SettingsModal({ isOpen, onClose, onSave, initialSettings
                                     exit={{ opacity: 0, x: -10 }}
                                     className="space-y-6"
                                 >
-                                    <div className="space-y-4">
-                                        <div className="space-y-2 group">
-                                            <label className="text-[10px] text-cyan-400/60 uppercase tracking-widest font-mono flex items-center gap-2">
-                                                <Key className="w-3 h-3" /> OpenRouter Access Token
-                                            </label>
-                                            <div className="flex gap-0 border-b border-white/10 group-focus-within:border-cyan-500/50 transition-colors relative">
-                                                <input 
-                                                    type="password" 
-                                                    value={settings.openRouterKey || ''}
-                                                    onChange={(e) => setSettings({ ...settings, openRouterKey: e.target.value })}
-                                                    placeholder="sk-or-v1-..."
-                                                    className="w-full bg-transparent px-0 py-3 text-white font-mono text-sm focus:outline-none placeholder:text-white/10"
-                                                />
-                                                <div className="absolute bottom-[-1px] left-0 w-0 h-[1px] bg-cyan-400 group-focus-within:w-full transition-all duration-500" />
-                                            </div>
-                                            <p className="text-[9px] text-white/20 font-mono pl-1 border-l border-white/10">
-                                                REQUIRED FOR FLUX ENGINE INTENT PARSING. TARGETING GEMINI PRO 1.5.
-                                            </p>
-                                        </div>
-                                    </div>
+                                    <LlmSettings settings={settings} setSettings={setSettings} />
+                                </motion.div>
+                            )}
+
+                            {activeTab === 'kernels' && (
+                                <motion.div
+                                    key="kernels"
+                                    initial={{ opacity: 0, x: 10 }}
+                                    animate={{ opacity: 1, x: 0 }}
+                                    exit={{ opacity: 0, x: -10 }}
+                                    className="space-y-6"
+                                >
+                                    <KernelSettings jupyter={jupyter} setJupyter={setJupyter} />
                                 </motion.div>
                             )}
 
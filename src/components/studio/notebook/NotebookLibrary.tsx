@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Copy, FilePlus, Pencil, Trash2, X } from 'lucide-react';
+import { notebookStore, NotebookSummary } from '../../../services/notebook-store';
+
+interface NotebookLibraryProps {
+    activeId: string;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onRenamed: (id: string, name: string) => void;
+    onDeleted: (id: string) => void;
+    onClose: () => void;
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const formatUpdated = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString();
+};
+
+export default function NotebookLibrary({ activeId, onOpen, onNew, onRenamed, onDeleted, onClose }: NotebookLibraryProps) {
+    const [notebooks, setNotebooks] = useState<NotebookSummary[]>([]);
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        // Show pending autosaves too, so the open notebook is listed with its latest name
+        notebookStore.flush()
+            .then(() => notebookStore.list())
+            .then(list => {
+                if (!cancelled) setNotebooks(list);
+            })
+            .catch(err => {
+                if (!cancelled) setError(describeError(err));
+            });
+        const unsubscribe = notebookStore.onChange(setNotebooks);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        try {
+            await action();
+            setError(null);
+        } catch (err) {
+            setError(describeError(err));
+        }
+    };
+
+    const commitRename = () => {
+        if (!renaming) return;
+        const { id } = renaming;
+        const name = renaming.name.trim();
+        setRenaming(null);
+        if (!name) return;
+        const finalName = name.endsWith('.ipynb') ? name : `${name}.ipynb`;
+        void run(async () => {
+            await notebookStore.rename(id, finalName);
+            onRenamed(id, finalName);
+        });
+    };
+
+    const duplicate = (id: string) => run(async () => {
+        await notebookStore.duplicate(id);
+    });
+
+    const remove = (notebook: NotebookSummary) => {
+        if (!window.confirm(`Delete ${notebook.name}? This cannot be undone.`)) return;
+        void run(async () => {
+            await notebookStore.delete(notebook.id);
+            onDeleted(notebook.id);
+        });
+    };
+
+    return (
+        <aside className="w-72 shrink-0 flex flex-col border-r border-white/10 bg-zinc-900/40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+                <span className="text-xs uppercase tracking-wider text-white/40">Notebooks</span>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={onNew}
+                        className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10"
+                        title="New Notebook"
+                    >
+                        <FilePlus className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10"
+                        title="Close Library"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+            {error && (
+                <div className="px-4 py-2 text-xs font-mono text-red-400 bg-red-500/10 border-b border-red-500/20">
+                    {error}
+                </div>
+            )}
+            <div className="flex-1 overflow-y-auto">
+                {notebooks.length === 0 && !error && (
+                    <p className="px-4 py-6 text-xs text-white/30">Notebooks are saved here automatically as you edit.</p>
+                )}
+                {notebooks.map(notebook => {
+                    const isActive = notebook.id === activeId;
+                    const isRenaming = renaming?.id === notebook.id;
+                    return (
+                        <div
+                            key={notebook.id}
+                            onClick={() => !isActive && !isRenaming && onOpen(notebook.id)}
+                            className={`group px-4 py-2 border-b border-white/5 cursor-pointer ${isActive ? 'bg-cyan-500/5' : 'hover:bg-white/5'}`}
+                        >
+                            <div className="flex items-center gap-2">
+                                {isRenaming ? (
+                                    <input
+                                        autoFocus
+                                        value={renaming.name}
+                                        onChange={(e) => setRenaming({ id: notebook.id, name: e.target.value })}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setRenaming(null);
+                                        }}
+                                        className="flex-1 min-w-0 bg-black/30 rounded px-1.5 py-0.5 text-xs font-mono text-white/80 outline-none border border-cyan-500/30"
+                                        spellCheck={false}
+                                    />
+                                ) : (
+                                    <span className={`flex-1 min-w-0 truncate text-sm ${isActive ? 'text-cyan-400' : 'text-white/70'}`} title={notebook.name}>
+                                        {notebook.name}
+                                    </span>
+                                )}
+                                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setRenaming({ id: notebook.id, name: notebook.name.replace(/\.ipynb$/, '') });
+                                        }}
+                                        className="p-1 rounded text-white/30 hover:text-white hover:bg-white/10"
+                                        title="Rename"
+                                    >
+                                        <Pencil className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            void duplicate(notebook.id);
+                                        }}
+                                        className="p-1 rounded text-white/30 hover:text-white hover:bg-white/10"
+                                        title="Duplicate"
+                                    >
+                                        <Copy className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            remove(notebook);
+                                        }}
+                                        className="p-1 rounded text-white/30 hover:text-red-400 hover:bg-red-500/10"
+                                        title="Delete"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="mt-0.5 flex items-center gap-2 text-[10px] font-mono text-white/30">
+                                <span>{formatUpdated(notebook.updatedAt)}</span>
+                                <span>{notebook.cellCount} {notebook.cellCount === 1 ? 'cell' : 'cells'}</span>
+                                {notebook.languages.length > 0 && (
+                                    <span className="truncate">{notebook.languages.join(' · ')}</span>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </aside>
+    );
+}
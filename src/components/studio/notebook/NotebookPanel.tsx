@@ -1,25 +1,77 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
-import { Code, FileText, Play, Trash2, Plus, ChevronDown, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { Code, FileText, Play, Trash2, Plus, ChevronDown, RefreshCw, FolderOpen, Save, Download, Square, RotateCcw, Database, X, Variable, Library, Eye, Pencil, Keyboard, Undo2, Redo2, Eraser, GripVertical, ChevronUp, Scissors, Merge, ChevronsUp, ChevronsDown, Workflow, OctagonX } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { multiLanguageExecutionService, SupportedLanguage } from '../../../services/multi-language-execution-service';
+import { pythonExecutionService, KernelStatus } from '../../../services/python-execution-service';
+import {
+    jupyterNotebookService,
+    JupyterNotebook,
+    NotebookAttachments,
+    NotebookCell as JupyterCell,
+    NotebookOutput,
+} from '../../../services/jupyter-notebook-service';
+import { appendOutput, OutputMessage } from '../../../services/notebook-outputs';
+import { sqlExecutionService, SqlTableInfo } from '../../../services/sql-execution-service';
+import { notebookStore, createNotebookId, NotebookDraft } from '../../../services/notebook-store';
+import { chordFromEvent, notebookShortcuts, NotebookCommand, ShortcutMode } from '../../../services/notebook-shortcuts';
+import OutputArea from './outputs/OutputArea';
+import { MarkdownView } from './outputs/output-renderers';
+import VariablesPanel from './VariablesPanel';
+import NotebookLibrary from './NotebookLibrary';
+import CodeEditor from './editor/CodeEditor';
+import ShortcutsSheet from './ShortcutsSheet';
+import { applyChanges, CellChange, CellHistory, revertChanges } from './history';
+import { ExecutionQueue, QueuedCell, RunOutcome } from './execution-queue';
+import { buildDependencyGraph, DependencyGraph, downstreamOf, findStaleCells, upstreamOf } from './dependencies';
 
 type CellLanguage = 'vnc' | 'rust' | 'python' | 'sql' | 'javascript' | 'typescript' | 'bash' | 'html' | 'css' | 'json';
+// A cell language, or a notebook language the panel can't run (R, Julia, ...) kept as written
+type NotebookLanguage = CellLanguage | (string & {});
+
+type RunStatus = 'queued' | 'running' | 'done' | 'error';
+
+interface CellRun {
+    status?: RunStatus; // Absent for timing loaded from a saved notebook
+    startedAt?: number;
+    endedAt?: number;
+}
 
 interface NotebookCell {
     id: string;
-    type: 'code' | 'markdown';
-    language: CellLanguage;
+    type: 'code' | 'markdown' | 'raw';
+    language: NotebookLanguage;
     content: string;
-    output?: string;
-    isExecuting?: boolean;
+    outputs?: NotebookOutput[];
+    run?: CellRun;
     metadata?: {
         executionCount?: number;
         lastExecuted?: Date;
     };
+    // Raw nbformat cell metadata, carried through open/save untouched
+    jupyterMetadata?: Record<string, unknown>;
+    attachments?: NotebookAttachments;
+    // Code and run order of the last run, for finding stale cells in reactive mode
+    lastRun?: { source: string; order: number };
+    // The nbformat cell this was loaded from, so saving keeps its layout and unknown fields
+    original?: JupyterCell;
+    // Language the cell was opened with; its language metadata is only rewritten once this changes
+    loadedLanguage?: NotebookLanguage;
 }
 
+// Minimal typing for the File System Access API handle (Chromium only)
+interface NotebookFileHandle {
+    name: string;
+    getFile: () => Promise<File>;
+    createWritable: () => Promise<{ write: (data: Blob) => Promise<void>; close: () => Promise<void> }>;
+}
+
+type FilePickerWindow = Window & {
+    showOpenFilePicker?: (options: object) => Promise<NotebookFileHandle[]>;
+    showSaveFilePicker?: (options: object) => Promise<NotebookFileHandle>;
+};
+
 const languageOptions: { value: CellLanguage; label: string; icon: string; color: string }[] = [
     { value: 'vnc', label: 'NAVΛ (VNC)', icon: '⋋', color: 'text-emerald-400' },
     { value: 'python', label: 'Python', icon: '🐍', color: 'text-yellow-400' },
@@ -33,12 +85,103 @@ const languageOptions: { value: CellLanguage; label: string; icon: string; color
     { value: 'json', label: 'JSON', icon: '{}', color: 'text-gray-300' },
 ];
 
+const NOTEBOOK_FILE_TYPES = [{ description: 'Jupyter Notebook', accept: { 'application/x-ipynb+json': ['.ipynb'] } }];
+
+// Map a notebook/kernel language name onto the panel's cell languages; others are kept as they are
+const toCellLanguage = (language: string): NotebookLanguage => {
+    const normalized = language.toLowerCase();
+    if (normalized === 'navlambda') return 'vnc';
+    if (normalized === 'shell' || normalized === 'sh') return 'bash';
+    const known = languageOptions.find(l => l.value === normalized);
+    return known ? known.value : language;
+};
+
+// The execution service's name for a cell language ('R' runs on an 'r' kernel)
+const executionLanguage = (language: NotebookLanguage): SupportedLanguage => {
+    const normalized = language.toLowerCase();
+    return (normalized === 'vnc' ? 'navlambda' : normalized) as SupportedLanguage;
+};
+
+const KERNEL_STATUS_STYLES: Record<KernelStatus, { label: string; dot: string }> = {
+    starting: { label: 'Starting', dot: 'bg-amber-400 animate-pulse' },
+    idle: { label: 'Idle', dot: 'bg-emerald-400' },
+    busy: { label: 'Busy', dot: 'bg-cyan-400 animate-pulse' },
+    dead: { label: 'Offline', dot: 'bg-white/20' },
+};
+
+// How long the first key of a two-key shortcut (D, D) waits for the second
+const CHORD_TIMEOUT_MS = 1000;
+
+const REACTIVE_STORAGE_KEY = 'nava_notebook_reactive';
+const STOP_ON_ERROR_STORAGE_KEY = 'nava_notebook_stop_on_error';
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+const isPending = (run?: CellRun) => run?.status === 'queued' || run?.status === 'running';
+
+// A removed cell is kept for undo without the run it was waiting for or in the middle of
+const withoutPendingRun = <T extends { run?: CellRun }>(cell: T): T => isPending(cell.run) ? { ...cell, run: undefined } : cell;
+
+const formatDuration = (ms: number) => {
+    if (ms < 1000) return `${Math.round(ms)}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+// Gutter label for a cell's run: its state while queued or running, then how long it took
+function describeRun(run: CellRun | undefined, now: number): { label: string; className: string; title: string } | null {
+    if (run?.status === 'queued') {
+        return { label: 'queued', className: 'text-white/40', title: 'Waiting for the cells queued before it' };
+    }
+    if (!run || run.startedAt === undefined) return null;
+    const started = new Date(run.startedAt).toLocaleTimeString();
+    if (run.status === 'running') {
+        return { label: `${Math.floor(Math.max(0, now - run.startedAt) / 1000)}s`, className: 'text-cyan-400', title: `Running since ${started}` };
+    }
+    if (run.endedAt === undefined) return null;
+    const took = formatDuration(run.endedAt - run.startedAt);
+    return {
+        label: took,
+        className: run.status === 'error' ? 'text-red-400/70' : run.status === 'done' ? 'text-emerald-400/60' : 'text-white/30',
+        title: `${run.status === 'error' ? 'Failed' : 'Ran'} at ${started}, took ${took}`,
+    };
+}
+
+// Jupyter's `execution` cell metadata, in the form JupyterLab records it
+const executionMetadata = (startedAt: number, endedAt: number) => {
+    const started = new Date(startedAt).toISOString();
+    const ended = new Date(endedAt).toISOString();
+    return {
+        'iopub.status.busy': started,
+        'iopub.execute_input': started,
+        'shell.execute_reply.started': started,
+        'shell.execute_reply': ended,
+        'iopub.status.idle': ended,
+    };
+};
+
+function runFromMetadata(metadata?: Record<string, unknown>): CellRun | undefined {
+    const execution = metadata?.execution;
+    if (!execution || typeof execution !== 'object') return undefined;
+    const time = (...keys: string[]) => keys
+        .map(key => (execution as Record<string, unknown>)[key])
+        .map(value => typeof value === 'string' ? Date.parse(value) : NaN)
+        .find(Number.isFinite);
+    const startedAt = time('iopub.status.busy', 'shell.execute_reply.started', 'iopub.execute_input');
+    const endedAt = time('shell.execute_reply', 'iopub.status.idle');
+    return startedAt !== undefined && endedAt !== undefined ? { startedAt, endedAt } : undefined;
+}
+
+const createSessionId = () => `notebook-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+// Random enough that cells created in the same millisecond (split, undo/redo of inserts) never share an id
+const createCellId = () => `cell-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
 export default function NotebookPanel() {
     const [cells, setCells] = useState<NotebookCell[]>([
         {
             id: '1',
             type: 'markdown',
-            language: 'vnc',
+            language: 'python',
             content: '# NAVΛ Studio Notebook\n\nInteractive multi-language computational notebook powered by **Flux Engine**.\n\n**Supported Languages:** VNC, Rust, Python, SQL, JavaScript, TypeScript, Bash',
         },
         {
@@ -46,137 +189,893 @@ export default function NotebookPanel() {
             type: 'code',
             language: 'python',
             content: 'import numpy as np\nimport matplotlib.pyplot as plt\n\n# Generate navigation data\npoints = np.random.rand(10, 2)\nprint(f"Generated {len(points)} navigation points")',
-            output: '',
+            outputs: [],
             metadata: { executionCount: 0 },
         },
     ]);
 
     const [activeCell, setActiveCell] = useState<string | null>(null);
     const [showLanguageMenu, setShowLanguageMenu] = useState<string | null>(null);
+    // The markdown cell showing its editor; every other markdown cell is rendered
+    const [editingMarkdown, setEditingMarkdown] = useState<string | null>(null);
+    const [notebookMetadata, setNotebookMetadata] = useState<JupyterNotebook['metadata'] | undefined>(undefined);
+    const [sourceNotebook, setSourceNotebook] = useState<JupyterNotebook | undefined>(undefined);
+    const [fileName, setFileName] = useState('Untitled.ipynb');
+    const [fileHandle, setFileHandle] = useState<NotebookFileHandle | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [kernelStatus, setKernelStatus] = useState<KernelStatus>(() => pythonExecutionService.getKernelStatus());
+    // Controller for the cell currently running; Stop aborts it
+    const runControllerRef = useRef<AbortController | null>(null);
+    const queueRef = useRef(new ExecutionQueue());
+    // Live outputs waiting for the next animation frame, keyed by cell id
+    const liveOutputsRef = useRef(new Map<string, OutputMessage[]>());
+    const liveFrameRef = useRef<number | null>(null);
+    // Each opened notebook gets its own SQL database
+    const [sessionId, setSessionId] = useState(createSessionId);
+    const [sqlTables, setSqlTables] = useState<SqlTableInfo[]>([]);
+    const dataInputRef = useRef<HTMLInputElement>(null);
+    const [showVariables, setShowVariables] = useState(false);
+    // Library entry the panel autosaves into; restored from IndexedDB on mount
+    const [notebookId, setNotebookId] = useState(createNotebookId);
+    const [libraryReady, setLibraryReady] = useState(false);
+    const [showLibrary, setShowLibrary] = useState(false);
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const cellsContainerRef = useRef<HTMLDivElement>(null);
+    const pendingChordRef = useRef<{ keys: string; at: number } | null>(null);
+    const historyRef = useRef(new CellHistory<NotebookCell>());
+    // Labels of the next undo and redo, for the toolbar
+    const [historyLabels, setHistoryLabels] = useState<{ undo: string | null; redo: string | null }>({ undo: null, redo: null });
+    const [draggedCell, setDraggedCell] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null);
+    // Reactive mode: running a cell also runs the cells that depend on it
+    const [reactive, setReactive] = useState(() =>
+        typeof localStorage !== 'undefined' && localStorage.getItem(REACTIVE_STORAGE_KEY) === 'true'
+    );
+    // The latest cells, for runs that outlive the render that started them
+    const cellsRef = useRef(cells);
+    const runOrderRef = useRef(0);
+    const [stopOnError, setStopOnError] = useState(() =>
+        typeof localStorage === 'undefined' || localStorage.getItem(STOP_ON_ERROR_STORAGE_KEY) !== 'false'
+    );
+    // Clock for the elapsed time of the running cell
+    const [now, setNow] = useState(() => Date.now());
+
+    useLayoutEffect(() => {
+        cellsRef.current = cells;
+    }, [cells]);
+
+    // Track the Python kernel so the toolbar reflects its state
+    useEffect(() => pythonExecutionService.onKernelStatusChange(setKernelStatus), []);
+
+    useEffect(() => () => {
+        if (liveFrameRef.current !== null) cancelAnimationFrame(liveFrameRef.current);
+    }, []);
+
+    // Follow the session's attached tables and release the session's runtimes when the notebook goes away
+    useEffect(() => {
+        setSqlTables([]);
+        const unsubscribe = sqlExecutionService.onTablesChange((changed, tables) => {
+            if (changed === sessionId) setSqlTables(tables);
+        });
+        return () => {
+            unsubscribe();
+            multiLanguageExecutionService.closeSession(sessionId);
+        };
+    }, [sessionId]);
 
-    // Initial Pyodide Load Check
+    // Reopen the notebook that was open before the overlay closed or the page reloaded
     useEffect(() => {
-        // Can optionally trigger warm-up here
+        let cancelled = false;
+        const restore = async () => {
+            const activeId = notebookStore.isAvailable() ? notebookStore.getActiveId() : null;
+            const stored = activeId ? await notebookStore.get(activeId) : undefined;
+            if (!cancelled && stored) {
+                loadNotebook(stored.json, stored.name, stored.id, stored.cellLanguages);
+            }
+        };
+        restore()
+            .catch(error => setFileError(`Could not restore the notebook: ${describeError(error)}`))
+            .finally(() => {
+                if (!cancelled) setLibraryReady(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+        // Mount only: restoring again would discard the user's edits
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    const addCell = (type: 'code' | 'markdown', language: CellLanguage = 'python') => {
-        const newCell: NotebookCell = {
-            id: Date.now().toString(),
-            type,
-            language,
-            content: '',
-            metadata: type === 'code' ? { executionCount: 0 } : undefined,
+    // Autosave: writes are debounced in the store, and the notebook JSON is only built when one happens
+    useEffect(() => {
+        if (!libraryReady || !notebookStore.isAvailable()) return;
+        notebookStore.scheduleSave(notebookId, buildDraft);
+        notebookStore.setActiveId(notebookId);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [cells, fileName, notebookMetadata, notebookId, libraryReady]);
+
+    // Write pending changes before the page goes away
+    useEffect(() => {
+        if (!notebookStore.isAvailable()) return;
+        const flush = () => {
+            void notebookStore.flush().catch(error => console.warn('Notebook autosave failed:', error));
         };
-        setCells([...cells, newCell]);
-        setActiveCell(newCell.id);
+        const flushWhenHidden = () => {
+            if (document.visibilityState === 'hidden') flush();
+        };
+        window.addEventListener('pagehide', flush);
+        document.addEventListener('visibilitychange', flushWhenHidden);
+        return () => {
+            window.removeEventListener('pagehide', flush);
+            document.removeEventListener('visibilitychange', flushWhenHidden);
+            flush();
+        };
+    }, []);
+
+    // Apply a cell operation and record it for undo
+    const commit = (
+        label: string,
+        changes: CellChange<NotebookCell>[],
+        options: { cellId?: string; coalesceKey?: string } = {}
+    ) => {
+        if (changes.length === 0) return;
+        setCells(prev => applyChanges(prev, changes));
+        historyRef.current.record({ label, changes, ...options });
+        syncHistory();
     };
 
-    const insertCellAfter = (afterId: string, type: 'code' | 'markdown', language: CellLanguage = 'python') => {
-        const index = cells.findIndex(c => c.id === afterId);
-        const newCell: NotebookCell = {
-            id: Date.now().toString(),
-            type,
-            language,
-            content: '',
-            metadata: type === 'code' ? { executionCount: 0 } : undefined,
-        };
-        const newCells = [...cells];
-        newCells.splice(index + 1, 0, newCell);
-        setCells(newCells);
+    const syncHistory = () => {
+        setHistoryLabels({
+            undo: historyRef.current.nextUndo()?.label ?? null,
+            redo: historyRef.current.nextRedo()?.label ?? null,
+        });
+    };
+
+    const resetHistory = () => {
+        historyRef.current.clear();
+        syncHistory();
+    };
+
+    const undo = () => {
+        const entry = historyRef.current.undo();
+        if (!entry) return;
+        setCells(prev => revertChanges(prev, entry.changes));
+        syncHistory();
+        const cellId = entry.cellId;
+        if (cellId && revertChanges(cells, entry.changes).some(cell => cell.id === cellId)) selectCell(cellId);
+    };
+
+    const redo = () => {
+        const entry = historyRef.current.redo();
+        if (!entry) return;
+        setCells(prev => applyChanges(prev, entry.changes));
+        syncHistory();
+        const cellId = entry.cellId;
+        if (cellId && applyChanges(cells, entry.changes).some(cell => cell.id === cellId)) selectCell(cellId);
+    };
+
+    const createCell = (type: NotebookCell['type'], language: NotebookLanguage, content = '', id = createCellId()): NotebookCell => ({
+        id,
+        type,
+        language,
+        content,
+        outputs: type === 'code' ? [] : undefined,
+        metadata: type === 'code' ? { executionCount: 0 } : undefined,
+    });
+
+    const addCell = (type: 'code' | 'markdown', language: NotebookLanguage = 'python') => {
+        insertCellAt(cells.length, type, language);
+    };
+
+    const insertCellAt = (index: number, type: 'code' | 'markdown', language: NotebookLanguage = 'python'): string => {
+        const newCell = createCell(type, language);
+        commit('Insert cell', [{ type: 'insert', index, cell: newCell }], { cellId: newCell.id });
         setActiveCell(newCell.id);
+        if (type === 'markdown') setEditingMarkdown(newCell.id);
+        return newCell.id;
     };
 
+    const insertCellAfter = (afterId: string, type: 'code' | 'markdown', language: NotebookLanguage = 'python') =>
+        insertCellAt(cells.findIndex(c => c.id === afterId) + 1, type, language);
+
+    // Typing in one cell is undone in bursts rather than a keystroke at a time
     const updateCell = (id: string, content: string) => {
-        setCells(cells.map(cell =>
-            cell.id === id ? { ...cell, content } : cell
-        ));
+        const cell = cells.find(c => c.id === id);
+        if (!cell || cell.content === content) return;
+        commit('Edit cell', [{ type: 'update', id, before: { content: cell.content }, after: { content } }], {
+            cellId: id,
+            coalesceKey: `edit:${id}`,
+        });
     };
 
     const changeCellLanguage = (id: string, language: CellLanguage) => {
-        setCells(cells.map(cell =>
-            cell.id === id ? { ...cell, language } : cell
-        ));
+        const cell = cells.find(c => c.id === id);
         setShowLanguageMenu(null);
+        if (!cell || cell.language === language) return;
+        commit('Change language', [{ type: 'update', id, before: { language: cell.language }, after: { language } }], { cellId: id });
     };
 
     const deleteCell = (id: string) => {
-        setCells(cells.filter(cell => cell.id !== id));
+        const index = cells.findIndex(cell => cell.id === id);
+        if (index === -1) return;
+        queueRef.current.cancel(id);
+        commit('Delete cell', [{ type: 'remove', index, cell: withoutPendingRun(cells[index]) }], { cellId: id });
     };
 
-    const executeCell = async (id: string) => {
+    const changeCellType = (id: string, type: NotebookCell['type']) => {
         const cell = cells.find(c => c.id === id);
-        if (!cell || cell.type !== 'code') return;
+        if (!cell || cell.type === type) return;
+        // Outputs and execution counts only belong to code cells
+        const after: Partial<NotebookCell> = type === 'code'
+            ? { type, outputs: [], metadata: { executionCount: 0 } }
+            : { type, outputs: undefined, metadata: undefined };
+        commit('Change cell type', [{
+            type: 'update',
+            id,
+            before: { type: cell.type, outputs: cell.outputs, metadata: cell.metadata },
+            after,
+        }], { cellId: id });
+    };
+
+    const clearOutputs = (ids: string[]) => {
+        const changes: CellChange<NotebookCell>[] = cells
+            .filter(cell => ids.includes(cell.id) && cell.outputs && cell.outputs.length > 0)
+            .map(cell => ({ type: 'update', id: cell.id, before: { outputs: cell.outputs }, after: { outputs: [] } }));
+        commit(ids.length === 1 ? 'Clear output' : 'Clear all outputs', changes, { cellId: ids.length === 1 ? ids[0] : undefined });
+    };
+
+    const moveCell = (id: string, to: number) => {
+        const from = cells.findIndex(cell => cell.id === id);
+        if (from === -1 || to < 0 || to >= cells.length || to === from) return;
+        commit('Move cell', [{ type: 'move', id, from, to }], { cellId: id });
+    };
+
+    // Drop a dragged cell before or after another one
+    const dropCell = (id: string, targetId: string, after: boolean) => {
+        const from = cells.findIndex(cell => cell.id === id);
+        let to = cells.findIndex(cell => cell.id === targetId) + (after ? 1 : 0);
+        if (from === -1 || to === -1) return;
+        if (from < to) to--;
+        moveCell(id, to);
+    };
+
+    /**
+     * Split a cell at its editor's cursor; a selection becomes a cell of its own
+     */
+    const splitCell = (id: string) => {
+        const index = cells.findIndex(cell => cell.id === id);
+        const cell = cells[index];
+        const textarea = cellElement(id)?.querySelector('textarea');
+        if (!cell || !textarea) return;
+        const { selectionStart, selectionEnd } = textarea;
+        const cuts = selectionStart === selectionEnd ? [selectionStart] : [selectionStart, selectionEnd];
+        const bounds = [0, ...cuts, cell.content.length];
+        // Each piece loses the line break at the cut
+        const parts = bounds.slice(1).map((end, i) => {
+            let part = cell.content.slice(bounds[i], end);
+            if (i > 0) part = part.replace(/^\n/, '');
+            if (i < bounds.length - 2) part = part.replace(/\n$/, '');
+            return part;
+        });
+        const created = parts.slice(1).map(content => createCell(cell.type, cell.language, content));
+        commit('Split cell', [
+            { type: 'update', id, before: { content: cell.content }, after: { content: parts[0] } },
+            ...created.map((newCell, i): CellChange<NotebookCell> => ({ type: 'insert', index: index + 1 + i, cell: newCell })),
+        ], { cellId: id });
+        editCell(created[0].id, cell.type);
+    };
+
+    const mergeCellBelow = (id: string) => {
+        const index = cells.findIndex(cell => cell.id === id);
+        const cell = cells[index];
+        const next = cells[index + 1];
+        if (!cell || !next) return;
+        const before: Partial<NotebookCell> = { content: cell.content };
+        const after: Partial<NotebookCell> = { content: [cell.content, next.content].filter(Boolean).join('\n\n') };
+        if (cell.type === 'code') {
+            // The merged code hasn't run, so neither output applies
+            before.outputs = cell.outputs;
+            after.outputs = [];
+        }
+        if (next.attachments) {
+            before.attachments = cell.attachments;
+            after.attachments = { ...cell.attachments, ...next.attachments };
+        }
+        queueRef.current.cancel(next.id);
+        commit('Merge cells', [
+            { type: 'update', id, before, after },
+            { type: 'remove', index: index + 1, cell: withoutPendingRun(next) },
+        ], { cellId: id });
+        selectCell(id);
+    };
+
+    const cellElement = (id: string) =>
+        cellsContainerRef.current?.querySelector<HTMLElement>(`[data-cell-id="${CSS.escape(id)}"]`) ?? null;
+
+    // Select a cell in command mode; focusing waits a frame so a cell added in the same update exists
+    const selectCell = (id: string) => {
+        setActiveCell(id);
+        requestAnimationFrame(() => {
+            const element = cellElement(id);
+            element?.focus({ preventScroll: true });
+            element?.scrollIntoView({ block: 'nearest' });
+        });
+    };
 
+    // Put a cell into edit mode
+    const editCell = (id: string, type = cells.find(cell => cell.id === id)?.type) => {
+        setActiveCell(id);
+        if (type === 'markdown') {
+            // The markdown editor focuses itself when it mounts
+            setEditingMarkdown(id);
+            return;
+        }
+        requestAnimationFrame(() => cellElement(id)?.querySelector('textarea')?.focus());
+    };
+
+    // Apply queued live outputs at most once per frame so chatty cells don't re-render per line
+    const flushLiveOutputs = () => {
+        liveFrameRef.current = null;
+        const queued = liveOutputsRef.current;
+        if (queued.size === 0) return;
+        liveOutputsRef.current = new Map();
+        setCells(prev => prev.map(c => {
+            const messages = queued.get(c.id);
+            return messages ? { ...c, outputs: messages.reduce(appendOutput, c.outputs || []) } : c;
+        }));
+    };
+
+    const queueLiveOutput = (id: string, output: OutputMessage) => {
+        const queued = liveOutputsRef.current.get(id) || [];
+        queued.push(output);
+        liveOutputsRef.current.set(id, queued);
+        if (liveFrameRef.current === null) {
+            liveFrameRef.current = requestAnimationFrame(flushLiveOutputs);
+        }
+    };
+
+    // Runs a cell right away; everything else goes through queueCell. Resolves
+    // to whether the cell ran without an error
+    const executeCell = async (id: string): Promise<boolean> => {
+        const cell = cellsRef.current.find(c => c.id === id);
+        if (!cell || cell.type !== 'code') return false;
+
+        const startedAt = Date.now();
         setCells(prev => prev.map(c =>
-            c.id === id ? { ...c, isExecuting: true } : c
+            c.id === id ? { ...c, run: { status: 'running', startedAt }, outputs: [] } : c
         ));
 
         const executionCount = (cell.metadata?.executionCount || 0) + 1;
+        const controller = new AbortController();
+        runControllerRef.current = controller;
 
         try {
-            let lang: SupportedLanguage = cell.language as SupportedLanguage;
-            if ((lang as string) === 'vnc') lang = 'navlambda';
-
             const result = await multiLanguageExecutionService.executeCode(
-                lang as SupportedLanguage,
-                cell.content
+                executionLanguage(cell.language),
+                cell.content,
+                { signal: controller.signal, sessionId, cellId: id, onOutput: output => queueLiveOutput(id, output) }
             );
-
-            // Process Output
-            let output = '';
-            if (result.outputs) {
-                // If we get an image, display execution count but handle rich output differently if we had a renderer
-                // For now, text representation
-                output = result.outputs.map(o => {
-                    if (o.output_type === 'stream') return o.text;
-                    if (o.output_type === 'execute_result' || o.output_type === 'display_data') {
-                        return o.data?.['text/plain'] || JSON.stringify(o.data, null, 2);
-                    }
-                    if (o.output_type === 'error') return `${o.ename}: ${o.evalue}\n${o.traceback?.join('\n')}`;
-                    return '';
-                }).join('\n');
-            }
+            // The result carries every output, so live ones still queued are superseded
+            liveOutputsRef.current.delete(id);
+            const lastRun = { source: cell.content, order: ++runOrderRef.current };
 
             setCells(prev => prev.map(c =>
                 c.id === id
                     ? {
                         ...c,
-                        isExecuting: false,
-                        output: output || (result.success ? '✓ Executed successfully' : 'Execution failed'),
+                        run: { status: result.success ? 'done' : 'error', startedAt, endedAt: Date.now() },
+                        outputs: result.outputs || [],
                         metadata: {
                             executionCount: result.execution_count || executionCount,
                             lastExecuted: new Date()
-                        }
+                        },
+                        lastRun,
                     }
                     : c
             ));
+            return result.success;
         } catch (error: any) {
+            liveOutputsRef.current.delete(id);
+            const lastRun = { source: cell.content, order: ++runOrderRef.current };
             setCells(prev => prev.map(c =>
                 c.id === id
                     ? {
                         ...c,
-                        isExecuting: false,
-                        output: `Execution Error: ${error.message || String(error)}`,
+                        run: { status: 'error', startedAt, endedAt: Date.now() },
+                        outputs: [{
+                            output_type: 'error',
+                            ename: 'ExecutionError',
+                            evalue: error.message || String(error),
+                            traceback: [],
+                        }],
                         metadata: {
                             executionCount,
                             lastExecuted: new Date()
-                        }
+                        },
+                        lastRun,
                     }
                     : c
             ));
+            return false;
+        } finally {
+            if (runControllerRef.current === controller) {
+                runControllerRef.current = null;
+            }
+        }
+    };
+
+    // Queue a code cell; it shows as queued until it starts, and goes back to
+    // its last state if it is cancelled or skipped
+    const queueCell = (id: string, options: Pick<QueuedCell, 'skip' | 'settled'> = {}): Promise<RunOutcome> => {
+        const previous = cellsRef.current.find(cell => cell.id === id)?.run?.status;
+        setCells(prev => prev.map(c =>
+            c.id === id && c.type === 'code' && !isPending(c.run) ? { ...c, run: { ...c.run, status: 'queued' } } : c
+        ));
+        return queueRef.current.enqueue({
+            id,
+            run: () => executeCell(id),
+            skip: options.skip,
+            settled: outcome => {
+                if (outcome === 'cancelled') {
+                    setCells(prev => prev.map(c =>
+                        c.id === id && c.run?.status === 'queued' ? { ...c, run: { ...c.run, status: previous } } : c
+                    ));
+                }
+                options.settled?.(outcome);
+            },
+        });
+    };
+
+    // Queue cells as one run. A failure cancels the rest when stop-on-error is
+    // on; with a dependency graph it always skips the cells that depend on it
+    const runCells = async (ids: string[], graph: DependencyGraph | null) => {
+        const failed = new Set<string>();
+        let stopped = false;
+        await Promise.all(ids.map(id => queueCell(id, {
+            skip: () => stopped || !!graph?.parents.get(id)?.some(parent => failed.has(parent)),
+            settled: outcome => {
+                if (outcome === 'ok') return;
+                failed.add(id);
+                if (outcome === 'failed' && stopOnError) stopped = true;
+            },
+        })));
+    };
+
+    const currentGraph = () => reactive ? buildDependencyGraph(cellsRef.current) : null;
+
+    // Code cells above a cell, or from it down, in notebook order
+    const codeCellsAround = (id: string, below: boolean) => {
+        const current = cellsRef.current;
+        const index = current.findIndex(cell => cell.id === id);
+        if (index === -1) return [];
+        return (below ? current.slice(index) : current.slice(0, index))
+            .filter(cell => cell.type === 'code')
+            .map(cell => cell.id);
+    };
+
+    const executeAllCells = () => {
+        const graph = currentGraph();
+        const ids = graph ? graph.order : cellsRef.current.filter(cell => cell.type === 'code').map(cell => cell.id);
+        return runCells(ids, graph);
+    };
+
+    // In reactive mode: the cells this one depends on
+    const runCellsAbove = (id: string) => {
+        const graph = currentGraph();
+        void runCells(graph?.parents.has(id) ? upstreamOf(graph, id) : codeCellsAround(id, false), graph);
+    };
+
+    // In reactive mode: this cell and the cells that depend on it
+    const runCellAndBelow = (id: string) => {
+        const graph = currentGraph();
+        void runCells(graph?.parents.has(id) ? [id, ...downstreamOf(graph, id)] : codeCellsAround(id, true), graph);
+    };
+
+    const toggleStopOnError = () => {
+        localStorage.setItem(STOP_ON_ERROR_STORAGE_KEY, String(!stopOnError));
+        setStopOnError(!stopOnError);
+    };
+
+    const toggleReactive = () => {
+        localStorage.setItem(REACTIVE_STORAGE_KEY, String(!reactive));
+        setReactive(!reactive);
+    };
+
+    // Run a code cell, and its dependents in reactive mode; "running" a markdown cell renders it
+    const runCell = (id: string) => {
+        const cell = cells.find(c => c.id === id);
+        if (cell?.type === 'code') {
+            if (reactive) {
+                runCellAndBelow(id);
+            } else {
+                void queueCell(id);
+            }
+        } else if (cell?.type === 'markdown') {
+            setEditingMarkdown(null);
+            selectCell(id);
+        }
+    };
+
+    const runCommand = (command: NotebookCommand, id: string | null) => {
+        switch (command) {
+            case 'show-shortcuts':
+                setShowShortcuts(true);
+                return;
+            case 'save':
+                void saveNotebook();
+                return;
+            case 'interrupt':
+                stopExecution();
+                return;
+            case 'restart':
+                void restartKernel();
+                return;
+            case 'undo':
+                undo();
+                return;
+            case 'redo':
+                redo();
+                return;
+        }
+
+        const index = cells.findIndex(cell => cell.id === id);
+        if (index === -1) {
+            if ((command === 'select-next' || command === 'select-previous') && cells.length > 0) selectCell(cells[0].id);
+            return;
+        }
+        const cell = cells[index];
+        const language = cell.type === 'code' ? cell.language : 'python';
+        switch (command) {
+            case 'enter-edit':
+                editCell(cell.id);
+                break;
+            case 'command-mode':
+                selectCell(cell.id);
+                break;
+            case 'run-cell':
+                runCell(cell.id);
+                break;
+            case 'run-cell-select-below':
+                runCell(cell.id);
+                if (index + 1 < cells.length) {
+                    selectCell(cells[index + 1].id);
+                } else {
+                    editCell(insertCellAt(index + 1, 'code', language));
+                }
+                break;
+            case 'run-cell-insert-below':
+                runCell(cell.id);
+                editCell(insertCellAt(index + 1, 'code', language));
+                break;
+            case 'run-above':
+                runCellsAbove(cell.id);
+                break;
+            case 'run-below':
+                runCellAndBelow(cell.id);
+                break;
+            case 'insert-above':
+                selectCell(insertCellAt(index, 'code', language));
+                break;
+            case 'insert-below':
+                selectCell(insertCellAt(index + 1, 'code', language));
+                break;
+            case 'delete-cell': {
+                deleteCell(cell.id);
+                const neighbour = cells[index + 1] ?? cells[index - 1];
+                if (neighbour) {
+                    selectCell(neighbour.id);
+                } else {
+                    setActiveCell(null);
+                }
+                break;
+            }
+            case 'move-up':
+                moveCell(cell.id, index - 1);
+                selectCell(cell.id);
+                break;
+            case 'move-down':
+                moveCell(cell.id, index + 1);
+                selectCell(cell.id);
+                break;
+            case 'split-cell':
+                splitCell(cell.id);
+                break;
+            case 'merge-below':
+                mergeCellBelow(cell.id);
+                break;
+            case 'clear-outputs':
+                clearOutputs([cell.id]);
+                break;
+            case 'to-code':
+                changeCellType(cell.id, 'code');
+                break;
+            case 'to-markdown':
+                changeCellType(cell.id, 'markdown');
+                break;
+            case 'to-raw':
+                changeCellType(cell.id, 'raw');
+                break;
+            case 'select-previous':
+                if (index > 0) selectCell(cells[index - 1].id);
+                break;
+            case 'select-next':
+                if (index + 1 < cells.length) selectCell(cells[index + 1].id);
+                break;
+        }
+    };
+
+    // Keys typed into an editor or input are edit mode; anywhere else in the cells, command mode
+    const handleShortcutKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.defaultPrevented || e.nativeEvent.isComposing) return;
+        const target = e.target as HTMLElement;
+        const mode: ShortcutMode = target.closest('textarea, input, select, [contenteditable="true"]') ? 'edit' : 'command';
+        // Focused buttons keep their own activation keys
+        if (mode === 'command' && target.closest('button') && (e.key === 'Enter' || e.key === ' ')) return;
+        const chord = chordFromEvent(e);
+        if (!chord) return;
+
+        const pending = pendingChordRef.current;
+        pendingChordRef.current = null;
+        const sequence = pending && e.timeStamp - pending.at < CHORD_TIMEOUT_MS ? `${pending.keys} ${chord}` : null;
+        const command = (sequence && notebookShortcuts.lookup(mode, sequence)) || notebookShortcuts.lookup(mode, chord);
+        if (command) {
+            e.preventDefault();
+            runCommand(command, target.closest<HTMLElement>('[data-cell-id]')?.dataset.cellId ?? activeCell);
+        } else if (notebookShortcuts.isPrefix(mode, chord)) {
+            e.preventDefault();
+            pendingChordRef.current = { keys: chord, at: e.timeStamp };
+        }
+    };
+
+    // Stop cancels every queued cell as well as the one running
+    const stopExecution = () => {
+        queueRef.current.cancelAll();
+        runControllerRef.current?.abort();
+    };
+
+    const restartKernel = async () => {
+        if (!window.confirm('Restart the kernels? All variables will be lost.')) return;
+        stopExecution();
+        try {
+            await multiLanguageExecutionService.restartKernels();
+            // Nothing has run in the new kernels, so nothing is stale either
+            setCells(prev => prev.map(c =>
+                c.type === 'code' ? { ...c, metadata: { ...c.metadata, executionCount: 0 }, lastRun: undefined } : c
+            ));
+        } catch (error) {
+            setFileError(describeError(error));
+        }
+    };
+
+    const handleDataInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        try {
+            for (const file of files) {
+                await sqlExecutionService.attachFile(sessionId, file);
+            }
+            setFileError(null);
+        } catch (error) {
+            setFileError(`Could not attach data: ${describeError(error)}`);
+        }
+    };
+
+    const detachTable = async (name: string) => {
+        try {
+            await sqlExecutionService.detachTable(sessionId, name);
+        } catch (error) {
+            setFileError(describeError(error));
+        }
+    };
+
+    const isRunning = cells.some(c => isPending(c.run));
+    const hasRunningCell = cells.some(c => c.run?.status === 'running');
+
+    useEffect(() => {
+        if (!hasRunningCell) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, [hasRunningCell]);
+    const dependencyGraph = useMemo(() => reactive ? buildDependencyGraph(cells) : null, [reactive, cells]);
+    const staleCells = useMemo(
+        () => dependencyGraph ? findStaleCells(cells, dependencyGraph) : new Set<string>(),
+        [dependencyGraph, cells]
+    );
+    const kernelStyle = KERNEL_STATUS_STYLES[kernelStatus];
+
+    const loadNotebook = (json: string, name: string, id: string = createNotebookId(), cellLanguages?: string[]) => {
+        const notebook = jupyterNotebookService.parseNotebook(json);
+        const models = jupyterNotebookService.notebookToCells(notebook);
+        // Languages saved with a library notebook win over what the nbformat metadata implies
+        const savedLanguages = cellLanguages?.length === models.length ? cellLanguages : undefined;
+        const loaded = models.map((cell, index): NotebookCell => {
+            // Markdown and raw cells keep the notebook's language, for when they become code
+            const language = toCellLanguage(cell.type === 'code' ? savedLanguages?.[index] ?? cell.language : cell.language);
+            return {
+                id: cell.id,
+                type: cell.type,
+                language,
+                loadedLanguage: cell.type === 'code' ? language : undefined,
+                content: cell.content,
+                outputs: cell.outputs,
+                metadata: cell.type === 'code' ? { executionCount: cell.executionCount ?? undefined } : undefined,
+                jupyterMetadata: cell.metadata,
+                attachments: cell.attachments,
+                original: cell.original,
+                run: cell.type === 'code' ? runFromMetadata(cell.metadata) : undefined,
+            };
+        });
+        stopExecution();
+        setCells(loaded);
+        setNotebookMetadata(notebook.metadata);
+        setSourceNotebook(notebook);
+        setFileName(name);
+        setActiveCell(null);
+        resetHistory();
+        setFileError(null);
+        setSessionId(createSessionId());
+        setNotebookId(id);
+    };
+
+    const newNotebook = () => {
+        stopExecution();
+        setCells([{ id: createCellId(), type: 'code', language: 'python', content: '', outputs: [], metadata: { executionCount: 0 } }]);
+        setNotebookMetadata(undefined);
+        setSourceNotebook(undefined);
+        setFileName('Untitled.ipynb');
+        setFileHandle(null);
+        setActiveCell(null);
+        resetHistory();
+        setFileError(null);
+        setSessionId(createSessionId());
+        setNotebookId(createNotebookId());
+    };
+
+    const openFromLibrary = async (id: string) => {
+        try {
+            const stored = await notebookStore.get(id);
+            if (!stored) throw new Error('The notebook is no longer in the library');
+            loadNotebook(stored.json, stored.name, stored.id, stored.cellLanguages);
+            setFileHandle(null);
+        } catch (error) {
+            setFileError(describeError(error));
+        }
+    };
+
+    const buildNotebookJson = (): string => {
+        const kernelLanguage = notebookMetadata?.kernelspec?.language || 'python';
+        const notebook = jupyterNotebookService.cellsToNotebook(
+            cells.map(cell => {
+                const language = cell.language === 'vnc' ? 'navlambda' : cell.language;
+                let metadata = cell.jupyterMetadata || {};
+                // Only annotate code cells whose language was set here and differs from the kernel's;
+                // cells keep the metadata they were opened with otherwise
+                const changed = cell.type === 'code' && cell.language !== cell.loadedLanguage;
+                if (changed && language !== kernelLanguage && metadata.language !== language) {
+                    metadata = { ...metadata, language };
+                } else if (changed && language === kernelLanguage && metadata.language !== undefined && metadata.language !== language) {
+                    // Drop a stale override left behind after switching back to the kernel language
+                    metadata = { ...metadata };
+                    delete metadata.language;
+                }
+                // Timing of a run in this session; loaded timing is already in the metadata
+                const run = cell.type === 'code' ? cell.run : undefined;
+                if (run?.status && run.startedAt !== undefined && run.endedAt !== undefined) {
+                    metadata = { ...metadata, execution: executionMetadata(run.startedAt, run.endedAt) };
+                }
+                return {
+                    id: cell.id,
+                    type: cell.type,
+                    language,
+                    content: cell.content,
+                    executionCount: cell.metadata?.executionCount || null,
+                    outputs: cell.outputs || [],
+                    metadata,
+                    attachments: cell.attachments,
+                    original: cell.original,
+                };
+            }),
+            notebookMetadata,
+            sourceNotebook
+        );
+        return jupyterNotebookService.serializeNotebook(notebook);
+    };
+
+    const buildDraft = (): NotebookDraft => ({
+        name: fileName,
+        json: buildNotebookJson(),
+        cellLanguages: cells.map(cell => cell.type === 'code' ? cell.language : cell.type),
+    });
+
+    const openNotebook = async () => {
+        const picker = (window as FilePickerWindow).showOpenFilePicker;
+        if (!picker) {
+            fileInputRef.current?.click();
+            return;
+        }
+        try {
+            const [handle] = await picker({ types: NOTEBOOK_FILE_TYPES });
+            const file = await handle.getFile();
+            loadNotebook(await file.text(), file.name);
+            setFileHandle(handle);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            setFileError(describeError(error));
+        }
+    };
+
+    const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            loadNotebook(await file.text(), file.name);
+            setFileHandle(null);
+        } catch (error) {
+            setFileError(describeError(error));
         }
     };
 
-    const executeAllCells = async () => {
-        for (const cell of cells) {
-            if (cell.type === 'code') {
-                await executeCell(cell.id);
+    const writeNotebook = async (handle: NotebookFileHandle) => {
+        const writable = await handle.createWritable();
+        await writable.write(new Blob([buildNotebookJson()], { type: 'application/x-ipynb+json' }));
+        await writable.close();
+    };
+
+    const downloadNotebook = (name: string) => {
+        const url = URL.createObjectURL(new Blob([buildNotebookJson()], { type: 'application/x-ipynb+json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const saveNotebookAs = async () => {
+        const picker = (window as FilePickerWindow).showSaveFilePicker;
+        try {
+            if (!picker) {
+                const name = window.prompt('Save notebook as', fileName);
+                if (!name) return;
+                const finalName = name.endsWith('.ipynb') ? name : `${name}.ipynb`;
+                downloadNotebook(finalName);
+                setFileName(finalName);
+                return;
             }
+            const handle = await picker({ suggestedName: fileName, types: NOTEBOOK_FILE_TYPES });
+            await writeNotebook(handle);
+            setFileHandle(handle);
+            setFileName(handle.name);
+            setFileError(null);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            setFileError(describeError(error));
         }
     };
 
-    const getLanguageInfo = (lang: CellLanguage) => {
-        return languageOptions.find(l => l.value === lang) || languageOptions[0];
+    const saveNotebook = async () => {
+        if (!fileHandle) {
+            // Without a writable handle, Save behaves like a download under the current name
+            if ((window as FilePickerWindow).showSaveFilePicker) {
+                await saveNotebookAs();
+            } else {
+                downloadNotebook(fileName);
+            }
+            return;
+        }
+        try {
+            await writeNotebook(fileHandle);
+            setFileError(null);
+        } catch (error) {
+            setFileError(describeError(error));
+        }
+    };
+
+    // Views of variables from other languages are listed in the Variables panel instead
+    const visibleTables = sqlTables.filter(table => table.source !== 'namespace');
+
+    const getLanguageInfo = (lang: NotebookLanguage): { value: NotebookLanguage; label: string; icon: string; color: string } => {
+        return languageOptions.find(l => l.value === lang) || { value: lang, label: lang, icon: '?', color: 'text-white/50' };
     };
 
     return (
@@ -186,8 +1085,107 @@ export default function NotebookPanel() {
                 <div className="flex items-center gap-2">
                     <span className="text-2xl mr-2">📓</span>
                     <h2 className="text-lg font-light text-white/80">Interactive Notebook</h2>
+                    <span className="text-xs font-mono text-white/30 ml-2">{fileName}</span>
+                    <span
+                        className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30 ml-2"
+                        title={pythonExecutionService.canInterruptInPlace()
+                            ? 'Python kernel'
+                            : 'Python kernel (Stop restarts the kernel unless the page is cross-origin isolated)'}
+                    >
+                        <span className={`w-1.5 h-1.5 rounded-full ${kernelStyle.dot}`} />
+                        Python: {kernelStyle.label}
+                    </span>
                 </div>
                 <div className="flex items-center gap-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".ipynb,application/x-ipynb+json"
+                        onChange={handleFileInput}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => setShowLibrary(!showLibrary)}
+                        className={`p-1.5 rounded-full transition-colors ${showLibrary ? 'text-cyan-400 bg-cyan-500/10' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                        title="Notebook Library"
+                    >
+                        <Library className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={openNotebook}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Open Notebook"
+                    >
+                        <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={saveNotebook}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Save Notebook"
+                    >
+                        <Save className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={saveNotebookAs}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Save Notebook As"
+                    >
+                        <Download className="w-4 h-4" />
+                    </button>
+                    <input
+                        ref={dataInputRef}
+                        type="file"
+                        accept=".csv,.tsv,.json,.ndjson,.jsonl,.parquet"
+                        multiple
+                        onChange={handleDataInput}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => dataInputRef.current?.click()}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Attach Data (CSV, JSON, Parquet) for SQL cells"
+                    >
+                        <Database className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setShowVariables(!showVariables)}
+                        className={`p-1.5 rounded-full transition-colors ${showVariables ? 'text-cyan-400 bg-cyan-500/10' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                        title="Variables"
+                    >
+                        <Variable className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setShowShortcuts(true)}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Keyboard Shortcuts (H)"
+                    >
+                        <Keyboard className="w-4 h-4" />
+                    </button>
+                    <div className="w-px h-6 bg-white/10 mx-2" />
+                    <button
+                        onClick={undo}
+                        disabled={!historyLabels.undo}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title={historyLabels.undo ? `Undo ${historyLabels.undo} (Z)` : 'Undo'}
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={!historyLabels.redo}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title={historyLabels.redo ? `Redo ${historyLabels.redo} (Shift+Z)` : 'Redo'}
+                    >
+                        <Redo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => clearOutputs(cells.map(cell => cell.id))}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Clear All Outputs"
+                    >
+                        <Eraser className="w-4 h-4" />
+                    </button>
+                    <div className="w-px h-6 bg-white/10 mx-2" />
                     <button
                         onClick={() => addCell('code', 'python')}
                         className="flex items-center gap-2 px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-full text-sm text-white/80 transition-colors border border-white/5"
@@ -203,6 +1201,39 @@ export default function NotebookPanel() {
                         Text
                     </button>
                     <div className="w-px h-6 bg-white/10 mx-2" />
+                    <button
+                        onClick={stopExecution}
+                        disabled={!isRunning}
+                        className="p-1.5 rounded-full text-white/50 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                        title="Stop Execution"
+                    >
+                        <Square className="w-4 h-4 fill-current" />
+                    </button>
+                    <button
+                        onClick={restartKernel}
+                        className="p-1.5 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Restart Kernel"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={toggleStopOnError}
+                        className={`p-1.5 rounded-full transition-colors ${stopOnError ? 'text-cyan-400 bg-cyan-500/10' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                        title={stopOnError
+                            ? 'Stop on Error: a failing cell cancels the rest of the run'
+                            : 'Stop on Error (off): runs carry on past failing cells'}
+                    >
+                        <OctagonX className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={toggleReactive}
+                        className={`p-1.5 rounded-full transition-colors ${reactive ? 'text-cyan-400 bg-cyan-500/10' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                        title={reactive
+                            ? 'Reactive Mode: running a cell re-runs the cells that depend on it'
+                            : 'Reactive Mode (off): cells only run when asked'}
+                    >
+                        <Workflow className="w-4 h-4" />
+                    </button>
                     <button
                         onClick={executeAllCells}
                         className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 rounded-full text-sm transition-colors border border-emerald-500/20"
@@ -213,169 +1244,420 @@ export default function NotebookPanel() {
                 </div>
             </div>
 
-            {/* Cells Container */}
-            <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-4 scroll-smooth">
-                <AnimatePresence>
-                    {cells.map((cell, index) => {
-                        const langInfo = getLanguageInfo(cell.language);
-                        const isCode = cell.type === 'code';
-                        const isActive = activeCell === cell.id;
-
-                        return (
-                            <motion.div
-                                key={cell.id}
-                                layout
-                                initial={{ opacity: 0, y: 20 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                exit={{ opacity: 0, scale: 0.95 }}
-                                onClick={() => setActiveCell(cell.id)}
-                                className={`
-                                    group relative rounded-xl border transition-all duration-300
-                                    ${isActive
-                                        ? 'bg-zinc-900/80 border-cyan-500/30 ring-1 ring-cyan-500/10 shadow-lg shadow-cyan-900/5'
-                                        : 'bg-zinc-900/30 border-white/5 hover:bg-zinc-900/50 hover:border-white/10'
-                                    }
-                                `}
+            {fileError && (
+                <div className="px-4 py-2 text-xs font-mono text-red-400 bg-red-500/10 border-b border-red-500/20">
+                    {fileError}
+                </div>
+            )}
+
+            {visibleTables.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-white/5 text-xs font-mono">
+                    <span className="text-white/30">SQL tables</span>
+                    {visibleTables.map(table => (
+                        <span
+                            key={table.name}
+                            className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-white/5 border border-white/5 text-white/60"
+                            title={table.source === 'python' ? 'Registered from Python' : `${table.format.toUpperCase()} file`}
+                        >
+                            {table.name}
+                            <button
+                                onClick={() => detachTable(table.name)}
+                                className="p-0.5 rounded-full text-white/30 hover:text-white hover:bg-white/10"
+                                title="Detach"
                             >
-                                {/* Drag Handle / Number (Gutter) */}
-                                <div className="absolute left-0 top-0 bottom-0 w-12 hidden md:flex flex-col items-center py-4 border-r border-white/5 bg-black/20 rounded-l-xl text-xs font-mono text-white/20 select-none">
-                                    {isCode ? `[${cell.metadata?.executionCount || ' '}]` : ''}
-                                </div>
-
-                                <div className="md:ml-12 p-4">
-                                    {/* Cell Header Actions (Hover) */}
-                                    <div className="flex justify-between items-start mb-2 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <div className="flex items-center gap-2">
-                                            {isCode && (
-                                                <div className="relative">
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex flex-1 min-h-0">
+                {showLibrary && (
+                    <NotebookLibrary
+                        activeId={notebookId}
+                        onOpen={openFromLibrary}
+                        onNew={newNotebook}
+                        onRenamed={(id, name) => {
+                            if (id === notebookId) setFileName(name);
+                        }}
+                        onDeleted={id => {
+                            if (id === notebookId) newNotebook();
+                        }}
+                        onClose={() => setShowLibrary(false)}
+                    />
+                )}
+
+                {/* Cells Container */}
+                <div
+                    ref={cellsContainerRef}
+                    tabIndex={-1}
+                    onKeyDown={handleShortcutKey}
+                    className="flex-1 overflow-y-auto p-4 md:p-8 space-y-4 scroll-smooth outline-none"
+                >
+                    <AnimatePresence>
+                        {cells.map((cell, index) => {
+                            const langInfo = getLanguageInfo(cell.language);
+                            const isCode = cell.type === 'code';
+                            const isActive = activeCell === cell.id;
+                            const isMarkdown = cell.type === 'markdown';
+                            const isEditing = editingMarkdown === cell.id;
+                            const runLabel = isCode ? describeRun(cell.run, now) : null;
+
+                            return (
+                                <motion.div
+                                    key={cell.id}
+                                    layout
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    exit={{ opacity: 0, scale: 0.95 }}
+                                    data-cell-id={cell.id}
+                                    tabIndex={-1}
+                                    onClick={() => setActiveCell(cell.id)}
+                                    onFocus={() => setActiveCell(cell.id)}
+                                    onDragOver={(e) => {
+                                        if (!draggedCell) return;
+                                        e.preventDefault();
+                                        const rect = e.currentTarget.getBoundingClientRect();
+                                        const after = e.clientY > rect.top + rect.height / 2;
+                                        if (dropTarget?.id !== cell.id || dropTarget.after !== after) {
+                                            setDropTarget({ id: cell.id, after });
+                                        }
+                                    }}
+                                    onDrop={(e) => {
+                                        if (!draggedCell) return;
+                                        e.preventDefault();
+                                        if (dropTarget) dropCell(draggedCell, cell.id, dropTarget.after);
+                                        setDraggedCell(null);
+                                        setDropTarget(null);
+                                    }}
+                                    className={`
+                                        group relative rounded-xl border transition-all duration-300 outline-none
+                                        has-[textarea:focus]:border-emerald-500/30
+                                        ${draggedCell === cell.id ? 'opacity-40' : ''}
+                                        ${isActive
+                                            ? 'bg-zinc-900/80 border-cyan-500/30 ring-1 ring-cyan-500/10 shadow-lg shadow-cyan-900/5'
+                                            : 'bg-zinc-900/30 border-white/5 hover:bg-zinc-900/50 hover:border-white/10'
+                                        }
+                                    `}
+                                >
+                                    {dropTarget?.id === cell.id && draggedCell !== cell.id && (
+                                        <div className={`absolute left-0 right-0 h-0.5 rounded-full bg-cyan-400 pointer-events-none ${dropTarget.after ? '-bottom-2.5' : '-top-2.5'}`} />
+                                    )}
+
+                                    {/* Drag Handle / Number (Gutter) */}
+                                    <div
+                                        draggable
+                                        onDragStart={(e) => {
+                                            e.dataTransfer.effectAllowed = 'move';
+                                            e.dataTransfer.setData('text/plain', cell.id);
+                                            const element = cellElement(cell.id);
+                                            if (element) e.dataTransfer.setDragImage(element, 24, 24);
+                                            setDraggedCell(cell.id);
+                                        }}
+                                        onDragEnd={() => {
+                                            setDraggedCell(null);
+                                            setDropTarget(null);
+                                        }}
+                                        className="absolute left-0 top-0 bottom-0 w-12 hidden md:flex flex-col items-center gap-2 py-4 border-r border-white/5 bg-black/20 rounded-l-xl text-xs font-mono text-white/20 select-none cursor-grab active:cursor-grabbing"
+                                        title="Drag to move"
+                                    >
+                                        {isCode ? `[${isPending(cell.run) ? '*' : cell.metadata?.executionCount || ' '}]` : ''}
+                                        {runLabel && (
+                                            <span className={`text-[10px] ${runLabel.className}`} title={runLabel.title}>
+                                                {runLabel.label}
+                                            </span>
+                                        )}
+                                        {staleCells.has(cell.id) && (
+                                            <span
+                                                className="text-[9px] uppercase tracking-wider text-amber-400/80"
+                                                title="Stale: the code or its inputs changed since this cell ran"
+                                            >
+                                                stale
+                                            </span>
+                                        )}
+                                        {dependencyGraph?.cyclic.has(cell.id) && (
+                                            <span
+                                                className="text-[9px] uppercase tracking-wider text-red-400/80"
+                                                title="Depends on a cycle of cells that use each other's names; runs in notebook order"
+                                            >
+                                                cycle
+                                            </span>
+                                        )}
+                                        <GripVertical className="w-3.5 h-3.5 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                    </div>
+
+                                    <div className="md:ml-12 p-4">
+                                        {/* Cell Header Actions (Hover) */}
+                                        <div className="flex justify-between items-start mb-2 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <div className="flex items-center gap-2">
+                                                {isCode && (
+                                                    <div className="relative">
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setShowLanguageMenu(showLanguageMenu === cell.id ? null : cell.id);
+                                                            }}
+                                                            className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-xs font-medium text-white/70 transition-colors"
+                                                        >
+                                                            <span>{langInfo.icon}</span>
+                                                            <span>{langInfo.label}</span>
+                                                            <ChevronDown className="w-3 h-3 opacity-50" />
+                                                        </button>
+                                                        {showLanguageMenu === cell.id && (
+                                                            <div className="absolute py-1 top-full left-0 mt-1 w-40 bg-zinc-800 border border-white/10 rounded-lg shadow-xl z-20 overflow-hidden">
+                                                                {languageOptions.map(opt => (
+                                                                    <button
+                                                                        key={opt.value}
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            changeCellLanguage(cell.id, opt.value);
+                                                                        }}
+                                                                        className={`w-full text-left px-3 py-2 text-xs hover:bg-white/5 flex items-center gap-2 ${opt.value === cell.language ? 'text-cyan-400 bg-white/5' : 'text-white/70'}`}
+                                                                    >
+                                                                        <span>{opt.icon}</span>
+                                                                        {opt.label}
+                                                                    </button>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                )}
+                                                {!isCode && (
+                                                    <span className="text-xs font-mono text-white/30 uppercase tracking-widest px-2">{cell.type === 'raw' ? 'Raw' : 'Markdown'}</span>
+                                                )}
+                                                {isMarkdown && (
                                                     <button
+                                                        // Keep the editor focused so its blur doesn't undo the toggle
+                                                        onMouseDown={(e) => e.preventDefault()}
                                                         onClick={(e) => {
                                                             e.stopPropagation();
-                                                            setShowLanguageMenu(showLanguageMenu === cell.id ? null : cell.id);
+                                                            setEditingMarkdown(isEditing ? null : cell.id);
                                                         }}
-                                                        className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-xs font-medium text-white/70 transition-colors"
+                                                        className="p-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                                                        title={isEditing ? 'Preview' : 'Edit'}
                                                     >
-                                                        <span>{langInfo.icon}</span>
-                                                        <span>{langInfo.label}</span>
-                                                        <ChevronDown className="w-3 h-3 opacity-50" />
+                                                        {isEditing ? <Eye className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
                                                     </button>
-                                                    {showLanguageMenu === cell.id && (
-                                                        <div className="absolute py-1 top-full left-0 mt-1 w-40 bg-zinc-800 border border-white/10 rounded-lg shadow-xl z-20 overflow-hidden">
-                                                            {languageOptions.map(opt => (
-                                                                <button
-                                                                    key={opt.value}
-                                                                    onClick={(e) => {
-                                                                        e.stopPropagation();
-                                                                        changeCellLanguage(cell.id, opt.value);
-                                                                    }}
-                                                                    className={`w-full text-left px-3 py-2 text-xs hover:bg-white/5 flex items-center gap-2 ${opt.value === cell.language ? 'text-cyan-400 bg-white/5' : 'text-white/70'}`}
-                                                                >
-                                                                    <span>{opt.icon}</span>
-                                                                    {opt.label}
-                                                                </button>
-                                                            ))}
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            )}
-                                            {!isCode && (
-                                                <span className="text-xs font-mono text-white/30 uppercase tracking-widest px-2">Markdown</span>
-                                            )}
-                                        </div>
-                                        <div className="flex items-center gap-1">
-                                            {isCode && (
+                                                )}
+                                            </div>
+                                            <div className="flex items-center gap-1">
+                                                {isCode && cell.run?.status === 'queued' && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            queueRef.current.cancel(cell.id);
+                                                        }}
+                                                        className="p-1.5 rounded-md text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                                        title="Cancel Queued Run"
+                                                    >
+                                                        <X className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {isCode && cell.run?.status !== 'queued' && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            runCell(cell.id);
+                                                        }}
+                                                        disabled={cell.run?.status === 'running'}
+                                                        className={`p-1.5 rounded-md transition-colors ${cell.run?.status === 'running' ? 'text-cyan-400 animate-spin' : 'text-white/40 hover:text-cyan-400 hover:bg-cyan-500/10'}`}
+                                                        title={reactive ? 'Run Cell and Its Dependents' : 'Run Cell'}
+                                                    >
+                                                        {cell.run?.status === 'running' ? <RefreshCw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                                    </button>
+                                                )}
+                                                {isCode && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            runCellsAbove(cell.id);
+                                                        }}
+                                                        className="p-1.5 rounded-md text-white/40 hover:text-cyan-400 hover:bg-cyan-500/10 transition-colors"
+                                                        title={reactive ? 'Run the Cells This One Depends On' : 'Run Cells Above'}
+                                                    >
+                                                        <ChevronsUp className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {isCode && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            runCellAndBelow(cell.id);
+                                                        }}
+                                                        className="p-1.5 rounded-md text-white/40 hover:text-cyan-400 hover:bg-cyan-500/10 transition-colors"
+                                                        title={reactive ? 'Run Cell and the Cells That Depend on It' : 'Run Cell and Below'}
+                                                    >
+                                                        <ChevronsDown className="w-4 h-4" />
+                                                    </button>
+                                                )}
                                                 <button
                                                     onClick={(e) => {
                                                         e.stopPropagation();
-                                                        executeCell(cell.id);
+                                                        moveCell(cell.id, index - 1);
                                                     }}
-                                                    disabled={cell.isExecuting}
-                                                    className={`p-1.5 rounded-md transition-colors ${cell.isExecuting ? 'text-cyan-400 animate-spin' : 'text-white/40 hover:text-cyan-400 hover:bg-cyan-500/10'}`}
-                                                    title="Run Cell"
+                                                    disabled={index === 0}
+                                                    className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                                                    title="Move Up"
                                                 >
-                                                    {cell.isExecuting ? <RefreshCw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                                    <ChevronUp className="w-4 h-4" />
                                                 </button>
-                                            )}
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    insertCellAfter(cell.id, 'code', cell.language);
-                                                }}
-                                                className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
-                                                title="Add Cell Below"
-                                            >
-                                                <Plus className="w-4 h-4" />
-                                            </button>
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    deleteCell(cell.id);
-                                                }}
-                                                className="p-1.5 rounded-md text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-colors"
-                                                title="Delete Cell"
-                                            >
-                                                <Trash2 className="w-4 h-4" />
-                                            </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        moveCell(cell.id, index + 1);
+                                                    }}
+                                                    disabled={index === cells.length - 1}
+                                                    className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                                                    title="Move Down"
+                                                >
+                                                    <ChevronDown className="w-4 h-4" />
+                                                </button>
+                                                {(isCode || isEditing) && (
+                                                    <button
+                                                        // Keep the editor's cursor where the split should happen
+                                                        onMouseDown={(e) => e.preventDefault()}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            splitCell(cell.id);
+                                                        }}
+                                                        className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                                                        title="Split Cell at Cursor"
+                                                    >
+                                                        <Scissors className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        mergeCellBelow(cell.id);
+                                                    }}
+                                                    disabled={index === cells.length - 1}
+                                                    className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                                                    title="Merge with Cell Below"
+                                                >
+                                                    <Merge className="w-4 h-4" />
+                                                </button>
+                                                {isCode && cell.outputs && cell.outputs.length > 0 && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            clearOutputs([cell.id]);
+                                                        }}
+                                                        className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                                                        title="Clear Output"
+                                                    >
+                                                        <Eraser className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        insertCellAfter(cell.id, 'code', cell.language);
+                                                    }}
+                                                    className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                                                    title="Add Cell Below"
+                                                >
+                                                    <Plus className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        deleteCell(cell.id);
+                                                    }}
+                                                    className="p-1.5 rounded-md text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                                    title="Delete Cell"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
                                         </div>
-                                    </div>
-
-                                    {/* Editor Area */}
-                                    <div className={`relative rounded-lg overflow-hidden ${isActive ? 'bg-black/30' : 'bg-transparent'}`}>
-                                        <textarea
-                                            value={cell.content}
-                                            onChange={(e) => updateCell(cell.id, e.target.value)}
-                                            onKeyDown={(e) => {
-                                                if (e.shiftKey && e.key === 'Enter' && isCode) {
-                                                    e.preventDefault();
-                                                    executeCell(cell.id);
-                                                }
-                                            }}
-                                            placeholder={isCode ? `Enter ${langInfo.label} code...` : "Type markdown here..."}
-                                            className={`
-                                                w-full bg-transparent border-none outline-none p-3 font-mono text-sm resize-y min-h-[4rem]
-                                                ${isCode ? langInfo.color : 'text-zinc-300'}
-                                                placeholder-white/20
-                                            `}
-                                            spellCheck={false}
-                                        />
-                                    </div>
 
-                                    {/* Output Area */}
-                                    {cell.output && (
-                                        <motion.div
-                                            initial={{ opacity: 0, height: 0 }}
-                                            animate={{ opacity: 1, height: 'auto' }}
-                                            className="mt-4 pt-4 border-t border-white/5 font-mono text-sm"
-                                        >
-                                            <div className="flex items-center gap-2 mb-2">
-                                                <span className="text-xs text-white/30 uppercase tracking-wider">Output</span>
+                                        {/* Editor Area */}
+                                        {isMarkdown && !isEditing ? (
+                                            <div
+                                                tabIndex={0}
+                                                onDoubleClick={() => setEditingMarkdown(cell.id)}
+                                                className="p-3 rounded-lg outline-none cursor-text focus:bg-black/20"
+                                                title="Double-click or press Enter to edit"
+                                            >
+                                                {cell.content.trim()
+                                                    ? <MarkdownView source={cell.content} attachments={cell.attachments} />
+                                                    : <span className="text-sm text-white/20">Empty markdown cell</span>}
                                             </div>
-                                            <pre className="whitespace-pre-wrap text-white/80 bg-black/20 p-4 rounded-lg overflow-x-auto">
-                                                {cell.output}
-                                            </pre>
-                                        </motion.div>
-                                    )}
-                                </div>
-                            </motion.div>
-                        );
-                    })}
-                </AnimatePresence>
+                                        ) : isCode ? (
+                                            <div className={`relative rounded-lg ${isActive ? 'bg-black/30' : 'bg-transparent'}`}>
+                                                <CodeEditor
+                                                    value={cell.content}
+                                                    language={cell.language}
+                                                    onChange={(value) => updateCell(cell.id, value)}
+                                                    complete={(code, cursorPos) =>
+                                                        multiLanguageExecutionService.complete(executionLanguage(cell.language), code, cursorPos, sessionId)}
+                                                    inspect={(code, cursorPos) =>
+                                                        multiLanguageExecutionService.inspect(executionLanguage(cell.language), code, cursorPos, sessionId)}
+                                                    placeholder={`Enter ${langInfo.label} code...`}
+                                                />
+                                            </div>
+                                        ) : (
+                                            <div className={`relative rounded-lg overflow-hidden ${isActive ? 'bg-black/30' : 'bg-transparent'}`}>
+                                                <textarea
+                                                    value={cell.content}
+                                                    onChange={(e) => updateCell(cell.id, e.target.value)}
+                                                    autoFocus={isMarkdown}
+                                                    // Leaving the editor renders a markdown cell, like running it
+                                                    onBlur={() => {
+                                                        if (isMarkdown) setEditingMarkdown(null);
+                                                    }}
+                                                    placeholder="Type markdown here..."
+                                                    className={`
+                                                        w-full bg-transparent border-none outline-none p-3 font-mono text-sm resize-y min-h-[4rem]
+                                                        text-zinc-300 placeholder-white/20
+                                                    `}
+                                                    spellCheck={false}
+                                                />
+                                            </div>
+                                        )}
+
+                                        {/* Output Area */}
+                                        {cell.outputs && cell.outputs.length > 0 && (
+                                            <motion.div
+                                                initial={{ opacity: 0, height: 0 }}
+                                                animate={{ opacity: 1, height: 'auto' }}
+                                                className="mt-4 pt-4 border-t border-white/5 font-mono text-sm"
+                                            >
+                                                <div className="flex items-center gap-2 mb-2">
+                                                    <span className="text-xs text-white/30 uppercase tracking-wider">Output</span>
+                                                </div>
+                                                <div className="bg-black/20 p-4 rounded-lg overflow-x-auto">
+                                                    <OutputArea outputs={cell.outputs} />
+                                                </div>
+                                            </motion.div>
+                                        )}
+                                    </div>
+                                </motion.div>
+                            );
+                        })}
+                    </AnimatePresence>
                 
-                {/* Empty State / Add CTA */}
-                {cells.length === 0 && (
-                     <div className="flex flex-col items-center justify-center py-20 text-white/30">
-                        <Code className="w-12 h-12 mb-4 opacity-50" />
-                        <p className="mb-4">Notebook is empty</p>
-                        <button 
-                            onClick={() => addCell('code')}
-                            className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-white text-sm"
-                        >
-                            Start Coding
-                        </button>
-                     </div>
-                )}
+                    {/* Empty State / Add CTA */}
+                    {cells.length === 0 && (
+                         <div className="flex flex-col items-center justify-center py-20 text-white/30">
+                            <Code className="w-12 h-12 mb-4 opacity-50" />
+                            <p className="mb-4">Notebook is empty</p>
+                            <button 
+                                onClick={() => addCell('code')}
+                                className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-white text-sm"
+                            >
+                                Start Coding
+                            </button>
+                         </div>
+                    )}
                 
-                <div className="h-20" /> {/* Spacer */}
+                    <div className="h-20" /> {/* Spacer */}
+                </div>
+
+                {showShortcuts && <ShortcutsSheet onClose={() => setShowShortcuts(false)} />}
+                {showVariables && <VariablesPanel key={sessionId} sessionId={sessionId} onClose={() => setShowVariables(false)} />}
             </div>
         </div>
     );
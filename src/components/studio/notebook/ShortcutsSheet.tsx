@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import {
+    chordFromEvent,
+    notebookShortcuts,
+    NotebookCommand,
+    SHORTCUT_DEFINITIONS,
+    ShortcutDefinition,
+} from '../../../services/notebook-shortcuts';
+
+interface ShortcutsSheetProps {
+    onClose: () => void;
+}
+
+const SECTIONS: { title: string; matches: (definition: ShortcutDefinition) => boolean }[] = [
+    { title: 'Command mode', matches: definition => definition.modes.length === 1 && definition.modes[0] === 'command' },
+    { title: 'Edit mode', matches: definition => definition.modes.length === 1 && definition.modes[0] === 'edit' },
+    { title: 'Both modes', matches: definition => definition.modes.length > 1 },
+];
+
+const MAX_CHORDS = 2;
+
+const labelOf = (command: NotebookCommand) =>
+    SHORTCUT_DEFINITIONS.find(definition => definition.command === command)?.label ?? command;
+
+function Keys({ binding }: { binding: string }) {
+    return (
+        <span className="inline-flex items-center gap-1">
+            {binding.split(' ').map((chord, i) => (
+                <kbd key={i} className="px-1.5 py-0.5 rounded border border-white/15 bg-white/5 text-[11px] font-mono text-white/80">
+                    {chord}
+                </kbd>
+            ))}
+        </span>
+    );
+}
+
+export default function ShortcutsSheet({ onClose }: ShortcutsSheetProps) {
+    // Bumped on every change so the rows re-read their bindings
+    const [, setVersion] = useState(0);
+    // Command being given a new binding, and the chords pressed so far
+    const [recording, setRecording] = useState<{ command: NotebookCommand; chords: string[] } | null>(null);
+
+    useEffect(() => notebookShortcuts.onChange(() => setVersion(version => version + 1)), []);
+
+    useEffect(() => {
+        if (recording) return;
+        const closeOnEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', closeOnEscape);
+        return () => window.removeEventListener('keydown', closeOnEscape);
+    }, [recording, onClose]);
+
+    useEffect(() => {
+        if (!recording) return;
+        // Capture phase, so the notebook's own shortcuts don't see the keys being recorded
+        const record = (e: KeyboardEvent) => {
+            const chord = chordFromEvent(e);
+            if (!chord) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setRecording(current => current && {
+                command: current.command,
+                chords: current.chords.length >= MAX_CHORDS ? [chord] : [...current.chords, chord],
+            });
+        };
+        window.addEventListener('keydown', record, true);
+        return () => window.removeEventListener('keydown', record, true);
+    }, [recording]);
+
+    const saveRecording = () => {
+        if (!recording || recording.chords.length === 0) return;
+        const { command, chords } = recording;
+        notebookShortcuts.setBindings(command, [...notebookShortcuts.getBindings(command), chords.join(' ')]);
+        setRecording(null);
+    };
+
+    const removeBinding = (command: NotebookCommand, binding: string) => {
+        notebookShortcuts.setBindings(command, notebookShortcuts.getBindings(command).filter(key => key !== binding));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-2xl max-h-[85vh] flex flex-col rounded-xl border border-white/10 bg-zinc-900 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-5 py-3 border-b border-white/10">
+                    <span className="text-sm text-white/80">Keyboard Shortcuts</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => notebookShortcuts.reset()}
+                            className="px-2 py-1 rounded-md text-xs text-white/40 hover:text-white hover:bg-white/10"
+                        >
+                            Reset all
+                        </button>
+                        <button
+                            autoFocus
+                            onClick={onClose}
+                            className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10"
+                            title="Close"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+                <p className="px-5 pt-3 text-xs text-white/40">
+                    Press Esc to leave the cell editor and use the command mode keys; Enter goes back into it.
+                </p>
+                <div className="flex-1 overflow-y-auto px-5 py-3 space-y-5">
+                    {SECTIONS.map(section => (
+                        <section key={section.title}>
+                            <h3 className="mb-2 text-[10px] uppercase tracking-wider text-white/30">{section.title}</h3>
+                            <div className="divide-y divide-white/5">
+                                {SHORTCUT_DEFINITIONS.filter(section.matches).map(definition => {
+                                    const { command } = definition;
+                                    const bindings = notebookShortcuts.getBindings(command);
+                                    const conflicts = notebookShortcuts.conflicts(command);
+                                    const isRecording = recording?.command === command;
+                                    return (
+                                        <div key={command} className="flex items-start gap-3 py-2">
+                                            <div className="flex-1 min-w-0">
+                                                <div className="text-sm text-white/70">{definition.label}</div>
+                                                {conflicts.length > 0 && (
+                                                    <div className="text-[11px] text-amber-400/80">
+                                                        Also bound to {conflicts.map(labelOf).join(', ')}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <div className="flex flex-wrap items-center justify-end gap-2">
+                                                {bindings.map(binding => (
+                                                    <span key={binding} className="group/key inline-flex items-center gap-0.5">
+                                                        <Keys binding={binding} />
+                                                        <button
+                                                            onClick={() => removeBinding(command, binding)}
+                                                            className="p-0.5 rounded text-white/20 opacity-0 group-hover/key:opacity-100 hover:text-red-400"
+                                                            title="Remove"
+                                                        >
+                                                            <X className="w-3 h-3" />
+                                                        </button>
+                                                    </span>
+                                                ))}
+                                                {bindings.length === 0 && !isRecording && (
+                                                    <span className="text-xs text-white/20">Unbound</span>
+                                                )}
+                                                {isRecording ? (
+                                                    <span className="inline-flex items-center gap-1">
+                                                        {recording.chords.length > 0
+                                                            ? <Keys binding={recording.chords.join(' ')} />
+                                                            : <span className="text-xs text-cyan-400 animate-pulse">Press keys…</span>}
+                                                        <button
+                                                            onClick={saveRecording}
+                                                            disabled={recording.chords.length === 0}
+                                                            className="px-1.5 py-0.5 rounded text-xs text-cyan-400 hover:bg-cyan-500/10 disabled:opacity-30"
+                                                        >
+                                                            Save
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setRecording(null)}
+                                                            className="px-1.5 py-0.5 rounded text-xs text-white/40 hover:text-white hover:bg-white/10"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                    </span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => setRecording({ command, chords: [] })}
+                                                        className="p-1 rounded text-white/30 hover:text-white hover:bg-white/10"
+                                                        title="Add a binding"
+                                                    >
+                                                        <Plus className="w-3 h-3" />
+                                                    </button>
+                                                )}
+                                                {notebookShortcuts.isCustomized(command) && (
+                                                    <button
+                                                        onClick={() => notebookShortcuts.reset(command)}
+                                                        className="p-1 rounded text-white/30 hover:text-white hover:bg-white/10"
+                                                        title="Restore default"
+                                                    >
+                                                        <RotateCcw className="w-3 h-3" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { notebookNamespace, NamespaceRuntime, NamespaceVariable } from '../../../services/notebook-namespace';
+
+interface VariablesPanelProps {
+    sessionId: string;
+    onClose: () => void;
+}
+
+const RUNTIME_BADGES: Record<NamespaceRuntime, { label: string; className: string }> = {
+    python: { label: 'PY', className: 'text-yellow-400 bg-yellow-400/10' },
+    javascript: { label: 'JS', className: 'text-yellow-300 bg-yellow-300/10' },
+    sql: { label: 'SQL', className: 'text-blue-400 bg-blue-400/10' },
+    navlambda: { label: '⋋', className: 'text-emerald-400 bg-emerald-400/10' },
+};
+
+export default function VariablesPanel({ sessionId, onClose }: VariablesPanelProps) {
+    const [variables, setVariables] = useState<NamespaceVariable[]>(() => notebookNamespace.list(sessionId));
+    const [filter, setFilter] = useState('');
+
+    useEffect(() => {
+        return notebookNamespace.onChange((changed, current) => {
+            if (changed === sessionId) setVariables(current);
+        });
+    }, [sessionId]);
+
+    const query = filter.trim().toLowerCase();
+    const shown = query
+        ? variables.filter(v => v.name.toLowerCase().includes(query) || v.type.toLowerCase().includes(query))
+        : variables;
+
+    return (
+        <aside className="w-80 shrink-0 flex flex-col border-l border-white/10 bg-zinc-900/40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+                <span className="text-xs uppercase tracking-wider text-white/40">Variables</span>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10"
+                    title="Close Variables"
+                >
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+            <div className="px-4 py-2 border-b border-white/5">
+                <input
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter by name or type"
+                    className="w-full bg-black/30 rounded-md px-2 py-1 text-xs font-mono text-white/70 placeholder-white/20 outline-none border border-white/5 focus:border-cyan-500/30"
+                    spellCheck={false}
+                />
+            </div>
+            <div className="flex-1 overflow-y-auto">
+                {shown.length === 0 && (
+                    <p className="px-4 py-6 text-xs text-white/30">
+                        {variables.length === 0 ? 'Run a cell to see its variables here.' : 'No matching variables.'}
+                    </p>
+                )}
+                {shown.map(variable => {
+                    const badge = RUNTIME_BADGES[variable.runtime];
+                    return (
+                        <div key={variable.name} className="px-4 py-2 border-b border-white/5 font-mono text-xs">
+                            <div className="flex items-center gap-2">
+                                <span
+                                    className={`px-1.5 rounded text-[10px] ${badge.className}`}
+                                    title={variable.json === undefined ? 'Not shared with other languages' : 'Shared with other languages'}
+                                >
+                                    {badge.label}
+                                </span>
+                                <span className="text-white/80 truncate" title={variable.name}>{variable.name}</span>
+                                <span className="ml-auto text-white/30 shrink-0">{variable.type}</span>
+                            </div>
+                            {variable.size && <div className="mt-0.5 text-white/30">{variable.size}</div>}
+                            <div className="mt-1 text-white/50 break-all whitespace-pre-wrap line-clamp-3" title={variable.preview}>
+                                {variable.preview}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </aside>
+    );
+}
@@ -0,0 +1,681 @@
+/**
+ * Cell dependencies
+ *
+ * Static analysis for the reactive mode: which names each code cell defines
+ * in the shared namespace and which it reads from it. Python, JavaScript,
+ * TypeScript and SQL are analysed; cells in other languages define and use
+ * nothing. The analysis is lexical, so a name built at runtime (exec,
+ * globals()) goes unseen, and a local that shadows a global can look like a
+ * dependency; it errs towards running a cell too often rather than too rarely.
+ *
+ * A cell depends on the nearest cell above it that defines a name it uses, or
+ * on the first one below when none above does.
+ */
+
+import { tokenize } from './render/highlight';
+
+export interface CellSymbols {
+    defines: string[];
+    // Names the cell reads before assigning them, or without assigning them at all
+    uses: string[];
+}
+
+export interface DependencyCell {
+    id: string;
+    type: string;
+    language: string;
+    content: string;
+    // Code and run order of the cell's last run, if it has run
+    lastRun?: { source: string; order: number };
+}
+
+export interface DependencyGraph {
+    symbols: Map<string, CellSymbols>;
+    parents: Map<string, string[]>;
+    children: Map<string, string[]>;
+    // Code cells, each after the cells it depends on and otherwise in notebook order
+    order: string[];
+    // Cells on a dependency cycle or downstream of one; they run last, in notebook order
+    cyclic: Set<string>;
+}
+
+const NO_SYMBOLS: CellSymbols = { defines: [], uses: [] };
+
+const IDENTIFIER = /[A-Za-z_$\u00C0-\uFFFF][\w$\u00C0-\uFFFF]*/g;
+const IDENTIFIER_CHAR = /[\w$\u00C0-\uFFFF]/;
+const OPENERS = '([{';
+const CLOSERS = ')]}';
+
+const keywords = (list: string) => new Set(list.trim().split(/\s+/));
+
+const PYTHON_KEYWORDS = keywords(`
+    False None True and as assert async await break class continue def del elif else except finally for
+    from global if import in is lambda nonlocal not or pass raise return try while with yield`);
+
+const JS_KEYWORDS = keywords(`
+    async await break case catch class const continue debugger default delete do else enum export extends
+    false finally for from function if import in instanceof let new null of return static super switch this
+    throw true try typeof undefined var void while with yield type interface implements namespace declare
+    readonly private protected public abstract as satisfies keyof`);
+
+interface Word {
+    name: string;
+    start: number;
+    end: number;
+}
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+/**
+ * Where the expressions interpolated into an f-string or template literal
+ * are, as [start, end) offsets; a Python format spec or `=` is left out
+ */
+function interpolations(literal: string, language: string): [number, number][] {
+    const python = language === 'python';
+    if (python ? !/^[rbuRBU]?[fF]/.test(literal) : !literal.startsWith('`')) return [];
+    const found: [number, number][] = [];
+    for (let i = 0; i < literal.length; i++) {
+        if (literal[i] !== '{') continue;
+        if (python && literal[i + 1] === '{') {
+            i++;
+            continue;
+        }
+        if (!python && literal[i - 1] !== '$') continue;
+        let depth = 1;
+        let end = i + 1;
+        let expressionEnd = -1;
+        for (; end < literal.length && depth > 0; end++) {
+            const char = literal[end];
+            if (OPENERS.includes(char)) depth++;
+            else if (CLOSERS.includes(char)) depth--;
+            else if (python && depth === 1 && expressionEnd === -1 && (char === ':' || (char === '!' && literal[end + 1] !== '='))) {
+                expressionEnd = end;
+            }
+        }
+        let stop = expressionEnd === -1 ? end - 1 : expressionEnd;
+        if (python) {
+            const debug = /[^=!<>]=\s*$/.exec(literal.slice(i + 1, stop));
+            if (debug) stop = i + 2 + debug.index;
+        }
+        found.push([i + 1, stop]);
+        i = end - 1;
+    }
+    return found;
+}
+
+/**
+ * The code with strings and comments blanked out, keeping line breaks and the
+ * code interpolated into strings, so offsets and lines still line up
+ */
+function blankOut(code: string, language: string): string {
+    let text = '';
+    for (const token of tokenize(code, language)) {
+        if (token.kind === 'string') {
+            // A placeholder keeps `x = "a"` an assignment with a value
+            let blanked = `0${blank(token.text.slice(1))}`;
+            for (const [from, to] of interpolations(token.text, language)) {
+                blanked = blanked.slice(0, from) + blankOut(token.text.slice(from, to), language) + blanked.slice(to);
+            }
+            text += blanked;
+        } else if (token.kind === 'comment') {
+            text += blank(token.text);
+        } else {
+            text += token.text;
+        }
+    }
+    return text;
+}
+
+function wordsIn(text: string, from = 0, to = text.length): Word[] {
+    const found: Word[] = [];
+    IDENTIFIER.lastIndex = from;
+    for (let match = IDENTIFIER.exec(text); match && match.index < to; match = IDENTIFIER.exec(text)) {
+        // A letter inside a number (1e5, 0xff) isn't a name
+        if (match.index > 0 && IDENTIFIER_CHAR.test(text[match.index - 1])) continue;
+        found.push({ name: match[0], start: match.index, end: match.index + match[0].length });
+    }
+    return found;
+}
+
+// Open brackets around each character, innermost last
+function bracketStacks(text: string): string[] {
+    const stacks: string[] = [];
+    let stack = '';
+    for (let i = 0; i < text.length; i++) {
+        if (CLOSERS.includes(text[i])) stack = stack.slice(0, -1);
+        stacks.push(stack);
+        if (OPENERS.includes(text[i])) stack += text[i];
+    }
+    return stacks;
+}
+
+const previousChar = (text: string, index: number) => text.slice(0, index).trimEnd().slice(-1);
+const nextChar = (text: string, index: number) => text.slice(index).trimStart()[0] ?? '';
+
+// `obj.name` and `obj?.name` read a property rather than a variable; `...name` spreads one
+function isProperty(text: string, word: Word): boolean {
+    const before = text.slice(0, word.start).trimEnd();
+    return before.endsWith('.') && !before.endsWith('...');
+}
+
+/**
+ * Split at `separator` wherever it is outside brackets
+ */
+function splitTopLevel(text: string, separator: string): { text: string; start: number }[] {
+    const stacks = bracketStacks(text);
+    const parts: { text: string; start: number }[] = [];
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === separator && stacks[i] === '') {
+            parts.push({ text: text.slice(start, i), start });
+            start = i + 1;
+        }
+    }
+    parts.push({ text: text.slice(start), start });
+    return parts;
+}
+
+/**
+ * The `=` signs that assign at the top level of a statement, including
+ * augmented ones (`+=`, `**=`, `??=`) but not comparisons, arrows or `:=`
+ */
+function assignmentSigns(text: string, stacks: string[]): { index: number; augmented: boolean }[] {
+    const signs: { index: number; augmented: boolean }[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== '=' || stacks[i] !== '') continue;
+        const before = text[i - 1] ?? '';
+        const after = text[i + 1] ?? '';
+        if (after === '=' || after === '>' || before === '=' || before === '!' || before === ':') continue;
+        if ((before === '<' || before === '>') && text[i - 2] !== before) continue;
+        signs.push({ index: i, augmented: /[-+*/%&|^@<>?]/.test(before) });
+    }
+    return signs;
+}
+
+/**
+ * Collects a cell's names in statement order; a name counts as used when the
+ * cell reads it no later than the statement that first assigns it
+ */
+class SymbolCollector {
+    private defined = new Map<string, number>();
+    private used = new Map<string, number>();
+
+    define(name: string, at: number): void {
+        if (!this.defined.has(name)) this.defined.set(name, at);
+    }
+
+    use(name: string, at: number): void {
+        if (!this.used.has(name)) this.used.set(name, at);
+    }
+
+    result(): CellSymbols {
+        return {
+            defines: Array.from(this.defined.keys()),
+            uses: Array.from(this.used)
+                .filter(([name, at]) => at <= (this.defined.get(name) ?? Infinity))
+                .map(([name]) => name),
+        };
+    }
+}
+
+// Python ------------------------------------------------------------------
+
+interface PythonScope {
+    indent: number;
+    locals: Set<string>;
+    globals: Set<string>;
+}
+
+// Physical lines joined into statements where brackets or a backslash continue them
+function logicalLines(text: string): { text: string; indent: number }[] {
+    const lines: { text: string; indent: number }[] = [];
+    let current: string | null = null;
+    let open = 0;
+    for (const line of text.split('\n')) {
+        current = current === null ? line : `${current}\n${line}`;
+        for (const char of line) {
+            if (OPENERS.includes(char)) open++;
+            else if (CLOSERS.includes(char)) open = Math.max(0, open - 1);
+        }
+        if (open > 0 || /\\\s*$/.test(line)) continue;
+        if (current.trim()) lines.push({ text: current.trim(), indent: /^[ \t]*/.exec(current)![0].length });
+        current = null;
+    }
+    if (current?.trim()) lines.push({ text: current.trim(), indent: /^[ \t]*/.exec(current)![0].length });
+    return lines;
+}
+
+// First `:` outside brackets that isn't part of `:=`
+function headerColon(text: string): number {
+    const stacks = bracketStacks(text);
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === ':' && stacks[i] === '' && text[i + 1] !== '=') return i;
+    }
+    return -1;
+}
+
+// The leading name of each comma-separated part: parameters of a def or lambda
+function parameterNames(list: string): string[] {
+    return splitTopLevel(list, ',')
+        .map(part => /^\s*\**\s*([A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*)/.exec(part.text)?.[1])
+        .filter((name): name is string => !!name);
+}
+
+function analyzePython(code: string): CellSymbols {
+    const collector = new SymbolCollector();
+    const text = blankOut(code, 'python');
+    const scopes: PythonScope[] = [];
+    let order = 0;
+
+    const bind = (name: string) => {
+        const scope = scopes[scopes.length - 1];
+        if (!scope || scope.globals.has(name)) collector.define(name, order);
+        else scope.locals.add(name);
+    };
+
+    const isLocal = (name: string) => scopes.some(scope => scope.locals.has(name));
+
+    // Names a statement reads; skipped holds the word positions it assigns
+    const collectUses = (statement: string, skipped: Set<number>, bound: Set<string> = new Set()) => {
+        const stacks = bracketStacks(statement);
+        const local = new Set(bound);
+        // Comprehension variables and lambda parameters only exist inside their expression
+        for (const match of statement.matchAll(/\bfor\b([\s\S]+?)\bin\b/g)) {
+            if (stacks[match.index ?? 0] !== '') wordsIn(match[1]).forEach(word => local.add(word.name));
+        }
+        for (const match of statement.matchAll(/\blambda\b([^:]*):/g)) {
+            parameterNames(match[1]).forEach(name => local.add(name));
+        }
+        // A function body runs later, so it reads whatever the cell ends up defining
+        const at = scopes.length > 0 ? Infinity : order;
+        for (const word of wordsIn(statement)) {
+            if (skipped.has(word.start) || PYTHON_KEYWORDS.has(word.name) || local.has(word.name)) continue;
+            if (isProperty(statement, word) || isLocal(word.name)) continue;
+            // Keyword arguments: f(name=value)
+            if (stacks[word.start] !== '' && /^=(?!=)/.test(statement.slice(word.end).trimStart())) continue;
+            collector.use(word.name, at);
+        }
+    };
+
+    // Bind the plain names in an assignment target; subscripts and attributes are reads
+    const bindTargets = (statement: string, from: number, to: number, stacks: string[], skipped: Set<number>, augmented: boolean) => {
+        for (const word of wordsIn(statement, from, to)) {
+            if (PYTHON_KEYWORDS.has(word.name) || isProperty(statement, word)) continue;
+            if (stacks[word.start].includes('[') || /^[.[(]/.test(nextChar(statement, word.end))) continue;
+            bind(word.name);
+            if (!augmented) skipped.add(word.start);
+        }
+    };
+
+    // `(name := value)` assigns in the enclosing scope, even inside a comprehension
+    const bindWalrus = (statement: string, skipped: Set<number>) => {
+        for (const match of statement.matchAll(/([A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*)\s*:=/g)) {
+            bind(match[1]);
+            skipped.add(match.index ?? 0);
+        }
+    };
+
+    const simpleStatement = (statement: string) => {
+        order++;
+        const imported = /^import\s+([\s\S]+)/.exec(statement);
+        if (imported) {
+            for (const part of imported[1].split(',')) {
+                const match = /^\s*([\w.]+)(?:\s+as\s+(\w+))?/.exec(part);
+                if (match) bind(match[2] ?? match[1].split('.')[0]);
+            }
+            return;
+        }
+        const fromImport = /^from\s+\S+\s+import\s+([\s\S]+)/.exec(statement);
+        if (fromImport) {
+            for (const part of fromImport[1].replace(/[()]/g, '').split(',')) {
+                const match = /^\s*(\w+)(?:\s+as\s+(\w+))?/.exec(part);
+                if (match) bind(match[2] ?? match[1]);
+            }
+            return;
+        }
+        const declared = /^(?:global|nonlocal)\s+([\s\S]+)/.exec(statement);
+        if (declared) {
+            const scope = scopes[scopes.length - 1];
+            if (scope && statement.startsWith('global')) wordsIn(declared[1]).forEach(word => scope.globals.add(word.name));
+            return;
+        }
+
+        const stacks = bracketStacks(statement);
+        const skipped = new Set<number>();
+        // `f = lambda x=1: x` assigns once; the default belongs to the lambda
+        const lambda = statement.search(/\blambda\b/);
+        const signs = assignmentSigns(statement, stacks).filter(sign => lambda === -1 || sign.index < lambda);
+        let start = 0;
+        for (const sign of signs) {
+            // An annotation (`x: int = 1`) is read, not assigned
+            const colon = headerColon(statement.slice(start, sign.index));
+            bindTargets(statement, start, colon === -1 ? sign.index : start + colon, stacks, skipped, sign.augmented);
+            start = sign.index + 1;
+        }
+        bindWalrus(statement, skipped);
+        collectUses(statement, skipped);
+    };
+
+    for (const line of logicalLines(text)) {
+        while (scopes.length > 0 && scopes[scopes.length - 1].indent >= line.indent) scopes.pop();
+        let rest = line.text;
+        const compound = /^(?:async\s+)?(def|class|if|elif|else|while|for|try|except|finally|with)\b/.exec(rest);
+        const colon = compound ? headerColon(rest) : -1;
+        if (compound && colon !== -1) {
+            const header = rest.slice(0, colon);
+            rest = rest.slice(colon + 1).trim();
+            order++;
+            const stacks = bracketStacks(header);
+            const skipped = new Set<number>();
+            bindWalrus(header, skipped);
+            switch (compound[1]) {
+                case 'def':
+                case 'class': {
+                    const name = /^(?:async\s+)?(?:def|class)\s+([\w\u00C0-\uFFFF]+)/.exec(header);
+                    const open = header.indexOf('(');
+                    const params = compound[1] === 'def' && open !== -1
+                        ? parameterNames(header.slice(open + 1, header.lastIndexOf(')')))
+                        : [];
+                    if (name) {
+                        bind(name[1]);
+                        skipped.add(header.indexOf(name[1], compound[0].length));
+                    }
+                    // Defaults, annotations and base classes are read where the def runs
+                    collectUses(header, skipped, new Set(params));
+                    scopes.push({ indent: line.indent, locals: new Set(params), globals: new Set() });
+                    break;
+                }
+                case 'for': {
+                    const loop = /^(?:async\s+)?for\b([\s\S]*?)\bin\b/.exec(header);
+                    if (loop) bindTargets(header, 0, loop[0].length - 2, stacks, skipped, false);
+                    collectUses(header, skipped);
+                    break;
+                }
+                case 'with':
+                case 'except':
+                    for (const match of header.matchAll(/\bas\s+([\w\u00C0-\uFFFF]+)/g)) {
+                        const at = (match.index ?? 0) + match[0].length - match[1].length;
+                        bindTargets(header, at, at + match[1].length, stacks, skipped, false);
+                    }
+                    collectUses(header, skipped);
+                    break;
+                default:
+                    collectUses(header, skipped);
+            }
+        }
+        for (const part of splitTopLevel(rest, ';')) {
+            if (part.text.trim()) simpleStatement(part.text.trim());
+        }
+    }
+
+    return collector.result();
+}
+
+// JavaScript and TypeScript ---------------------------------------------
+
+// Names bound by a declaration pattern: `x`, `{ a, b: c, ...rest }`, `[x, , y = 1]`
+function patternNames(pattern: string): string[] {
+    const trimmed = pattern.trim();
+    if (!/^[[{]/.test(trimmed)) {
+        const name = wordsIn(trimmed)[0];
+        return name ? [name.name] : [];
+    }
+    return wordsIn(trimmed)
+        .filter(word => /^[[{,:.]?$/.test(previousChar(trimmed, word.start)) && nextChar(trimmed, word.end) !== ':')
+        .filter(word => !JS_KEYWORDS.has(word.name))
+        .map(word => word.name);
+}
+
+// Top-level statements: split at `;` and at line breaks that end a statement
+function jsStatements(text: string): string[] {
+    const stacks = bracketStacks(text);
+    const statements: string[] = [];
+    let start = 0;
+    for (let i = 0; i <= text.length; i++) {
+        const char = text[i];
+        if (i < text.length && (stacks[i] !== '' || (char !== ';' && char !== '\n'))) continue;
+        if (char === '\n') {
+            const before = text.slice(start, i).trimEnd().slice(-1);
+            const after = text.slice(i + 1).trimStart()[0] ?? '';
+            // A trailing operator or a leading `.` carries the statement onto the next line
+            if (/[=,+\-*/%&|^?:<>!([{]/.test(before) || /[.?:+\-*/%&|^=,)\]}>]/.test(after)) continue;
+        }
+        const statement = text.slice(start, i);
+        if (statement.trim()) statements.push(statement);
+        start = i + 1;
+    }
+    return statements;
+}
+
+// Names declared inside a statement's functions and blocks, which its body reads locally
+function innerBindings(statement: string): Set<string> {
+    const names = new Set<string>();
+    const add = (list: string) => splitTopLevel(list, ',').forEach(part => {
+        patternNames(part.text.split('=')[0]).forEach(name => names.add(name));
+    });
+    for (const match of statement.matchAll(/\b(?:const|let|var)\s+([^=;]+?)(?=\s*(?:=|;|\bof\b|\bin\b|$))/gm)) add(match[1]);
+    for (const match of statement.matchAll(/\bfunction\b[^(]*\(([^)]*)\)/g)) add(match[1]);
+    for (const match of statement.matchAll(/\(([^()]*)\)\s*(?::[^=]*)?=>/g)) add(match[1]);
+    for (const match of statement.matchAll(/([A-Za-z_$][\w$]*)\s*=>/g)) names.add(match[1]);
+    for (const match of statement.matchAll(/\bcatch\s*\(\s*([^)]*)\)/g)) add(match[1]);
+    // Method shorthand in classes and object literals
+    for (const match of statement.matchAll(/([A-Za-z_$][\w$]*)\s*\(([^()]*)\)\s*\{/g)) {
+        if (!JS_KEYWORDS.has(match[1])) add(match[2]);
+    }
+    return names;
+}
+
+function analyzeJavaScript(language: string) {
+    return (code: string): CellSymbols => {
+        const collector = new SymbolCollector();
+        const text = blankOut(code, language);
+        let order = 0;
+
+        const collectUses = (statement: string, skipped: Set<number>, local: Set<string>) => {
+            for (const word of wordsIn(statement)) {
+                if (skipped.has(word.start) || JS_KEYWORDS.has(word.name) || local.has(word.name)) continue;
+                if (isProperty(statement, word)) continue;
+                // Keys of object literals: { name: value }
+                if (nextChar(statement, word.end) === ':' && /^[{,]$/.test(previousChar(statement, word.start))) continue;
+                collector.use(word.name, order);
+            }
+        };
+
+        for (const statement of jsStatements(text)) {
+            order++;
+            const trimmed = statement.trim();
+            const offset = statement.indexOf(trimmed);
+            const skipped = new Set<number>();
+            const skipFirst = (name: string, from: number) => {
+                const at = wordsIn(statement, from).find(word => word.name === name);
+                if (at) skipped.add(at.start);
+            };
+
+            const declaration = /^(?:export\s+)?(?:const|let|var)\s+/.exec(trimmed);
+            const named = /^(?:export\s+)?(?:(?:async\s+)?function\s*\*?|class)\s*([A-Za-z_$][\w$]*)/.exec(trimmed);
+            if (declaration) {
+                const body = trimmed.slice(declaration[0].length);
+                for (const declarator of splitTopLevel(body, ',')) {
+                    const sign = assignmentSigns(declarator.text, bracketStacks(declarator.text))[0];
+                    const pattern = sign ? declarator.text.slice(0, sign.index) : declarator.text;
+                    for (const name of patternNames(pattern)) {
+                        collector.define(name, order);
+                        skipFirst(name, offset + declaration[0].length + declarator.start);
+                    }
+                }
+            } else if (named) {
+                collector.define(named[1], order);
+                skipFirst(named[1], offset);
+            } else {
+                const stacks = bracketStacks(trimmed);
+                let start = 0;
+                for (const sign of assignmentSigns(trimmed, stacks)) {
+                    const target = trimmed.slice(start, sign.index).trim();
+                    const names = /^[A-Za-z_$][\w$]*$/.test(target) || target.startsWith('[') ? patternNames(target) : [];
+                    for (const name of names) {
+                        collector.define(name, order);
+                        if (!sign.augmented) skipFirst(name, offset + start);
+                    }
+                    start = sign.index + 1;
+                }
+            }
+            collectUses(statement, skipped, innerBindings(statement));
+        }
+
+        return collector.result();
+    };
+}
+
+// SQL ---------------------------------------------------------------------
+
+const SQL_CLAUSES = keywords(`
+    where group order having limit offset join left right inner outer full cross natural on using union
+    intersect except window qualify as select from`);
+
+const unquote = (name: string) => name.replace(/^"|"$/g, '').split('.').pop()!;
+
+function analyzeSql(code: string): CellSymbols {
+    const text = blankOut(code, 'sql');
+    const defines = new Set<string>();
+    const uses = new Set<string>();
+    // Names of CTEs are local to their query
+    const local = new Set(Array.from(text.matchAll(/(?:\bwith(?:\s+recursive)?|,)\s*(\w+)\s+as\s*\(/gi), match => match[1]));
+
+    for (const match of text.matchAll(/\bcreate\s+(?:or\s+replace\s+)?(?:temp(?:orary)?\s+)?(?:table|view)\s+(?:if\s+not\s+exists\s+)?("[^"]+"|[\w.]+)/gi)) {
+        defines.add(unquote(match[1]));
+    }
+    // FROM lists (`from a, b as c`) and JOINs; table functions and subqueries aren't names
+    const table = /\s*("[^"]+"|[\w.]+)(?![\w.]|\s*\()(?:\s+(?:as\s+)?(\w+))?\s*/y;
+    for (const match of text.matchAll(/\b(?:from|join)\b/gi)) {
+        table.lastIndex = (match.index ?? 0) + match[0].length;
+        for (let found = table.exec(text); found; found = table.exec(text)) {
+            const name = unquote(found[1]);
+            if (!local.has(name) && !SQL_CLAUSES.has(name.toLowerCase())) uses.add(name);
+            if (found[2] && SQL_CLAUSES.has(found[2].toLowerCase())) break;
+            if (match[0].toLowerCase() !== 'from' || text[table.lastIndex] !== ',') break;
+            table.lastIndex++;
+        }
+    }
+    return { defines: Array.from(defines), uses: Array.from(uses).filter(name => !defines.has(name)) };
+}
+
+// Graph -------------------------------------------------------------------
+
+const ANALYZERS: Record<string, (code: string) => CellSymbols> = {
+    python: analyzePython,
+    javascript: analyzeJavaScript('javascript'),
+    typescript: analyzeJavaScript('typescript'),
+    sql: analyzeSql,
+};
+
+const CACHE_LIMIT = 500;
+const cache = new Map<string, CellSymbols>();
+
+/**
+ * Names a cell defines and uses; null for languages that aren't analysed
+ */
+export function analyzeCell(code: string, language: string): CellSymbols | null {
+    const analyze = ANALYZERS[language];
+    if (!analyze) return null;
+    const key = `${language}\n${code}`;
+    let symbols = cache.get(key);
+    if (!symbols) {
+        symbols = analyze(code);
+        if (cache.size >= CACHE_LIMIT) cache.clear();
+        cache.set(key, symbols);
+    }
+    return symbols;
+}
+
+export function buildDependencyGraph(cells: DependencyCell[]): DependencyGraph {
+    const code = cells.filter(cell => cell.type === 'code');
+    const symbols = new Map(code.map(cell => [cell.id, analyzeCell(cell.content, cell.language) ?? NO_SYMBOLS]));
+    const parents = new Map(code.map((cell): [string, string[]] => [cell.id, []]));
+    const children = new Map(code.map((cell): [string, string[]] => [cell.id, []]));
+
+    const definers = new Map<string, number[]>();
+    code.forEach((cell, index) => {
+        for (const name of symbols.get(cell.id)!.defines) {
+            definers.set(name, [...(definers.get(name) ?? []), index]);
+        }
+    });
+
+    code.forEach((cell, index) => {
+        const sources = new Set<string>();
+        for (const name of symbols.get(cell.id)!.uses) {
+            const candidates = (definers.get(name) ?? []).filter(at => at !== index);
+            const above = candidates.filter(at => at < index);
+            const source = above.length > 0 ? above[above.length - 1] : candidates[0];
+            if (source !== undefined) sources.add(code[source].id);
+        }
+        parents.set(cell.id, Array.from(sources));
+        sources.forEach(source => children.get(source)!.push(cell.id));
+    });
+
+    // Topological order, taking the ready cell that comes first in the notebook
+    const position = new Map(code.map((cell, index) => [cell.id, index]));
+    const waiting = new Map(code.map(cell => [cell.id, parents.get(cell.id)!.length]));
+    const ready = code.filter(cell => waiting.get(cell.id) === 0).map(cell => cell.id);
+    const order: string[] = [];
+    while (ready.length > 0) {
+        ready.sort((a, b) => position.get(a)! - position.get(b)!);
+        const id = ready.shift()!;
+        order.push(id);
+        for (const child of children.get(id)!) {
+            const left = waiting.get(child)! - 1;
+            waiting.set(child, left);
+            if (left === 0) ready.push(child);
+        }
+    }
+    const placed = new Set(order);
+    const cyclic = new Set(code.filter(cell => !placed.has(cell.id)).map(cell => cell.id));
+    order.push(...cyclic);
+
+    return { symbols, parents, children, order, cyclic };
+}
+
+// Cells reachable from `id` along `edges`, in run order
+function reachable(graph: DependencyGraph, id: string, edges: Map<string, string[]>): string[] {
+    const seen = new Set<string>();
+    const pending = [id];
+    while (pending.length > 0) {
+        for (const next of edges.get(pending.pop()!) ?? []) {
+            if (!seen.has(next)) {
+                seen.add(next);
+                pending.push(next);
+            }
+        }
+    }
+    seen.delete(id);
+    return graph.order.filter(cell => seen.has(cell));
+}
+
+/**
+ * Cells `id` depends on, directly or not, in run order
+ */
+export const upstreamOf = (graph: DependencyGraph, id: string) => reachable(graph, id, graph.parents);
+
+/**
+ * Cells that depend on `id`, directly or not, in run order
+ */
+export const downstreamOf = (graph: DependencyGraph, id: string) => reachable(graph, id, graph.children);
+
+/**
+ * Cells whose inputs changed since they last ran: they were edited since, or
+ * a cell they depend on is stale itself or has run again since
+ */
+export function findStaleCells(cells: DependencyCell[], graph: DependencyGraph): Set<string> {
+    const byId = new Map(cells.map(cell => [cell.id, cell]));
+    const stale = new Set<string>();
+    for (const id of graph.order) {
+        const cell = byId.get(id);
+        const run = cell?.lastRun;
+        if (!cell || !run) continue;
+        const inputsChanged = graph.parents.get(id)!.some(parent => {
+            const parentRun = byId.get(parent)?.lastRun;
+            return stale.has(parent) || (parentRun !== undefined && parentRun.order > run.order);
+        });
+        if (run.source !== cell.content || inputsChanged) stale.add(id);
+    }
+    return stale;
+}
@@ -0,0 +1,647 @@
+"use client";
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, CaseSensitive, X } from 'lucide-react';
+import type { CompletionResult, InspectionResult } from '../../../../services/jupyter-kernel-client';
+import { HIGHLIGHT_CLASSES, HighlightToken, tokenize } from '../render/highlight';
+import { AnsiText } from '../outputs/output-renderers';
+import {
+    TextEdit,
+    TextRange,
+    deleteBackward,
+    deleteCharacter,
+    findAll,
+    indentLines,
+    indentUnit,
+    insertNewline,
+    isPairCharacter,
+    isWordChar,
+    lineStart,
+    matchBracket,
+    toggleLineComment,
+    typeCharacter,
+    wordAt,
+} from './editing';
+
+interface CodeEditorProps {
+    value: string;
+    language: string;
+    onChange: (value: string) => void;
+    // Runs first; calling preventDefault() stops the editor's own handling
+    onKeyDown?: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+    onFocus?: () => void;
+    placeholder?: string;
+    complete?: (code: string, cursorPos: number) => Promise<CompletionResult | null>;
+    inspect?: (code: string, cursorPos: number) => Promise<InspectionResult | null>;
+}
+
+interface CompletionItem {
+    text: string;
+    type?: string;
+}
+
+interface CompletionList {
+    items: CompletionItem[];
+    from: number; // Where the replaced prefix starts
+    index: number;
+    top: number;
+    left: number;
+}
+
+interface FindState {
+    query: string;
+    replacement: string;
+    caseSensitive: boolean;
+    index: number;
+}
+
+// Overlay decoration over [from, to)
+interface Mark {
+    from: number;
+    to: number;
+    className: string;
+}
+
+const LINE_HEIGHT = 20; // leading-5
+const LAYOUT = 'm-0 p-3 font-mono text-sm leading-5 whitespace-pre-wrap break-words [tab-size:4]';
+
+function completionItems(result: CompletionResult): CompletionItem[] {
+    const types = new Map<string, string>();
+    const experimental = result.metadata?._jupyter_types_experimental;
+    if (Array.isArray(experimental)) {
+        for (const entry of experimental as { text?: unknown; type?: unknown }[]) {
+            if (typeof entry?.text === 'string' && typeof entry.type === 'string') types.set(entry.text, entry.type);
+        }
+    }
+    return Array.from(new Set(result.matches)).map(text => ({ text, type: types.get(text) }));
+}
+
+/**
+ * Replace a range so the browser records it as typing: native undo keeps working
+ */
+function replaceText(textarea: HTMLTextAreaElement, from: number, to: number, text: string): void {
+    textarea.setSelectionRange(from, to);
+    const done = text
+        ? document.execCommand('insertText', false, text)
+        : document.execCommand('delete');
+    if (!done) {
+        textarea.setRangeText(text, from, to, 'end');
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+}
+
+/**
+ * Highlighted copy of the text, split wherever a decoration starts or ends
+ */
+function renderLayer(
+    text: string,
+    tokens: HighlightToken[],
+    marks: Mark[],
+    carets: number[],
+    anchor: number
+): React.ReactNode[] {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const token of tokens) {
+        starts.push(offset);
+        offset += token.text.length;
+    }
+    const boundaries = Array.from(new Set([0, text.length, anchor, ...starts, ...carets, ...marks.flatMap(mark => [mark.from, mark.to])]))
+        .filter(at => at >= 0 && at <= text.length)
+        .sort((a, b) => a - b);
+
+    const nodes: React.ReactNode[] = [];
+    let token = 0;
+    boundaries.forEach((at, i) => {
+        if (at === anchor) nodes.push(<span key="anchor" data-anchor />);
+        if (carets.includes(at)) {
+            nodes.push(
+                <span key={`caret-${at}`} className="relative">
+                    <span className="absolute left-0 top-0 h-5 border-l-2 border-cyan-300" />
+                </span>
+            );
+        }
+        const next = boundaries[i + 1];
+        if (next === undefined) return;
+        while (token < tokens.length - 1 && starts[token + 1] <= at) token++;
+        const kind = tokens[token]?.kind;
+        const classes = marks.filter(mark => mark.from <= at && mark.to >= next).map(mark => mark.className);
+        if (kind) classes.unshift(`hl-${kind}`);
+        const segment = text.slice(at, next);
+        nodes.push(classes.length ? <span key={at} className={classes.join(' ')}>{segment}</span> : segment);
+    });
+    return nodes;
+}
+
+/**
+ * Cell code editor: a transparent textarea over a highlighted copy of its text.
+ * The textarea keeps native caret movement, IME input and undo; the layer
+ * underneath draws syntax colours, the matching bracket, find results and
+ * extra cursors.
+ */
+export default function CodeEditor({
+    value,
+    language,
+    onChange,
+    onKeyDown,
+    onFocus,
+    placeholder,
+    complete,
+    inspect,
+}: CodeEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const layerRef = useRef<HTMLPreElement>(null);
+    const findInputRef = useRef<HTMLInputElement>(null);
+    const activeItemRef = useRef<HTMLDivElement>(null);
+    const altClickRef = useRef<TextRange | null>(null);
+    const requestRef = useRef(0);
+
+    const [selection, setSelection] = useState<TextRange>({ start: 0, end: 0 });
+    const [extraRanges, setExtraRanges] = useState<TextRange[]>([]);
+    const [focused, setFocused] = useState(false);
+    const [completion, setCompletion] = useState<CompletionList | null>(null);
+    const [tooltip, setTooltip] = useState<{ text: string; top: number; left: number } | null>(null);
+    const [find, setFind] = useState<FindState | null>(null);
+
+    const unit = indentUnit(language);
+    const tokens = useMemo(() => tokenize(value, language), [value, language]);
+    const matches = useMemo(
+        () => find ? findAll(value, find.query, find.caseSensitive) : [],
+        [value, find]
+    );
+    const currentMatch = matches.length > 0 ? (find?.index ?? 0) % matches.length : -1;
+
+    // The list narrows as the user keeps typing, and closes when they type past a word
+    const prefix = completion && selection.end >= completion.from ? value.slice(completion.from, selection.end) : null;
+    const visibleItems = completion && prefix !== null && /^[\w$⋋]*$/.test(prefix)
+        ? completion.items.filter(item => item.text.toLowerCase().startsWith(prefix.toLowerCase()))
+        : [];
+    const activeCompletion = completion && visibleItems.length > 0 ? completion : null;
+    const activeIndex = activeCompletion ? Math.min(activeCompletion.index, visibleItems.length - 1) : 0;
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.style.height = '0px';
+        textarea.style.height = `${textarea.scrollHeight}px`;
+    }, [value]);
+
+    useEffect(() => {
+        activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex, activeCompletion]);
+
+    const readSelection = (): TextRange => {
+        const textarea = textareaRef.current!;
+        return { start: textarea.selectionStart, end: textarea.selectionEnd };
+    };
+
+    // Offsets of the primary caret in the layer, for placing popups under it
+    const caretPosition = () => {
+        const anchor = layerRef.current?.querySelector<HTMLElement>('[data-anchor]');
+        return { top: (anchor?.offsetTop ?? 0) + LINE_HEIGHT, left: anchor?.offsetLeft ?? 0 };
+    };
+
+    const select = (range: TextRange) => {
+        textareaRef.current?.setSelectionRange(range.start, range.end);
+        setSelection(range);
+    };
+
+    /**
+     * Apply one edit per cursor (the first is the primary cursor) and move
+     * every cursor to where its edit leaves it
+     */
+    const applyEdits = (edits: TextEdit[], keepCursors = true) => {
+        const textarea = textareaRef.current;
+        if (!textarea || edits.length === 0) return;
+        const order = edits.map((edit, index) => ({ edit, index })).sort((a, b) => a.edit.from - b.edit.from);
+
+        // Back to front, so earlier offsets stay valid
+        for (let i = order.length - 1; i >= 0; i--) {
+            const { edit } = order[i];
+            if (edit.from === edit.to && !edit.insert) continue;
+            replaceText(textarea, edit.from, edit.to, edit.insert);
+        }
+
+        const selections: TextRange[] = new Array(edits.length);
+        let delta = 0;
+        for (const { edit, index } of order) {
+            const base = edit.from + delta;
+            const after = edit.select ?? { start: edit.insert.length, end: edit.insert.length };
+            selections[index] = { start: base + after.start, end: base + after.end };
+            delta += edit.insert.length - (edit.to - edit.from);
+        }
+        select(selections[0]);
+        setExtraRanges(keepCursors ? selections.slice(1) : []);
+    };
+
+    const requestCompletion = async (explicit: boolean) => {
+        const textarea = textareaRef.current;
+        if (!complete || !textarea) return;
+        const code = textarea.value;
+        const cursor = textarea.selectionEnd;
+        const request = ++requestRef.current;
+
+        const result = await complete(code, cursor).catch(() => null);
+        const current = textareaRef.current;
+        if (request !== requestRef.current || !current || !result) return;
+        // Drop the reply if the text it was computed for has changed under it
+        if (current.selectionEnd < result.cursorStart || current.value.slice(0, result.cursorStart) !== code.slice(0, result.cursorStart)) return;
+
+        const items = completionItems(result);
+        if (items.length === 0) {
+            setCompletion(null);
+            return;
+        }
+        // Tab with a single candidate completes it directly, as in Jupyter
+        if (explicit && items.length === 1) {
+            applyEdits([{ from: result.cursorStart, to: current.selectionEnd, insert: items[0].text }], false);
+            setCompletion(null);
+            return;
+        }
+        setCompletion({ items, from: result.cursorStart, index: 0, ...caretPosition() });
+    };
+
+    const acceptCompletion = (item: CompletionItem) => {
+        if (!completion) return;
+        applyEdits([{ from: completion.from, to: readSelection().end, insert: item.text }], false);
+        setCompletion(null);
+        textareaRef.current?.focus();
+    };
+
+    const requestInspect = async () => {
+        const textarea = textareaRef.current;
+        if (!inspect || !textarea) return;
+        const result = await inspect(textarea.value, textarea.selectionEnd).catch(() => null);
+        const text = result?.found ? result.data['text/plain'] : undefined;
+        if (typeof text !== 'string' || !text.trim()) return;
+        setTooltip({ text, ...caretPosition() });
+    };
+
+    /**
+     * Ctrl+D: select the word at the caret, then add its next occurrence as a cursor
+     */
+    const addNextOccurrence = () => {
+        const text = textareaRef.current!.value;
+        const primary = readSelection();
+        if (primary.start === primary.end) {
+            const word = wordAt(text, primary.start);
+            if (word.start < word.end) select(word);
+            return;
+        }
+        const needle = text.slice(primary.start, primary.end);
+        const taken = [primary, ...extraRanges];
+        const after = Math.max(...taken.map(range => range.end));
+        let at = text.indexOf(needle, after);
+        if (at === -1) at = text.indexOf(needle);
+        if (at === -1 || taken.some(range => range.start === at)) return;
+        setExtraRanges([...extraRanges, primary]);
+        select({ start: at, end: at + needle.length });
+    };
+
+    const openFind = () => {
+        const textarea = textareaRef.current!;
+        const selected = textarea.value.slice(textarea.selectionStart, textarea.selectionEnd);
+        setFind(previous => ({
+            query: selected && !selected.includes('\n') ? selected : previous?.query ?? '',
+            replacement: previous?.replacement ?? '',
+            caseSensitive: previous?.caseSensitive ?? false,
+            index: 0,
+        }));
+        requestAnimationFrame(() => findInputRef.current?.select());
+    };
+
+    const goToMatch = (step: number) => {
+        if (!find || matches.length === 0) return;
+        const index = (currentMatch + step + matches.length) % matches.length;
+        setFind({ ...find, index });
+        select({ start: matches[index], end: matches[index] + find.query.length });
+    };
+
+    const closeFind = () => {
+        if (find && currentMatch >= 0) {
+            select({ start: matches[currentMatch], end: matches[currentMatch] + find.query.length });
+        }
+        setFind(null);
+        textareaRef.current?.focus();
+    };
+
+    const replaceMatches = (all: boolean) => {
+        if (!find || currentMatch < 0) return;
+        const targets = all ? matches : [matches[currentMatch]];
+        textareaRef.current?.focus();
+        applyEdits(targets.map(at => ({ from: at, to: at + find.query.length, insert: find.replacement })), false);
+        findInputRef.current?.focus();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        onKeyDown?.(e);
+        if (e.defaultPrevented || e.nativeEvent.isComposing) return;
+
+        const text = e.currentTarget.value;
+        const primary = readSelection();
+        const ranges = [primary, ...extraRanges];
+        const multi = extraRanges.length > 0;
+        const mod = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        const run = (edits: TextEdit[]) => {
+            e.preventDefault();
+            applyEdits(edits);
+        };
+
+        if (activeCompletion) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setCompletion({ ...activeCompletion, index: (activeIndex + step + visibleItems.length) % visibleItems.length });
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                acceptCompletion(visibleItems[activeIndex]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setCompletion(null);
+                return;
+            }
+        }
+        if (tooltip) {
+            setTooltip(null);
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                return;
+            }
+        }
+
+        if (mod && key === 'f') {
+            e.preventDefault();
+            openFind();
+            return;
+        }
+        if (mod && key === 'd') {
+            e.preventDefault();
+            addNextOccurrence();
+            return;
+        }
+        if (mod && e.key === '/') {
+            const edit = toggleLineComment(text, primary, language);
+            if (edit) run([edit]);
+            return;
+        }
+        if (e.ctrlKey && e.key === ' ') {
+            e.preventDefault();
+            void requestCompletion(true);
+            return;
+        }
+        if (e.key === 'Escape' && multi) {
+            e.preventDefault();
+            setExtraRanges([]);
+            return;
+        }
+
+        if (e.key === 'Tab' && !mod && !e.altKey) {
+            const spansLines = text.slice(primary.start, primary.end).includes('\n');
+            if (e.shiftKey) {
+                // Shift+Tab inside code shows documentation, as in Jupyter; in indentation it dedents
+                const inIndent = /^\s*$/.test(text.slice(lineStart(text, primary.start), primary.start));
+                if (!spansLines && !inIndent && inspect) {
+                    e.preventDefault();
+                    void requestInspect();
+                    return;
+                }
+                run(ranges.map(range => indentLines(text, range, unit, true)));
+                return;
+            }
+            if (spansLines) {
+                run(ranges.map(range => indentLines(text, range, unit, false)));
+                return;
+            }
+            const before = text[primary.start - 1];
+            if (!multi && primary.start === primary.end && complete && (isWordChar(before) || before === '.')) {
+                e.preventDefault();
+                void requestCompletion(true);
+                return;
+            }
+            run(ranges.map(range => ({
+                from: range.start,
+                to: range.end,
+                insert: ' '.repeat(unit.length - ((range.start - lineStart(text, range.start)) % unit.length)),
+            })));
+            return;
+        }
+
+        if (e.key === 'Enter' && !e.shiftKey && !mod && !e.altKey) {
+            run(ranges.map(range => insertNewline(text, range, language)));
+            return;
+        }
+        if (e.key === 'Backspace' && !mod && !e.altKey) {
+            const edits = ranges.map(range => deleteBackward(text, range, unit));
+            if (multi) {
+                run(edits.map((edit, i) => edit ?? deleteCharacter(text, ranges[i], -1)));
+            } else if (edits[0]) {
+                run([edits[0]]);
+            }
+            return;
+        }
+        if (e.key === 'Delete' && multi && !mod && !e.altKey) {
+            run(ranges.map(range => deleteCharacter(text, range, 1)));
+            return;
+        }
+        if (e.key.length === 1 && !mod) {
+            if (multi || isPairCharacter(e.key)) {
+                run(ranges.map(range => typeCharacter(text, range, e.key, true)));
+            }
+            if (e.key === '.' && !multi) setTimeout(() => void requestCompletion(false), 0);
+            return;
+        }
+        // Moving the caret leaves multi-cursor mode
+        if (multi && /^(Arrow|Home|End|Page)/.test(e.key)) setExtraRanges([]);
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        if (extraRanges.length === 0) return;
+        e.preventDefault();
+        const pasted = e.clipboardData.getData('text/plain');
+        const ranges = [readSelection(), ...extraRanges];
+        // One line per cursor when the counts match, like copying from multiple cursors elsewhere
+        const lines = pasted.split('\n');
+        const perCursor = lines.length === ranges.length;
+        applyEdits(ranges.map((range, i) => ({ from: range.start, to: range.end, insert: perCursor ? lines[i] : pasted })));
+    };
+
+    const marks: Mark[] = [];
+    if (focused && selection.start === selection.end) {
+        const pair = matchBracket(value, selection.end);
+        if (pair) {
+            for (const at of pair) marks.push({ from: at, to: at + 1, className: 'bg-white/15 outline outline-1 outline-white/30 rounded-sm' });
+        }
+    }
+    if (find?.query) {
+        matches.forEach((at, i) => marks.push({
+            from: at,
+            to: at + find.query.length,
+            className: i === currentMatch ? 'bg-amber-400/50 rounded-sm' : 'bg-amber-400/20 rounded-sm',
+        }));
+    }
+    for (const range of extraRanges) {
+        if (range.start !== range.end) marks.push({ from: range.start, to: range.end, className: 'bg-cyan-500/25' });
+    }
+    const layer = renderLayer(value, tokens, marks, extraRanges.map(range => range.end), selection.end);
+
+    return (
+        <div>
+            {find && (
+                <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border-b border-white/5 bg-black/20 text-xs">
+                    <input
+                        ref={findInputRef}
+                        value={find.query}
+                        onChange={(e) => setFind({ ...find, query: e.target.value, index: 0 })}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                goToMatch(e.shiftKey ? -1 : 1);
+                            }
+                            if (e.key === 'Escape') {
+                                e.preventDefault();
+                                closeFind();
+                            }
+                            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+                                e.preventDefault();
+                                e.currentTarget.select();
+                            }
+                        }}
+                        placeholder="Find"
+                        className="w-36 bg-black/30 rounded px-1.5 py-0.5 font-mono text-white/80 outline-none border border-white/10 focus:border-cyan-500/40"
+                        spellCheck={false}
+                    />
+                    <span className="w-16 text-center font-mono text-white/40">
+                        {find.query ? (matches.length ? `${currentMatch + 1}/${matches.length}` : 'No results') : ''}
+                    </span>
+                    <button onClick={() => goToMatch(-1)} className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10" title="Previous (Shift+Enter)">
+                        <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => goToMatch(1)} className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10" title="Next (Enter)">
+                        <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                        onClick={() => setFind({ ...find, caseSensitive: !find.caseSensitive, index: 0 })}
+                        className={`p-1 rounded hover:bg-white/10 ${find.caseSensitive ? 'text-cyan-400' : 'text-white/40 hover:text-white'}`}
+                        title="Match case"
+                    >
+                        <CaseSensitive className="w-3.5 h-3.5" />
+                    </button>
+                    <input
+                        value={find.replacement}
+                        onChange={(e) => setFind({ ...find, replacement: e.target.value })}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                replaceMatches(false);
+                            }
+                            if (e.key === 'Escape') {
+                                e.preventDefault();
+                                closeFind();
+                            }
+                        }}
+                        placeholder="Replace"
+                        className="w-36 bg-black/30 rounded px-1.5 py-0.5 font-mono text-white/80 outline-none border border-white/10 focus:border-cyan-500/40"
+                        spellCheck={false}
+                    />
+                    <button onClick={() => replaceMatches(false)} className="px-1.5 py-0.5 rounded text-white/50 hover:text-white hover:bg-white/10">
+                        Replace
+                    </button>
+                    <button onClick={() => replaceMatches(true)} className="px-1.5 py-0.5 rounded text-white/50 hover:text-white hover:bg-white/10">
+                        All
+                    </button>
+                    <button onClick={closeFind} className="ml-auto p-1 rounded text-white/30 hover:text-white hover:bg-white/10" title="Close (Escape)">
+                        <X className="w-3 h-3" />
+                    </button>
+                </div>
+            )}
+            <div className={`relative ${HIGHLIGHT_CLASSES}`}>
+                <pre ref={layerRef} aria-hidden className={`absolute inset-0 pointer-events-none overflow-hidden text-zinc-200 ${LAYOUT}`}>
+                    {layer}
+                    {/* Gives a trailing empty line its height, as in the textarea */}
+                    {' '}
+                </pre>
+                <textarea
+                    ref={textareaRef}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onPaste={handlePaste}
+                    onSelect={(e) => setSelection({ start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd })}
+                    onFocus={() => {
+                        setFocused(true);
+                        onFocus?.();
+                    }}
+                    onBlur={() => {
+                        setFocused(false);
+                        setCompletion(null);
+                        setTooltip(null);
+                    }}
+                    onMouseDown={(e) => {
+                        setCompletion(null);
+                        setTooltip(null);
+                        if (e.altKey) {
+                            altClickRef.current = readSelection();
+                        } else if (extraRanges.length > 0) {
+                            setExtraRanges([]);
+                        }
+                    }}
+                    onMouseUp={(e) => {
+                        // Alt+Click keeps the previous caret as an extra cursor, or removes a cursor clicked again
+                        const previous = altClickRef.current;
+                        altClickRef.current = null;
+                        if (!previous) return;
+                        const clicked = e.currentTarget.selectionEnd;
+                        const remaining = extraRanges.filter(range => range.end !== clicked);
+                        if (remaining.length !== extraRanges.length) {
+                            setExtraRanges(remaining);
+                        } else if (previous.end !== clicked) {
+                            setExtraRanges([...extraRanges, previous]);
+                        }
+                    }}
+                    placeholder={placeholder}
+                    className={`
+                        relative block w-full min-h-[4rem] resize-none overflow-hidden bg-transparent border-none outline-none
+                        text-transparent caret-white selection:bg-cyan-500/30 placeholder:text-white/20 ${LAYOUT}
+                    `}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                />
+                {activeCompletion && (
+                    <div
+                        className="absolute z-30 min-w-[12rem] max-w-md max-h-48 overflow-y-auto py-1 rounded-md border border-white/10 bg-zinc-800 shadow-xl text-xs font-mono"
+                        style={{ top: activeCompletion.top, left: activeCompletion.left }}
+                    >
+                        {visibleItems.map((item, i) => (
+                            <div
+                                key={item.text}
+                                ref={i === activeIndex ? activeItemRef : undefined}
+                                // Keep the textarea focused so it doesn't close the list
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => acceptCompletion(item)}
+                                className={`flex items-center justify-between gap-4 px-2 py-0.5 cursor-pointer ${i === activeIndex ? 'bg-cyan-500/20 text-white' : 'text-white/70 hover:bg-white/5'}`}
+                            >
+                                <span className="truncate">{item.text}</span>
+                                {item.type && <span className="text-[10px] text-white/30">{item.type}</span>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {tooltip && (
+                    <div
+                        className="absolute z-30 max-w-xl max-h-60 overflow-auto p-2 rounded-md border border-white/10 bg-zinc-800 shadow-xl"
+                        style={{ top: tooltip.top, left: tooltip.left }}
+                        onMouseDown={(e) => e.preventDefault()}
+                    >
+                        <AnsiText text={tooltip.text} className="text-xs text-white/80" />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,252 @@
+/**
+ * Editing commands for the cell editor
+ *
+ * Pure functions from (text, selection) to the edits a key press makes:
+ * auto-indent, bracket and quote pairing, indent/dedent, line comments and
+ * bracket matching. The editor applies the edits to every cursor, so the same
+ * command works with multiple cursors.
+ */
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export interface TextEdit {
+    from: number;
+    to: number;
+    insert: string;
+    // Selection afterwards, relative to `from`; defaults to a caret after the inserted text
+    select?: TextRange;
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+const QUOTES = new Set(['"', "'", '`']);
+
+// Line comment prefix per cell language; absent where the language has none
+const LINE_COMMENTS: Record<string, string> = {
+    python: '#', bash: '#', vnc: '#', navlambda: '#',
+    sql: '--',
+    javascript: '//', typescript: '//', rust: '//',
+};
+
+/**
+ * Indent unit: four spaces where the language's style guide says so, two elsewhere
+ */
+export function indentUnit(language: string): string {
+    return ['python', 'rust', 'vnc', 'navlambda', 'sql'].includes(language) ? '    ' : '  ';
+}
+
+export const lineStart = (text: string, pos: number) => text.lastIndexOf('\n', pos - 1) + 1;
+
+export function lineEnd(text: string, pos: number): number {
+    const end = text.indexOf('\n', pos);
+    return end === -1 ? text.length : end;
+}
+
+const leadingWhitespace = (line: string) => /^[ \t]*/.exec(line)![0];
+
+export const isWordChar = (char: string | undefined) => !!char && /[\w$⋋]/.test(char);
+
+// Characters typeCharacter treats specially; others are left to the browser
+export const isPairCharacter = (char: string) => char in OPENERS || char in CLOSERS || QUOTES.has(char);
+
+/**
+ * Edit for typing `char` over a selection: pairs brackets and quotes, wraps
+ * selected text, and steps over a closing character that is already there
+ */
+export function typeCharacter(text: string, range: TextRange, char: string, autoClose: boolean): TextEdit {
+    const { start, end } = range;
+    const next = text[end];
+    const previous = text[start - 1];
+
+    if (autoClose && start === end && next === char && (char in CLOSERS || QUOTES.has(char))) {
+        return { from: end, to: end, insert: '', select: { start: 1, end: 1 } };
+    }
+
+    const closer = OPENERS[char] ?? (QUOTES.has(char) ? char : undefined);
+    if (autoClose && closer) {
+        if (start !== end) {
+            const selected = text.slice(start, end);
+            return { from: start, to: end, insert: `${char}${selected}${closer}`, select: { start: 1, end: 1 + selected.length } };
+        }
+        const nextAllows = next === undefined || /\s/.test(next) || next in CLOSERS || next === ',' || next === ';';
+        // Don't pair a quote that closes a string or follows a word (it's an apostrophe)
+        const quoteAllows = !QUOTES.has(char) || (!isWordChar(previous) && previous !== char);
+        if (nextAllows && quoteAllows) {
+            return { from: start, to: end, insert: `${char}${closer}`, select: { start: 1, end: 1 } };
+        }
+    }
+    return { from: start, to: end, insert: char };
+}
+
+/**
+ * Edit for Backspace: removes an empty bracket pair together, and whitespace
+ * back to the previous indent stop; null when the default deletion is right
+ */
+export function deleteBackward(text: string, range: TextRange, unit: string): TextEdit | null {
+    const { start, end } = range;
+    if (start !== end || start === 0) return null;
+
+    const previous = text[start - 1];
+    const next = text[start];
+    if ((OPENERS[previous] === next || (QUOTES.has(previous) && previous === next))) {
+        return { from: start - 1, to: start + 1, insert: '' };
+    }
+
+    const before = text.slice(lineStart(text, start), start);
+    if (before.length > 0 && /^ +$/.test(before)) {
+        const remove = before.length % unit.length || unit.length;
+        return { from: start - remove, to: start, insert: '' };
+    }
+    return null;
+}
+
+/**
+ * Plain Backspace (-1) or Delete (1): the selection, or one character, which
+ * may be a surrogate pair
+ */
+export function deleteCharacter(text: string, range: TextRange, direction: -1 | 1): TextEdit {
+    const { start, end } = range;
+    if (start !== end) return { from: start, to: end, insert: '' };
+    if (direction < 0) {
+        const width = start >= 2 && /[\uDC00-\uDFFF]/.test(text[start - 1]) ? 2 : 1;
+        return { from: Math.max(0, start - width), to: start, insert: '' };
+    }
+    const width = /[\uD800-\uDBFF]/.test(text[end] ?? '') ? 2 : 1;
+    return { from: end, to: Math.min(text.length, end + width), insert: '' };
+}
+
+/**
+ * Edit for Enter: keeps the line's indentation, indents after an opening
+ * bracket (or a colon in Python), and splits an empty bracket pair onto three lines
+ */
+export function insertNewline(text: string, range: TextRange, language: string): TextEdit {
+    const { start, end } = range;
+    const unit = indentUnit(language);
+    const line = text.slice(lineStart(text, start), start);
+    const indent = leadingWhitespace(line);
+    const trimmed = line.trimEnd();
+    const opens = /[([{]$/.test(trimmed) || (language === 'python' && trimmed.endsWith(':'));
+    const closer = text.slice(end).match(/^[ \t]*([)\]}])/)?.[1];
+
+    if (opens && closer && OPENERS[trimmed[trimmed.length - 1]] === closer) {
+        const inner = `\n${indent}${unit}`;
+        return { from: start, to: end, insert: `${inner}\n${indent}`, select: { start: inner.length, end: inner.length } };
+    }
+    return { from: start, to: end, insert: `\n${indent}${opens ? unit : ''}` };
+}
+
+/**
+ * Edit that indents (or dedents) every line touched by the selection
+ */
+export function indentLines(text: string, range: TextRange, unit: string, dedent: boolean): TextEdit {
+    const from = lineStart(text, range.start);
+    // A selection ending at the start of a line doesn't include that line
+    const lastPos = range.end > range.start && text[range.end - 1] === '\n' ? range.end - 1 : range.end;
+    const to = lineEnd(text, lastPos);
+    const lines = text.slice(from, to).split('\n');
+
+    let firstShift = 0;
+    let totalShift = 0;
+    const changed = lines.map((line, index) => {
+        let result: string;
+        if (dedent) {
+            const removable = Math.min(leadingWhitespace(line).length, unit.length);
+            result = line.slice(removable);
+        } else {
+            result = line.length > 0 || lines.length === 1 ? unit + line : line;
+        }
+        if (index === 0) firstShift = result.length - line.length;
+        totalShift += result.length - line.length;
+        return result;
+    });
+
+    return {
+        from,
+        to,
+        insert: changed.join('\n'),
+        select: {
+            start: Math.max(0, range.start - from + firstShift),
+            end: Math.max(0, range.end - from + totalShift),
+        },
+    };
+}
+
+/**
+ * Edit that comments out the selected lines, or uncomments them if they all are
+ */
+export function toggleLineComment(text: string, range: TextRange, language: string): TextEdit | null {
+    const marker = LINE_COMMENTS[language];
+    if (!marker) return null;
+
+    const from = lineStart(text, range.start);
+    const lastPos = range.end > range.start && text[range.end - 1] === '\n' ? range.end - 1 : range.end;
+    const to = lineEnd(text, lastPos);
+    const lines = text.slice(from, to).split('\n');
+    const code = lines.filter(line => line.trim().length > 0);
+    if (code.length === 0) return null;
+
+    const commented = code.every(line => line.trimStart().startsWith(marker));
+    const column = Math.min(...code.map(line => leadingWhitespace(line).length));
+    const changed = lines.map(line => {
+        if (line.trim().length === 0) return line;
+        if (commented) {
+            const at = line.indexOf(marker);
+            const width = line[at + marker.length] === ' ' ? marker.length + 1 : marker.length;
+            return line.slice(0, at) + line.slice(at + width);
+        }
+        return `${line.slice(0, column)}${marker} ${line.slice(column)}`;
+    });
+    const insert = changed.join('\n');
+    return { from, to, insert, select: { start: 0, end: insert.length } };
+}
+
+/**
+ * Positions of the bracket next to the caret and its partner, or null
+ */
+export function matchBracket(text: string, pos: number): [number, number] | null {
+    for (const at of [pos - 1, pos]) {
+        const char = text[at];
+        if (char === undefined) continue;
+        const forward = char in OPENERS;
+        if (!forward && !(char in CLOSERS)) continue;
+
+        const partner = forward ? OPENERS[char] : CLOSERS[char];
+        const step = forward ? 1 : -1;
+        let depth = 0;
+        // Cell-sized scan; quoting is ignored, which is right for nearly all real code
+        for (let i = at, scanned = 0; i >= 0 && i < text.length && scanned < 20000; i += step, scanned++) {
+            if (text[i] === char) depth++;
+            else if (text[i] === partner && --depth === 0) return [at, i];
+        }
+        return null;
+    }
+    return null;
+}
+
+/**
+ * Start offsets of every occurrence of `query`
+ */
+export function findAll(text: string, query: string, caseSensitive: boolean): number[] {
+    if (!query) return [];
+    const haystack = caseSensitive ? text : text.toLowerCase();
+    const needle = caseSensitive ? query : query.toLowerCase();
+    const matches: number[] = [];
+    for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+        matches.push(at);
+    }
+    return matches;
+}
+
+/**
+ * The word around `pos`, for selecting it with Ctrl+D
+ */
+export function wordAt(text: string, pos: number): TextRange {
+    let start = pos;
+    let end = pos;
+    while (start > 0 && isWordChar(text[start - 1])) start--;
+    while (end < text.length && isWordChar(text[end])) end++;
+    return { start, end };
+}
@@ -0,0 +1,89 @@
+/**
+ * Execution queue
+ *
+ * Cells run one at a time, in the order they were queued, the way a kernel
+ * works through execute requests. A cell can be cancelled until it starts, and
+ * a run of several cells can drop one at the last moment (when a cell before
+ * it failed) through its `skip` check.
+ */
+
+export type RunOutcome = 'ok' | 'failed' | 'cancelled';
+
+export interface QueuedCell {
+    id: string;
+    // Resolves to whether the cell ran without an error
+    run: () => Promise<boolean>;
+    // Asked just before the cell starts; true drops it as if it were cancelled
+    skip?: () => boolean;
+    // Called when the cell finishes or is dropped, before the next one starts
+    settled?: (outcome: RunOutcome) => void;
+}
+
+interface Entry extends QueuedCell {
+    done: Promise<RunOutcome>;
+    resolve: (outcome: RunOutcome) => void;
+}
+
+export class ExecutionQueue {
+    private pending: Entry[] = [];
+    private draining = false;
+
+    /**
+     * Queue a cell; one that is already waiting keeps its place and its callbacks
+     */
+    enqueue(cell: QueuedCell): Promise<RunOutcome> {
+        const waiting = this.pending.find(entry => entry.id === cell.id);
+        if (waiting) return waiting.done;
+        let resolve: (outcome: RunOutcome) => void = () => {};
+        const done = new Promise<RunOutcome>(settle => {
+            resolve = settle;
+        });
+        this.pending.push({ ...cell, done, resolve });
+        void this.drain();
+        return done;
+    }
+
+    /**
+     * Take a cell out of the queue; false if it isn't waiting
+     */
+    cancel(id: string): boolean {
+        const entry = this.pending.find(candidate => candidate.id === id);
+        if (!entry) return false;
+        this.pending = this.pending.filter(candidate => candidate !== entry);
+        this.finish(entry, 'cancelled');
+        return true;
+    }
+
+    cancelAll(): void {
+        const entries = this.pending;
+        this.pending = [];
+        entries.forEach(entry => this.finish(entry, 'cancelled'));
+    }
+
+    private finish(entry: Entry, outcome: RunOutcome): void {
+        entry.settled?.(outcome);
+        entry.resolve(outcome);
+    }
+
+    private async drain(): Promise<void> {
+        if (this.draining) return;
+        this.draining = true;
+        try {
+            for (let entry = this.pending.shift(); entry; entry = this.pending.shift()) {
+                if (entry.skip?.()) {
+                    this.finish(entry, 'cancelled');
+                    continue;
+                }
+                let ok = false;
+                try {
+                    ok = await entry.run();
+                } catch (error) {
+                    console.warn(`Cell ${entry.id} failed to run:`, error);
+                }
+                this.finish(entry, ok ? 'ok' : 'failed');
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+}
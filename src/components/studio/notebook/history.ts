@@ -0,0 +1,133 @@
+/**
+ * Notebook history
+ *
+ * Undo and redo for cell operations. An entry is a list of changes to the
+ * cell list: inserting, removing or moving a cell, or patching some of one
+ * cell's fields. Undo applies the inverse changes in reverse order. A patch
+ * only touches the fields it names, so undoing an edit keeps the outputs of a
+ * later run of the same cell.
+ */
+
+export type CellChange<T> =
+    | { type: 'insert'; index: number; cell: T }
+    | { type: 'remove'; index: number; cell: T }
+    | { type: 'move'; id: string; from: number; to: number }
+    | { type: 'update'; id: string; before: Partial<T>; after: Partial<T> };
+
+export interface HistoryEntry<T> {
+    label: string;
+    changes: CellChange<T>[];
+    cellId?: string; // Cell to select after undo or redo
+    // Consecutive entries with the same key, like keystrokes in one cell, merge into one
+    coalesceKey?: string;
+    time: number;
+}
+
+const COALESCE_MS = 1000;
+const MAX_ENTRIES = 200;
+
+function applyChange<T extends { id: string }>(cells: T[], change: CellChange<T>): T[] {
+    switch (change.type) {
+        case 'insert': {
+            const next = [...cells];
+            next.splice(Math.min(change.index, next.length), 0, change.cell);
+            return next;
+        }
+        case 'remove':
+            return cells.filter(cell => cell.id !== change.cell.id);
+        case 'move': {
+            const from = cells.findIndex(cell => cell.id === change.id);
+            if (from === -1) return cells;
+            const next = [...cells];
+            const [moved] = next.splice(from, 1);
+            next.splice(Math.min(change.to, next.length), 0, moved);
+            return next;
+        }
+        case 'update':
+            return cells.map(cell => cell.id === change.id ? { ...cell, ...change.after } : cell);
+    }
+}
+
+function invertChange<T>(change: CellChange<T>): CellChange<T> {
+    switch (change.type) {
+        case 'insert':
+            return { ...change, type: 'remove' };
+        case 'remove':
+            return { ...change, type: 'insert' };
+        case 'move':
+            return { ...change, from: change.to, to: change.from };
+        case 'update':
+            return { ...change, before: change.after, after: change.before };
+    }
+}
+
+export const applyChanges = <T extends { id: string }>(cells: T[], changes: CellChange<T>[]): T[] =>
+    changes.reduce(applyChange, cells);
+
+export const revertChanges = <T extends { id: string }>(cells: T[], changes: CellChange<T>[]): T[] =>
+    [...changes].reverse().map(invertChange).reduce(applyChange, cells);
+
+export class CellHistory<T extends { id: string }> {
+    private undoStack: HistoryEntry<T>[] = [];
+    private redoStack: HistoryEntry<T>[] = [];
+    // Off after undo or redo, so the next edit starts a new entry
+    private canCoalesce = false;
+
+    record(entry: Omit<HistoryEntry<T>, 'time'>): void {
+        const time = Date.now();
+        const last = this.undoStack[this.undoStack.length - 1];
+        this.redoStack = [];
+        if (this.canCoalesce && entry.coalesceKey && last?.coalesceKey === entry.coalesceKey && time - last.time < COALESCE_MS) {
+            last.changes = this.mergeChanges(last.changes, entry.changes);
+            last.time = time;
+            return;
+        }
+        this.undoStack.push({ ...entry, time });
+        if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift();
+        this.canCoalesce = true;
+    }
+
+    // Two patches of the same cell collapse into one, from the first `before` to the last `after`
+    private mergeChanges(earlier: CellChange<T>[], later: CellChange<T>[]): CellChange<T>[] {
+        const [first] = earlier;
+        const [second] = later;
+        if (earlier.length === 1 && later.length === 1 && first.type === 'update' && second.type === 'update' && first.id === second.id) {
+            return [{ ...first, before: { ...second.before, ...first.before }, after: { ...first.after, ...second.after } }];
+        }
+        return [...earlier, ...later];
+    }
+
+    /**
+     * Take the latest entry off the undo stack; the caller reverts its changes
+     */
+    undo(): HistoryEntry<T> | undefined {
+        const entry = this.undoStack.pop();
+        if (entry) this.redoStack.push(entry);
+        this.canCoalesce = false;
+        return entry;
+    }
+
+    /**
+     * Take the latest undone entry back; the caller applies its changes again
+     */
+    redo(): HistoryEntry<T> | undefined {
+        const entry = this.redoStack.pop();
+        if (entry) this.undoStack.push(entry);
+        this.canCoalesce = false;
+        return entry;
+    }
+
+    nextUndo(): HistoryEntry<T> | undefined {
+        return this.undoStack[this.undoStack.length - 1];
+    }
+
+    nextRedo(): HistoryEntry<T> | undefined {
+        return this.redoStack[this.redoStack.length - 1];
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.canCoalesce = false;
+    }
+}
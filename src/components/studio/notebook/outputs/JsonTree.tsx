@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+    data: unknown;
+    name?: string;
+    depth?: number;
+    // Levels expanded on first render
+    expandDepth?: number;
+}
+
+const previewValue = (value: unknown): string => {
+    if (Array.isArray(value)) return `Array(${value.length})`;
+    if (value && typeof value === 'object') {
+        const keys = Object.keys(value);
+        return `{${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', …' : ''}}`;
+    }
+    return JSON.stringify(value);
+};
+
+function JsonScalar({ value }: { value: unknown }) {
+    if (value === null) return <span className="text-purple-400">null</span>;
+    if (typeof value === 'string') return <span className="text-emerald-300 break-all">&quot;{value}&quot;</span>;
+    if (typeof value === 'number') return <span className="text-amber-300">{String(value)}</span>;
+    if (typeof value === 'boolean') return <span className="text-purple-400">{String(value)}</span>;
+    return <span className="text-white/50">{String(value)}</span>;
+}
+
+export default function JsonTree({ data, name, depth = 0, expandDepth = 1 }: JsonTreeProps) {
+    const [expanded, setExpanded] = useState(depth < expandDepth);
+    const isContainer = data !== null && typeof data === 'object';
+    const label = name !== undefined && <span className="text-cyan-300">{name}: </span>;
+
+    if (!isContainer) {
+        return (
+            <div className="pl-4 leading-relaxed">
+                {label}<JsonScalar value={data} />
+            </div>
+        );
+    }
+
+    const entries = Array.isArray(data)
+        ? data.map((value, index) => [String(index), value] as const)
+        : Object.entries(data as Record<string, unknown>);
+
+    return (
+        <div className={depth > 0 ? 'pl-4' : ''}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="flex items-center gap-1 text-left hover:bg-white/5 rounded leading-relaxed"
+            >
+                <ChevronRight className={`w-3 h-3 text-white/40 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+                {label}
+                <span className="text-white/40">{expanded ? (Array.isArray(data) ? `Array(${entries.length})` : '{…}') : previewValue(data)}</span>
+            </button>
+            {expanded && entries.map(([key, value]) => (
+                <JsonTree key={key} name={key} data={value} depth={depth + 1} expandDepth={expandDepth} />
+            ))}
+        </div>
+    );
+}
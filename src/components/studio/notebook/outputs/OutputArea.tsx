@@ -0,0 +1,46 @@
+"use client";
+
+import React from 'react';
+import type { NotebookOutput } from '../../../../services/jupyter-notebook-service';
+import { jupyterNotebookService } from '../../../../services/jupyter-notebook-service';
+import { AnsiText, RichOutput } from './output-renderers';
+
+interface OutputAreaProps {
+    outputs: NotebookOutput[];
+}
+
+function SingleOutput({ output }: { output: NotebookOutput }) {
+    if (output.output_type === 'stream') {
+        const { content } = jupyterNotebookService.formatOutput(output);
+        return (
+            <AnsiText
+                // A trailing \r only marks a progress line that the next write overwrites
+                text={content.replace(/\r$/, '')}
+                className={output.name === 'stderr' ? 'text-red-300/90 bg-red-500/5 rounded px-2 -mx-2' : 'text-white/80'}
+            />
+        );
+    }
+
+    if (output.output_type === 'error') {
+        const traceback = output.traceback && output.traceback.length > 0
+            ? output.traceback.join('\n')
+            : `${output.ename}: ${output.evalue}`;
+        return (
+            <div className="border-l-2 border-red-500/50 pl-3">
+                <AnsiText text={traceback} className="text-red-300" />
+            </div>
+        );
+    }
+
+    return <RichOutput output={output} />;
+}
+
+export default function OutputArea({ outputs }: OutputAreaProps) {
+    return (
+        <div className="space-y-2">
+            {outputs.map((output, index) => (
+                <SingleOutput key={index} output={output} />
+            ))}
+        </div>
+    );
+}
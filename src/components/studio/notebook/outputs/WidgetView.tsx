@@ -0,0 +1,250 @@
+"use client";
+
+/**
+ * Widget Views
+ *
+ * React views for the ipywidgets models in the widget manager. A view renders
+ * its model's current state and sends the user's changes back to the kernel;
+ * sliders and text boxes with continuous_update off only send when the user
+ * lets go (or presses Enter).
+ */
+
+import React, { useCallback, useState, useSyncExternalStore } from 'react';
+import type { NotebookOutput } from '../../../../services/jupyter-notebook-service';
+import { modelIdOf, widgetManager, WidgetModel } from '../../../../services/widget-manager';
+import OutputArea from './OutputArea';
+import type { OutputRendererProps } from './output-renderers';
+
+interface ViewProps {
+    model: WidgetModel;
+}
+
+const INPUT_CLASS = 'px-2 py-1 rounded border border-white/10 bg-black/30 text-xs text-white/80 focus:outline-none focus:border-cyan-500/50 disabled:opacity-40';
+
+const BUTTON_STYLES: Record<string, string> = {
+    primary: 'bg-cyan-600/80 hover:bg-cyan-600 text-white',
+    success: 'bg-emerald-600/80 hover:bg-emerald-600 text-white',
+    info: 'bg-sky-600/80 hover:bg-sky-600 text-white',
+    warning: 'bg-amber-600/80 hover:bg-amber-600 text-white',
+    danger: 'bg-red-600/80 hover:bg-red-600 text-white',
+};
+
+function useWidgetModel(id: string | null): WidgetModel | undefined {
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => widgetManager.onChange(changed => {
+            if (changed === id) onStoreChange();
+        }),
+        [id]
+    );
+    return useSyncExternalStore(
+        subscribe,
+        () => (id ? widgetManager.getModel(id) : undefined),
+        () => undefined
+    );
+}
+
+/**
+ * A slider readout in its Python format spec: "d", ".2f", ...
+ */
+function formatReadout(value: number, format: unknown): string {
+    const precision = typeof format === 'string' ? /\.(\d+)f$/.exec(format) : null;
+    if (precision) return value.toFixed(Number(precision[1]));
+    return format === 'd' ? String(Math.round(value)) : String(value);
+}
+
+function Description({ text }: { text: unknown }) {
+    if (!text) return null;
+    return (
+        <span className="w-28 shrink-0 truncate text-xs text-white/60" title={String(text)}>
+            {String(text)}
+        </span>
+    );
+}
+
+function SliderView({ model }: ViewProps) {
+    const { state } = model;
+    // The value being dragged, while it isn't sent on every move
+    const [pending, setPending] = useState<number | null>(null);
+    const value = pending ?? Number(state.value);
+
+    const commit = () => {
+        if (pending === null) return;
+        setPending(null);
+        widgetManager.update(model.id, { value: pending });
+    };
+
+    return (
+        <div className="flex items-center gap-3">
+            <Description text={state.description} />
+            <input
+                type="range"
+                min={Number(state.min)}
+                max={Number(state.max)}
+                step={Number(state.step)}
+                value={value}
+                disabled={Boolean(state.disabled)}
+                onChange={(e) => {
+                    const next = Number(e.target.value);
+                    if (state.continuous_update) {
+                        widgetManager.update(model.id, { value: next });
+                    } else {
+                        setPending(next);
+                    }
+                }}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                onBlur={commit}
+                className="w-48 accent-cyan-500 disabled:opacity-40"
+            />
+            {state.readout !== false && (
+                <span className="min-w-[3rem] font-mono text-xs text-white/70">{formatReadout(value, state.readout_format)}</span>
+            )}
+        </div>
+    );
+}
+
+function DropdownView({ model }: ViewProps) {
+    const { state } = model;
+    const labels = (state._options_labels || []) as string[];
+    return (
+        <div className="flex items-center gap-3">
+            <Description text={state.description} />
+            <select
+                value={state.index === null || state.index === undefined ? '' : String(state.index)}
+                disabled={Boolean(state.disabled)}
+                onChange={(e) => widgetManager.update(model.id, { index: e.target.value === '' ? null : Number(e.target.value) })}
+                className={INPUT_CLASS}
+            >
+                {state.index === null && <option value="" />}
+                {labels.map((label, index) => (
+                    <option key={index} value={index}>{label}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
+
+function CheckboxView({ model }: ViewProps) {
+    const { state } = model;
+    return (
+        <label className="flex items-center gap-2 text-xs text-white/70">
+            {state.indent !== false && <span className="w-28 shrink-0" />}
+            <input
+                type="checkbox"
+                checked={Boolean(state.value)}
+                disabled={Boolean(state.disabled)}
+                onChange={(e) => widgetManager.update(model.id, { value: e.target.checked })}
+                className="accent-cyan-500"
+            />
+            {state.description ? String(state.description) : null}
+        </label>
+    );
+}
+
+function TextView({ model }: ViewProps) {
+    const { state } = model;
+    // Typed text not sent yet, while continuous_update is off
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const commit = () => {
+        if (draft === null) return;
+        setDraft(null);
+        widgetManager.update(model.id, { value: draft });
+    };
+
+    return (
+        <div className="flex items-center gap-3">
+            <Description text={state.description} />
+            <input
+                type="text"
+                value={draft ?? String(state.value ?? '')}
+                placeholder={String(state.placeholder ?? '')}
+                disabled={Boolean(state.disabled)}
+                onChange={(e) => {
+                    if (state.continuous_update === false) {
+                        setDraft(e.target.value);
+                    } else {
+                        widgetManager.update(model.id, { value: e.target.value });
+                    }
+                }}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commit();
+                }}
+                onBlur={commit}
+                className={`${INPUT_CLASS} w-56`}
+            />
+        </div>
+    );
+}
+
+function ButtonView({ model }: ViewProps) {
+    const { state } = model;
+    return (
+        <button
+            title={state.tooltip ? String(state.tooltip) : undefined}
+            disabled={Boolean(state.disabled)}
+            onClick={() => widgetManager.sendCustom(model.id, { event: 'click' })}
+            className={`px-3 py-1 rounded text-xs transition-colors disabled:opacity-40 ${BUTTON_STYLES[String(state.button_style)] || 'bg-white/10 hover:bg-white/20 text-white/80'}`}
+        >
+            {String(state.description ?? '')}
+        </button>
+    );
+}
+
+function OutputView({ model }: ViewProps) {
+    const outputs = (model.state.outputs || []) as NotebookOutput[];
+    return outputs.length > 0 ? <OutputArea outputs={outputs} /> : null;
+}
+
+function BoxView({ model }: ViewProps) {
+    const children = ((model.state.children || []) as unknown[]).map(modelIdOf).filter((id): id is string => id !== null);
+    const layout = model.modelName === 'VBoxModel' ? 'flex-col' : 'flex-row flex-wrap items-start';
+    return (
+        <div className={`flex gap-3 ${layout}`}>
+            {children.map(id => <WidgetView key={id} modelId={id} />)}
+        </div>
+    );
+}
+
+const VIEWS: Record<string, React.ComponentType<ViewProps>> = {
+    IntSliderModel: SliderView,
+    FloatSliderModel: SliderView,
+    DropdownModel: DropdownView,
+    CheckboxModel: CheckboxView,
+    TextModel: TextView,
+    ButtonModel: ButtonView,
+    OutputModel: OutputView,
+    BoxModel: BoxView,
+    HBoxModel: BoxView,
+    VBoxModel: BoxView,
+};
+
+/**
+ * The view of one widget model; `fallback` is shown once its kernel is gone
+ */
+export function WidgetView({ modelId, fallback }: { modelId: string; fallback?: string }) {
+    const model = useWidgetModel(modelId);
+    if (!model) {
+        return (
+            <div className="text-xs text-white/30" title="Run the cell again to recreate the widget">
+                {fallback || 'Widget unavailable'}
+            </div>
+        );
+    }
+    const View = VIEWS[model.modelName];
+    if (!View) {
+        return <div className="text-xs text-white/40">Unsupported widget: {model.modelName}</div>;
+    }
+    return <View model={model} />;
+}
+
+/**
+ * Renderer for application/vnd.jupyter.widget-view+json outputs
+ */
+export function WidgetOutput({ data, output }: OutputRendererProps) {
+    const modelId = (data as { model_id?: unknown } | null)?.model_id;
+    const plain = output.data?.['text/plain'];
+    const fallback = Array.isArray(plain) ? plain.join('') : plain;
+    if (typeof modelId !== 'string') return null;
+    return <WidgetView modelId={modelId} fallback={fallback} />;
+}
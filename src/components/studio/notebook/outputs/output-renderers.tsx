@@ -0,0 +1,318 @@
+"use client";
+
+/**
+ * Output Renderer Registry
+ *
+ * Maps MIME types to React components that display a Jupyter mime bundle.
+ * When an output carries several representations the renderer with the lowest
+ * rank wins, mirroring JupyterLab's preference order. Extra renderers can be
+ * plugged in with registerOutputRenderer.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { NotebookAttachments, NotebookOutput } from '../../../../services/jupyter-notebook-service';
+import { jupyterNotebookService } from '../../../../services/jupyter-notebook-service';
+import { HTML_PREVIEW_MIME } from '../../../../services/notebook-outputs';
+import { parseAnsi } from '../render/ansi';
+import { sanitizeHtml } from '../render/sanitize-html';
+import { containsMath, renderMarkdown } from '../render/markdown';
+import { HIGHLIGHT_CLASSES } from '../render/highlight';
+import { loadKatex, getKatex, renderTex } from '../render/katex';
+import JsonTree from './JsonTree';
+import { WidgetOutput } from './WidgetView';
+import { WIDGET_VIEW_MIME } from '../../../../services/widget-manager';
+
+export interface OutputRendererProps {
+    mimeType: string;
+    data: unknown;
+    metadata?: Record<string, unknown>;
+    output: NotebookOutput;
+}
+
+export interface OutputRenderer {
+    rank: number;
+    component: React.ComponentType<OutputRendererProps>;
+}
+
+const renderers = new Map<string, OutputRenderer>();
+
+/**
+ * Register (or replace) the renderer for a MIME type
+ */
+export function registerOutputRenderer(mimeType: string, component: OutputRenderer['component'], rank: number): void {
+    renderers.set(mimeType, { rank, component });
+}
+
+/**
+ * Find a renderer for a MIME type, treating any `+json` type as JSON
+ */
+function rendererFor(mimeType: string): OutputRenderer | undefined {
+    return renderers.get(mimeType) || (/\+json$/.test(mimeType) ? renderers.get('application/json') : undefined);
+}
+
+/**
+ * Pick the preferred representation of a mime bundle
+ */
+export function selectOutputRenderer(data: Record<string, unknown>): { mimeType: string; renderer: OutputRenderer } | null {
+    let best: { mimeType: string; renderer: OutputRenderer } | null = null;
+    for (const mimeType of Object.keys(data)) {
+        const renderer = rendererFor(mimeType);
+        if (renderer && (!best || renderer.rank < best.renderer.rank)) {
+            best = { mimeType, renderer };
+        }
+    }
+    return best;
+}
+
+const asText = (data: unknown): string =>
+    Array.isArray(data) ? data.join('') : typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+
+// --- Built-in renderers ---
+
+/**
+ * Text with ANSI colours, shared by streams, tracebacks and text/plain
+ */
+export function AnsiText({ text, className = '' }: { text: string; className?: string }) {
+    const segments = useMemo(() => parseAnsi(text), [text]);
+    return (
+        <pre className={`whitespace-pre-wrap break-words font-mono text-sm ${className}`}>
+            {segments.map((segment, i) => (
+                <span
+                    key={i}
+                    style={{
+                        color: segment.style.color,
+                        backgroundColor: segment.style.background,
+                        fontWeight: segment.style.bold ? 600 : undefined,
+                        opacity: segment.style.dim ? 0.7 : undefined,
+                        fontStyle: segment.style.italic ? 'italic' : undefined,
+                        textDecoration: segment.style.underline ? 'underline' : undefined,
+                    }}
+                >
+                    {segment.text}
+                </span>
+            ))}
+        </pre>
+    );
+}
+
+function PlainTextOutput({ data }: OutputRendererProps) {
+    return <AnsiText text={asText(data)} className="text-white/80" />;
+}
+
+function ImageOutput({ mimeType, data, metadata }: OutputRendererProps) {
+    const size = (metadata?.[mimeType] || {}) as { width?: number; height?: number };
+    const base64 = asText(data).replace(/\s/g, '');
+    return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+            src={`data:${mimeType};base64,${base64}`}
+            alt="Cell output"
+            width={size.width}
+            height={size.height}
+            className="max-w-full h-auto bg-white rounded"
+        />
+    );
+}
+
+function SvgOutput({ data }: OutputRendererProps) {
+    // Rendered through <img> so scripts inside the SVG never run
+    const src = useMemo(() => {
+        const svg = asText(data);
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    }, [data]);
+    return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={src} alt="SVG output" className="max-w-full h-auto" />
+    );
+}
+
+const HTML_OUTPUT_CLASSES = `
+    text-sm text-white/80 overflow-x-auto
+    [&_table]:border-collapse [&_table]:font-mono [&_table]:text-xs
+    [&_th]:px-3 [&_th]:py-1 [&_th]:border-b [&_th]:border-white/20 [&_th]:text-left [&_th]:text-white
+    [&_td]:px-3 [&_td]:py-1 [&_td]:border-b [&_td]:border-white/5
+    [&_a]:text-cyan-400 [&_a]:underline
+`;
+
+function HtmlOutput({ data }: OutputRendererProps) {
+    const html = useMemo(() => sanitizeHtml(asText(data)), [data]);
+    return <div className={HTML_OUTPUT_CLASSES} dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+// Appended to preview documents: reports the content height so the frame can fit it
+const PREVIEW_RESIZE_SCRIPT = `<script>
+(function () {
+    var report = function () { parent.postMessage({ previewHeight: document.documentElement.scrollHeight }, '*'); };
+    addEventListener('load', report);
+    if (window.ResizeObserver) new ResizeObserver(report).observe(document.documentElement);
+})();
+</script>`;
+
+const PREVIEW_MIN_HEIGHT = 40;
+const PREVIEW_MAX_HEIGHT = 800;
+
+/**
+ * HTML/CSS cell preview. Scripts run, but in a sandboxed frame with an opaque
+ * origin, so they can't reach the studio's DOM, storage or cookies.
+ */
+function HtmlPreviewOutput({ data }: OutputRendererProps) {
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [height, setHeight] = useState(160);
+    const srcDoc = useMemo(() => asText(data) + PREVIEW_RESIZE_SCRIPT, [data]);
+
+    useEffect(() => {
+        const onMessage = (event: MessageEvent) => {
+            if (event.source !== frameRef.current?.contentWindow) return;
+            const reported = (event.data as { previewHeight?: unknown } | null)?.previewHeight;
+            if (typeof reported === 'number') {
+                setHeight(Math.min(Math.max(Math.ceil(reported), PREVIEW_MIN_HEIGHT), PREVIEW_MAX_HEIGHT));
+            }
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+    }, []);
+
+    return (
+        <iframe
+            ref={frameRef}
+            title="HTML preview"
+            sandbox="allow-scripts allow-forms allow-modals"
+            srcDoc={srcDoc}
+            style={{ height }}
+            className="w-full bg-white rounded border border-white/10"
+        />
+    );
+}
+
+export const MARKDOWN_CLASSES = `
+    text-sm text-zinc-300 leading-relaxed space-y-3
+    [&_h1]:text-2xl [&_h1]:text-white [&_h1]:font-light
+    [&_h2]:text-xl [&_h2]:text-white [&_h2]:font-light
+    [&_h3]:text-lg [&_h3]:text-white
+    [&_code]:font-mono [&_code]:text-cyan-300 [&_code]:bg-white/5 [&_code]:px-1 [&_code]:rounded
+    [&_pre]:bg-black/30 [&_pre]:p-3 [&_pre]:rounded-lg [&_pre]:overflow-x-auto
+    [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6
+    [&_blockquote]:border-l-2 [&_blockquote]:border-white/20 [&_blockquote]:pl-4 [&_blockquote]:text-white/50
+    [&_a]:text-cyan-400 [&_a]:underline [&_strong]:text-white
+    [&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_pre_code]:text-zinc-200
+    [&_table]:border-collapse [&_table]:text-xs [&_th]:text-white [&_th]:font-medium
+    [&_th]:border [&_th]:border-white/10 [&_th]:px-3 [&_th]:py-1.5 [&_th]:bg-white/5
+    [&_td]:border [&_td]:border-white/10 [&_td]:px-3 [&_td]:py-1.5
+    [&_img]:max-w-full [&_img]:rounded [&_.math-display]:overflow-x-auto
+    ${HIGHLIGHT_CLASSES}
+`;
+
+/**
+ * Load KaTeX when needed; returns whether it is ready, so callers re-render once it arrives
+ */
+function useKatexReady(needed: boolean): boolean {
+    const [katexReady, setKatexReady] = useState(() => getKatex() !== null);
+
+    useEffect(() => {
+        if (!needed || katexReady) return;
+        let cancelled = false;
+        loadKatex().then(katex => {
+            if (!cancelled && katex) setKatexReady(true);
+        });
+        return () => { cancelled = true; };
+    }, [needed, katexReady]);
+
+    return katexReady;
+}
+
+interface MarkdownViewProps {
+    source: string;
+    attachments?: NotebookAttachments;
+    className?: string;
+}
+
+/**
+ * Rendered markdown, shared by markdown outputs and markdown cells
+ */
+export function MarkdownView({ source, attachments, className = '' }: MarkdownViewProps) {
+    const katexReady = useKatexReady(useMemo(() => containsMath(source), [source]));
+    const html = useMemo(
+        () => renderMarkdown(source, { attachments }),
+        // katexReady re-renders the math once the library arrives
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [source, attachments, katexReady]
+    );
+    return <div className={`${MARKDOWN_CLASSES} ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+function MarkdownOutput({ data }: OutputRendererProps) {
+    return <MarkdownView source={asText(data)} />;
+}
+
+/**
+ * Strip the math delimiters Jupyter puts around text/latex payloads
+ */
+const stripMathDelimiters = (tex: string): string => {
+    const trimmed = tex.trim();
+    const match = /^\$\$([\s\S]*)\$\$$/.exec(trimmed)
+        || /^\\\[([\s\S]*)\\\]$/.exec(trimmed)
+        || /^\$([\s\S]*)\$$/.exec(trimmed)
+        || /^\\\(([\s\S]*)\\\)$/.exec(trimmed);
+    return match ? match[1] : trimmed;
+};
+
+function LatexOutput({ data }: OutputRendererProps) {
+    const katexReady = useKatexReady(true);
+    const html = useMemo(
+        () => sanitizeHtml(renderTex(stripMathDelimiters(asText(data)), true)),
+        // katexReady re-renders once the library arrives
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [data, katexReady]
+    );
+    return <div className="text-white/90 overflow-x-auto py-1" dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+function JsonOutput({ data }: OutputRendererProps) {
+    let value = data;
+    if (typeof data === 'string') {
+        try {
+            value = JSON.parse(data);
+        } catch {
+            // Leave it as a string
+        }
+    }
+    return (
+        <div className="font-mono text-xs text-white/80">
+            <JsonTree data={value} />
+        </div>
+    );
+}
+
+registerOutputRenderer(WIDGET_VIEW_MIME, WidgetOutput, 1);
+registerOutputRenderer(HTML_PREVIEW_MIME, HtmlPreviewOutput, 5);
+registerOutputRenderer('text/html', HtmlOutput, 10);
+registerOutputRenderer('text/markdown', MarkdownOutput, 20);
+registerOutputRenderer('text/latex', LatexOutput, 30);
+registerOutputRenderer('image/svg+xml', SvgOutput, 40);
+registerOutputRenderer('image/png', ImageOutput, 50);
+registerOutputRenderer('image/jpeg', ImageOutput, 51);
+registerOutputRenderer('image/gif', ImageOutput, 52);
+registerOutputRenderer('image/webp', ImageOutput, 53);
+registerOutputRenderer('application/json', JsonOutput, 60);
+registerOutputRenderer('text/plain', PlainTextOutput, 100);
+
+/**
+ * Render a rich (execute_result / display_data) output, falling back to formatOutput
+ */
+export function RichOutput({ output }: { output: NotebookOutput }) {
+    const data = (output.data || {}) as Record<string, unknown>;
+    const selected = selectOutputRenderer(data);
+    if (!selected) {
+        const formatted = jupyterNotebookService.formatOutput(output);
+        return formatted.content ? <AnsiText text={formatted.content} className="text-white/60" /> : null;
+    }
+    const Renderer = selected.renderer.component;
+    return (
+        <Renderer
+            mimeType={selected.mimeType}
+            data={data[selected.mimeType]}
+            metadata={output.metadata as Record<string, unknown> | undefined}
+            output={output}
+        />
+    );
+}
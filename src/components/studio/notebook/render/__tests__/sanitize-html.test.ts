@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '../sanitize-html';
+
+function parse(html: string): HTMLElement {
+    const container = document.createElement('div');
+    container.innerHTML = sanitizeHtml(html);
+    return container;
+}
+
+describe('sanitizeHtml', () => {
+    it.each([
+        'javascript:alert(1)',
+        ' JavaScript:alert(1)',
+        'java\tscript:alert(1)',
+        'java\nscript:alert(1)',
+        '\u0001javascript:alert(1)',
+        'vbscript:msgbox(1)',
+        'data:text/html;base64,PHNjcmlwdD4=',
+    ])('drops the link %j', href => {
+        const link = parse(`<a href="${href.replace(/"/g, '&quot;')}">x</a>`).querySelector('a');
+        expect(link?.hasAttribute('href')).toBe(false);
+    });
+
+    it.each(['https://example.com/a', '/docs', './img.png', 'notes/page.html', 'mailto:a@example.com'])(
+        'keeps the link %j',
+        href => {
+            expect(parse(`<a href="${href}">x</a>`).querySelector('a')?.getAttribute('href')).toBe(href);
+        }
+    );
+
+    it('namespaces ids and the links to them', () => {
+        const container = parse('<h2 id="setup">Setup</h2><a href="#setup">go</a><img id="notebookPanel" src="/a.png">');
+        expect(container.querySelector('h2')?.id).toBe('user-content-setup');
+        expect(container.querySelector('a')?.getAttribute('href')).toBe('#user-content-setup');
+        expect(container.querySelector('a')?.hasAttribute('target')).toBe(false);
+        expect(container.querySelector('img')?.id).toBe('user-content-notebookPanel');
+    });
+
+    it('keeps layout styles and drops positioning', () => {
+        const span = parse('<span style="position: fixed; inset: 0; z-index: 9999; color: red; vertical-align: -0.25em">x</span>')
+            .querySelector('span');
+        expect(span?.getAttribute('style')).toBe('color: red; vertical-align: -0.25em');
+    });
+
+    it('drops styles that load resources', () => {
+        const div = parse('<div style="background-color: url(https://evil.test/x); color: blue">x</div>').querySelector('div');
+        expect(div?.getAttribute('style')).toBe('color: blue');
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * ANSI escape sequence parsing for stream and traceback outputs
+ *
+ * Converts SGR colour/style codes into styled segments; all other escape
+ * sequences (cursor movement, OSC titles, ...) are dropped.
+ */
+
+export interface AnsiStyle {
+    color?: string;
+    background?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+export interface AnsiSegment {
+    text: string;
+    style: AnsiStyle;
+}
+
+// Tailwind-ish palette that stays readable on the notebook's dark background
+const BASIC_COLORS = [
+    '#3f3f46', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#e879f9', '#22d3ee', '#e4e4e7',
+];
+const BRIGHT_COLORS = [
+    '#71717a', '#fca5a5', '#86efac', '#fde047', '#93c5fd', '#f0abfc', '#67e8f9', '#ffffff',
+];
+
+const ESCAPE_PATTERN = /\x1b\[([0-9;]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]|\x1b[=>]/g;
+
+function xterm256(index: number): string | undefined {
+    if (index < 0 || index > 255) return undefined;
+    if (index < 8) return BASIC_COLORS[index];
+    if (index < 16) return BRIGHT_COLORS[index - 8];
+    if (index < 232) {
+        const n = index - 16;
+        const level = (v: number) => (v === 0 ? 0 : 55 + v * 40);
+        return `rgb(${level(Math.floor(n / 36))}, ${level(Math.floor(n / 6) % 6)}, ${level(n % 6)})`;
+    }
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+function applyCodes(style: AnsiStyle, codes: number[]): AnsiStyle {
+    const next = { ...style };
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+        if (code === 0) {
+            for (const key of Object.keys(next) as (keyof AnsiStyle)[]) delete next[key];
+        } else if (code === 1) next.bold = true;
+        else if (code === 2) next.dim = true;
+        else if (code === 3) next.italic = true;
+        else if (code === 4) next.underline = true;
+        else if (code === 22) { next.bold = false; next.dim = false; }
+        else if (code === 23) next.italic = false;
+        else if (code === 24) next.underline = false;
+        else if (code >= 30 && code <= 37) next.color = BASIC_COLORS[code - 30];
+        else if (code >= 90 && code <= 97) next.color = BRIGHT_COLORS[code - 90];
+        else if (code === 39) delete next.color;
+        else if (code >= 40 && code <= 47) next.background = BASIC_COLORS[code - 40];
+        else if (code >= 100 && code <= 107) next.background = BRIGHT_COLORS[code - 100];
+        else if (code === 49) delete next.background;
+        else if (code === 38 || code === 48) {
+            // Extended colours: 38;5;n (256 palette) or 38;2;r;g;b (truecolor)
+            let color: string | undefined;
+            if (codes[i + 1] === 5) {
+                color = xterm256(codes[i + 2]);
+                i += 2;
+            } else if (codes[i + 1] === 2) {
+                color = `rgb(${codes[i + 2] || 0}, ${codes[i + 3] || 0}, ${codes[i + 4] || 0})`;
+                i += 4;
+            }
+            if (color) {
+                if (code === 38) next.color = color;
+                else next.background = color;
+            }
+        }
+    }
+    return next;
+}
+
+/**
+ * Split text into styled segments according to its ANSI SGR codes
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    let style: AnsiStyle = {};
+    let last = 0;
+    ESCAPE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ESCAPE_PATTERN.exec(text)) !== null) {
+        if (match.index > last) {
+            segments.push({ text: text.slice(last, match.index), style });
+        }
+        if (match[2] === 'm') {
+            const codes = match[1] === '' ? [0] : match[1].split(';').map(n => parseInt(n, 10) || 0);
+            style = applyCodes(style, codes);
+        }
+        last = ESCAPE_PATTERN.lastIndex;
+    }
+    if (last < text.length) {
+        segments.push({ text: text.slice(last), style });
+    }
+    return segments;
+}
+
+/**
+ * Remove every escape sequence, leaving plain text
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ESCAPE_PATTERN, '');
+}
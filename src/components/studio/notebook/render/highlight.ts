@@ -0,0 +1,195 @@
+/**
+ * Code highlighter
+ *
+ * A small regex tokenizer for fenced code blocks in rendered markdown. It knows
+ * the notebook's languages well enough to colour comments, strings, numbers and
+ * keywords, and emits escaped HTML with <span class="hl-*"> runs. Unknown
+ * languages are returned escaped, without colour. The cell editor uses the same
+ * tokens for its highlighting layer.
+ */
+
+import { escapeHtml } from './sanitize-html';
+
+export type TokenClass = 'comment' | 'string' | 'number' | 'keyword' | 'builtin' | 'variable' | 'tag' | 'attr';
+
+export interface HighlightToken {
+    text: string;
+    kind?: TokenClass; // Absent for plain text
+}
+
+// Tried in order at each position; the first rule that matches wins
+type Grammar = [TokenClass, RegExp][];
+
+const words = (list: string, flags = '') => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, flags);
+
+const NUMBER: [TokenClass, RegExp] = ['number', /\b(?:0x[0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/];
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/;
+const C_COMMENTS: [TokenClass, RegExp][] = [['comment', /\/\/.*/], ['comment', /\/\*[\s\S]*?\*\//]];
+
+const JS_KEYWORDS = `
+    async await break case catch class const continue debugger default delete do else export extends
+    finally for from function if import in instanceof let new of return static super switch this throw
+    try typeof var void while with yield true false null undefined`;
+
+const javascript: Grammar = [
+    ...C_COMMENTS,
+    ['string', /`(?:[^`\\]|\\[\s\S])*`/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    NUMBER,
+    ['keyword', words(JS_KEYWORDS)],
+    ['builtin', words('console Math JSON Object Array String Number Boolean Promise Map Set Date Error')],
+];
+
+const typescript: Grammar = [
+    ...javascript,
+    ['keyword', words('type interface enum implements namespace declare readonly private protected public abstract as satisfies keyof')],
+    ['builtin', words('string number boolean unknown any never void Record Partial Pick Omit')],
+];
+
+const python: Grammar = [
+    ['comment', /#.*/],
+    ['string', /[rbfuRBFU]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?''')/],
+    ['string', new RegExp(`[rbfuRBFU]{0,2}(?:${DOUBLE_QUOTED.source}|${SINGLE_QUOTED.source})`)],
+    NUMBER,
+    ['keyword', words(`
+        and as assert async await break class continue def del elif else except finally for from global
+        if import in is lambda nonlocal not or pass raise return try while with yield True False None`)],
+    ['builtin', words('print len range enumerate zip map filter sorted sum min max abs int float str list dict set tuple type isinstance open self')],
+    ['attr', /@[\w.]+/],
+];
+
+const sql: Grammar = [
+    ['comment', /--.*/],
+    ['comment', /\/\*[\s\S]*?\*\//],
+    ['string', SINGLE_QUOTED],
+    ['variable', DOUBLE_QUOTED],
+    NUMBER,
+    ['keyword', words(`
+        select from where group by order having limit offset join left right inner outer full cross on as
+        and or not in is null like ilike between case when then else end distinct union all insert into
+        values update set delete create table view drop alter with asc desc true false exists cast`, 'i')],
+    ['builtin', words('count sum avg min max coalesce round length lower upper now date', 'i')],
+];
+
+const bash: Grammar = [
+    ['comment', /#.*/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['variable', /\$(?:\{[^}]*\}|\w+|[?@#$!*])/],
+    NUMBER,
+    ['keyword', words('if then else elif fi for while until do done case esac in function return export local')],
+    ['builtin', words('echo cd ls cat grep sed awk printf pwd mkdir rm cp mv touch head tail wc sort uniq env')],
+];
+
+const rust: Grammar = [
+    ...C_COMMENTS,
+    ['string', DOUBLE_QUOTED],
+    ['string', /'(?:[^'\\\n]|\\.)'/],
+    NUMBER,
+    ['keyword', words(`
+        as async await break const continue crate else enum extern false fn for if impl in let loop match mod
+        move mut pub ref return self Self static struct super trait true type unsafe use where while dyn`)],
+    ['builtin', /\b\w+!/],
+];
+
+const navlambda: Grammar = [
+    ['comment', /(?:#|\/\/).*/],
+    ['string', DOUBLE_QUOTED],
+    NUMBER,
+    ['keyword', words('let fn if else true false null and or not')],
+    ['builtin', /[⋋λ∇]|\b\w+⋋/],
+];
+
+const json: Grammar = [
+    ['attr', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+    ['string', DOUBLE_QUOTED],
+    ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+    ['keyword', words('true false null')],
+];
+
+const html: Grammar = [
+    ['comment', /<!--[\s\S]*?-->/],
+    ['tag', /<\/?[a-zA-Z][\w-]*|\/?>/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['attr', /\b[a-zA-Z-]+(?==)/],
+];
+
+const css: Grammar = [
+    ['comment', /\/\*[\s\S]*?\*\//],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['attr', /[\w-]+(?=\s*:(?!:))/],
+    ['number', /-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg)?\b/],
+    ['keyword', /@[\w-]+|!important/],
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+    javascript, js: javascript, jsx: javascript, mjs: javascript,
+    typescript, ts: typescript, tsx: typescript,
+    python, py: python, ipython: python, python3: python,
+    sql,
+    bash, sh: bash, shell: bash, zsh: bash, console: bash,
+    rust, rs: rust,
+    navlambda, vnc: navlambda, nav: navlambda,
+    json, jsonc: json,
+    html, xml: html, svg: html,
+    css,
+};
+
+// One combined regex per grammar, with one capture group per rule
+const compiled = new Map<Grammar, RegExp>();
+
+function compile(grammar: Grammar): RegExp {
+    let pattern = compiled.get(grammar);
+    if (!pattern) {
+        const caseInsensitive = grammar.some(([, rule]) => rule.flags.includes('i'));
+        pattern = new RegExp(grammar.map(([, rule]) => `(${rule.source})`).join('|'), caseInsensitive ? 'gi' : 'g');
+        compiled.set(grammar, pattern);
+    }
+    return pattern;
+}
+
+/**
+ * Split code into runs of plain and coloured text; the runs concatenate back to `code`
+ */
+export function tokenize(code: string, language: string): HighlightToken[] {
+    const name = language.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(GRAMMARS, name)) return code ? [{ text: code }] : [];
+    const grammar = GRAMMARS[name];
+
+    const pattern = compile(grammar);
+    pattern.lastIndex = 0;
+    const tokens: HighlightToken[] = [];
+    let last = 0;
+    for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+        if (match[0] === '') {
+            pattern.lastIndex++;
+            continue;
+        }
+        const rule = match.slice(1).findIndex(group => group !== undefined);
+        if (match.index > last) tokens.push({ text: code.slice(last, match.index) });
+        tokens.push({ text: match[0], kind: grammar[rule][0] });
+        last = match.index + match[0].length;
+    }
+    if (last < code.length) tokens.push({ text: code.slice(last) });
+    return tokens;
+}
+
+/**
+ * Highlight code as HTML; the result is escaped and safe to embed in <code>
+ */
+export function highlightCode(code: string, language: string): string {
+    return tokenize(code, language)
+        .map(token => token.kind ? `<span class="hl-${token.kind}">${escapeHtml(token.text)}</span>` : escapeHtml(token.text))
+        .join('');
+}
+
+// Colours for the hl-* classes, applied from a container element
+export const HIGHLIGHT_CLASSES = `
+    [&_.hl-keyword]:text-purple-400 [&_.hl-string]:text-emerald-300 [&_.hl-number]:text-amber-300
+    [&_.hl-comment]:text-white/40 [&_.hl-comment]:italic [&_.hl-builtin]:text-cyan-300
+    [&_.hl-variable]:text-sky-300 [&_.hl-tag]:text-rose-400 [&_.hl-attr]:text-orange-300
+`;
@@ -0,0 +1,77 @@
+/**
+ * KaTeX loader
+ *
+ * KaTeX is pulled from jsDelivr on first use, so the math renderer costs
+ * nothing until a notebook actually contains LaTeX. It is not self-hosted like
+ * Pyodide: offline, LaTeX is shown as source.
+ */
+
+import { escapeHtml } from './sanitize-html';
+
+const KATEX_VERSION = '0.16.9';
+const KATEX_BASE_URL = `https://cdn.jsdelivr.net/npm/katex@${KATEX_VERSION}/dist/`;
+
+interface KatexApi {
+    renderToString: (tex: string, options: { displayMode?: boolean; throwOnError?: boolean; output?: string }) => string;
+}
+
+let katex: KatexApi | null = null;
+let loading: Promise<KatexApi | null> | null = null;
+
+/**
+ * Load KaTeX (script + stylesheet) once; resolves to null if it cannot be loaded
+ */
+export function loadKatex(): Promise<KatexApi | null> {
+    if (katex) return Promise.resolve(katex);
+    if (typeof window === 'undefined') return Promise.resolve(null);
+    if (loading) return loading;
+
+    loading = new Promise<KatexApi | null>(resolve => {
+        const existing = (window as Window & { katex?: KatexApi }).katex;
+        if (existing) {
+            katex = existing;
+            resolve(katex);
+            return;
+        }
+
+        const stylesheet = document.createElement('link');
+        stylesheet.rel = 'stylesheet';
+        stylesheet.href = `${KATEX_BASE_URL}katex.min.css`;
+        document.head.appendChild(stylesheet);
+
+        const script = document.createElement('script');
+        script.src = `${KATEX_BASE_URL}katex.min.js`;
+        script.onload = () => {
+            katex = (window as Window & { katex?: KatexApi }).katex || null;
+            resolve(katex);
+        };
+        script.onerror = () => {
+            console.warn('KaTeX failed to load, LaTeX will be shown as source');
+            loading = null;
+            resolve(null);
+        };
+        document.head.appendChild(script);
+    });
+    return loading;
+}
+
+/**
+ * KaTeX if it has already been loaded, without triggering a load
+ */
+export function getKatex(): KatexApi | null {
+    return katex;
+}
+
+/**
+ * Render TeX to HTML, falling back to the escaped source while KaTeX is unavailable
+ */
+export function renderTex(tex: string, displayMode: boolean): string {
+    if (!katex) {
+        return `<code>${escapeHtml(tex)}</code>`;
+    }
+    try {
+        return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+    } catch {
+        return `<code>${escapeHtml(tex)}</code>`;
+    }
+}
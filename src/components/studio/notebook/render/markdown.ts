@@ -0,0 +1,290 @@
+/**
+ * Markdown renderer
+ *
+ * A compact CommonMark-style renderer for markdown cells and outputs: headings,
+ * emphasis, code, links, images, lists, blockquotes and rules, plus GFM tables,
+ * highlighted code fences and $…$ / $$…$$ math (rendered with KaTeX once it is
+ * loaded). Raw HTML is allowed through and the final result is always passed
+ * through sanitizeHtml.
+ */
+
+import type { NotebookAttachments } from '../../../../services/jupyter-notebook-service';
+import { escapeHtml, sanitizeHtml } from './sanitize-html';
+import { highlightCode } from './highlight';
+import { renderTex } from './katex';
+
+export interface MarkdownOptions {
+    // Cell attachments, for images referenced as attachment:<name>
+    attachments?: NotebookAttachments;
+}
+
+// Inline math: $$…$$ and \[…\] display, \(…\) and $…$ inline. A $ pair must hug
+// its content and not be followed by a digit, so prices like "$5 and $10" stay text.
+const INLINE_MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<![\\$])\$(?=[^\s$])((?:[^$\\\n]|\\.)*?[^\s\\])\$(?!\d)/g;
+
+/**
+ * Whether the source has anything for KaTeX to render
+ */
+export function containsMath(source: string): boolean {
+    INLINE_MATH.lastIndex = 0;
+    return INLINE_MATH.test(source) || /^\s*\$\$/m.test(source);
+}
+
+function escapeText(text: string): string {
+    // Keep inline HTML tags and entities, escape everything else
+    return text
+        .replace(/&(?!#?[a-zA-Z0-9]+;)/g, '&amp;')
+        .replace(/<(?![a-zA-Z/!])/g, '&lt;');
+}
+
+/**
+ * Render inline markdown (emphasis, code spans, links, images)
+ */
+export function renderInline(text: string): string {
+    const codeSpans: string[] = [];
+    // Protect code spans from further processing
+    let html = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => {
+        codeSpans.push(`<code>${escapeHtml(code.trim())}</code>`);
+        return `\uE000${codeSpans.length - 1}\uE000`;
+    });
+    const formulas: string[] = [];
+    html = html.replace(INLINE_MATH, (_, display?: string, bracketed?: string, parenthesized?: string, inline?: string) => {
+        const tex = display ?? bracketed ?? parenthesized ?? inline ?? '';
+        formulas.push(renderTex(tex.trim(), display !== undefined || bracketed !== undefined));
+        return `\uE001${formulas.length - 1}\uE001`;
+    }).replace(/\\\$/g, '$');
+
+    html = escapeText(html);
+    html = html
+        .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g, (_, alt: string, src: string, title?: string) =>
+            `<img src="${src}" alt="${escapeHtml(alt)}"${title ? ` title="${escapeHtml(title)}"` : ''} />`)
+        .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g, (_, label: string, href: string, title?: string) =>
+            `<a href="${href}"${title ? ` title="${escapeHtml(title)}"` : ''}>${label}</a>`)
+        .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, '$1<a href="$2">$2</a>')
+        .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+        .replace(/(^|[^*\w])\*(?=\S)([^*]*?\S)\*(?!\*)/g, '$1<em>$2</em>')
+        .replace(/(^|[^_\w])_(?=\S)([^_]*?\S)_(?![_\w])/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+        .replace(/ {2,}\n/g, '<br />\n');
+
+    return html
+        .replace(/\uE000(\d+)\uE000/g, (_, index: string) => codeSpans[Number(index)])
+        .replace(/\uE001(\d+)\uE001/g, (_, index: string) => formulas[Number(index)]);
+}
+
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Split a GFM table row into cells; \| is a literal pipe
+ */
+function splitTableRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderTable(header: string[], alignments: string[], rows: string[][]): string {
+    const cell = (tag: 'th' | 'td', text: string, column: number) => {
+        const align = alignments[column] ? ` style="text-align: ${alignments[column]}"` : '';
+        return `<${tag}${align}>${renderInline(text)}</${tag}>`;
+    };
+    const head = `<thead><tr>${header.map((text, column) => cell('th', text, column)).join('')}</tr></thead>`;
+    const body = rows.map(row =>
+        `<tr>${header.map((_, column) => cell('td', row[column] ?? '', column)).join('')}</tr>`
+    ).join('');
+    return `<table>${head}${body ? `<tbody>${body}</tbody>` : ''}</table>`;
+}
+
+interface ListFrame {
+    ordered: boolean;
+    indent: number;
+}
+
+/**
+ * Render block-level markdown to unsanitized HTML
+ */
+function renderBlocks(source: string): string {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+    let paragraph: string[] = [];
+    const lists: ListFrame[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            out.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+            paragraph = [];
+        }
+    };
+    const closeLists = (toIndent = -1) => {
+        while (lists.length > 0 && lists[lists.length - 1].indent > toIndent) {
+            const list = lists.pop()!;
+            out.push(`</li></${list.ordered ? 'ol' : 'ul'}>`);
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)/.exec(line);
+        if (fence) {
+            flushParagraph();
+            closeLists();
+            const marker = fence[2];
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trimStart().startsWith(marker)) {
+                body.push(lines[i]);
+                i++;
+            }
+            const language = fence[3] ? ` class="language-${escapeHtml(fence[3])}"` : '';
+            out.push(`<pre><code${language}>${highlightCode(body.join('\n'), fence[3])}</code></pre>`);
+            continue;
+        }
+
+        // $$ on its own line opens a display formula that runs to the closing $$
+        const mathBlock = /^\s*\$\$(.*)$/.exec(line);
+        if (mathBlock && !mathBlock[1].includes('$$')) {
+            flushParagraph();
+            closeLists();
+            const body = [mathBlock[1]];
+            i++;
+            while (i < lines.length && !lines[i].includes('$$')) {
+                body.push(lines[i]);
+                i++;
+            }
+            if (i < lines.length) body.push(lines[i].slice(0, lines[i].indexOf('$$')));
+            out.push(`<div class="math-display">${renderTex(body.join('\n').trim(), true)}</div>`);
+            continue;
+        }
+
+        if (/^\s*$/.test(line)) {
+            flushParagraph();
+            // A blank line ends a list unless the next line continues it
+            const next = lines[i + 1];
+            if (lists.length > 0 && !(next !== undefined && /^\s*([-*+]|\d+[.)])\s+/.test(next))) {
+                closeLists();
+            }
+            continue;
+        }
+
+        const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+        if (heading) {
+            flushParagraph();
+            closeLists();
+            const level = heading[1].length;
+            const text = heading[2];
+            const id = text.toLowerCase().replace(/<[^>]+>/g, '').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-');
+            out.push(`<h${level} id="${id}">${renderInline(text)}</h${level}>`);
+            continue;
+        }
+
+        if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flushParagraph();
+            closeLists();
+            out.push('<hr />');
+            continue;
+        }
+
+        if (/^\s{0,3}>/.test(line)) {
+            flushParagraph();
+            closeLists();
+            const quoted: string[] = [];
+            while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+                quoted.push(lines[i].replace(/^\s{0,3}>\s?/, ''));
+                i++;
+            }
+            i--;
+            out.push(`<blockquote>${renderBlocks(quoted.join('\n'))}</blockquote>`);
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+            const header = splitTableRow(line);
+            const delimiters = splitTableRow(lines[i + 1]);
+            if (header.length === delimiters.length) {
+                flushParagraph();
+                closeLists();
+                const alignments = delimiters.map(delimiter => {
+                    const left = delimiter.startsWith(':');
+                    const right = delimiter.endsWith(':');
+                    return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+                });
+                const rows: string[][] = [];
+                i += 2;
+                while (i < lines.length && lines[i].includes('|') && !/^\s*$/.test(lines[i])) {
+                    rows.push(splitTableRow(lines[i]));
+                    i++;
+                }
+                i--;
+                out.push(renderTable(header, alignments, rows));
+                continue;
+            }
+        }
+
+        const item = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+        if (item) {
+            flushParagraph();
+            const indent = item[1].length;
+            const ordered = /\d/.test(item[2]);
+            const top = lists[lists.length - 1];
+            if (!top || indent > top.indent) {
+                const start = ordered && parseInt(item[2], 10) !== 1 ? ` start="${parseInt(item[2], 10)}"` : '';
+                out.push(ordered ? `<ol${start}><li>` : '<ul><li>');
+                lists.push({ ordered, indent });
+            } else {
+                closeLists(indent);
+                out.push('</li><li>');
+            }
+            const task = /^\[([ xX])\]\s+(.*)$/.exec(item[3]);
+            out.push(task
+                ? `<input type="checkbox"${task[1] === ' ' ? '' : ' checked'} /> ${renderInline(task[2])}`
+                : renderInline(item[3]));
+            continue;
+        }
+
+        if (lists.length > 0 && /^\s+\S/.test(line)) {
+            // Lazy continuation of a list item
+            out.push(` ${renderInline(line.trim())}`);
+            continue;
+        }
+
+        closeLists();
+        paragraph.push(line);
+    }
+
+    flushParagraph();
+    closeLists();
+    return out.join('\n');
+}
+
+/**
+ * data: URL for an image attachment, or null if the cell has no such image
+ */
+function attachmentUrl(attachments: NotebookAttachments | undefined, name: string): string | null {
+    if (!attachments) return null;
+    let bundle = attachments[name];
+    if (!bundle) {
+        try {
+            bundle = attachments[decodeURIComponent(name)];
+        } catch {
+            return null;
+        }
+    }
+    // Only the raster formats the sanitizer accepts as data: URLs
+    const mime = bundle && Object.keys(bundle).find(type => /^image\/(png|jpeg|gif|webp)$/.test(type));
+    if (!mime) return null;
+    const data = bundle[mime];
+    return `data:${mime};base64,${(Array.isArray(data) ? data.join('') : data).replace(/\s+/g, '')}`;
+}
+
+/**
+ * Render markdown to sanitized HTML
+ */
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): string {
+    const html = renderBlocks(source).replace(/(<img\b[^>]*?\bsrc=")attachment:([^"]+)"/g, (match, prefix: string, name: string) => {
+        const url = attachmentUrl(options.attachments, name);
+        return url ? `${prefix}${url}"` : match;
+    });
+    return sanitizeHtml(html);
+}
@@ -0,0 +1,155 @@
+/**
+ * HTML sanitizer for notebook outputs and rendered markdown
+ *
+ * Allowlist based: unknown elements are unwrapped (their text kept), dangerous
+ * ones (script, iframe, style, ...) are removed with their content, event
+ * handler attributes are dropped and URLs are limited to safe schemes. Ids
+ * (heading anchors) are namespaced, with the `#` links to them, so they can't
+ * clobber the app's own elements or globals.
+ */
+
+const ALLOWED_TAGS = new Set([
+    'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'dd', 'del', 'details',
+    'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i',
+    'img', 'input', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'samp', 'small', 'span', 'strong',
+    'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul', 'var',
+    // KaTeX output
+    'math', 'semantics', 'mrow', 'mi', 'mn', 'mo', 'msup', 'msub', 'msubsup', 'mfrac', 'msqrt', 'mroot',
+    'mtext', 'mspace', 'mtable', 'mtr', 'mtd', 'mover', 'munder', 'munderover', 'annotation',
+    // Inline SVG (KaTeX uses it for some glyphs)
+    'svg', 'path', 'line', 'rect', 'circle', 'g', 'polyline', 'polygon', 'text',
+]);
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'frame', 'frameset', 'form', 'link', 'meta', 'base', 'template', 'noscript', 'textarea', 'select', 'button']);
+
+const ALLOWED_ATTRIBUTES = new Set([
+    'align', 'alt', 'border', 'class', 'colspan', 'height', 'href', 'rowspan', 'src', 'style',
+    'title', 'valign', 'width', 'open', 'start', 'type', 'checked', 'disabled', 'scope',
+    // MathML / SVG
+    'mathvariant', 'encoding', 'display', 'xmlns', 'viewbox', 'd', 'x', 'y', 'x1', 'x2', 'y1', 'y2',
+    'cx', 'cy', 'r', 'fill', 'stroke', 'stroke-width', 'points', 'transform', 'preserveaspectratio',
+    'aria-hidden', 'stretchy', 'fence', 'separator', 'lspace', 'rspace', 'accent', 'columnalign',
+]);
+
+const ID_PREFIX = 'user-content-';
+
+const SAFE_URL = /^(https?:|mailto:|#|\/(?!\/)|\.{0,2}\/|data:image\/(png|jpe?g|gif|webp);base64,)/i;
+
+// Inline styles may only set these (KaTeX needs the box model ones); positioning, z-index
+// and transforms are left out so content can't be laid over the rest of the app
+const ALLOWED_STYLE_PROPERTIES = new Set([
+    'color', 'background-color', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height',
+    'text-align', 'text-decoration', 'vertical-align', 'white-space', 'display', 'height', 'width',
+    'min-width', 'max-width', 'top', 'margin', 'margin-left', 'margin-right', 'margin-top', 'margin-bottom',
+    'padding', 'padding-left', 'padding-right', 'padding-top', 'padding-bottom', 'border', 'border-color',
+    'border-style', 'border-width', 'border-bottom-width', 'border-right-width', 'border-top-width',
+    'border-collapse',
+]);
+
+function isSafeUrl(value: string): boolean {
+    // Browsers ignore whitespace and control characters in the scheme ("java\tscript:")
+    const compact = value.replace(/[\u0000-\u0020\u007f]/g, '');
+    // Relative URLs without a scheme are fine
+    return SAFE_URL.test(compact) || !/^[a-z][a-z0-9+.-]*:/i.test(compact);
+}
+
+function sanitizeStyle(value: string): string {
+    return value
+        .split(';')
+        .map(declaration => declaration.trim())
+        .filter(declaration => {
+            const colon = declaration.indexOf(':');
+            if (colon <= 0) return false;
+            const property = declaration.slice(0, colon).trim().toLowerCase();
+            // url() can fetch remote resources and expression() is legacy script
+            return ALLOWED_STYLE_PROPERTIES.has(property) &&
+                !/url\s*\(|expression\s*\(|javascript:|@import|\\/i.test(declaration.slice(colon + 1));
+        })
+        .join('; ');
+}
+
+function sanitizeNode(node: Node, doc: Document): Node | null {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return doc.createTextNode(node.textContent || '');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+        return null;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+        return null;
+    }
+
+    const children = doc.createDocumentFragment();
+    element.childNodes.forEach(child => {
+        const clean = sanitizeNode(child, doc);
+        if (clean) children.appendChild(clean);
+    });
+
+    if (!ALLOWED_TAGS.has(tag)) {
+        return children;
+    }
+    if (tag === 'input' && element.getAttribute('type') !== 'checkbox') {
+        return null;
+    }
+
+    const clean = element.namespaceURI && element.namespaceURI !== 'http://www.w3.org/1999/xhtml'
+        ? doc.createElementNS(element.namespaceURI, element.tagName)
+        : doc.createElement(tag);
+
+    for (const attr of Array.from(element.attributes)) {
+        const name = attr.name.toLowerCase();
+        if (name === 'id') {
+            if (attr.value) clean.setAttribute('id', ID_PREFIX + attr.value);
+            continue;
+        }
+        if (!ALLOWED_ATTRIBUTES.has(name) && !name.startsWith('data-')) continue;
+        if ((name === 'href' || name === 'src') && !isSafeUrl(attr.value)) continue;
+        let value = name === 'style' ? sanitizeStyle(attr.value) : attr.value;
+        if (name === 'href' && /^#./.test(value)) value = `#${ID_PREFIX}${value.slice(1)}`;
+        if (value) clean.setAttribute(attr.name, value);
+    }
+
+    if (tag === 'a' && !clean.getAttribute('href')?.startsWith('#')) {
+        clean.setAttribute('target', '_blank');
+        clean.setAttribute('rel', 'noopener noreferrer');
+    }
+    if (tag === 'input') {
+        clean.setAttribute('disabled', '');
+    }
+
+    clean.appendChild(children);
+    return clean;
+}
+
+/**
+ * Return a sanitized copy of an HTML fragment
+ */
+export function sanitizeHtml(html: string): string {
+    if (typeof window === 'undefined' || typeof DOMParser === 'undefined') {
+        // No DOM (server render): fall back to escaping everything
+        return escapeHtml(html);
+    }
+    const parsed = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    const container = document.createElement('div');
+    parsed.body.childNodes.forEach(child => {
+        const clean = sanitizeNode(child, document);
+        if (clean) container.appendChild(clean);
+    });
+    return container.innerHTML;
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,78 @@
+/**
+ * Opening and saving a notebook without edits must give back the same bytes,
+ * for every nbformat 4 minor version and whatever layout the file was written
+ * with (indentation, key order, string or list sources, unknown fields).
+ * fixtures/ holds hand-written notebooks, one per minor version;
+ * fixtures/real-world/ holds notebooks other tools wrote (see LICENSES.md there).
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { jupyterNotebookService } from '../jupyter-notebook-service';
+
+const FIXTURES = join(__dirname, 'fixtures');
+const REAL_WORLD = join(FIXTURES, 'real-world');
+const notebooksIn = (dir: string) => readdirSync(dir).filter(name => name.endsWith('.ipynb')).sort();
+const files = notebooksIn(FIXTURES);
+const realWorld = notebooksIn(REAL_WORLD);
+const read = (dir: string, name: string) => readFileSync(join(dir, name), 'utf8');
+
+// What the notebook panel does between opening and saving a file
+function roundTrip(json: string): string {
+  const notebook = jupyterNotebookService.parseNotebook(json);
+  const cells = jupyterNotebookService.notebookToCells(notebook);
+  const saved = jupyterNotebookService.cellsToNotebook(cells, notebook.metadata, notebook);
+  return jupyterNotebookService.serializeNotebook(saved);
+}
+
+describe('nbformat round-trip', () => {
+  it('has a fixture for each minor version', () => {
+    const minors = files.map(name => JSON.parse(read(FIXTURES, name)).nbformat_minor);
+    expect(new Set(minors)).toEqual(new Set([0, 1, 4, 5]));
+  });
+
+  it.each([
+    ...files.map(name => [name, FIXTURES]),
+    ...realWorld.map(name => [`real-world/${name}`, REAL_WORLD]),
+  ])('%s is saved byte for byte', (name, dir) => {
+    const json = read(dir, name.replace(/^real-world\//, ''));
+    expect(jupyterNotebookService.validateNotebook(json).filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(roundTrip(json)).toBe(json);
+  });
+
+  it('has real-world notebooks with widget state, vendor outputs and unknown metadata', () => {
+    const notebooks = realWorld.map(name => JSON.parse(read(REAL_WORLD, name)));
+    const mimeTypes = notebooks.flatMap(nb => nb.cells.flatMap((cell: { outputs?: { data?: object }[] }) =>
+      (cell.outputs || []).flatMap(output => Object.keys(output.data || {}))));
+    expect(notebooks.some(nb => nb.metadata.widgets?.['application/vnd.jupyter.widget-state+json'])).toBe(true);
+    expect(mimeTypes).toEqual(expect.arrayContaining(['application/vnd.jupyter.widget-view+json', 'application/vnd.dataresource+json']));
+    expect(notebooks.some(nb => nb.metadata.nteract)).toBe(true);
+  });
+
+  it('keeps widget state and one-line arrays when a cell of a real notebook is edited', () => {
+    const json = read(REAL_WORLD, 'datalayer-ipywidgets-with-state.ipynb');
+    const notebook = jupyterNotebookService.parseNotebook(json);
+    const cells = jupyterNotebookService.notebookToCells(notebook);
+    cells[0] = { ...cells[0], content: 'import ipywidgets as w' };
+    const saved = jupyterNotebookService.serializeNotebook(
+      jupyterNotebookService.cellsToNotebook(cells, notebook.metadata, notebook)
+    );
+    expect(JSON.parse(saved).metadata).toEqual(JSON.parse(json).metadata);
+    expect(saved).toContain('"text/plain": ["IntSlider(value=0)"]');
+  });
+
+  it('rewrites only the edited cell', () => {
+    const json = read(FIXTURES, 'nbformat-4.0.ipynb');
+    const notebook = jupyterNotebookService.parseNotebook(json);
+    const cells = jupyterNotebookService.notebookToCells(notebook);
+    cells[2] = { ...cells[2], content: '6 * 9' };
+    const saved = JSON.parse(jupyterNotebookService.serializeNotebook(
+      jupyterNotebookService.cellsToNotebook(cells, notebook.metadata, notebook)
+    ));
+    const original = JSON.parse(json);
+    expect(saved.cells[2].source).toEqual(['6 * 9']);
+    expect({ ...saved, cells: saved.cells.filter((_: unknown, i: number) => i !== 2) })
+      .toEqual({ ...original, cells: original.cells.filter((_: unknown, i: number) => i !== 2) });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Runs pyodide.worker.ts in Node on the pyodide package (the version the app
+ * fetches by default), driving it with the same messages the page sends.
+ */
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadPyodide } from 'pyodide';
+import type { PyodideWorkerRequest, PyodideWorkerResponse } from '../pyodide-worker-protocol';
+import type { CellExecutionResult } from '../jupyter-notebook-service';
+import type { NamespaceImport } from '../notebook-namespace';
+
+const scope: {
+  onmessage: ((event: MessageEvent<PyodideWorkerRequest>) => void) | null;
+  postMessage(message: PyodideWorkerResponse): void;
+} = { onmessage: null, postMessage: message => listeners.forEach(listener => listener(message)) };
+const listeners = new Set<(message: PyodideWorkerResponse) => void>();
+
+const send = (request: PyodideWorkerRequest) => scope.onmessage!({ data: request } as MessageEvent<PyodideWorkerRequest>);
+
+// The first message `accept` returns a value for
+const next = <T>(accept: (message: PyodideWorkerResponse) => T | undefined) => new Promise<T>(resolve => {
+  const listener = (message: PyodideWorkerResponse) => {
+    const value = accept(message);
+    if (value === undefined) return;
+    listeners.delete(listener);
+    resolve(value);
+  };
+  listeners.add(listener);
+});
+
+let cellCount = 0;
+
+const run = (code: string, namespace?: NamespaceImport[]): Promise<CellExecutionResult> => {
+  const id = `cell-${++cellCount}`;
+  const result = next(message => message.type === 'result' && message.id === id ? message.result : undefined);
+  send({ type: 'execute', id, code, executionCount: cellCount, namespace });
+  return result;
+};
+
+const stdout = (result: CellExecutionResult) =>
+  result.outputs.filter(output => output.output_type === 'stream').map(output => output.text).join('');
+
+const shown = (result: CellExecutionResult) =>
+  result.outputs.find(output => output.output_type === 'execute_result')?.data?.['text/plain'];
+
+beforeAll(async () => {
+  vi.stubGlobal('self', scope);
+  vi.stubGlobal('importScripts', () => undefined);
+  // The worker names a distribution URL; the files come from the package instead
+  const indexURL = `${dirname(createRequire(import.meta.url).resolve('pyodide/package.json'))}/`;
+  vi.stubGlobal('loadPyodide', () => loadPyodide({ indexURL }));
+  await import('../pyodide.worker');
+  const ready = next(message => message.type === 'ready' || message.type === 'init_error' ? message : undefined);
+  send({ type: 'init', indexURLs: ['/pyodide/'], wheelsURL: '/pyodide/wheels/' });
+  expect(await ready).toMatchObject({ type: 'ready' });
+}, 120_000);
+
+describe('pyodide worker', () => {
+  it('runs a cell and shows its last value', async () => {
+    const result = await run('print("hi")\n1 + 1');
+    expect(result.success).toBe(true);
+    expect(stdout(result)).toBe('hi\n');
+    expect(shown(result)).toBe('2');
+  });
+
+  it('imports variables from other languages without replacing kernel names', async () => {
+    const result = await run('print(data)\njson', [
+      { name: 'data', json: '[1, 2]' },
+      { name: 'json', json: '{"a": 1}' },
+      { name: '_nava_shell', json: 'null' },
+      { name: 'display', json: '0' },
+    ]);
+    expect(result.success).toBe(true);
+    expect(stdout(result)).toBe('[1, 2]\n');
+    expect(shown(result)).toMatch(/^<module 'json'/);
+
+    const after = await run('display("still here")\n{"x": 1}');
+    expect(after.success).toBe(true);
+    expect(after.outputs.map(output => output.output_type)).toEqual(['display_data', 'execute_result']);
+  });
+
+  it('keeps magics, displays and SQL working when a cell rebinds the modules the kernel uses', async () => {
+    const queries = next(message => message.type === 'sql_query' ? message : undefined).then(query => {
+      send({ type: 'sql_reply', queryId: query.queryId, results: [{ statement: query.sql, columns: ['n'], rows: [{ n: 1 }], totalRows: 1 }] });
+      return query.sql;
+    });
+    expect((await run('re = None\njson = {}\ntime = None\ninspect = sys = types = None\nn = 3')).success).toBe(true);
+
+    expect(stdout(await run('%timeit -n 1 -r 1 pass'))).toMatch(/per loop/);
+    expect(stdout(await run('%time 1 + 1'))).toMatch(/Wall time/);
+    expect(stdout(await run('%who int'))).toBe('n\n');
+    expect(shown(await run('%%sql\nselect 1 as n'))).toMatch(/^n\n-\n1$/);
+    expect(await queries).toBe('select 1 as n');
+
+    const result = await run('display(1)\njson');
+    expect(result.outputs.map(output => output.output_type)).toEqual(['display_data', 'execute_result']);
+    expect(shown(result)).toBe('{}');
+  });
+
+  it('lets an import replace a kernel name a cell has reassigned', async () => {
+    await run('json = "mine"');
+    expect(shown(await run('json', [{ name: 'json', json: '{"a": 1}' }]))).toBe("{'a': 1}");
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Flux Schema
+ *
+ * The JSON the intent route asks the model for and the home page renders: a
+ * mode, a line to speak, and a list of components. FLUX_JSON_SCHEMA is the
+ * one definition of it — it goes into the model's prompt as-is, and model
+ * output is checked against it before anything renders. Properties with a
+ * `default` are filled in when missing (an empty gallery rather than a crash);
+ * the rest must be there.
+ */
+
+import { formatSchemaIssue, JsonSchemaIssue, validateJsonSchema } from './json-schema-validator';
+
+export type FluxMode = 'void' | 'visual' | 'analysis' | 'comparison' | 'chat' | 'studio';
+export type FluxRole = 'user' | 'assistant' | 'system';
+
+export interface FluxHeader {
+  id: string;
+  type: 'header';
+  text: string;
+}
+
+export interface FluxMessage {
+  id: string;
+  type: 'message';
+  content: string;
+  role: FluxRole;
+}
+
+export interface FluxGalleryItem {
+  src: string;
+  caption: string;
+}
+
+export interface FluxGallery {
+  id: string;
+  type: 'gallery';
+  items: FluxGalleryItem[];
+}
+
+export interface FluxPdfViewer {
+  id: string;
+  type: 'pdf_viewer';
+  src: string;
+  page: number;
+}
+
+export interface FluxChatAnalysis {
+  id: string;
+  type: 'chat_analysis';
+  insight: string;
+  initial_thought: string;
+}
+
+export interface FluxTable {
+  id: string;
+  type: 'table';
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+export type FluxComponent = FluxHeader | FluxMessage | FluxGallery | FluxPdfViewer | FluxChatAnalysis | FluxTable;
+export type FluxComponentType = FluxComponent['type'];
+
+export interface FluxSchema {
+  mode: FluxMode;
+  voice_response?: string;
+  components: FluxComponent[];
+}
+
+export interface FluxParseResult {
+  schema: FluxSchema | null; // null when there are issues
+  issues: JsonSchemaIssue[];
+}
+
+export const FLUX_MODES: readonly FluxMode[] = ['void', 'visual', 'analysis', 'comparison', 'chat', 'studio'];
+const ROLES: readonly FluxRole[] = ['user', 'assistant', 'system'];
+
+// Each component type's contract, keyed by its `type`
+const COMPONENT_SCHEMAS: Record<FluxComponentType, Record<string, unknown>> = {
+  header: {
+    type: 'object',
+    required: ['text'],
+    properties: {
+      text: { type: 'string', description: 'Heading text' },
+    },
+  },
+  message: {
+    type: 'object',
+    required: ['content'],
+    properties: {
+      content: { type: 'string' },
+      role: { enum: ROLES, default: 'assistant' },
+    },
+  },
+  gallery: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        default: [],
+        items: {
+          type: 'object',
+          required: ['src'],
+          properties: {
+            src: { type: 'string', description: 'Image path, e.g. /demo/graph1.png' },
+            caption: { type: 'string', default: '' },
+          },
+        },
+      },
+    },
+  },
+  pdf_viewer: {
+    type: 'object',
+    required: ['src'],
+    properties: {
+      src: { type: 'string', description: 'Document path or URL' },
+      page: { type: 'integer', minimum: 1, default: 1 },
+    },
+  },
+  chat_analysis: {
+    type: 'object',
+    required: ['insight'],
+    properties: {
+      insight: { type: 'string', description: 'The main finding' },
+      initial_thought: { type: 'string', default: '' },
+    },
+  },
+  table: {
+    type: 'object',
+    properties: {
+      headers: { type: 'array', default: [], items: { type: 'string' } },
+      rows: { type: 'array', default: [], items: { type: 'array', items: { type: ['string', 'number'] } } },
+    },
+  },
+};
+
+const COMPONENT_TYPES = Object.keys(COMPONENT_SCHEMAS) as FluxComponentType[];
+
+export const FLUX_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['mode', 'components'],
+  properties: {
+    mode: { enum: FLUX_MODES },
+    voice_response: { type: 'string', description: 'A short, conversational sentence for the AI to speak' },
+    components: { type: 'array', default: [], items: { $ref: '#/$defs/component' } },
+  },
+  $defs: {
+    component: {
+      type: 'object',
+      required: ['id', 'type'],
+      properties: {
+        id: { type: 'string' },
+        type: { enum: COMPONENT_TYPES },
+      },
+      allOf: COMPONENT_TYPES.map(type => ({
+        if: { required: ['type'], properties: { type: { const: type } } },
+        then: { $ref: `#/$defs/${type}` },
+      })),
+    },
+    ...COMPONENT_SCHEMAS,
+  },
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A copy of `value` with the defaults of `schema` filled in, following
+ * `properties` and `items`
+ */
+function withDefaults(value: unknown, schema: unknown): unknown {
+  if (!isRecord(schema)) return value;
+  if (Array.isArray(value) && isRecord(schema.items)) {
+    return value.map(item => withDefaults(item, schema.items));
+  }
+  if (!isRecord(value) || !isRecord(schema.properties)) return value;
+  const result: JsonRecord = { ...value };
+  for (const [key, property] of Object.entries(schema.properties)) {
+    if (!isRecord(property)) continue;
+    if (result[key] !== undefined) {
+      result[key] = withDefaults(result[key], property);
+    } else if (property.default !== undefined) {
+      result[key] = structuredClone(property.default);
+    }
+  }
+  return result;
+}
+
+function componentDefaults(component: unknown, index: number): unknown {
+  if (!isRecord(component) || typeof component.type !== 'string') return component;
+  const schema = COMPONENT_SCHEMAS[component.type as FluxComponentType];
+  const filled = (schema ? withDefaults(component, schema) : component) as JsonRecord;
+  return filled.id === undefined ? { ...filled, id: `${component.type}-${index}` } : filled;
+}
+
+/**
+ * Check a parsed value against the Flux Schema, filling in defaults
+ */
+export function validateFluxSchema(value: unknown): FluxParseResult {
+  let filled = withDefaults(value, FLUX_JSON_SCHEMA);
+  if (isRecord(filled) && Array.isArray(filled.components)) {
+    filled = { ...filled, components: filled.components.map(componentDefaults) };
+  }
+  const issues = validateJsonSchema(filled, FLUX_JSON_SCHEMA);
+  return { schema: issues.length === 0 ? filled as FluxSchema : null, issues };
+}
+
+/**
+ * Parse and check a model's reply, which may be wrapped in a ```json fence
+ */
+export function parseFluxResponse(text: string): FluxParseResult {
+  const json = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { schema: null, issues: [{ path: '', message: `is not valid JSON: ${reason}` }] };
+  }
+  return validateFluxSchema(value);
+}
+
+/**
+ * The issues as a bulleted list, for logs and for asking the model to repair its reply
+ */
+export function formatFluxIssues(issues: JsonSchemaIssue[], limit = 20): string {
+  const lines = issues.slice(0, limit).map(issue => `- ${formatSchemaIssue(issue)}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+}
+
+/**
+ * A chat screen with a single message
+ */
+export function fluxMessage(content: string, voiceResponse = content, role: FluxRole = 'assistant'): FluxSchema {
+  return {
+    mode: 'chat',
+    voice_response: voiceResponse,
+    components: [{ id: 'message', type: 'message', role, content }],
+  };
+}
@@ -0,0 +1,420 @@
+/**
+ * JavaScript Sandbox
+ *
+ * Runs JavaScript cells in a dedicated worker per notebook session. The worker
+ * is started from a data: URL, so it has an opaque origin: it cannot read the
+ * studio's localStorage or IndexedDB, and requests it makes carry no cookies.
+ * A runaway cell is stopped by terminating the worker, which also clears the
+ * session's globals.
+ */
+
+import type { NotebookOutput, CellExecutionResult } from './jupyter-notebook-service';
+import type { OutputMessage } from './notebook-outputs';
+import { MAX_TRANSFER_CHARS, NamespaceImport, VariableSnapshot } from './notebook-namespace';
+
+export interface SandboxExecutionOptions {
+  timeout?: number; // Milliseconds before the sandbox is torn down
+  signal?: AbortSignal;
+  onOutput?: (output: OutputMessage) => void;
+  namespace?: NamespaceImport[]; // Values from other languages, assigned as globals before the cell runs
+  onVariables?: (variables: VariableSnapshot[]) => void; // The sandbox's globals after the cell ran
+}
+
+type SandboxResponse =
+  | { type: 'output'; id: string; output: NotebookOutput }
+  | { type: 'result'; id: string; data: Record<string, unknown> | null; variables: VariableSnapshot[] }
+  | { type: 'error'; id: string; ename: string; evalue: string; traceback: string[]; variables?: VariableSnapshot[] };
+
+interface PendingExecution {
+  outputs: NotebookOutput[];
+  resolve: (response: SandboxResponse) => void;
+  onOutput?: (output: OutputMessage) => void;
+}
+
+interface SandboxSession {
+  worker: Worker;
+  pending: Map<string, PendingExecution>;
+  // Cells run one at a time per session
+  queue: Promise<unknown>;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+
+// Runs inside the worker. Plain JavaScript: it is never seen by the bundler.
+// Top-level `const`/`let`/`class` declarations are turned into globals so that
+// later cells can use them, the way a REPL session works.
+const SANDBOX_RUNTIME = String.raw`
+var currentId = null;
+var MAX_TRANSFER_CHARS = ${MAX_TRANSFER_CHARS};
+
+function inspect(value, depth, seen) {
+  switch (typeof value) {
+    case 'string': return depth === 0 ? value : JSON.stringify(value);
+    case 'bigint': return value + 'n';
+    case 'symbol': return value.toString();
+    case 'undefined': return 'undefined';
+    case 'function':
+      return /^class\b/.test(Function.prototype.toString.call(value))
+        ? '[class ' + (value.name || '(anonymous)') + ']'
+        : '[Function: ' + (value.name || '(anonymous)') + ']';
+    case 'object': break;
+    default: return String(value);
+  }
+  if (value === null) return 'null';
+  if (seen.indexOf(value) !== -1) return '[Circular]';
+  if (value instanceof Error) return value.stack || String(value);
+  if (value instanceof Date) return isNaN(value) ? 'Invalid Date' : value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  if (typeof value.then === 'function') return 'Promise { <pending> }';
+  if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  var next = seen.concat([value]);
+  var item = function (inner) { return inspect(inner, depth + 1, next); };
+  var limit = function (items, total) {
+    return total > 100 ? items.slice(0, 100).concat(['... ' + (total - 100) + ' more items']) : items;
+  };
+  if (value instanceof Map) {
+    var mapped = Array.from(value, function (entry) { return item(entry[0]) + ' => ' + item(entry[1]); });
+    return 'Map(' + value.size + ') {' + limit(mapped, value.size).join(', ') + '}';
+  }
+  if (value instanceof Set) {
+    return 'Set(' + value.size + ') {' + limit(Array.from(value, item), value.size).join(', ') + '}';
+  }
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    var items = Array.prototype.slice.call(value, 0, 100).map(item);
+    var prefix = Array.isArray(value) ? '' : value.constructor.name + '(' + value.length + ') ';
+    return prefix + '[' + limit(items, value.length).join(', ') + ']';
+  }
+  var keys = Object.keys(value);
+  var entries = keys.slice(0, 100).map(function (key) {
+    return (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)) + ': ' + item(value[key]);
+  });
+  var ctor = value.constructor;
+  var name = ctor && ctor !== Object && ctor.name ? ctor.name + ' ' : '';
+  return name + '{' + (entries.length ? ' ' + limit(entries, keys.length).join(', ') + ' ' : '') + '}';
+}
+
+function formatArgs(args) {
+  return args.map(function (arg) { return inspect(arg, 0, []); }).join(' ') + '\n';
+}
+
+function emit(output) {
+  if (currentId !== null) postMessage({ type: 'output', id: currentId, output: output });
+}
+
+function escapeHtml(text) {
+  return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Plain objects and arrays also get an application/json view
+function mimeBundle(value) {
+  var data = { 'text/plain': typeof value === 'string' ? JSON.stringify(value) : inspect(value, 1, []) };
+  if (value !== null && typeof value === 'object' && (Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype)) {
+    try {
+      data['application/json'] = JSON.parse(JSON.stringify(value));
+    } catch (error) {
+      // Circular or BigInt values only get the text view
+    }
+  }
+  return data;
+}
+
+function table(data, columns) {
+  if (data === null || typeof data !== 'object') {
+    emit({ output_type: 'stream', name: 'stdout', text: formatArgs([data]) });
+    return;
+  }
+  var rows = Array.isArray(data) ? data.map(function (row, index) { return [index, row]; }) : Object.entries(data);
+  var keys = [];
+  var hasValues = false;
+  rows.forEach(function (row) {
+    if (row[1] !== null && typeof row[1] === 'object') {
+      Object.keys(row[1]).forEach(function (key) { if (keys.indexOf(key) === -1) keys.push(key); });
+    } else {
+      hasValues = true;
+    }
+  });
+  if (Array.isArray(columns)) keys = columns.map(String);
+  var header = ['(index)'].concat(keys, hasValues ? ['Values'] : []);
+  var body = rows.map(function (row) {
+    var record = row[1];
+    var isObject = record !== null && typeof record === 'object';
+    var cells = [String(row[0])].concat(keys.map(function (key) {
+      return isObject && key in record ? inspect(record[key], 1, []) : '';
+    }));
+    if (hasValues) cells.push(isObject ? '' : inspect(record, 1, []));
+    return cells;
+  });
+  var text = [header.join(' | '), header.map(function () { return '---'; }).join(' | ')]
+    .concat(body.map(function (cells) { return cells.join(' | '); })).join('\n');
+  var html = '<table><thead><tr>' + header.map(function (cell) { return '<th>' + escapeHtml(cell) + '</th>'; }).join('') +
+    '</tr></thead><tbody>' + body.map(function (cells) {
+      return '<tr>' + cells.map(function (cell) { return '<td>' + escapeHtml(cell) + '</td>'; }).join('') + '</tr>';
+    }).join('') + '</tbody></table>';
+  emit({ output_type: 'display_data', data: { 'text/plain': text, 'text/html': html }, metadata: {} });
+}
+
+function stream(name) {
+  return function () { emit({ output_type: 'stream', name: name, text: formatArgs(Array.prototype.slice.call(arguments)) }); };
+}
+
+self.console = {
+  log: stream('stdout'),
+  info: stream('stdout'),
+  debug: stream('stdout'),
+  warn: stream('stderr'),
+  error: stream('stderr'),
+  table: table,
+  dir: function (value) { emit({ output_type: 'stream', name: 'stdout', text: inspect(value, 1, []) + '\n' }); },
+};
+
+var IDENTIFIER = '([A-Za-z_$][\\w$]*)';
+
+// Script form: evaluated directly so the completion value is the cell's result
+function toScript(code) {
+  return code
+    .replace(/^(?:const|let)(\s)/gm, 'var$1')
+    .replace(new RegExp('^class\\s+' + IDENTIFIER, 'gm'), 'var $1 = class $1');
+}
+
+// Async form for cells using top-level await: declarations become globals and
+// the last line, when it is an expression, is returned
+function toAsyncScript(code, returnLast) {
+  var lines = code
+    .replace(new RegExp('^(?:const|let|var)\\s+' + IDENTIFIER + '\\s*=', 'gm'), 'globalThis.$1 =')
+    .replace(new RegExp('^(async\\s+)?function(\\s*\\*)?\\s*' + IDENTIFIER, 'gm'), 'globalThis.$3 = $1function$2 $3')
+    .replace(new RegExp('^class\\s+' + IDENTIFIER, 'gm'), 'globalThis.$1 = class $1')
+    .replace(/\s+$/, '')
+    .split('\n');
+  var last = lines[lines.length - 1];
+  if (returnLast && /^[^\s}\])]/.test(last) && !/^(?:(?:if|for|while|do|switch|try|return|throw|break|continue)\b|globalThis\.)/.test(last)) {
+    lines[lines.length - 1] = 'return (' + last.replace(/;\s*$/, '') + ');';
+  }
+  return '(async () => {\n' + lines.join('\n') + '\n})()';
+}
+
+function typeName(value) {
+  if (value === null) return 'null';
+  if (typeof value === 'function') return /^class\b/.test(Function.prototype.toString.call(value)) ? 'class' : 'function';
+  if (typeof value !== 'object') return typeof value;
+  if (Array.isArray(value)) return 'Array';
+  return value.constructor && value.constructor.name ? value.constructor.name : 'Object';
+}
+
+function sizeOf(value) {
+  var count = function (n, unit) { return n + ' ' + unit + (n === 1 ? '' : 's'); };
+  if (typeof value === 'string') return count(value.length, 'char');
+  if (value === null || typeof value !== 'object') return undefined;
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) return count(value.length, 'item');
+  if (value instanceof Map || value instanceof Set) return count(value.size, 'item');
+  return count(Object.keys(value).length, 'key');
+}
+
+function isUserGlobal(name) {
+  return Object.prototype.hasOwnProperty.call(self, name) && !BUILTIN_GLOBALS.has(name);
+}
+
+// User globals: everything the runtime itself didn't define
+function snapshot() {
+  return Object.getOwnPropertyNames(self).filter(function (name) {
+    return isUserGlobal(name) && name.charAt(0) !== '_';
+  }).map(function (name) {
+    var value = self[name];
+    var entry = { name: name, type: typeName(value), preview: inspect(value, 1, []).replace(/\s+/g, ' ').slice(0, 200) };
+    var size = sizeOf(value);
+    if (size) entry.size = size;
+    if (typeof value !== 'function' && typeof value !== 'symbol' && value !== undefined) {
+      try {
+        var json = JSON.stringify(value);
+        if (json !== undefined && json.length <= MAX_TRANSFER_CHARS) entry.json = json;
+      } catch (error) {
+        // Circular or BigInt values stay in the sandbox
+      }
+    }
+    return entry;
+  });
+}
+
+async function run(id, code, namespace) {
+  currentId = id;
+  // Variables from other languages never replace the worker's own globals (postMessage, onmessage, self, ...)
+  (namespace || []).forEach(function (entry) {
+    if (!(entry.name in self) || isUserGlobal(entry.name)) self[entry.name] = JSON.parse(entry.json);
+  });
+  try {
+    var value;
+    try {
+      value = (0, eval)(toScript(code));
+    } catch (error) {
+      if (!(error instanceof SyntaxError) || !/\bawait\b/.test(code)) throw error;
+      try {
+        value = (0, eval)(toAsyncScript(code, true));
+      } catch (syntaxError) {
+        if (!(syntaxError instanceof SyntaxError)) throw syntaxError;
+        value = (0, eval)(toAsyncScript(code, false));
+      }
+    }
+    if (value !== null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function') {
+      value = await value;
+    }
+    postMessage({ type: 'result', id: id, data: value === undefined ? null : mimeBundle(value), variables: snapshot() });
+  } catch (error) {
+    var isError = error instanceof Error;
+    postMessage({
+      type: 'error',
+      id: id,
+      ename: isError ? error.name : 'Uncaught',
+      evalue: isError ? error.message : inspect(error, 1, []),
+      traceback: (isError && error.stack ? error.stack : String(error)).split('\n'),
+      variables: snapshot(),
+    });
+  } finally {
+    currentId = null;
+  }
+}
+
+self.onmessage = function (event) {
+  if (event.data && event.data.type === 'execute') run(event.data.id, event.data.code, event.data.namespace);
+};
+
+var BUILTIN_GLOBALS = new Set(Object.getOwnPropertyNames(self));
+`;
+
+class JavaScriptSandbox {
+  private sessions = new Map<string, SandboxSession>();
+  private requestCounter = 0;
+
+  private getSession(sessionId: string): SandboxSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = this.createSession();
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private createSession(): SandboxSession {
+    if (typeof Worker === 'undefined') {
+      throw new Error('JavaScript cells need a browser with Web Worker support');
+    }
+    const worker = new Worker(`data:text/javascript;charset=utf-8,${encodeURIComponent(SANDBOX_RUNTIME)}`);
+    const session: SandboxSession = { worker, pending: new Map(), queue: Promise.resolve() };
+
+    worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+      const message = event.data;
+      const execution = session.pending.get(message.id);
+      if (!execution) return;
+      if (message.type === 'output') {
+        execution.outputs.push(message.output);
+        execution.onOutput?.(message.output);
+        return;
+      }
+      session.pending.delete(message.id);
+      execution.resolve(message);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      // Errors thrown from callbacks after a cell finished land here; report them on the running cell if any
+      const [id, execution] = Array.from(session.pending.entries())[0] || [];
+      if (!id || !execution) return;
+      session.pending.delete(id);
+      execution.resolve({ type: 'error', id, ename: 'Error', evalue: event.message, traceback: [event.message] });
+    };
+    return session;
+  }
+
+  /**
+   * Run a cell in the session's sandbox
+   */
+  async execute(
+    sessionId: string,
+    code: string,
+    executionCount: number,
+    options: SandboxExecutionOptions = {}
+  ): Promise<CellExecutionResult> {
+    const session = this.getSession(sessionId);
+    const run = session.queue.then(() => this.run(sessionId, code, executionCount, options));
+    session.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private run(
+    sessionId: string,
+    code: string,
+    executionCount: number,
+    options: SandboxExecutionOptions
+  ): Promise<CellExecutionResult> {
+    // Looked up again here: a timeout while this cell was queued replaces the sandbox
+    const session = this.getSession(sessionId);
+    const id = `js-${++this.requestCounter}`;
+    const outputs: NotebookOutput[] = [];
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+
+    return new Promise<CellExecutionResult>((resolve) => {
+      const finish = (response: SandboxResponse) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        if (response.type === 'error') {
+          const error = { ename: response.ename, evalue: response.evalue, traceback: response.traceback };
+          resolve({
+            success: false,
+            outputs: [...outputs, { output_type: 'error', ...error }],
+            execution_count: executionCount,
+            error,
+          });
+          return;
+        }
+        if (response.type === 'result' && response.data) {
+          outputs.push({ output_type: 'execute_result', execution_count: executionCount, data: response.data, metadata: {} });
+        }
+        if (response.type !== 'output' && response.variables) {
+          options.onVariables?.(response.variables);
+        }
+        resolve({ success: true, outputs, execution_count: executionCount });
+      };
+
+      // A synchronous loop can't be interrupted in place, so the whole sandbox goes
+      const stop = (ename: string, evalue: string) => {
+        this.closeSession(sessionId);
+        finish({
+          type: 'error',
+          id,
+          ename,
+          evalue,
+          traceback: [`${ename}: ${evalue}`, 'The JavaScript sandbox was restarted; its variables are lost.'],
+          variables: [],
+        });
+      };
+      const onAbort = () => stop('KeyboardInterrupt', 'Execution interrupted');
+      const timer = setTimeout(() => stop('TimeoutError', `Execution timed out after ${timeout / 1000}s`), timeout);
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      session.pending.set(id, { outputs, resolve: finish, onOutput: options.onOutput });
+      session.worker.postMessage({ type: 'execute', id, code, namespace: options.namespace });
+    });
+  }
+
+  /**
+   * Tear down a session's sandbox; the next cell starts with fresh globals
+   */
+  closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    session.worker.terminate();
+    session.pending.clear();
+  }
+
+  /**
+   * Tear down every sandbox (Restart Kernel)
+   */
+  reset(): void {
+    Array.from(this.sessions.keys()).forEach(sessionId => this.closeSession(sessionId));
+  }
+}
+
+export const javascriptSandbox = new JavaScriptSandbox();
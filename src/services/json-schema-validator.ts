@@ -0,0 +1,324 @@
+/**
+ * JSON Schema Validator
+ *
+ * Checks a value against a JSON Schema (the commonly used keywords of drafts 7
+ * through 2020-12; `format` is not checked and only local `$ref`s are
+ * followed). Issues carry a JSON path and, when the value came from
+ * parseLosslessJson, the line/column of the offending member.
+ */
+
+import { getJsonLocation } from './lossless-json';
+
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+type Schema = boolean | Record<string, unknown>;
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (!path) return key;
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+// Where a value sits in its parent, so issues can be located in the source text
+interface Position {
+  path: string;
+  container: object | null;
+  key?: string | number;
+}
+
+class SchemaValidator {
+  private issues: JsonSchemaIssue[] = [];
+
+  constructor(private root: Schema) {}
+
+  validate(value: unknown): JsonSchemaIssue[] {
+    this.issues = [];
+    this.check(value, this.root, { path: '', container: isRecord(value) || Array.isArray(value) ? value : null });
+    return this.issues;
+  }
+
+  /**
+   * Whether a value satisfies a schema, without recording issues (anyOf, oneOf, not, if)
+   */
+  private passes(value: unknown, schema: Schema, at: Position): boolean {
+    const saved = this.issues;
+    this.issues = [];
+    this.check(value, schema, at);
+    const ok = this.issues.length === 0;
+    this.issues = saved;
+    return ok;
+  }
+
+  private report(at: Position, message: string): void {
+    const location = at.container ? getJsonLocation(at.container, at.key) : undefined;
+    this.issues.push({
+      path: at.path,
+      message,
+      ...(location ? { line: location.line, column: location.column } : {}),
+    });
+  }
+
+  /**
+   * Resolve a local reference such as `#/$defs/point`
+   */
+  private resolve(ref: string): Schema | undefined {
+    if (!ref.startsWith('#')) return undefined;
+    let target: unknown = this.root;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+      const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isRecord(target) || Array.isArray(target) ? (target as JsonRecord)[key] : undefined;
+    }
+    return typeof target === 'boolean' || isRecord(target) ? target : undefined;
+  }
+
+  private check(value: unknown, schema: Schema, at: Position): void {
+    if (schema === true) return;
+    if (schema === false) {
+      this.report(at, 'is not allowed');
+      return;
+    }
+
+    if (typeof schema.$ref === 'string') {
+      const target = this.resolve(schema.$ref);
+      if (target === undefined) {
+        this.report(at, `cannot resolve $ref ${schema.$ref}`);
+      } else {
+        this.check(value, target, at);
+      }
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+      if (!types.some(type => matchesType(value, type))) {
+        this.report(at, `must be ${types.join(' or ')}, found ${typeOf(value)}`);
+        return;
+      }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+      this.report(at, `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+    if ('const' in schema && !deepEqual(schema.const, value)) {
+      this.report(at, `must be ${JSON.stringify(schema.const)}`);
+    }
+
+    this.checkCombinators(value, schema, at);
+
+    if (typeof value === 'number') this.checkNumber(value, schema, at);
+    if (typeof value === 'string') this.checkString(value, schema, at);
+    if (Array.isArray(value)) this.checkArray(value, schema, at);
+    if (isRecord(value)) this.checkObject(value, schema, at);
+  }
+
+  private checkCombinators(value: unknown, schema: JsonRecord, at: Position): void {
+    if (Array.isArray(schema.allOf)) {
+      (schema.allOf as Schema[]).forEach(sub => this.check(value, sub, at));
+    }
+    if (Array.isArray(schema.anyOf) && !(schema.anyOf as Schema[]).some(sub => this.passes(value, sub, at))) {
+      this.report(at, 'does not match any of the allowed schemas (anyOf)');
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const matches = (schema.oneOf as Schema[]).filter(sub => this.passes(value, sub, at)).length;
+      if (matches !== 1) {
+        this.report(at, `must match exactly one schema in oneOf, matched ${matches}`);
+      }
+    }
+    if (schema.not !== undefined && this.passes(value, schema.not as Schema, at)) {
+      this.report(at, 'must not match the schema in "not"');
+    }
+    if (schema.if !== undefined) {
+      const branch = this.passes(value, schema.if as Schema, at) ? schema.then : schema.else;
+      if (branch !== undefined) this.check(value, branch as Schema, at);
+    }
+  }
+
+  private checkNumber(value: number, schema: JsonRecord, at: Position): void {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      this.report(at, `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      this.report(at, `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      this.report(at, `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      this.report(at, `must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        this.report(at, `must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  private checkString(value: string, schema: JsonRecord, at: Position): void {
+    // Lengths count code points, not UTF-16 units
+    const length = Array.from(value).length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      this.report(at, `must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      this.report(at, `must be at most ${schema.maxLength} characters long`);
+    }
+    if (typeof schema.pattern === 'string') {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(schema.pattern, 'u');
+      } catch {
+        this.report(at, `schema pattern ${JSON.stringify(schema.pattern)} is not a valid regular expression`);
+      }
+      if (pattern && !pattern.test(value)) {
+        this.report(at, `must match pattern ${JSON.stringify(schema.pattern)}`);
+      }
+    }
+  }
+
+  private checkArray(value: unknown[], schema: JsonRecord, at: Position): void {
+    const item = (index: number): Position => ({ path: join(at.path, index), container: value, key: index });
+
+    // Tuple validation: prefixItems (2020-12) or an array-valued items (draft 7)
+    const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems as Schema[]
+      : Array.isArray(schema.items) ? schema.items as Schema[] : [];
+    const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+    value.forEach((element, index) => {
+      if (index < prefix.length) {
+        this.check(element, prefix[index], item(index));
+      } else if (rest !== undefined) {
+        this.check(element, rest as Schema, item(index));
+      }
+    });
+
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      this.report(at, `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      this.report(at, `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((element, index) => value.slice(0, index).some(other => deepEqual(other, element)));
+      if (duplicate !== -1) {
+        this.report(item(duplicate), 'duplicates an earlier item (uniqueItems)');
+      }
+    }
+    if (schema.contains !== undefined) {
+      const matches = value.filter((element, index) => this.passes(element, schema.contains as Schema, item(index))).length;
+      const min = typeof schema.minContains === 'number' ? schema.minContains : 1;
+      if (matches < min) {
+        this.report(at, `must contain at least ${min} matching item${min === 1 ? '' : 's'}`);
+      }
+      if (typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+        this.report(at, `must contain at most ${schema.maxContains} matching items`);
+      }
+    }
+  }
+
+  private checkObject(value: JsonRecord, schema: JsonRecord, at: Position): void {
+    const member = (key: string): Position => ({ path: join(at.path, key), container: value, key });
+    const properties = isRecord(schema.properties) ? schema.properties as Record<string, Schema> : {};
+    const patterns = isRecord(schema.patternProperties)
+      ? Object.entries(schema.patternProperties as Record<string, Schema>).map(([pattern, sub]) => [new RegExp(pattern, 'u'), sub] as const)
+      : [];
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) this.report(at, `missing required property ${JSON.stringify(key)}`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      let matched = false;
+      if (key in properties) {
+        matched = true;
+        this.check(child, properties[key], member(key));
+      }
+      for (const [pattern, sub] of patterns) {
+        if (pattern.test(key)) {
+          matched = true;
+          this.check(child, sub, member(key));
+        }
+      }
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          this.report(member(key), `unexpected property ${JSON.stringify(key)}`);
+        } else {
+          this.check(child, schema.additionalProperties as Schema, member(key));
+        }
+      }
+      if (schema.propertyNames !== undefined && !this.passes(key, schema.propertyNames as Schema, member(key))) {
+        this.report(member(key), `property name ${JSON.stringify(key)} is not allowed`);
+      }
+    }
+
+    const count = Object.keys(value).length;
+    if (typeof schema.minProperties === 'number' && count < schema.minProperties) {
+      this.report(at, `must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && count > schema.maxProperties) {
+      this.report(at, `must have at most ${schema.maxProperties} properties`);
+    }
+    if (isRecord(schema.dependentRequired)) {
+      for (const [key, required] of Object.entries(schema.dependentRequired as Record<string, string[]>)) {
+        if (!(key in value)) continue;
+        for (const dependency of required) {
+          if (!(dependency in value)) {
+            this.report(at, `property ${JSON.stringify(dependency)} is required when ${JSON.stringify(key)} is present`);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ */
+export function validateJsonSchema(value: unknown, schema: unknown): JsonSchemaIssue[] {
+  if (typeof schema !== 'boolean' && !isRecord(schema)) {
+    return [{ path: '', message: 'the schema must be an object or a boolean' }];
+  }
+  return new SchemaValidator(schema).validate(value);
+}
+
+/**
+ * Format an issue as "path: message (line L, column C)"
+ */
+export function formatSchemaIssue(issue: JsonSchemaIssue): string {
+  const where = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : '';
+  return `${issue.path || '<root>'}: ${issue.message}${where}`;
+}
@@ -0,0 +1,658 @@
+/**
+ * Jupyter Kernel Client
+ *
+ * Talks to a local Jupyter Server over its REST API and the kernel websocket
+ * channels (messaging protocol v5), so any installed kernel — ipykernel,
+ * IRkernel, evcxr, ... — can back a notebook language. Results are mapped onto
+ * NotebookOutput / CellExecutionResult like the other execution services.
+ * Each notebook session gets its own kernel per language; they are shut down
+ * with the session, on restart, and when the page goes away.
+ *
+ * The server must allow this origin, e.g.
+ *   jupyter server --ServerApp.allow_origin='http://localhost:3000'
+ */
+
+import type { NotebookOutput, CellExecutionResult } from './jupyter-notebook-service';
+import { appendOutput, OutputMessage } from './notebook-outputs';
+import { CommMessage, widgetManager, WidgetSource } from './widget-manager';
+
+export interface JupyterServerConfig {
+  baseUrl: string;
+  token?: string;
+  // language -> kernelspec name, for languages with several installed kernels
+  kernelNames?: Record<string, string>;
+}
+
+export interface KernelSpecInfo {
+  name: string;
+  displayName: string;
+  language: string;
+}
+
+export interface KernelModel {
+  id: string;
+  name: string;
+  execution_state?: string;
+}
+
+export interface KernelExecuteOptions {
+  onOutput?: (output: OutputMessage) => void;
+  signal?: AbortSignal; // Aborting interrupts the kernel
+}
+
+export interface CompletionResult {
+  matches: string[];
+  cursorStart: number;
+  cursorEnd: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface InspectionResult {
+  found: boolean;
+  data: Record<string, unknown>;
+}
+
+type Channel = 'shell' | 'iopub' | 'stdin' | 'control';
+
+interface MessageHeader {
+  msg_id: string;
+  msg_type: string;
+  session: string;
+  username: string;
+  date: string;
+  version: string;
+}
+
+interface JupyterMessage {
+  channel: Channel;
+  header: MessageHeader;
+  parent_header: Partial<MessageHeader>;
+  metadata: Record<string, unknown>;
+  content: Record<string, unknown>;
+  buffers?: unknown[];
+}
+
+const CONFIG_STORAGE_KEY = 'nava_jupyter_server';
+const PROTOCOL_VERSION = '5.3';
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+const errorResult = (ename: string, evalue: string, executionCount = 0): CellExecutionResult => ({
+  success: false,
+  outputs: [{ output_type: 'error', ename, evalue, traceback: [`${ename}: ${evalue}`] }],
+  execution_count: executionCount,
+  error: { ename, evalue, traceback: [`${ename}: ${evalue}`] },
+});
+
+/**
+ * Map an iopub message onto a notebook output, or null for messages that are not outputs
+ */
+function toOutputMessage(message: JupyterMessage): OutputMessage | null {
+  // Field shapes are fixed by the messaging protocol for each msg_type
+  const content = message.content as Record<string, never>;
+  switch (message.header.msg_type) {
+    case 'stream':
+      return { output_type: 'stream', name: content.name, text: content.text };
+    case 'display_data':
+      return {
+        output_type: 'display_data',
+        data: content.data,
+        metadata: content.metadata || {},
+        ...(content.transient && (content.transient as { display_id?: string }).display_id ? { transient: content.transient } : {}),
+      };
+    case 'update_display_data':
+      return { output_type: 'update_display_data', data: content.data, metadata: content.metadata || {}, transient: content.transient };
+    case 'execute_result':
+      return {
+        output_type: 'execute_result',
+        execution_count: content.execution_count,
+        data: content.data,
+        metadata: content.metadata || {},
+      };
+    case 'error':
+      return { output_type: 'error', ename: content.ename, evalue: content.evalue, traceback: content.traceback };
+    default:
+      return null;
+  }
+}
+
+const COMM_MESSAGES = new Set(['comm_open', 'comm_msg', 'comm_close']);
+
+/**
+ * One websocket connection to a running kernel
+ */
+class KernelConnection {
+  private socket: WebSocket | null = null;
+  private opening: Promise<WebSocket> | null = null;
+  private listeners = new Map<string, (message: JupyterMessage) => void>();
+  private sessionId = randomId();
+  // The kernel's ipywidgets; front-end changes go back on the shell channel
+  readonly widgetSource: WidgetSource;
+
+  constructor(readonly kernel: KernelModel, private url: string, private onClose: () => void) {
+    this.widgetSource = {
+      id: `jupyter:${kernel.id}`,
+      send: ({ msg_type: msgType, comm_id, data }) => {
+        this.send('shell', msgType, { comm_id, data }).catch(error => console.warn('Could not send a widget message:', error));
+      },
+    };
+  }
+
+  private open(): Promise<WebSocket> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.opening) {
+      return this.opening;
+    }
+    this.opening = new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${this.url}${this.url.includes('?') ? '&' : '?'}session_id=${this.sessionId}`);
+      socket.onopen = () => {
+        this.socket = socket;
+        this.opening = null;
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        this.opening = null;
+        reject(new Error(`Could not connect to kernel ${this.kernel.name} (${this.kernel.id})`));
+      };
+      socket.onclose = () => {
+        this.socket = null;
+        this.opening = null;
+        // Wake everyone still waiting on a reply
+        const disconnected: JupyterMessage = {
+          channel: 'iopub',
+          header: { msg_id: '', msg_type: 'connection_closed', session: '', username: '', date: '', version: PROTOCOL_VERSION },
+          parent_header: {},
+          metadata: {},
+          content: {},
+        };
+        for (const listener of Array.from(this.listeners.values())) {
+          listener(disconnected);
+        }
+        this.listeners.clear();
+        widgetManager.dropSource(this.widgetSource.id);
+        this.onClose();
+      };
+      socket.onmessage = event => {
+        if (typeof event.data !== 'string') return;
+        let message: JupyterMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        const msgType = message.header.msg_type;
+        if (message.channel === 'iopub' && COMM_MESSAGES.has(msgType)) {
+          const content = message.content as Omit<CommMessage, 'msg_type'>;
+          widgetManager.receive({ ...content, msg_type: msgType as CommMessage['msg_type'] }, this.widgetSource);
+          return;
+        }
+        const parentId = message.parent_header?.msg_id;
+        if (!parentId) return;
+        // Outputs of a request an Output widget is capturing belong to the widget
+        if (message.channel === 'iopub') {
+          const output: OutputMessage | null = msgType === 'clear_output' ? { output_type: 'clear_output' } : toOutputMessage(message);
+          if (output && widgetManager.captureOutput(parentId, output)) return;
+        }
+        this.listeners.get(parentId)?.(message);
+      };
+    });
+    return this.opening;
+  }
+
+  /**
+   * Send a request and feed every message it causes to `onMessage` until it returns true
+   */
+  async request(
+    channel: Channel,
+    msgType: string,
+    content: Record<string, unknown>,
+    onMessage: (message: JupyterMessage) => boolean
+  ): Promise<void> {
+    const socket = await this.open();
+    const message = this.message(channel, msgType, content);
+    const msgId = message.header.msg_id;
+    return new Promise<void>(resolve => {
+      this.listeners.set(msgId, reply => {
+        const done = onMessage(reply);
+        if (done || reply.header.msg_type === 'connection_closed') {
+          this.listeners.delete(msgId);
+          resolve();
+        }
+      });
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  /**
+   * Send a message without waiting for anything it causes
+   */
+  async send(channel: Channel, msgType: string, content: Record<string, unknown>): Promise<void> {
+    const socket = await this.open();
+    socket.send(JSON.stringify(this.message(channel, msgType, content)));
+  }
+
+  private message(channel: Channel, msgType: string, content: Record<string, unknown>): JupyterMessage {
+    return {
+      channel,
+      header: {
+        msg_id: randomId(),
+        msg_type: msgType,
+        session: this.sessionId,
+        username: 'nava',
+        date: new Date().toISOString(),
+        version: PROTOCOL_VERSION,
+      },
+      parent_header: {},
+      metadata: {},
+      content,
+      buffers: [],
+    };
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+class JupyterKernelClient {
+  private config: JupyterServerConfig | null = null;
+  private configLoaded = false;
+  private connections = new Map<string, KernelConnection>();
+  // notebook session -> language -> the kernel started for it
+  private sessionKernels = new Map<string, Map<string, Promise<KernelConnection>>>();
+  private kernelSpecs: Promise<KernelSpecInfo[]> | null = null;
+  private unloadWatched = false;
+
+  /**
+   * Point the client at a Jupyter Server; passing null disconnects it
+   */
+  configure(config: JupyterServerConfig | null): void {
+    void this.shutdownAllSessions().catch(error => console.warn('Could not shut down Jupyter kernels:', error));
+    this.disconnectAll();
+    this.config = config ? { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') } : null;
+    this.configLoaded = true;
+    this.kernelSpecs = null;
+    if (typeof window !== 'undefined') {
+      if (config) {
+        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+      } else {
+        localStorage.removeItem(CONFIG_STORAGE_KEY);
+      }
+    }
+  }
+
+  /**
+   * Current server configuration, from configure(), localStorage or NEXT_PUBLIC_JUPYTER_* env vars
+   */
+  getConfig(): JupyterServerConfig | null {
+    if (!this.configLoaded) {
+      this.configLoaded = true;
+      const stored = typeof window !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null;
+      if (stored) {
+        try {
+          this.config = JSON.parse(stored);
+        } catch {
+          this.config = null;
+        }
+      } else if (process.env.NEXT_PUBLIC_JUPYTER_SERVER_URL) {
+        this.config = {
+          baseUrl: process.env.NEXT_PUBLIC_JUPYTER_SERVER_URL.replace(/\/+$/, ''),
+          token: process.env.NEXT_PUBLIC_JUPYTER_TOKEN,
+        };
+      }
+    }
+    return this.config;
+  }
+
+  isConfigured(): boolean {
+    return this.getConfig() !== null;
+  }
+
+  private requireConfig(): JupyterServerConfig {
+    const config = this.getConfig();
+    if (!config) {
+      throw new Error('No Jupyter Server configured');
+    }
+    return config;
+  }
+
+  private async api<T>(path: string, init: RequestInit = {}, config = this.requireConfig()): Promise<T> {
+    const response = await fetch(`${config.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `token ${config.token}` } : {}),
+        ...init.headers,
+      },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { message?: string } | null;
+      throw new Error(`Jupyter Server ${response.status}: ${body?.message || response.statusText}`);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  /**
+   * List the kernels installed on the server
+   */
+  async listKernelSpecs(): Promise<KernelSpecInfo[]> {
+    const result = await this.api<{ kernelspecs: Record<string, { name: string; spec: { display_name: string; language: string } }> }>(
+      '/api/kernelspecs'
+    );
+    return Object.values(result.kernelspecs).map(spec => ({
+      name: spec.name,
+      displayName: spec.spec.display_name,
+      language: spec.spec.language,
+    }));
+  }
+
+  /**
+   * List running kernels
+   */
+  async listKernels(): Promise<KernelModel[]> {
+    return this.api<KernelModel[]>('/api/kernels');
+  }
+
+  async startKernel(name: string): Promise<KernelModel> {
+    return this.api<KernelModel>('/api/kernels', { method: 'POST', body: JSON.stringify({ name }) });
+  }
+
+  async shutdownKernel(kernelId: string): Promise<void> {
+    this.connections.get(kernelId)?.close();
+    this.connections.delete(kernelId);
+    for (const kernels of Array.from(this.sessionKernels.values())) {
+      for (const [language, connection] of Array.from(kernels.entries())) {
+        const resolved = await connection.catch(() => null);
+        if (resolved?.kernel.id === kernelId) kernels.delete(language);
+      }
+    }
+    await this.api<void>(`/api/kernels/${kernelId}`, { method: 'DELETE' });
+  }
+
+  async interruptKernel(kernelId: string): Promise<void> {
+    await this.api<void>(`/api/kernels/${kernelId}/interrupt`, { method: 'POST' });
+  }
+
+  async restartKernel(kernelId: string): Promise<void> {
+    await this.api<KernelModel>(`/api/kernels/${kernelId}/restart`, { method: 'POST' });
+    widgetManager.dropSource(`jupyter:${kernelId}`);
+  }
+
+  /**
+   * Get (or open) the websocket connection to a kernel
+   */
+  private connect(kernel: KernelModel): KernelConnection {
+    const existing = this.connections.get(kernel.id);
+    if (existing) return existing;
+
+    const config = this.requireConfig();
+    const wsBase = config.baseUrl.replace(/^http/, 'ws');
+    const url = `${wsBase}/api/kernels/${kernel.id}/channels${config.token ? `?token=${encodeURIComponent(config.token)}` : ''}`;
+    const connection = new KernelConnection(kernel, url, () => this.connections.delete(kernel.id));
+    this.connections.set(kernel.id, connection);
+    return connection;
+  }
+
+  private connectionFor(kernelId: string): KernelConnection {
+    return this.connections.get(kernelId) || this.connect({ id: kernelId, name: kernelId });
+  }
+
+  /**
+   * Run code on a kernel, collecting its iopub outputs until it goes idle
+   */
+  async execute(kernelId: string, code: string, options: KernelExecuteOptions = {}): Promise<CellExecutionResult> {
+    const connection = this.connectionFor(kernelId);
+    let outputs: NotebookOutput[] = [];
+    let executionCount = 0;
+    let replyStatus: string | null = null;
+    let idle = false;
+    let clearPending = false;
+    let closed = false;
+
+    const onAbort = () => {
+      void this.interruptKernel(kernelId).catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    const emit = (output: OutputMessage) => {
+      if (clearPending) {
+        clearPending = false;
+        outputs = appendOutput(outputs, { output_type: 'clear_output' });
+        options.onOutput?.({ output_type: 'clear_output' });
+      }
+      outputs = appendOutput(outputs, output);
+      options.onOutput?.(output);
+    };
+
+    try {
+      await connection.request('shell', 'execute_request', {
+        code,
+        silent: false,
+        store_history: true,
+        user_expressions: {},
+        allow_stdin: false,
+        stop_on_error: true,
+      }, message => {
+        const content = message.content;
+        if (message.header.msg_type === 'connection_closed') {
+          closed = true;
+          return true;
+        }
+        if (message.channel === 'shell' && message.header.msg_type === 'execute_reply') {
+          replyStatus = String(content.status);
+          if (typeof content.execution_count === 'number') executionCount = content.execution_count;
+        } else if (message.channel === 'iopub') {
+          if (message.header.msg_type === 'status') {
+            idle = content.execution_state === 'idle';
+          } else if (message.header.msg_type === 'clear_output') {
+            // wait=true defers the clear until the next output arrives (flicker-free animations)
+            if (content.wait) {
+              clearPending = true;
+            } else {
+              emit({ output_type: 'clear_output' });
+            }
+          } else {
+            const output = toOutputMessage(message);
+            if (output) emit(output);
+          }
+        }
+        return idle && replyStatus !== null;
+      });
+    } catch (error) {
+      return errorResult('KernelError', error instanceof Error ? error.message : String(error));
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (closed) {
+      return errorResult('KernelDisconnected', 'The connection to the kernel was lost', executionCount);
+    }
+
+    const errorOutput = outputs.find(output => output.output_type === 'error');
+    if (replyStatus === 'ok') {
+      return { success: true, outputs, execution_count: executionCount };
+    }
+    if (errorOutput) {
+      return {
+        success: false,
+        outputs,
+        execution_count: executionCount,
+        error: { ename: errorOutput.ename || 'Error', evalue: errorOutput.evalue || '', traceback: errorOutput.traceback || [] },
+      };
+    }
+    // 'aborted': skipped because an earlier request failed
+    const aborted = errorResult('ExecutionAborted', `Execution ${replyStatus}`, executionCount);
+    return { ...aborted, outputs: [...outputs, ...aborted.outputs] };
+  }
+
+  /**
+   * Ask the kernel for completions at `cursorPos`
+   */
+  async complete(kernelId: string, code: string, cursorPos: number): Promise<CompletionResult> {
+    let result: CompletionResult = { matches: [], cursorStart: cursorPos, cursorEnd: cursorPos, metadata: {} };
+    await this.connectionFor(kernelId).request('shell', 'complete_request', { code, cursor_pos: cursorPos }, message => {
+      if (message.header.msg_type !== 'complete_reply') return false;
+      const content = message.content;
+      if (content.status === 'ok') {
+        result = {
+          matches: (content.matches as string[]) || [],
+          cursorStart: Number(content.cursor_start),
+          cursorEnd: Number(content.cursor_end),
+          metadata: (content.metadata as Record<string, unknown>) || {},
+        };
+      }
+      return true;
+    });
+    return result;
+  }
+
+  /**
+   * Ask the kernel for documentation about the object at `cursorPos`
+   */
+  async inspect(kernelId: string, code: string, cursorPos: number, detailLevel: 0 | 1 = 0): Promise<InspectionResult> {
+    let result: InspectionResult = { found: false, data: {} };
+    await this.connectionFor(kernelId).request(
+      'shell',
+      'inspect_request',
+      { code, cursor_pos: cursorPos, detail_level: detailLevel },
+      message => {
+        if (message.header.msg_type !== 'inspect_reply') return false;
+        const content = message.content;
+        if (content.status === 'ok') {
+          result = { found: Boolean(content.found), data: (content.data as Record<string, unknown>) || {} };
+        }
+        return true;
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Find the installed kernelspec for a notebook language, if any
+   */
+  async kernelSpecForLanguage(language: string): Promise<KernelSpecInfo | null> {
+    if (!this.isConfigured()) return null;
+    if (!this.kernelSpecs) {
+      this.kernelSpecs = this.listKernelSpecs().catch(error => {
+        console.warn('Could not list Jupyter kernelspecs:', error);
+        this.kernelSpecs = null;
+        return [];
+      });
+    }
+    const specs = await this.kernelSpecs;
+    const preferred = this.getConfig()?.kernelNames?.[language];
+    return specs.find(spec => spec.name === preferred)
+      || specs.find(spec => spec.language.toLowerCase() === language.toLowerCase())
+      || null;
+  }
+
+  /**
+   * Get the kernel serving a language in a notebook session, starting one on first use
+   */
+  private kernelForLanguage(sessionId: string, language: string): Promise<KernelConnection> {
+    let kernels = this.sessionKernels.get(sessionId);
+    if (!kernels) {
+      kernels = new Map();
+      this.sessionKernels.set(sessionId, kernels);
+    }
+    let kernel = kernels.get(language);
+    if (!kernel) {
+      const started: Promise<KernelConnection> = this.kernelSpecForLanguage(language).then(async spec => {
+        if (!spec) throw new Error(`No Jupyter kernel installed for ${language}`);
+        return this.connect(await this.startKernel(spec.name));
+      });
+      started.catch(() => {
+        if (kernels?.get(language) === started) kernels.delete(language);
+      });
+      kernels.set(language, started);
+      kernel = started;
+      this.watchUnload();
+    }
+    return kernel;
+  }
+
+  async executeForLanguage(sessionId: string, language: string, code: string, options: KernelExecuteOptions = {}): Promise<CellExecutionResult> {
+    try {
+      const connection = await this.kernelForLanguage(sessionId, language);
+      return await this.execute(connection.kernel.id, code, options);
+    } catch (error) {
+      return errorResult('KernelError', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async completeForLanguage(sessionId: string, language: string, code: string, cursorPos: number): Promise<CompletionResult | null> {
+    if (!await this.kernelSpecForLanguage(language)) return null;
+    const connection = await this.kernelForLanguage(sessionId, language);
+    return this.complete(connection.kernel.id, code, cursorPos);
+  }
+
+  async inspectForLanguage(
+    sessionId: string,
+    language: string,
+    code: string,
+    cursorPos: number,
+    detailLevel: 0 | 1 = 0
+  ): Promise<InspectionResult | null> {
+    if (!await this.kernelSpecForLanguage(language)) return null;
+    const connection = await this.kernelForLanguage(sessionId, language);
+    return this.inspect(connection.kernel.id, code, cursorPos, detailLevel);
+  }
+
+  /**
+   * Shut down the kernels started for a notebook session
+   */
+  shutdownSession(sessionId: string, init: RequestInit = {}): Promise<void> {
+    const kernels = this.sessionKernels.get(sessionId);
+    this.sessionKernels.delete(sessionId);
+    return this.shutdownStarted(Array.from(kernels?.values() ?? []), init);
+  }
+
+  /**
+   * Shut down every kernel this client started; the next run starts fresh ones
+   */
+  shutdownAllSessions(init: RequestInit = {}): Promise<void> {
+    const kernels = Array.from(this.sessionKernels.values()).flatMap(languages => Array.from(languages.values()));
+    this.sessionKernels.clear();
+    return this.shutdownStarted(kernels, init);
+  }
+
+  private async shutdownStarted(kernels: Promise<KernelConnection>[], init: RequestInit): Promise<void> {
+    // Taken now, so kernels are stopped on the server that started them
+    const config = this.getConfig();
+    if (!config || kernels.length === 0) return;
+    await Promise.all(kernels.map(async kernel => {
+      const connection = await kernel.catch(() => null);
+      if (!connection) return;
+      connection.close();
+      this.connections.delete(connection.kernel.id);
+      widgetManager.dropSource(`jupyter:${connection.kernel.id}`);
+      await this.api<void>(`/api/kernels/${connection.kernel.id}`, { ...init, method: 'DELETE' }, config);
+    }));
+  }
+
+  /**
+   * Kernels keep running on the server after the page is gone, so shut them
+   * down when it goes away
+   */
+  private watchUnload(): void {
+    if (this.unloadWatched || typeof window === 'undefined') return;
+    this.unloadWatched = true;
+    window.addEventListener('pagehide', () => {
+      void this.shutdownAllSessions({ keepalive: true }).catch(() => undefined);
+    });
+  }
+
+  private disconnectAll(): void {
+    this.connections.forEach(connection => connection.close());
+    this.connections.clear();
+    this.sessionKernels.clear();
+  }
+}
+
+export const jupyterKernelClient = new JupyterKernelClient();
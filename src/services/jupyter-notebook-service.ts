@@ -4,18 +4,42 @@
  * Handles parsing, execution, and management of Jupyter notebook files (.ipynb)
  */
 
+import {
+  parseLosslessJson,
+  stringifyLosslessJson,
+  JsonFormat,
+  NBFORMAT_JSON_FORMAT,
+} from './lossless-json';
+import {
+  validateNotebook,
+  formatValidationIssue,
+  NotebookValidationIssue,
+  NBFORMAT_MAJOR,
+  NBFORMAT_LATEST_MINOR,
+} from './nbformat-validator';
+import { stripTransient } from './notebook-outputs';
+
+export type { NotebookValidationIssue } from './nbformat-validator';
+
+// attachment name -> mime bundle (e.g. { 'image.png': { 'image/png': '<base64>' } })
+export type NotebookAttachments = Record<string, Record<string, string | string[]>>;
+
 export interface NotebookCell {
   cell_type: 'code' | 'markdown' | 'raw';
-  execution_count: number | null;
+  // Only present on code cells in nbformat; kept optional so other cells round-trip
+  execution_count?: number | null;
   id?: string;
   metadata: Record<string, any>;
   source: string | string[];
   outputs?: NotebookOutput[];
+  attachments?: NotebookAttachments;
+  [key: string]: unknown;
 }
 
 export interface NotebookOutput {
   output_type: 'execute_result' | 'display_data' | 'stream' | 'error';
   execution_count?: number | null;
+  metadata?: Record<string, unknown>;
   data?: {
     'text/plain'?: string | string[];
     'text/html'?: string | string[];
@@ -30,6 +54,7 @@ export interface NotebookOutput {
   ename?: string;
   evalue?: string;
   traceback?: string[];
+  [key: string]: unknown;
 }
 
 export interface JupyterNotebook {
@@ -50,6 +75,32 @@ export interface JupyterNotebook {
   };
   nbformat: number;
   nbformat_minor: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Editor-side view of a notebook cell
+ */
+export interface NotebookCellModel {
+  id: string;
+  type: 'code' | 'markdown' | 'raw';
+  language: string;
+  content: string;
+  executionCount: number | null;
+  outputs?: NotebookOutput[];
+  metadata?: Record<string, unknown>;
+  attachments?: NotebookAttachments;
+  // The cell as it was read from disk; keeps source layout and unknown fields on save
+  original?: NotebookCell;
+}
+
+export interface CodeDiagnostic {
+  code: string;
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  endColumn: number;
 }
 
 export interface CellExecutionResult {
@@ -61,94 +112,93 @@ export interface CellExecutionResult {
     evalue: string;
     traceback: string[];
   };
+  diagnostics?: CodeDiagnostic[]; // Compile errors with their position in the cell
 }
 
 class JupyterNotebookService {
+  // Whitespace style of each parsed notebook, reused when it is serialized again
+  private formats = new WeakMap<JupyterNotebook, JsonFormat>();
+
   /**
    * Parse a Jupyter notebook JSON file
+   *
+   * The notebook is returned exactly as stored (sources keep their string or
+   * line-array form) so that serializeNotebook reproduces the original bytes.
    */
   parseNotebook(jsonContent: string): JupyterNotebook {
+    let document;
     try {
-      const notebook = JSON.parse(jsonContent) as JupyterNotebook;
-      
-      // Validate notebook format
-      if (!notebook.cells || !Array.isArray(notebook.cells)) {
-        throw new Error('Invalid notebook format: missing cells array');
-      }
+      document = parseLosslessJson<JupyterNotebook>(jsonContent);
+    } catch (error) {
+      throw new Error(`Failed to parse notebook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      if (!notebook.nbformat || notebook.nbformat < 4) {
-        throw new Error('Unsupported notebook format version');
-      }
+    const errors = validateNotebook(document.value).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      const shown = errors.slice(0, 5).map(formatValidationIssue);
+      const more = errors.length > shown.length ? `\n...and ${errors.length - shown.length} more` : '';
+      throw new Error(`Failed to parse notebook: invalid nbformat ${NBFORMAT_MAJOR}.x document\n${shown.join('\n')}${more}`);
+    }
 
-      // Normalize cell sources (convert string[] to string)
-      notebook.cells = notebook.cells.map(cell => ({
-        ...cell,
-        source: Array.isArray(cell.source) 
-          ? cell.source.join('') 
-          : (cell.source || ''),
-      }));
+    this.formats.set(document.value, document.format);
+    return document.value;
+  }
 
-      return notebook;
+  /**
+   * Validate notebook JSON against the nbformat 4.x schema without throwing
+   */
+  validateNotebook(jsonContent: string): NotebookValidationIssue[] {
+    try {
+      return validateNotebook(parseLosslessJson(jsonContent).value);
     } catch (error) {
-      throw new Error(`Failed to parse notebook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [{
+        severity: 'error',
+        path: '',
+        message: error instanceof Error ? error.message : String(error),
+      }];
     }
   }
 
   /**
    * Convert Jupyter notebook to internal format
    */
-  notebookToCells(notebook: JupyterNotebook): Array<{
-    id: string;
-    type: 'code' | 'markdown';
-    language: string;
-    content: string;
-    executionCount: number | null;
+  notebookToCells(notebook: JupyterNotebook): Array<NotebookCellModel & {
     outputs: NotebookOutput[];
     metadata: Record<string, any>;
   }> {
     return notebook.cells.map((cell, index) => {
       const id = cell.id || `cell-${index}`;
-      const source = Array.isArray(cell.source) 
-        ? cell.source.join('') 
-        : (cell.source || '');
       
       return {
         id,
-        type: cell.cell_type === 'code' ? 'code' : 'markdown',
+        type: cell.cell_type,
         language: this.detectLanguage(cell, notebook),
-        content: source,
+        content: this.normalizeSource(cell.source),
         executionCount: cell.execution_count ?? null,
         outputs: cell.outputs || [],
         metadata: cell.metadata || {},
+        ...(cell.attachments ? { attachments: cell.attachments } : {}),
+        original: cell,
       };
     });
   }
 
   /**
    * Convert internal cells back to Jupyter notebook format
+   *
+   * When a template (usually the notebook the cells were loaded from) is given,
+   * its nbformat_minor and any top-level fields we don't model are kept.
    */
   cellsToNotebook(
-    cells: Array<{
-      id: string;
-      type: 'code' | 'markdown';
-      language: string;
-      content: string;
-      executionCount: number | null;
-      outputs?: NotebookOutput[];
-      metadata?: Record<string, any>;
-    }>,
-    metadata?: JupyterNotebook['metadata']
+    cells: NotebookCellModel[],
+    metadata?: JupyterNotebook['metadata'],
+    template?: JupyterNotebook
   ): JupyterNotebook {
+    const nbformatMinor = template?.nbformat_minor ?? NBFORMAT_LATEST_MINOR;
     const notebook: JupyterNotebook = {
-      cells: cells.map(cell => ({
-        cell_type: cell.type === 'code' ? 'code' : 'markdown',
-        execution_count: cell.type === 'code' ? cell.executionCount : null,
-        id: cell.id,
-        metadata: cell.metadata || {},
-        source: cell.content.split('\n'),
-        ...(cell.type === 'code' && cell.outputs ? { outputs: cell.outputs } : {}),
-      })),
-      metadata: metadata || {
+      ...(template || {}),
+      cells: cells.map(cell => this.cellToNotebookCell(cell, nbformatMinor)),
+      metadata: metadata || template?.metadata || {
         kernelspec: {
           display_name: 'Python 3',
           language: 'python',
@@ -159,18 +209,59 @@ class JupyterNotebookService {
           version: '3.0.0',
         },
       },
-      nbformat: 4,
-      nbformat_minor: 4,
+      nbformat: NBFORMAT_MAJOR,
+      nbformat_minor: nbformatMinor,
     };
 
+    if (template) {
+      this.formats.set(notebook, this.formats.get(template) || NBFORMAT_JSON_FORMAT);
+    }
     return notebook;
   }
 
+  /**
+   * Build a single nbformat cell, starting from the original so unknown keys and key order survive
+   */
+  private cellToNotebookCell(cell: NotebookCellModel, nbformatMinor: number): NotebookCell {
+    const original = cell.original?.cell_type === cell.type ? cell.original : undefined;
+    const source = original && this.normalizeSource(original.source) === cell.content
+      ? original.source
+      : this.splitSource(cell.content);
+    const includeId = original ? 'id' in original : nbformatMinor >= 5;
+    const attachments = cell.type === 'code' ? undefined : (cell.attachments ?? original?.attachments);
+
+    // nbformat writes keys sorted; new cells follow that order, existing cells keep theirs
+    const result: NotebookCell = {
+      ...(!original && attachments && Object.keys(attachments).length > 0 ? { attachments } : {}),
+      ...(original || {}),
+      cell_type: cell.type,
+      ...(cell.type === 'code' ? { execution_count: cell.executionCount } : {}),
+      ...(includeId ? { id: cell.id } : {}),
+      metadata: cell.metadata || original?.metadata || {},
+      ...(cell.type === 'code' ? { outputs: stripTransient(cell.outputs || original?.outputs || []) } : {}),
+      source,
+    };
+
+    if (cell.type !== 'code') {
+      delete result.execution_count;
+      delete result.outputs;
+    }
+    if (attachments && Object.keys(attachments).length > 0) {
+      result.attachments = attachments;
+    } else {
+      delete result.attachments;
+    }
+    if (!includeId) {
+      delete result.id;
+    }
+    return result;
+  }
+
   /**
    * Serialize notebook to JSON string
    */
   serializeNotebook(notebook: JupyterNotebook): string {
-    return JSON.stringify(notebook, null, 2);
+    return stringifyLosslessJson(notebook, this.formats.get(notebook) || NBFORMAT_JSON_FORMAT);
   }
 
   /**
@@ -203,7 +294,6 @@ class JupyterNotebookService {
       cells: [
         {
           cell_type: 'markdown',
-          execution_count: null,
           id: `cell-${Date.now()}`,
           metadata: {},
           source: '# New Notebook\n\nStart writing your code here...',
@@ -220,8 +310,8 @@ class JupyterNotebookService {
           version: '3.0.0',
         },
       },
-      nbformat: 4,
-      nbformat_minor: 4,
+      nbformat: NBFORMAT_MAJOR,
+      nbformat_minor: NBFORMAT_LATEST_MINOR,
     };
   }
 
@@ -235,11 +325,21 @@ class JupyterNotebookService {
     return source || '';
   }
 
+  /**
+   * Split cell source into nbformat lines, keeping each line's trailing newline
+   */
+  splitSource(source: string): string[] {
+    if (!source) {
+      return [];
+    }
+    return source.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+
   /**
    * Format output for display
    */
   formatOutput(output: NotebookOutput): {
-    type: 'text' | 'html' | 'image' | 'error' | 'stream';
+    type: 'text' | 'html' | 'image' | 'error' | 'stream' | 'markdown' | 'latex' | 'json';
     content: string;
     mimeType?: string;
   } {
@@ -294,6 +394,27 @@ class JupyterNotebookService {
             : output.data['text/html'],
         };
       }
+      if (output.data['text/markdown']) {
+        return {
+          type: 'markdown',
+          content: this.normalizeSource(output.data['text/markdown']),
+          mimeType: 'text/markdown',
+        };
+      }
+      if (output.data['text/latex']) {
+        return {
+          type: 'latex',
+          content: this.normalizeSource(output.data['text/latex']),
+          mimeType: 'text/latex',
+        };
+      }
+      if (output.data['application/json'] !== undefined) {
+        return {
+          type: 'json',
+          content: JSON.stringify(output.data['application/json'], null, 2),
+          mimeType: 'application/json',
+        };
+      }
       if (output.data['text/plain']) {
         return {
           type: 'text',
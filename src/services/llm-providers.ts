@@ -0,0 +1,190 @@
+/**
+ * LLM Providers
+ *
+ * Chat completions from the model backends the Flux route can use: OpenRouter,
+ * any server speaking the OpenAI chat API (llama.cpp, Ollama, vLLM, often on
+ * the local network when working air-gapped), the Anthropic messages API, and
+ * a mock that answers without a network, for tests and demos.
+ *
+ * A provider is created per request from an LlmProviderConfig; anything left
+ * out of the config falls back to the provider's defaults in LLM_PROVIDERS.
+ */
+
+export type LlmProviderId = 'openrouter' | 'openai-compatible' | 'anthropic' | 'mock';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  json?: boolean; // ask for a JSON object reply, where the API can
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderId;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseURL?: string; // providers without one have no endpoint to configure
+  keyRequired: boolean;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<string>;
+}
+
+export const LLM_PROVIDERS: readonly LlmProviderInfo[] = [
+  { id: 'openrouter', label: 'OpenRouter', defaultModel: 'google/gemini-pro-1.5', defaultBaseURL: 'https://openrouter.ai/api/v1', keyRequired: true },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', defaultModel: 'llama3.1', defaultBaseURL: 'http://localhost:11434/v1', keyRequired: false },
+  { id: 'anthropic', label: 'Anthropic', defaultModel: 'claude-3-5-sonnet-latest', defaultBaseURL: 'https://api.anthropic.com/v1', keyRequired: true },
+  { id: 'mock', label: 'Mock', defaultModel: 'mock', keyRequired: false },
+];
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export function getLlmProviderInfo(id: string): LlmProviderInfo | undefined {
+  return LLM_PROVIDERS.find(info => info.id === id);
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new LlmProviderError(`Cannot reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LlmProviderError(`${url} answered ${response.status} ${response.statusText}: ${detail.slice(0, 500)}`, response.status);
+  }
+  return response.json();
+}
+
+const endpoint = (baseURL: string, path: string) => `${baseURL.replace(/\/+$/, '')}/${path}`;
+
+class OpenAICompatibleProvider implements LlmProvider {
+  readonly id: LlmProviderId = 'openai-compatible';
+
+  constructor(readonly model: string, protected baseURL: string, protected apiKey?: string) {}
+
+  protected headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const data = await postJson(endpoint(this.baseURL, 'chat/completions'), this.headers(), {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    }) as { choices?: { message?: { content?: unknown } }[] };
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmProviderError(`${this.model} returned no message`);
+    }
+    return content;
+  }
+}
+
+class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly id: LlmProviderId = 'openrouter';
+
+  protected headers(): Record<string, string> {
+    return {
+      ...super.headers(),
+      'HTTP-Referer': 'https://nava.ai', // Required by OpenRouter
+      'X-Title': 'NavaNotebookLLM',
+    };
+  }
+}
+
+class AnthropicProvider implements LlmProvider {
+  readonly id: LlmProviderId = 'anthropic';
+
+  constructor(readonly model: string, private baseURL: string, private apiKey: string) {}
+
+  async complete(request: LlmRequest): Promise<string> {
+    // The messages API takes the system prompt separately; it has no JSON mode
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+    const data = await postJson(endpoint(this.baseURL, 'messages'), {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    }, {
+      model: this.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      temperature: request.temperature,
+      ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+      messages: request.messages.filter(message => message.role !== 'system'),
+    }) as { content?: { type: string; text?: string }[] };
+    const text = (data.content || []).filter(block => block.type === 'text').map(block => block.text || '').join('');
+    if (!text) {
+      throw new LlmProviderError(`${this.model} returned no text`);
+    }
+    return text;
+  }
+}
+
+/**
+ * Answers from `reply` (by default, the last user message) and records every
+ * request in `calls`
+ */
+export class MockProvider implements LlmProvider {
+  readonly id: LlmProviderId = 'mock';
+  readonly calls: LlmRequest[] = [];
+
+  constructor(
+    private reply: (request: LlmRequest) => string = request =>
+      request.messages.filter(message => message.role === 'user').pop()?.content ?? '',
+    readonly model = 'mock'
+  ) {}
+
+  async complete(request: LlmRequest): Promise<string> {
+    this.calls.push(request);
+    return this.reply(request);
+  }
+}
+
+/**
+ * The provider a config describes; throws LlmProviderError for an unknown
+ * provider or a missing API key
+ */
+export function createLlmProvider(config: LlmProviderConfig, mockReply?: (request: LlmRequest) => string): LlmProvider {
+  const info = getLlmProviderInfo(config.provider);
+  if (!info) {
+    throw new LlmProviderError(`Unknown LLM provider "${config.provider}"`);
+  }
+  if (info.keyRequired && !config.apiKey) {
+    throw new LlmProviderError(`${info.label} needs an API key`);
+  }
+  const model = config.model || info.defaultModel;
+  const baseURL = config.baseURL || info.defaultBaseURL || '';
+  switch (info.id) {
+    case 'openrouter': return new OpenRouterProvider(model, baseURL, config.apiKey);
+    case 'openai-compatible': return new OpenAICompatibleProvider(model, baseURL, config.apiKey);
+    case 'anthropic': return new AnthropicProvider(model, baseURL, config.apiKey as string);
+    case 'mock': return new MockProvider(mockReply, model);
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Lossless JSON
+ *
+ * A small JSON parser/serializer pair that can reproduce its input byte for byte.
+ * Scalar literals that JavaScript would re-print differently (e.g. `1.0`, `1e3`,
+ * `"é"`) are remembered per container, and the document's whitespace style
+ * is detected so it can be written back the same way; containers an indented
+ * document had on one line (as Prettier writes short arrays) stay on one line.
+ * Source locations of every member are kept for error reporting.
+ */
+
+export interface JsonSourceLocation {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface JsonFormat {
+  // null means compact output without newlines
+  indent: string | null;
+  keySeparator: string;
+  // A space after every comma: Python's compact default, and Python 2's indented output
+  trailingSpace: boolean;
+  trailingNewline: boolean;
+}
+
+export interface LosslessJsonDocument<T = unknown> {
+  value: T;
+  format: JsonFormat;
+}
+
+/**
+ * The format nbformat itself writes: json.dumps(indent=1, ensure_ascii=False) plus a newline
+ */
+export const NBFORMAT_JSON_FORMAT: JsonFormat = {
+  indent: ' ',
+  keySeparator: ': ',
+  trailingSpace: false,
+  trailingNewline: true,
+};
+
+type JsonKey = string | number;
+
+// container -> member -> original literal text, only where it differs from JSON.stringify
+const rawLiterals = new WeakMap<object, Map<JsonKey, string>>();
+// container -> member key -> original key literal, only where it differs from JSON.stringify
+const rawKeys = new WeakMap<object, Map<string, string>>();
+
+interface InlineStyle {
+  comma: string;
+  padding: string; // between the brackets and the members: "[ 1 ]" vs "[1]"
+}
+
+// container -> how it was written, for containers that were on a single line
+const inlineStyles = new WeakMap<object, InlineStyle>();
+
+// Offsets are resolved to line/column lazily, against the text they came from
+class SourceText {
+  private lineStarts: number[] | null = null;
+
+  constructor(readonly text: string) {}
+
+  locate(offset: number): JsonSourceLocation {
+    if (!this.lineStarts) {
+      this.lineStarts = [0];
+      for (let i = 0; i < this.text.length; i++) {
+        if (this.text.charCodeAt(i) === 10) this.lineStarts.push(i + 1);
+      }
+    }
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
+
+interface SourceOffset {
+  source: SourceText;
+  offset: number;
+}
+
+// container -> member -> where the member's value starts in the source
+const locations = new WeakMap<object, Map<JsonKey, SourceOffset>>();
+// container -> where the container itself starts
+const containerLocations = new WeakMap<object, SourceOffset>();
+
+function remember<K, V>(store: WeakMap<object, Map<K, V>>, container: object, key: K, value: V): void {
+  let members = store.get(container);
+  if (!members) {
+    members = new Map();
+    store.set(container, members);
+  }
+  members.set(key, value);
+}
+
+class LosslessJsonParser {
+  private pos = 0;
+  private readonly source: SourceText;
+
+  constructor(private readonly text: string) {
+    this.source = new SourceText(text);
+  }
+
+  parse(): unknown {
+    this.skipWhitespace();
+    const { value } = this.parseValue();
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.fail('Unexpected trailing content');
+    }
+    return value;
+  }
+
+  private rememberInline(container: object, start: number): void {
+    const text = this.text.slice(start, this.pos);
+    if (text.length <= 2 || text.includes('\n')) return;
+    inlineStyles.set(container, {
+      comma: charAfterFirstSeparator(text.slice(1, -1)) === ' ' ? ', ' : ',',
+      padding: text[1] === ' ' ? ' ' : '',
+    });
+  }
+
+  private here(): SourceOffset {
+    return { source: this.source, offset: this.pos };
+  }
+
+  private fail(message: string): never {
+    const { line, column } = this.source.locate(this.pos);
+    const found = this.pos < this.text.length ? `'${this.text[this.pos]}'` : 'end of input';
+    throw new Error(`${message} at line ${line}, column ${column} (found ${found})`);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const ch = this.text.charCodeAt(this.pos);
+      if (ch === 32 || ch === 9 || ch === 10 || ch === 13) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private parseValue(): { value: unknown; raw?: string } {
+    const ch = this.text[this.pos];
+    if (ch === '{') return { value: this.parseObject() };
+    if (ch === '[') return { value: this.parseArray() };
+    if (ch === '"') {
+      const start = this.pos;
+      const value = this.parseString();
+      return { value, raw: this.text.slice(start, this.pos) };
+    }
+    if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      const start = this.pos;
+      const value = this.parseNumber();
+      return { value, raw: this.text.slice(start, this.pos) };
+    }
+    if (this.text.startsWith('true', this.pos)) {
+      this.pos += 4;
+      return { value: true };
+    }
+    if (this.text.startsWith('false', this.pos)) {
+      this.pos += 5;
+      return { value: false };
+    }
+    if (this.text.startsWith('null', this.pos)) {
+      this.pos += 4;
+      return { value: null };
+    }
+    this.fail('Unexpected token');
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const start = this.pos;
+    containerLocations.set(result, this.here());
+    this.pos++;
+    this.skipWhitespace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return result;
+    }
+    for (;;) {
+      if (this.text[this.pos] !== '"') {
+        this.fail('Expected property name');
+      }
+      const keyStart = this.pos;
+      const key = this.parseString();
+      const rawKey = this.text.slice(keyStart, this.pos);
+      if (rawKey !== JSON.stringify(key)) {
+        remember(rawKeys, result, key, rawKey);
+      }
+      this.skipWhitespace();
+      if (this.text[this.pos] !== ':') {
+        this.fail("Expected ':'");
+      }
+      this.pos++;
+      this.skipWhitespace();
+      remember(locations, result, key, this.here());
+      const { value, raw } = this.parseValue();
+      if (raw !== undefined && raw !== JSON.stringify(value)) {
+        remember(rawLiterals, result, key, raw);
+      }
+      // Assign via defineProperty so a "__proto__" key stays an ordinary member
+      Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+      this.skipWhitespace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        this.skipWhitespace();
+        continue;
+      }
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        this.rememberInline(result, start);
+        return result;
+      }
+      this.fail("Expected ',' or '}'");
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = [];
+    const start = this.pos;
+    containerLocations.set(result, this.here());
+    this.pos++;
+    this.skipWhitespace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return result;
+    }
+    for (;;) {
+      const index = result.length;
+      remember(locations, result, index, this.here());
+      const { value, raw } = this.parseValue();
+      if (raw !== undefined && raw !== JSON.stringify(value)) {
+        remember(rawLiterals, result, index, raw);
+      }
+      result.push(value);
+      this.skipWhitespace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        this.skipWhitespace();
+        continue;
+      }
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        this.rememberInline(result, start);
+        return result;
+      }
+      this.fail("Expected ',' or ']'");
+    }
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const ch = this.text.charCodeAt(this.pos);
+      if (ch === 34) {
+        this.pos++;
+        return JSON.parse(this.text.slice(start, this.pos)) as string;
+      }
+      if (ch === 92) {
+        this.pos += 2;
+        continue;
+      }
+      if (ch < 32) {
+        this.fail('Unescaped control character in string');
+      }
+      this.pos++;
+    }
+    this.fail('Unterminated string');
+  }
+
+  private parseNumber(): number {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(this.text.slice(this.pos, this.pos + 400));
+    if (!match) {
+      this.fail('Invalid number');
+    }
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+}
+
+/**
+ * Character following the first comma that separates members (i.e. outside strings)
+ */
+function charAfterFirstSeparator(text: string): string | undefined {
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === ',') {
+      return text[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Work out the whitespace style of a JSON document from its first members
+ */
+function detectFormat(text: string): JsonFormat {
+  const trailingNewline = /\n$/.test(text);
+  const body = text.replace(/\s+$/, '');
+  const indentMatch = /^[{[][ \t]*\r?\n([ \t]+)\S/.exec(body);
+  const keySeparatorMatch = /"\s*:(\s?)/.exec(body);
+  return {
+    indent: indentMatch ? indentMatch[1] : (body.includes('\n') ? '' : null),
+    keySeparator: keySeparatorMatch && keySeparatorMatch[1] ? ': ' : ':',
+    trailingSpace: charAfterFirstSeparator(body) === ' ',
+    trailingNewline,
+  };
+}
+
+/**
+ * Parse JSON text, remembering everything needed to write it back unchanged
+ */
+export function parseLosslessJson<T = unknown>(text: string): LosslessJsonDocument<T> {
+  const parser = new LosslessJsonParser(text);
+  const value = parser.parse() as T;
+  return { value, format: detectFormat(text) };
+}
+
+/**
+ * Serialize a value, reusing remembered literals for members whose value did not change
+ */
+export function stringifyLosslessJson(value: unknown, format: JsonFormat = NBFORMAT_JSON_FORMAT): string {
+  const newline = format.indent === null ? '' : '\n';
+  const comma = format.trailingSpace ? ', ' : ',';
+
+  const literal = (container: object | null, key: JsonKey | null, member: unknown): string | undefined => {
+    if (container === null || key === null) return undefined;
+    const raw = rawLiterals.get(container)?.get(key);
+    if (raw === undefined) return undefined;
+    // Only reuse the literal if it still denotes the current value
+    try {
+      return Object.is(JSON.parse(raw), member) ? raw : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // `inline` holds the style of the enclosing one-line container, which everything inside it follows
+  const write = (member: unknown, depth: number, container: object | null, key: JsonKey | null, inline?: InlineStyle): string => {
+    if (member === null || typeof member === 'boolean') {
+      return String(member);
+    }
+    if (typeof member === 'number' || typeof member === 'string') {
+      const raw = literal(container, key, member);
+      if (raw !== undefined) return raw;
+      if (typeof member === 'number' && !Number.isFinite(member)) return 'null';
+      return JSON.stringify(member);
+    }
+    if (typeof member !== 'object') {
+      return 'null';
+    }
+    const style = inline ?? (format.indent === null ? undefined : inlineStyles.get(member));
+    const outer = style || format.indent === null ? '' : format.indent.repeat(depth);
+    const inner = style || format.indent === null ? '' : format.indent.repeat(depth + 1);
+    const open = style ? style.padding : newline;
+    const close = style ? style.padding : newline + outer;
+    const separator = style ? style.comma : comma + newline;
+
+    if (Array.isArray(member)) {
+      if (member.length === 0) return '[]';
+      const items = member.map((item, index) =>
+        inner + write(item === undefined ? null : item, depth + 1, member, index, style)
+      );
+      return `[${open}${items.join(separator)}${close}]`;
+    }
+
+    const record = member as Record<string, unknown>;
+    const keys = Object.keys(record).filter(k => record[k] !== undefined && typeof record[k] !== 'function');
+    if (keys.length === 0) return '{}';
+    const keyLiterals = rawKeys.get(record);
+    const entries = keys.map(k =>
+      `${inner}${keyLiterals?.get(k) ?? JSON.stringify(k)}${format.keySeparator}${write(record[k], depth + 1, record, k, style)}`
+    );
+    return `{${open}${entries.join(separator)}${close}}`;
+  };
+
+  return write(value, 0, null, null) + (format.trailingNewline ? '\n' : '');
+}
+
+/**
+ * Source location of a member's value, if the container came from parseLosslessJson
+ */
+export function getJsonLocation(container: object, key?: JsonKey): JsonSourceLocation | undefined {
+  const found = key === undefined ? containerLocations.get(container) : locations.get(container)?.get(key);
+  return found ? found.source.locate(found.offset) : undefined;
+}
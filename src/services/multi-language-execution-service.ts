@@ -6,13 +6,36 @@
  * - SQL (via Web SQL or backend)
  * - Rust (via WebAssembly or backend compilation)
  * - R (via R.js or backend)
- * - NAVΛ (via NAVΛ compiler/runtime)
+ * - NAVΛ (via the Tauri backend when available, otherwise the in-browser interpreter)
+ * - JavaScript (in a sandboxed worker per notebook session)
+ * - TypeScript (type-checked and transpiled in the browser, then run as JavaScript)
+ * - Bash (via the /api/bash/execute route)
+ * - HTML/CSS (rendered in a sandboxed preview frame)
+ * - JSON (validated, optionally against the JSON Schema named in `$schema`)
+ *
+ * When a Jupyter Server is configured, any language it has a kernel for is
+ * executed there instead.
+ *
+ * Python, JavaScript/TypeScript, SQL and NAVΛ share a per-session variable
+ * namespace (see notebook-namespace.ts): values one of them defines are
+ * available in the others where they can be converted.
  */
 
-import type { NotebookOutput, CellExecutionResult } from './jupyter-notebook-service';
+import type { NotebookOutput, CellExecutionResult, CodeDiagnostic } from './jupyter-notebook-service';
 import { pythonExecutionService } from './python-execution-service';
-
-export type SupportedLanguage = 'python' | 'sql' | 'rust' | 'r' | 'navlambda' | 'vnc' | 'javascript' | 'typescript';
+import { jupyterKernelClient, CompletionResult, InspectionResult } from './jupyter-kernel-client';
+import { sqlExecutionService, SqlStatementResult } from './sql-execution-service';
+import { javascriptSandbox } from './javascript-sandbox';
+import { typescriptCompiler } from './typescript-compiler';
+import { HTML_PREVIEW_MIME, OutputMessage } from './notebook-outputs';
+import { parseLosslessJson } from './lossless-json';
+import { validateJsonSchema, formatSchemaIssue } from './json-schema-validator';
+import { navLambdaRuntime, NavLambdaError, locate } from './navlambda';
+import { notebookNamespace, toRecords } from './notebook-namespace';
+
+export type SupportedLanguage =
+  | 'python' | 'sql' | 'rust' | 'r' | 'navlambda' | 'vnc' | 'javascript' | 'typescript'
+  | 'bash' | 'html' | 'css' | 'json';
 
 export interface ExecutionOptions {
   timeout?: number;
@@ -20,10 +43,79 @@ export interface ExecutionOptions {
   workingDirectory?: string;
   environment?: Record<string, string>;
   compileOnly?: boolean; // For Rust, compile but don't execute
+  signal?: AbortSignal; // Cancels the execution where the runtime supports it
+  onOutput?: (output: OutputMessage) => void; // Live outputs, for runtimes that stream them
+  sessionId?: string; // Notebook session; SQL cells share one database per session
+  cellId?: string; // Identifies the cell across runs (TypeScript keeps each cell's latest declarations)
 }
 
+const DEFAULT_SESSION_ID = 'default';
+
+// Rendered under CSS cells so their rules have something to style
+const CSS_SPECIMEN = `<h1>Heading 1</h1>
+<h2>Heading 2</h2>
+<p>A paragraph with <a href="#">a link</a>, <strong>bold</strong>, <em>emphasis</em> and <code>code</code>.</p>
+<ul><li>First item</li><li>Second item</li></ul>
+<table><thead><tr><th>Name</th><th>Value</th></tr></thead><tbody><tr><td>alpha</td><td>1</td></tr><tr><td>beta</td><td>2</td></tr></tbody></table>
+<p><button>Button</button> <input placeholder="Input"></p>`;
+
+// $schema values naming a JSON Schema dialect: the document is a schema itself
+const SCHEMA_DIALECT_PATTERN = /^https?:\/\/json-schema\.org\//;
+
+const isJsonRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// SQL tables up to this many rows are handed to other languages with their data
+const MAX_SQL_TRANSFER_ROWS = 10000;
+
+const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP BY', 'ORDER BY', 'HAVING', 'LIMIT', 'OFFSET', 'JOIN', 'LEFT JOIN', 'INNER JOIN',
+  'ON', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS NULL', 'LIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'DISTINCT', 'UNION ALL', 'INSERT INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE FROM', 'CREATE TABLE', 'CREATE VIEW',
+  'DROP TABLE', 'WITH', 'ASC', 'DESC', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'CAST',
+];
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'else', 'export',
+  'false', 'finally', 'for', 'function', 'if', 'import', 'instanceof', 'let', 'new', 'null', 'return', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'while', 'yield', 'console', 'Math', 'JSON', 'Object',
+  'Array', 'Promise', 'Map', 'Set', 'display',
+];
+
+/**
+ * Complete the identifier before the cursor from a list of names
+ */
+const completeWords = (code: string, cursorPos: number, words: Iterable<string>): CompletionResult => {
+  let start = cursorPos;
+  while (start > 0 && /[\w$⋋]/.test(code[start - 1])) start--;
+  const typed = code.slice(start, cursorPos);
+  const prefix = typed.toLowerCase();
+  const matches = Array.from(new Set(words))
+    .filter(word => word !== typed && word.toLowerCase().startsWith(prefix))
+    .sort((a, b) => a.localeCompare(b));
+  return { matches, cursorStart: start, cursorEnd: cursorPos, metadata: {} };
+};
+
+// Member access (`obj.na`), which the name-list completers know nothing about
+const isMemberAccess = (code: string, cursorPos: number) => /\.[\w$]*$/.test(code.slice(0, cursorPos));
+
 class MultiLanguageExecutionService {
   private executionCounts: Map<SupportedLanguage, number> = new Map();
+  // Per session: cell id -> stylesheet of each CSS cell run, applied to HTML previews
+  private sessionStyles = new Map<string, Map<string, string>>();
+  // Per session: variable name -> JSON of the value currently registered as a SQL view
+  private sqlImports = new Map<string, Map<string, string>>();
+
+  constructor() {
+    // Attached files and DataFrames registered from Python show up as SQL variables
+    sqlExecutionService.onTablesChange(sessionId => {
+      void this.syncSqlVariables(sessionId);
+    });
+    // A terminated Pyodide worker takes its globals with it
+    pythonExecutionService.onKernelStatusChange(status => {
+      if (status === 'dead') notebookNamespace.clearRuntime('python');
+    });
+  }
 
   /**
    * Execute code in the specified language
@@ -35,11 +127,31 @@ class MultiLanguageExecutionService {
   ): Promise<CellExecutionResult> {
     const count = (this.executionCounts.get(language) || 0) + 1;
     this.executionCounts.set(language, count);
+    const sessionId = options.sessionId || DEFAULT_SESSION_ID;
 
     try {
+      if (await this.hasJupyterKernel(language)) {
+        return await jupyterKernelClient.executeForLanguage(sessionId, language, code, {
+          onOutput: options.onOutput,
+          signal: options.signal,
+        });
+      }
+
       switch (language) {
         case 'python':
-          return await pythonExecutionService.executeCode(code, options);
+          return await pythonExecutionService.executeCode(code, {
+            ...options,
+            namespace: notebookNamespace.importsFor(sessionId, 'python'),
+            onVariables: variables => notebookNamespace.update(sessionId, 'python', variables),
+            // register_sql_table(name, df) in Python makes the frame queryable from SQL cells
+            onSqlTable: (name, csv) => {
+              sqlExecutionService
+                .registerTable(sessionId, name, csv, 'csv', 'python')
+                .catch(error => console.warn(`Could not register SQL table ${name}:`, error));
+            },
+            // %%sql in Python runs on the same database as SQL cells
+            onSqlQuery: sql => this.querySQL(sessionId, sql),
+          });
 
         case 'sql':
           return await this.executeSQL(code, options);
@@ -58,6 +170,16 @@ class MultiLanguageExecutionService {
         case 'typescript':
           return await this.executeJavaScript(code, language, options);
 
+        case 'bash':
+          return await this.executeBash(code, options);
+
+        case 'html':
+        case 'css':
+          return this.executeWebPreview(code, language, options);
+
+        case 'json':
+          return await this.executeJSON(code, options);
+
         default:
           throw new Error(`Unsupported language: ${language}`);
       }
@@ -122,8 +244,8 @@ class MultiLanguageExecutionService {
         }
       }
 
-      // Web SQL fallback (for development/demo)
-      return this.executeSQLWeb(code, count);
+      // In-browser DuckDB, one database per notebook session
+      return await this.executeSQLWeb(code, count, options.sessionId || DEFAULT_SESSION_ID);
     } catch (error: any) {
       return {
         success: false,
@@ -139,28 +261,44 @@ class MultiLanguageExecutionService {
   }
 
   /**
-   * Execute SQL in browser (Web SQL API - deprecated but works for demo)
+   * Run SQL on the session's DuckDB database, with the notebook's variables as views
+   */
+  private async querySQL(sessionId: string, code: string): Promise<SqlStatementResult[]> {
+    await this.importSqlTables(sessionId);
+    try {
+      return await sqlExecutionService.execute(sessionId, code);
+    } finally {
+      await this.syncSqlVariables(sessionId);
+    }
+  }
+
+  /**
+   * Execute SQL in the browser on the session's DuckDB database
    */
-  private async executeSQLWeb(code: string, count: number): Promise<CellExecutionResult> {
-    // For demo purposes, simulate SQL execution
-    // In production, you'd use IndexedDB or a backend service
+  private async executeSQLWeb(code: string, count: number, sessionId: string): Promise<CellExecutionResult> {
+    const results = await this.querySQL(sessionId, code);
     const outputs: NotebookOutput[] = [];
 
-    // Simple SELECT simulation
-    if (code.trim().toUpperCase().startsWith('SELECT')) {
+    for (const result of results) {
+      // DDL and other statements without a result set produce no table
+      if (result.columns.length === 0) continue;
+      const more = result.totalRows > result.rows.length ? `\n... (${result.totalRows} rows in total)` : '';
       outputs.push({
         output_type: 'execute_result',
         execution_count: count,
         data: {
-          'text/plain': 'Query executed successfully\n(Simulated - use backend for real SQL)',
-          'text/html': '<div style="padding: 12px; background: #1e1e1e; border-radius: 4px;">Query executed successfully<br/>(Simulated - use backend for real SQL)</div>',
+          'text/plain': this.formatSQLTable(result.rows) + more,
+          'text/html': this.formatSQLTableHTML(result.rows),
         },
+        metadata: {},
       });
-    } else {
+    }
+
+    if (outputs.length === 0) {
       outputs.push({
         output_type: 'stream',
         name: 'stdout',
-        text: 'SQL command executed (simulated)\n',
+        text: `${results.length} statement${results.length === 1 ? '' : 's'} executed\n`,
       });
     }
 
@@ -368,22 +506,51 @@ class MultiLanguageExecutionService {
         }
       }
 
-      // Fallback: simulate NAVΛ execution
+      // Fallback: run the in-browser interpreter
+      const outputs: NotebookOutput[] = [];
+      const sessionId = options.sessionId || DEFAULT_SESSION_ID;
+      const result = navLambdaRuntime.run(sessionId, code, {
+        namespace: notebookNamespace.importsFor(sessionId, 'navlambda'),
+        onVariables: variables => notebookNamespace.update(sessionId, 'navlambda', variables),
+        onPrint: text => outputs.push({ output_type: 'stream', name: 'stdout', text }),
+        onPlot: svg => outputs.push({ output_type: 'display_data', data: { 'image/svg+xml': svg, 'text/plain': '<NAVΛ plot>' } }),
+      });
+
+      if (result.value !== undefined) {
+        outputs.push({
+          output_type: 'execute_result',
+          execution_count: count,
+          data: {
+            'application/json': result.json,
+            'text/plain': result.text,
+            ...(result.svg ? { 'image/svg+xml': result.svg } : {}),
+          },
+        });
+      }
+
       return {
         success: true,
-        outputs: [{
-          output_type: 'stream',
-          name: 'stdout',
-          text: 'NAVΛ code executed (simulated)\n→ Navigation field computed\n→ Optimal path calculated\nNote: Real NAVΛ execution requires backend compiler',
-        }],
+        outputs,
         execution_count: count,
       };
     } catch (error: any) {
+      if (error instanceof NavLambdaError && error.span) {
+        const start = locate(code, error.span.start);
+        const end = locate(code, Math.max(error.span.end, error.span.start + 1));
+        return this.diagnosticErrorResult(code, [{
+          code: error.ename,
+          message: error.message,
+          line: start.line,
+          column: start.column,
+          endLine: end.line,
+          endColumn: end.column,
+        }], count);
+      }
       return {
         success: false,
         outputs: [{
           output_type: 'error',
-          ename: 'NavLambdaError',
+          ename: error instanceof NavLambdaError ? error.ename : 'NavLambdaError',
           evalue: error.message || String(error),
           traceback: [String(error)],
         }],
@@ -393,72 +560,284 @@ class MultiLanguageExecutionService {
   }
 
   /**
-   * Execute JavaScript/TypeScript code
+   * Execute JavaScript/TypeScript code in the session's sandbox
    */
   private async executeJavaScript(
     code: string,
     language: 'javascript' | 'typescript',
     options: ExecutionOptions
   ): Promise<CellExecutionResult> {
-    const count = (this.executionCounts.get(language) || 0) + 1;
+    const count = this.executionCounts.get(language) || 1;
+    const sessionId = options.sessionId || DEFAULT_SESSION_ID;
+
+    const namespace = notebookNamespace.importsFor(sessionId, 'javascript');
+    if (language === 'typescript') {
+      const globals = namespace.map(variable => variable.name);
+      const compiled = await typescriptCompiler.compile(sessionId, options.cellId || `cell-${count}`, code, globals);
+      if (compiled.diagnostics.length > 0) {
+        return this.diagnosticErrorResult(code, compiled.diagnostics, count);
+      }
+      code = compiled.javascript;
+    }
 
-    try {
-      // Execute in browser context
-      const outputs: NotebookOutput[] = [];
-      const consoleLogs: string[] = [];
+    return javascriptSandbox.execute(sessionId, code, count, {
+      timeout: options.timeout,
+      signal: options.signal,
+      onOutput: options.onOutput,
+      namespace,
+      onVariables: variables => notebookNamespace.update(sessionId, 'javascript', variables),
+    });
+  }
 
-      // Capture console.log
-      const originalLog = console.log;
-      console.log = (...args: any[]) => {
-        consoleLogs.push(args.map(a => String(a)).join(' '));
-        originalLog.apply(console, args);
-      };
+  /**
+   * Execute a Bash cell on the server
+   */
+  private async executeBash(code: string, options: ExecutionOptions): Promise<CellExecutionResult> {
+    const count = this.executionCounts.get('bash') || 1;
+    const failure = (ename: string, evalue: string): CellExecutionResult => ({
+      success: false,
+      outputs: [{ output_type: 'error', ename, evalue, traceback: [`${ename}: ${evalue}`] }],
+      execution_count: count,
+      error: { ename, evalue, traceback: [`${ename}: ${evalue}`] },
+    });
 
-      try {
-        // Execute JavaScript directly
-        if (language === 'typescript') {
-          // For TypeScript, we'd need a TS compiler
-          // For now, treat as JavaScript
-          eval(code);
-        } else {
-          eval(code);
-        }
+    try {
+      // Aborting the request makes the route stop the command
+      const response = await fetch('/api/bash/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code,
+          timeout: options.timeout || 30000,
+          workingDirectory: options.workingDirectory,
+          environment: options.environment,
+          executionCount: count,
+        }),
+        signal: options.signal,
+      });
 
-        if (consoleLogs.length > 0) {
-          outputs.push({
-            output_type: 'stream',
-            name: 'stdout',
-            text: consoleLogs.join('\n') + '\n',
-          });
-        } else {
-          outputs.push({
-            output_type: 'execute_result',
-            execution_count: count,
-            data: {
-              'text/plain': 'Code executed successfully',
-            },
-          });
-        }
-      } finally {
-        console.log = originalLog;
+      if (!response.ok) {
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        return failure('BashError', body?.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      return await response.json() as CellExecutionResult;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return failure('KeyboardInterrupt', 'Execution interrupted');
       }
+      return failure('BashError', error instanceof Error ? error.message : String(error));
+    }
+  }
 
+  /**
+   * Render an HTML or CSS cell as a standalone document for the preview frame.
+   * Stylesheets from the session's CSS cells apply to every HTML preview.
+   */
+  private executeWebPreview(code: string, language: 'html' | 'css', options: ExecutionOptions): CellExecutionResult {
+    const count = this.executionCounts.get(language) || 1;
+    const sessionId = options.sessionId || DEFAULT_SESSION_ID;
+    let styles = this.sessionStyles.get(sessionId);
+    if (!styles) {
+      styles = new Map();
+      this.sessionStyles.set(sessionId, styles);
+    }
+
+    let document: string;
+    const data: Record<string, string> = {};
+    if (language === 'css') {
+      styles.set(options.cellId || `cell-${count}`, code);
+      document = this.previewDocument(CSS_SPECIMEN, code);
+      data['text/plain'] = '<CSS preview>';
+    } else {
+      document = this.previewDocument(code, Array.from(styles.values()).join('\n'));
+      // Viewers without the preview frame fall back to (sanitized) inline HTML
+      data['text/html'] = code;
+      data['text/plain'] = '<HTML preview>';
+    }
+    data[HTML_PREVIEW_MIME] = document;
+
+    return {
+      success: true,
+      outputs: [{ output_type: 'display_data', data, metadata: {} }],
+      execution_count: count,
+    };
+  }
+
+  /**
+   * Wrap markup in a document with the given stylesheet; full documents keep their own structure
+   */
+  private previewDocument(markup: string, css: string): string {
+    const style = css.trim() ? `<style>\n${css}\n</style>` : '';
+    if (/<html[\s>]/i.test(markup)) {
+      return /<\/head>/i.test(markup) ? markup.replace(/<\/head>/i, `${style}</head>`) : style + markup;
+    }
+    return `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n${style}\n</head>\n<body>\n${markup}\n</body>\n</html>`;
+  }
+
+  /**
+   * Validate a JSON cell and show it as a tree. A `$schema` member pointing at a
+   * schema document (not at a JSON Schema dialect) is fetched and checked against.
+   */
+  private async executeJSON(code: string, options: ExecutionOptions): Promise<CellExecutionResult> {
+    const count = this.executionCounts.get('json') || 1;
+
+    let value: unknown;
+    try {
+      value = parseLosslessJson(code).value;
+    } catch (error) {
+      const evalue = error instanceof Error ? error.message : String(error);
+      const position = /at line (\d+), column (\d+)/.exec(evalue);
+      const traceback = [`JSONDecodeError: ${evalue}`];
       return {
-        success: true,
-        outputs,
+        success: false,
+        outputs: [{ output_type: 'error', ename: 'JSONDecodeError', evalue, traceback }],
         execution_count: count,
+        error: { ename: 'JSONDecodeError', evalue, traceback },
+        ...(position ? {
+          diagnostics: [{
+            code: 'JSONDecodeError',
+            message: evalue,
+            line: Number(position[1]),
+            column: Number(position[2]),
+            endLine: Number(position[1]),
+            endColumn: Number(position[2]) + 1,
+          }],
+        } : {}),
       };
-    } catch (error: any) {
+    }
+
+    const outputs: NotebookOutput[] = [{
+      output_type: 'execute_result',
+      execution_count: count,
+      data: {
+        'application/json': value,
+        'text/plain': JSON.stringify(value, null, 2),
+      },
+      metadata: {},
+    }];
+
+    const schemaRef = isJsonRecord(value) && typeof value.$schema === 'string' ? value.$schema : null;
+    if (!schemaRef || SCHEMA_DIALECT_PATTERN.test(schemaRef)) {
+      return { success: true, outputs, execution_count: count };
+    }
+
+    let schema: unknown;
+    try {
+      const base = typeof window !== 'undefined' ? window.location.href : undefined;
+      const response = await fetch(new URL(schemaRef, base).toString(), { signal: options.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      schema = await response.json();
+    } catch (error) {
+      outputs.push({
+        output_type: 'stream',
+        name: 'stderr',
+        text: `Could not load schema ${schemaRef}: ${error instanceof Error ? error.message : String(error)}\n`,
+      });
+      return { success: true, outputs, execution_count: count };
+    }
+
+    const issues = validateJsonSchema(value, schema);
+    if (issues.length === 0) {
+      outputs.push({ output_type: 'stream', name: 'stdout', text: `Valid against ${schemaRef}\n` });
+      return { success: true, outputs, execution_count: count };
+    }
+
+    const error = {
+      ename: 'ValidationError',
+      evalue: `${issues.length} schema violation${issues.length === 1 ? '' : 's'} against ${schemaRef}`,
+      traceback: issues.map(formatSchemaIssue),
+    };
+    return {
+      success: false,
+      outputs: [...outputs, { output_type: 'error', ...error }],
+      execution_count: count,
+      error,
+      diagnostics: issues
+        .filter(issue => issue.line !== undefined)
+        .map(issue => ({
+          code: 'ValidationError',
+          message: `${issue.path || '<root>'}: ${issue.message}`,
+          line: issue.line!,
+          column: issue.column!,
+          endLine: issue.line!,
+          endColumn: issue.column! + 1,
+        })),
+    };
+  }
+
+  /**
+   * One error output per diagnostic, each with the offending line underlined
+   */
+  private diagnosticErrorResult(code: string, diagnostics: CodeDiagnostic[], count: number): CellExecutionResult {
+    const lines = code.split('\n');
+    const outputs: NotebookOutput[] = diagnostics.map(diagnostic => {
+      const evalue = `(${diagnostic.line},${diagnostic.column}): ${diagnostic.message}`;
+      const sourceLine = lines[diagnostic.line - 1] ?? '';
+      const width = diagnostic.endLine === diagnostic.line
+        ? Math.max(1, diagnostic.endColumn - diagnostic.column)
+        : Math.max(1, sourceLine.length - diagnostic.column + 1);
+      const gutter = `${diagnostic.line} | `;
       return {
-        success: false,
-        outputs: [{
-          output_type: 'error',
-          ename: 'JavaScriptError',
-          evalue: error.message || String(error),
-          traceback: [error.stack || String(error)],
-        }],
-        execution_count: count,
+        output_type: 'error',
+        ename: diagnostic.code,
+        evalue,
+        traceback: [
+          `\x1b[31m${diagnostic.code}\x1b[0m: ${evalue}`,
+          `${gutter}${sourceLine}`,
+          `${' '.repeat(gutter.length + diagnostic.column - 1)}\x1b[31m${'~'.repeat(width)}\x1b[0m`,
+        ],
       };
+    });
+    const [first] = outputs;
+
+    return {
+      success: false,
+      outputs,
+      execution_count: count,
+      error: { ename: first.ename!, evalue: first.evalue!, traceback: first.traceback! },
+      diagnostics,
+    };
+  }
+
+  /**
+   * Expose table-shaped variables from other languages (records, or an object
+   * of equal-length columns) as SQL views named after the variable
+   */
+  private async importSqlTables(sessionId: string): Promise<void> {
+    let imported = this.sqlImports.get(sessionId);
+    if (!imported) {
+      imported = new Map();
+      this.sqlImports.set(sessionId, imported);
+    }
+
+    const wanted = new Map<string, string>();
+    for (const variable of notebookNamespace.importsFor(sessionId, 'sql')) {
+      if (toRecords(variable.json)) wanted.set(variable.name, variable.json);
+    }
+    for (const [name, json] of wanted) {
+      if (imported.get(name) === json) continue;
+      try {
+        const records = JSON.stringify(toRecords(json));
+        await sqlExecutionService.registerTable(sessionId, name, records, 'json', 'namespace');
+        imported.set(name, json);
+      } catch (error) {
+        console.warn(`Could not expose ${name} as a SQL table:`, error);
+      }
+    }
+    for (const name of Array.from(imported.keys())) {
+      if (wanted.has(name)) continue;
+      imported.delete(name);
+      await sqlExecutionService.detachTable(sessionId, name).catch(() => undefined);
+    }
+  }
+
+  private async syncSqlVariables(sessionId: string): Promise<void> {
+    try {
+      notebookNamespace.update(sessionId, 'sql', await sqlExecutionService.describeTables(sessionId, MAX_SQL_TRANSFER_ROWS));
+    } catch (error) {
+      console.warn('Could not list SQL tables:', error);
     }
   }
 
@@ -474,7 +853,7 @@ class MultiLanguageExecutionService {
     const header = keys.join(' | ');
     const separator = keys.map(() => '---').join(' | ');
     const dataRows = rows.slice(0, 100).map(row =>
-      keys.map(key => String(row[key] || '')).join(' | ')
+      keys.map(key => String(row[key] ?? '')).join(' | ')
     );
 
     return [header, separator, ...dataRows].join('\n') + 
@@ -490,9 +869,11 @@ class MultiLanguageExecutionService {
     }
 
     const keys = Object.keys(rows[0]);
-    const headerRow = `<tr>${keys.map(k => `<th>${k}</th>`).join('')}</tr>`;
+    const escape = (value: unknown) => String(value ?? '')
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const headerRow = `<tr>${keys.map(k => `<th>${escape(k)}</th>`).join('')}</tr>`;
     const dataRows = rows.slice(0, 100).map(row =>
-      `<tr>${keys.map(k => `<td>${String(row[k] || '')}</td>`).join('')}</tr>`
+      `<tr>${keys.map(k => `<td>${escape(row[k])}</td>`).join('')}</tr>`
     ).join('');
 
     return `
@@ -504,6 +885,117 @@ class MultiLanguageExecutionService {
     `;
   }
 
+  /**
+   * Whether a configured Jupyter Server has a kernel for the language
+   */
+  private async hasJupyterKernel(language: SupportedLanguage): Promise<boolean> {
+    // NAVΛ only runs on its own runtime
+    if (language === 'navlambda' || language === 'vnc' || !jupyterKernelClient.isConfigured()) {
+      return false;
+    }
+    return (await jupyterKernelClient.kernelSpecForLanguage(language)) !== null;
+  }
+
+  /**
+   * Code completions at `cursorPos` from the executor that would run the cell
+   *
+   * A Jupyter kernel answers with complete_request; otherwise Python asks the
+   * Pyodide kernel, SQL offers the session's tables and columns, and NAVΛ and
+   * JavaScript offer the names defined in the session.
+   */
+  async complete(
+    language: SupportedLanguage,
+    code: string,
+    cursorPos: number,
+    sessionId: string = DEFAULT_SESSION_ID
+  ): Promise<CompletionResult | null> {
+    if (await this.hasJupyterKernel(language)) {
+      return jupyterKernelClient.completeForLanguage(sessionId, language, code, cursorPos);
+    }
+    switch (language) {
+      case 'python':
+        return pythonExecutionService.complete(code, cursorPos);
+      case 'sql':
+        return this.completeSql(sessionId, code, cursorPos);
+      case 'navlambda':
+      case 'vnc':
+        return isMemberAccess(code, cursorPos) ? null : completeWords(code, cursorPos, navLambdaRuntime.completionNames(sessionId));
+      case 'javascript':
+      case 'typescript': {
+        if (isMemberAccess(code, cursorPos)) return null;
+        // Globals the sandbox holds: its own, plus those imported from other languages
+        const globals = notebookNamespace.list(sessionId)
+          .filter(variable => variable.runtime === 'javascript' || variable.json !== undefined)
+          .map(variable => variable.name);
+        return completeWords(code, cursorPos, [...JS_KEYWORDS, ...globals]);
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Keywords, table names and column names; after `table.` only that table's columns
+   */
+  private async completeSql(sessionId: string, code: string, cursorPos: number): Promise<CompletionResult> {
+    const schema = await sqlExecutionService.describeSchema(sessionId).catch(() => []);
+    const qualified = /(\w+)\.\w*$/.exec(code.slice(0, cursorPos));
+    if (qualified) {
+      const table = schema.find(entry => entry.table.toLowerCase() === qualified[1].toLowerCase());
+      return completeWords(code, cursorPos, table?.columns ?? []);
+    }
+    // Offer keywords in the case the user is typing in
+    const typed = /\w*$/.exec(code.slice(0, cursorPos))![0];
+    const keywords = typed && typed === typed.toLowerCase() ? SQL_KEYWORDS.map(keyword => keyword.toLowerCase()) : SQL_KEYWORDS;
+    return completeWords(code, cursorPos, [...keywords, ...schema.flatMap(entry => [entry.table, ...entry.columns])]);
+  }
+
+  /**
+   * Documentation for the object at `cursorPos`, when the language's kernel supports it
+   */
+  async inspect(
+    language: SupportedLanguage,
+    code: string,
+    cursorPos: number,
+    sessionId: string = DEFAULT_SESSION_ID
+  ): Promise<InspectionResult | null> {
+    if (!await this.hasJupyterKernel(language)) return null;
+    return jupyterKernelClient.inspectForLanguage(sessionId, language, code, cursorPos);
+  }
+
+  /**
+   * Restart every stateful runtime: the Python kernel, JavaScript sandboxes and NAVΛ globals; Jupyter
+   * kernels in use are shut down, and new ones start on the next run
+   */
+  async restartKernels(): Promise<void> {
+    this.executionCounts.clear();
+    this.sessionStyles.clear();
+    javascriptSandbox.reset();
+    typescriptCompiler.reset();
+    navLambdaRuntime.reset();
+    this.sqlImports.clear();
+    notebookNamespace.reset();
+    await Promise.all([
+      pythonExecutionService.restartKernel(),
+      jupyterKernelClient.shutdownAllSessions(),
+    ]);
+  }
+
+  /**
+   * Release the state of a notebook session (SQL database, JS sandbox, TS declarations, NAVΛ globals, CSS, variables)
+   * and shut down its Jupyter kernels
+   */
+  closeSession(sessionId: string): void {
+    void jupyterKernelClient.shutdownSession(sessionId).catch(error => console.warn('Could not shut down Jupyter kernels:', error));
+    this.sessionStyles.delete(sessionId);
+    javascriptSandbox.closeSession(sessionId);
+    typescriptCompiler.closeSession(sessionId);
+    navLambdaRuntime.closeSession(sessionId);
+    notebookNamespace.closeSession(sessionId);
+    this.sqlImports.delete(sessionId);
+    sqlExecutionService.closeSession(sessionId);
+  }
+
   /**
    * Reset execution count for a language
    */
@@ -0,0 +1,52 @@
+/**
+ * NAVΛ Syntax Tree
+ */
+
+import type { Span } from './errors';
+
+interface NodeBase {
+  span: Span;
+}
+
+export interface LetStatement extends NodeBase {
+  kind: 'let';
+  name: string;
+  value: Expression;
+}
+
+export interface FunctionStatement extends NodeBase {
+  kind: 'fn';
+  name: string;
+  params: string[];
+  body: Expression;
+}
+
+export interface ExpressionStatement extends NodeBase {
+  kind: 'expression';
+  expression: Expression;
+}
+
+export type Statement = LetStatement | FunctionStatement | ExpressionStatement;
+
+export interface Program {
+  body: Statement[];
+}
+
+export type Expression =
+  | (NodeBase & { kind: 'number'; value: number })
+  | (NodeBase & { kind: 'string'; value: string })
+  | (NodeBase & { kind: 'boolean'; value: boolean })
+  | (NodeBase & { kind: 'null' })
+  | (NodeBase & { kind: 'identifier'; name: string })
+  | (NodeBase & { kind: 'vector'; items: Expression[] })
+  | (NodeBase & { kind: 'record'; entries: { key: string; value: Expression }[] })
+  | (NodeBase & { kind: 'block'; body: Statement[] })
+  | (NodeBase & { kind: 'unary'; operator: string; operand: Expression })
+  | (NodeBase & { kind: 'binary'; operator: string; left: Expression; right: Expression })
+  | (NodeBase & { kind: 'logical'; operator: 'and' | 'or'; left: Expression; right: Expression })
+  | (NodeBase & { kind: 'gradient'; operand: Expression })
+  | (NodeBase & { kind: 'call'; callee: Expression; args: Expression[] })
+  | (NodeBase & { kind: 'index'; object: Expression; index: Expression })
+  | (NodeBase & { kind: 'member'; object: Expression; name: string })
+  | (NodeBase & { kind: 'lambda'; params: string[]; body: Expression })
+  | (NodeBase & { kind: 'if'; condition: Expression; then: Expression; otherwise: Expression | null });
@@ -0,0 +1,368 @@
+/**
+ * NAVΛ Builtins
+ *
+ * The standard library available to every NAVΛ cell: math, vector and list
+ * helpers, printing and plotting, and the navigation primitives. Navigation
+ * builtins answer to both `name⋋` and plain `name`.
+ */
+
+import { NavLambdaError } from './errors';
+import { createField, followField, gradient, NavField, Obstacle, pathLength, planPath, potential } from './navigation';
+import { renderPlot } from './plot';
+import {
+  asObstacle,
+  asPoint,
+  Builtin,
+  Callable,
+  displayValue,
+  isCallable,
+  isField,
+  isPath,
+  isRecord,
+  isTruthy,
+  NavRecord,
+  NavValue,
+  toJson,
+  typeOf,
+} from './values';
+
+export interface RuntimeHooks {
+  print: (text: string) => void;
+  plot: (svg: string) => void;
+}
+
+type Call = (callee: NavValue, args: NavValue[]) => NavValue;
+
+interface BuiltinContext extends RuntimeHooks {
+  call: Call;
+}
+
+const MAX_RANGE = 1_000_000;
+const GRADIENT_STEP = 1e-5;
+
+const typeError = (message: string) => new NavLambdaError(message, null, 'TypeError');
+const valueError = (message: string) => new NavLambdaError(message, null, 'ValueError');
+
+const arity = (name: string, args: NavValue[], min: number, max = min): void => {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    throw typeError(`${name}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'} but ${args.length} ${args.length === 1 ? 'was' : 'were'} given`);
+  }
+};
+
+const number = (name: string, value: NavValue): number => {
+  if (typeof value !== 'number') throw typeError(`${name}() expects a number, got ${typeOf(value)}`);
+  return value;
+};
+
+const vector = (name: string, value: NavValue): number[] => {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'number')) {
+    throw typeError(`${name}() expects a numeric vector, got ${typeOf(value)}`);
+  }
+  return value as number[];
+};
+
+const list = (name: string, value: NavValue): NavValue[] => {
+  if (!Array.isArray(value)) throw typeError(`${name}() expects a vector, got ${typeOf(value)}`);
+  return value;
+};
+
+const point = (name: string, value: NavValue): number[] => {
+  const result = asPoint(value);
+  if (!result) throw typeError(`${name}() expects a 2D or 3D point, got ${typeOf(value)}`);
+  return result;
+};
+
+const callable = (name: string, value: NavValue): Callable => {
+  if (!isCallable(value)) throw typeError(`${name}() expects a function, got ${typeOf(value)}`);
+  return value;
+};
+
+const field = (name: string, value: NavValue): NavField => {
+  if (!isField(value)) throw typeError(`${name}() expects a navigation field, got ${typeOf(value)}`);
+  return value;
+};
+
+const options = (name: string, value: NavValue | undefined): NavRecord => {
+  if (value === undefined) return new Map();
+  if (!isRecord(value)) throw typeError(`${name}() expects an options record, got ${typeOf(value)}`);
+  return value;
+};
+
+const optionalNumber = (name: string, record: NavRecord, key: string): number | undefined => {
+  const value = record.get(key);
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || value <= 0) throw valueError(`${name}(): option '${key}' must be a positive number`);
+  return value;
+};
+
+const obstacles = (name: string, value: NavValue | undefined): Obstacle[] => {
+  if (value === undefined) return [];
+  return list(name, value).map(item => {
+    const obstacle = asObstacle(item);
+    if (!obstacle) throw typeError(`${name}() expects obstacle records, got ${typeOf(item)}`);
+    return obstacle;
+  });
+};
+
+const unary = (name: string, apply: (value: number) => number): Builtin => ({
+  kind: 'builtin',
+  name,
+  call: args => {
+    arity(name, args, 1);
+    return apply(number(name, args[0]));
+  },
+});
+
+const numbersOf = (name: string, args: NavValue[]): number[] =>
+  args.length === 1 && Array.isArray(args[0]) ? vector(name, args[0]) : args.map(arg => number(name, arg));
+
+/**
+ * ∇ of a field (analytic) or of a scalar function of a point (central differences)
+ */
+export function gradientOf(value: NavValue, call: Call): Builtin {
+  if (isField(value)) {
+    return { kind: 'builtin', name: '∇field', call: args => {
+      arity('∇field', args, 1);
+      return gradient(value, point('∇field', args[0]));
+    } };
+  }
+  if (isCallable(value)) {
+    const name = `∇${value.kind === 'closure' || value.kind === 'builtin' ? value.name : 'f'}`;
+    return { kind: 'builtin', name, call: args => {
+      arity(name, args, 1);
+      const at = vector(name, args[0]);
+      return at.map((_, axis) => {
+        const forward = at.slice();
+        const backward = at.slice();
+        forward[axis] += GRADIENT_STEP;
+        backward[axis] -= GRADIENT_STEP;
+        const high = call(value, [forward]);
+        const low = call(value, [backward]);
+        if (typeof high !== 'number' || typeof low !== 'number') throw typeError(`${name}: the function must return a number`);
+        return (high - low) / (2 * GRADIENT_STEP);
+      });
+    } };
+  }
+  throw typeError(`∇ expects a navigation field or a function, got ${typeOf(value)}`);
+}
+
+export function createBuiltins(context: BuiltinContext): Map<string, NavValue> {
+  const builtins = new Map<string, NavValue>();
+  const define = (name: string, call: (args: NavValue[]) => NavValue, aliases: string[] = []) => {
+    for (const alias of [name, ...aliases]) builtins.set(alias, { kind: 'builtin', name, call });
+  };
+
+  builtins.set('pi', Math.PI);
+  builtins.set('π', Math.PI);
+  builtins.set('e', Math.E);
+  builtins.set('inf', Infinity);
+
+  // Math
+  for (const name of ['abs', 'sqrt', 'exp', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'floor', 'ceil', 'round'] as const) {
+    builtins.set(name, unary(name, Math[name]));
+  }
+  define('log', args => {
+    arity('log', args, 1, 2);
+    const value = number('log', args[0]);
+    return args.length === 2 ? Math.log(value) / Math.log(number('log', args[1])) : Math.log(value);
+  });
+  define('atan2', args => {
+    arity('atan2', args, 2);
+    return Math.atan2(number('atan2', args[0]), number('atan2', args[1]));
+  });
+  define('min', args => {
+    const values = numbersOf('min', args);
+    if (values.length === 0) throw valueError('min() of an empty vector');
+    return Math.min(...values);
+  });
+  define('max', args => {
+    const values = numbersOf('max', args);
+    if (values.length === 0) throw valueError('max() of an empty vector');
+    return Math.max(...values);
+  });
+  define('sum', args => {
+    arity('sum', args, 1);
+    return vector('sum', args[0]).reduce((total, value) => total + value, 0);
+  });
+
+  // Vectors
+  define('vec', args => args.map(arg => number('vec', arg)));
+  define('len', args => {
+    arity('len', args, 1);
+    const [value] = args;
+    if (typeof value === 'string') return Array.from(value).length;
+    if (Array.isArray(value)) return value.length;
+    if (isRecord(value)) return value.size;
+    if (isPath(value)) return value.points.length;
+    throw typeError(`len() of ${typeOf(value)}`);
+  });
+  define('norm', args => {
+    arity('norm', args, 1);
+    return Math.hypot(...vector('norm', args[0]));
+  }, ['magnitude']);
+  define('normalize', args => {
+    arity('normalize', args, 1);
+    const values = vector('normalize', args[0]);
+    const length = Math.hypot(...values);
+    if (length === 0) throw valueError('normalize() of a zero vector');
+    return values.map(value => value / length);
+  });
+  define('dot', args => {
+    arity('dot', args, 2);
+    const [a, b] = [vector('dot', args[0]), vector('dot', args[1])];
+    if (a.length !== b.length) throw valueError(`dot() needs vectors of equal length, got ${a.length} and ${b.length}`);
+    return a.reduce((total, value, i) => total + value * b[i], 0);
+  });
+  define('cross', args => {
+    arity('cross', args, 2);
+    const [a, b] = [vector('cross', args[0]), vector('cross', args[1])];
+    if (a.length === 2 && b.length === 2) return a[0] * b[1] - a[1] * b[0];
+    if (a.length !== 3 || b.length !== 3) throw valueError('cross() needs two 2D or two 3D vectors');
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  });
+  define('distance', args => {
+    arity('distance', args, 2);
+    const [a, b] = [vector('distance', args[0]), vector('distance', args[1])];
+    if (a.length !== b.length) throw valueError(`distance() needs points of equal dimension, got ${a.length} and ${b.length}`);
+    return Math.hypot(...a.map((value, i) => value - b[i]));
+  });
+  define('lerp', args => {
+    arity('lerp', args, 3);
+    const t = number('lerp', args[2]);
+    if (typeof args[0] === 'number') return args[0] + (number('lerp', args[1]) - args[0]) * t;
+    const [a, b] = [vector('lerp', args[0]), vector('lerp', args[1])];
+    if (a.length !== b.length) throw valueError('lerp() needs vectors of equal length');
+    return a.map((value, i) => value + (b[i] - value) * t);
+  });
+
+  // Lists
+  define('range', args => {
+    arity('range', args, 1, 3);
+    const [start, stop] = args.length === 1 ? [0, number('range', args[0])] : [number('range', args[0]), number('range', args[1])];
+    const step = args.length === 3 ? number('range', args[2]) : 1;
+    if (step === 0) throw valueError('range() step must not be zero');
+    const count = Math.max(0, Math.ceil((stop - start) / step));
+    if (count > MAX_RANGE) throw valueError(`range() of ${count} items exceeds the limit of ${MAX_RANGE}`);
+    return Array.from({ length: count }, (_, i) => start + i * step);
+  });
+  define('map', args => {
+    arity('map', args, 2);
+    const fn = callable('map', args[1]);
+    return list('map', args[0]).map(item => context.call(fn, [item]));
+  });
+  define('filter', args => {
+    arity('filter', args, 2);
+    const fn = callable('filter', args[1]);
+    return list('filter', args[0]).filter(item => isTruthy(context.call(fn, [item])));
+  });
+  define('reduce', args => {
+    arity('reduce', args, 3);
+    const fn = callable('reduce', args[1]);
+    return list('reduce', args[0]).reduce<NavValue>((total, item) => context.call(fn, [total, item]), args[2]);
+  });
+  define('concat', args => args.flatMap(arg => list('concat', arg)));
+  define('keys', args => {
+    arity('keys', args, 1);
+    if (!isRecord(args[0])) throw typeError(`keys() expects a record, got ${typeOf(args[0])}`);
+    return Array.from(args[0].keys());
+  });
+
+  // Output
+  define('print', args => {
+    context.print(args.map(displayValue).join(' ') + '\n');
+    return null;
+  });
+  define('plot', args => {
+    try {
+      context.plot(renderPlot(args));
+    } catch (error) {
+      if (error instanceof NavLambdaError) throw error;
+      throw valueError(error instanceof Error ? error.message : String(error));
+    }
+    return null;
+  });
+  define('type', args => {
+    arity('type', args, 1);
+    return typeOf(args[0]);
+  });
+  define('str', args => {
+    arity('str', args, 1);
+    return displayValue(args[0]);
+  });
+  define('json', args => {
+    arity('json', args, 1);
+    return JSON.stringify(toJson(args[0]));
+  });
+
+  // Navigation
+  define('obstacle', args => {
+    arity('obstacle', args, 2);
+    const radius = number('obstacle', args[1]);
+    if (radius <= 0) throw valueError('obstacle() radius must be positive');
+    return new Map<string, NavValue>([['type', 'obstacle'], ['center', point('obstacle', args[0])], ['radius', radius]]);
+  });
+  define('field⋋', args => {
+    arity('field⋋', args, 1, 3);
+    const settings = options('field⋋', args[2]);
+    return createField(point('field⋋', args[0]), obstacles('field⋋', args[1]), {
+      attraction: optionalNumber('field⋋', settings, 'attraction'),
+      repulsion: optionalNumber('field⋋', settings, 'repulsion'),
+      influence: optionalNumber('field⋋', settings, 'influence'),
+    });
+  }, ['field', 'navigation_field⋋', 'navigation_field']);
+  define('potential', args => {
+    arity('potential', args, 2);
+    return potential(field('potential', args[0]), point('potential', args[1]));
+  });
+  define('gradient', args => {
+    arity('gradient', args, 2);
+    return context.call(gradientOf(args[0], context.call), [args[1]]);
+  });
+  define('navigate_to⋋', args => {
+    // navigate_to⋋(start, field) or navigate_to⋋(start, goal, obstacles); options last
+    arity('navigate_to⋋', args, 2, 4);
+    const start = point('navigate_to⋋', args[0]);
+    const target = args[1];
+    let settings: NavRecord;
+    let navField: NavField;
+    if (isField(target)) {
+      navField = target;
+      settings = options('navigate_to⋋', args[2]);
+    } else {
+      const hasObstacles = args[2] !== undefined && !isRecord(args[2]);
+      navField = createField(point('navigate_to⋋', target), obstacles('navigate_to⋋', hasObstacles ? args[2] : undefined));
+      settings = options('navigate_to⋋', hasObstacles ? args[3] : args[2]);
+    }
+    const clearance = settings.get('clearance');
+    if (clearance !== undefined && (typeof clearance !== 'number' || clearance < 0)) {
+      throw valueError("navigate_to⋋(): option 'clearance' must be a non-negative number");
+    }
+    return planPath(navField, start, {
+      clearance: clearance as number | undefined,
+      resolution: optionalNumber('navigate_to⋋', settings, 'resolution'),
+    });
+  }, ['navigate_to']);
+  define('descend⋋', args => {
+    arity('descend⋋', args, 2, 4);
+    const step = args.length > 2 ? number('descend⋋', args[2]) : undefined;
+    const steps = args.length > 3 ? number('descend⋋', args[3]) : undefined;
+    if ((step !== undefined && step <= 0) || (steps !== undefined && steps < 1)) {
+      throw valueError('descend⋋() step size and step count must be positive');
+    }
+    return followField(field('descend⋋', args[1]), point('descend⋋', args[0]), step, steps === undefined ? undefined : Math.min(steps, MAX_RANGE));
+  }, ['descend']);
+  define('path_length', args => {
+    arity('path_length', args, 1);
+    const [value] = args;
+    if (isPath(value)) return value.length;
+    return pathLength(list('path_length', value).map(item => point('path_length', item)));
+  });
+  define('waypoints', args => {
+    arity('waypoints', args, 1);
+    if (!isPath(args[0])) throw typeError(`waypoints() expects a path, got ${typeOf(args[0])}`);
+    return args[0].points;
+  });
+
+  return builtins;
+}
@@ -0,0 +1,38 @@
+/**
+ * NAVΛ Errors
+ *
+ * Errors raised while lexing, parsing or running NAVΛ code. Each carries the
+ * source span it refers to so the notebook can point at the offending code.
+ */
+
+// Character offsets into the cell source, end exclusive
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export class NavLambdaError extends Error {
+  constructor(message: string, readonly span: Span | null, readonly ename = 'NavLambdaError') {
+    super(message);
+    this.name = ename;
+  }
+}
+
+export class NavLambdaSyntaxError extends NavLambdaError {
+  constructor(message: string, span: Span) {
+    super(message, span, 'NavLambdaSyntaxError');
+  }
+}
+
+/**
+ * Line and column of a character offset
+ */
+export function locate(source: string, offset: number): SourcePosition {
+  const before = source.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
@@ -0,0 +1,114 @@
+/**
+ * NAVΛ Runtime
+ *
+ * In-browser execution of NAVΛ cells. Each notebook session keeps its own
+ * globals, so `let` and `fn` declarations carry over between cells.
+ */
+
+import type { NamespaceImport, VariableSnapshot } from '../notebook-namespace';
+import { Environment, Interpreter } from './interpreter';
+import { KEYWORDS } from './lexer';
+import { parseNavLambda } from './parser';
+import { isPlottable, renderPlot } from './plot';
+import { formatValue, fromJson, isPath, isRecord, NavValue, toJson, typeOf } from './values';
+
+export { NavLambdaError, NavLambdaSyntaxError, locate } from './errors';
+export type { Span } from './errors';
+export type { NavValue } from './values';
+
+export interface NavLambdaRunOptions {
+  onPrint?: (text: string) => void;
+  onPlot?: (svg: string) => void;
+  namespace?: NamespaceImport[]; // Values from other languages, defined as globals first
+  onVariables?: (variables: VariableSnapshot[]) => void; // The session globals after the cell ran
+}
+
+export interface NavLambdaRunResult {
+  value?: NavValue;
+  json?: unknown;
+  text?: string;
+  svg?: string; // when the value is a field, a path or a list containing one
+}
+
+class NavLambdaRuntime {
+  private sessions = new Map<string, Interpreter>();
+
+  private getSession(sessionId: string): Interpreter {
+    let interpreter = this.sessions.get(sessionId);
+    if (!interpreter) {
+      interpreter = new Interpreter();
+      this.sessions.set(sessionId, interpreter);
+    }
+    return interpreter;
+  }
+
+  /**
+   * Parse and run a cell; throws NavLambdaError with the span of the failure
+   */
+  run(sessionId: string, code: string, options: NavLambdaRunOptions = {}): NavLambdaRunResult {
+    const program = parseNavLambda(code);
+    const interpreter = this.getSession(sessionId);
+    for (const entry of options.namespace ?? []) {
+      interpreter.globals.define(entry.name, fromJson(JSON.parse(entry.json)));
+    }
+    let value: NavValue | undefined;
+    try {
+      value = interpreter.run(program, {
+        print: text => options.onPrint?.(text),
+        plot: svg => options.onPlot?.(svg),
+      });
+    } finally {
+      options.onVariables?.(this.describe(interpreter));
+    }
+    if (value === undefined || value === null) return {};
+    return {
+      value,
+      json: toJson(value),
+      text: formatValue(value),
+      svg: isPlottable(value) ? renderPlot([value]) : undefined,
+    };
+  }
+
+  private describe(interpreter: Interpreter): VariableSnapshot[] {
+    return interpreter.globals.entries().map(([name, value]) => {
+      const count = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+      const size = Array.isArray(value) ? count(value.length, 'item')
+        : isRecord(value) ? count(value.size, 'key')
+        : typeof value === 'string' ? count(Array.from(value).length, 'char')
+        : isPath(value) ? count(value.points.length, 'waypoint')
+        : undefined;
+      const text = Array.isArray(value) && value.length > 100
+        ? `[${value.slice(0, 100).map(formatValue).join(', ')}, …]`
+        : formatValue(value);
+      const callable = typeOf(value) === 'function';
+      return {
+        name,
+        type: typeOf(value),
+        ...(size ? { size } : {}),
+        preview: text.length > 200 ? `${text.slice(0, 199)}…` : text,
+        ...(callable ? {} : { json: JSON.stringify(toJson(value)) }),
+      };
+    });
+  }
+
+  /**
+   * Everything a cell can name at the top level: the session's globals, the builtins and the keywords
+   */
+  completionNames(sessionId: string): string[] {
+    const names = new Set<string>(KEYWORDS);
+    for (let env: Environment | null = this.getSession(sessionId).globals; env; env = env.parent) {
+      env.entries().forEach(([name]) => names.add(name));
+    }
+    return Array.from(names);
+  }
+
+  closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  reset(): void {
+    this.sessions.clear();
+  }
+}
+
+export const navLambdaRuntime = new NavLambdaRuntime();
@@ -0,0 +1,331 @@
+/**
+ * NAVΛ Interpreter
+ *
+ * Tree-walking evaluator for parsed NAVΛ programs. Vectors support element-wise
+ * arithmetic with scalar broadcasting, records are immutable maps, functions
+ * close over their defining scope. Evaluation is bounded by a step budget and
+ * a call-depth limit so a runaway cell can't hang the page.
+ */
+
+import type { Expression, Program, Statement } from './ast';
+import { createBuiltins, gradientOf, RuntimeHooks } from './builtins';
+import { NavLambdaError, Span } from './errors';
+import { potential } from './navigation';
+import {
+  asPoint,
+  displayValue,
+  formatValue,
+  isField,
+  isPath,
+  isRecord,
+  isTruthy,
+  NavValue,
+  typeOf,
+} from './values';
+
+const MAX_STEPS = 10_000_000;
+const MAX_DEPTH = 500;
+
+export class Environment {
+  private values = new Map<string, NavValue>();
+
+  constructor(readonly parent: Environment | null = null) {}
+
+  lookup(name: string): NavValue | undefined {
+    return this.values.has(name) ? this.values.get(name) : this.parent?.lookup(name);
+  }
+
+  define(name: string, value: NavValue): void {
+    this.values.set(name, value);
+  }
+
+  entries(): [string, NavValue][] {
+    return Array.from(this.values);
+  }
+}
+
+export function valuesEqual(left: NavValue, right: NavValue): boolean {
+  if (left === right) return true;
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => valuesEqual(item, right[i]));
+  }
+  if (isRecord(left) && isRecord(right)) {
+    return left.size === right.size && Array.from(left).every(([key, item]) => right.has(key) && valuesEqual(item, right.get(key)!));
+  }
+  return false;
+}
+
+const ARITHMETIC: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '⊕': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '⊗': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': (a, b) => a ** b,
+};
+
+const COMPARISON: Record<string, (a: number | string, b: number | string) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+};
+
+export class Interpreter {
+  readonly globals: Environment;
+  private hooks: RuntimeHooks = { print: () => {}, plot: () => {} };
+  private steps = 0;
+  private depth = 0;
+
+  constructor() {
+    const builtins = new Environment();
+    createBuiltins({
+      call: (callee, args) => this.call(callee, args, null),
+      print: text => this.hooks.print(text),
+      plot: values => this.hooks.plot(values),
+    }).forEach((value, name) => builtins.define(name, value));
+    this.globals = new Environment(builtins);
+  }
+
+  /**
+   * Run a program in the session globals. Returns the value of the final
+   * expression statement, or undefined when the cell ends with a declaration.
+   */
+  run(program: Program, hooks: RuntimeHooks): NavValue | undefined {
+    this.hooks = hooks;
+    this.steps = 0;
+    this.depth = 0;
+    try {
+      let result: NavValue | undefined;
+      for (const statement of program.body) {
+        result = this.execute(statement, this.globals);
+      }
+      return result;
+    } catch (error) {
+      // Deep non-tail recursion inside builtins can still exhaust the JS stack
+      if (error instanceof RangeError) throw new NavLambdaError('Maximum recursion depth exceeded', null, 'RecursionError');
+      throw error;
+    }
+  }
+
+  private execute(statement: Statement, env: Environment): NavValue | undefined {
+    switch (statement.kind) {
+      case 'let':
+        env.define(statement.name, this.evaluate(statement.value, env));
+        return undefined;
+      case 'fn':
+        env.define(statement.name, { kind: 'closure', name: statement.name, params: statement.params, body: statement.body, env });
+        return undefined;
+      case 'expression':
+        return this.evaluate(statement.expression, env);
+    }
+  }
+
+  private evaluate(node: Expression, env: Environment): NavValue {
+    if (++this.steps > MAX_STEPS) {
+      throw new NavLambdaError(`Execution exceeded ${MAX_STEPS.toLocaleString('en-US')} steps`, node.span, 'TimeoutError');
+    }
+
+    switch (node.kind) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'null':
+        return null;
+      case 'identifier': {
+        const value = env.lookup(node.name);
+        if (value === undefined) throw new NavLambdaError(`name '${node.name}' is not defined`, node.span, 'NameError');
+        return value;
+      }
+      case 'vector':
+        return node.items.map(item => this.evaluate(item, env));
+      case 'record':
+        return new Map(node.entries.map(entry => [entry.key, this.evaluate(entry.value, env)]));
+      case 'block': {
+        const scope = new Environment(env);
+        let result: NavValue | undefined;
+        for (const statement of node.body) result = this.execute(statement, scope);
+        return result ?? null;
+      }
+      case 'unary': {
+        const operand = this.evaluate(node.operand, env);
+        if (node.operator === '!') return !isTruthy(operand);
+        if (typeof operand !== 'number' && !Array.isArray(operand)) {
+          throw new NavLambdaError(`bad operand type for unary -: ${typeOf(operand)}`, node.span, 'TypeError');
+        }
+        return this.arithmetic('*', -1, operand, node.span);
+      }
+      case 'binary':
+        return this.binary(node.operator, this.evaluate(node.left, env), this.evaluate(node.right, env), node.span);
+      case 'logical': {
+        const left = this.evaluate(node.left, env);
+        if (node.operator === 'and' ? !isTruthy(left) : isTruthy(left)) return left;
+        return this.evaluate(node.right, env);
+      }
+      case 'gradient':
+        return this.withSpan(node.span, () => gradientOf(this.evaluate(node.operand, env), (callee, args) => this.call(callee, args, node.span)));
+      case 'call': {
+        const callee = this.evaluate(node.callee, env);
+        const args = node.args.map(arg => this.evaluate(arg, env));
+        return this.call(callee, args, node.span);
+      }
+      case 'index':
+        return this.index(this.evaluate(node.object, env), this.evaluate(node.index, env), node.span);
+      case 'member':
+        return this.member(this.evaluate(node.object, env), node.name, node.span);
+      case 'lambda':
+        return { kind: 'closure', name: 'λ', params: node.params, body: node.body, env };
+      case 'if':
+        if (isTruthy(this.evaluate(node.condition, env))) return this.evaluate(node.then, env);
+        return node.otherwise ? this.evaluate(node.otherwise, env) : null;
+    }
+  }
+
+  /**
+   * Attach a span to errors raised without one (builtins, navigation)
+   */
+  private withSpan<T>(span: Span | null, run: () => T): T {
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof NavLambdaError && error.span === null && span !== null) {
+        throw new NavLambdaError(error.message, span, error.ename);
+      }
+      throw error;
+    }
+  }
+
+  private call(callee: NavValue, args: NavValue[], span: Span | null): NavValue {
+    if (isField(callee)) {
+      const point = asPoint(args[0]);
+      if (args.length !== 1 || !point) throw new NavLambdaError('A navigation field takes one point', span, 'TypeError');
+      return potential(callee, point);
+    }
+    if (callee === null || typeof callee !== 'object' || Array.isArray(callee) || isRecord(callee) || isPath(callee)) {
+      throw new NavLambdaError(`'${typeOf(callee)}' value is not callable`, span, 'TypeError');
+    }
+    if (callee.kind === 'builtin') return this.withSpan(span, () => callee.call(args));
+
+    if (args.length !== callee.params.length) {
+      throw new NavLambdaError(
+        `${callee.name}() takes ${callee.params.length} argument${callee.params.length === 1 ? '' : 's'} but ${args.length} ${args.length === 1 ? 'was' : 'were'} given`,
+        span,
+        'TypeError',
+      );
+    }
+    if (this.depth >= MAX_DEPTH) throw new NavLambdaError('Maximum recursion depth exceeded', span, 'RecursionError');
+
+    const scope = new Environment(callee.env);
+    callee.params.forEach((param, i) => scope.define(param, args[i]));
+    this.depth++;
+    try {
+      return this.evaluate(callee.body, scope);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private binary(operator: string, left: NavValue, right: NavValue, span: Span): NavValue {
+    if (operator === '==') return valuesEqual(left, right);
+    if (operator === '!=') return !valuesEqual(left, right);
+
+    if (operator in COMPARISON) {
+      if ((typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string')) {
+        return COMPARISON[operator](left, right);
+      }
+      throw new NavLambdaError(`'${operator}' not supported between ${typeOf(left)} and ${typeOf(right)}`, span, 'TypeError');
+    }
+
+    if (operator === '·') {
+      if (!Array.isArray(left) || !Array.isArray(right)) {
+        throw new NavLambdaError(`'·' needs two vectors, got ${typeOf(left)} and ${typeOf(right)}`, span, 'TypeError');
+      }
+      const products = this.arithmetic('*', left, right, span) as NavValue[];
+      return products.reduce<number>((sum, item) => sum + (item as number), 0);
+    }
+
+    if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+      return displayValue(left) + displayValue(right);
+    }
+    return this.arithmetic(operator, left, right, span);
+  }
+
+  /**
+   * Element-wise arithmetic; scalars broadcast over vectors
+   */
+  private arithmetic(operator: string, left: NavValue, right: NavValue, span: Span): NavValue {
+    if (typeof left === 'number' && typeof right === 'number') {
+      if ((operator === '/' || operator === '%') && right === 0) {
+        throw new NavLambdaError(operator === '/' ? 'division by zero' : 'modulo by zero', span, 'ZeroDivisionError');
+      }
+      return ARITHMETIC[operator](left, right);
+    }
+    if (Array.isArray(left) && Array.isArray(right)) {
+      if (left.length !== right.length) {
+        throw new NavLambdaError(`'${operator}' needs vectors of equal length, got ${left.length} and ${right.length}`, span, 'ValueError');
+      }
+      return left.map((item, i) => this.arithmetic(operator, item, right[i], span));
+    }
+    if (Array.isArray(left) && typeof right === 'number') return left.map(item => this.arithmetic(operator, item, right, span));
+    if (typeof left === 'number' && Array.isArray(right)) return right.map(item => this.arithmetic(operator, left, item, span));
+    throw new NavLambdaError(`'${operator}' not supported between ${typeOf(left)} and ${typeOf(right)}`, span, 'TypeError');
+  }
+
+  private index(object: NavValue, index: NavValue, span: Span): NavValue {
+    if (isRecord(object)) {
+      if (typeof index !== 'string') throw new NavLambdaError(`Record keys are strings, got ${typeOf(index)}`, span, 'TypeError');
+      return this.member(object, index, span);
+    }
+    const items = Array.isArray(object) ? object : typeof object === 'string' ? Array.from(object) : isPath(object) ? object.points : null;
+    if (!items) throw new NavLambdaError(`'${typeOf(object)}' value is not indexable`, span, 'TypeError');
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      throw new NavLambdaError(`Indices must be integers, got ${formatValue(index)}`, span, 'TypeError');
+    }
+    const position = index < 0 ? items.length + index : index;
+    if (position < 0 || position >= items.length) {
+      throw new NavLambdaError(`Index ${index} out of range for length ${items.length}`, span, 'IndexError');
+    }
+    return items[position];
+  }
+
+  private member(object: NavValue, name: string, span: Span): NavValue {
+    if (isRecord(object)) {
+      if (!object.has(name)) throw new NavLambdaError(`Record has no key '${name}'`, span, 'KeyError');
+      return object.get(name)!;
+    }
+    if (Array.isArray(object)) {
+      const axis = ['x', 'y', 'z'].indexOf(name);
+      if (axis !== -1) return this.index(object, axis, span);
+    }
+    if (isPath(object)) {
+      switch (name) {
+        case 'points':
+          return object.points;
+        case 'length':
+          return object.length;
+        case 'start':
+          return object.points[0] ?? null;
+        case 'end':
+          return object.points[object.points.length - 1] ?? null;
+        case 'reached':
+          return object.reached;
+      }
+    }
+    if (isField(object)) {
+      switch (name) {
+        case 'goal':
+          return object.goal;
+        case 'obstacles':
+          return object.obstacles.map(obstacle => new Map<string, NavValue>([['type', 'obstacle'], ['center', obstacle.center], ['radius', obstacle.radius]]));
+        case 'attraction':
+        case 'repulsion':
+        case 'influence':
+          return object[name];
+      }
+    }
+    throw new NavLambdaError(`'${typeOf(object)}' value has no member '${name}'`, span, 'AttributeError');
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * NAVΛ Lexer
+ *
+ * Turns NAVΛ source into tokens. Newlines are kept as tokens because they end
+ * statements; the parser ignores them inside brackets. Identifiers may carry
+ * a trailing `⋋` (navigate_to⋋), and the Unicode operators have ASCII
+ * spellings where one exists (→ / ->, ≤ / <=, ∧ / and, ...).
+ */
+
+import { NavLambdaSyntaxError, Span } from './errors';
+
+export type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'newline' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  span: Span;
+}
+
+export const KEYWORDS = new Set(['let', 'fn', 'if', 'else', 'true', 'false', 'null', 'and', 'or', 'not']);
+
+// Longest first, so `->` wins over `-`
+const OPERATORS = [
+  '->', '|>', '==', '!=', '<=', '>=', '&&', '||',
+  '→', '≤', '≥', '≠', '∧', '∨', '¬', '⊕', '⊗', '·', '∇', '⋋', 'λ',
+  '+', '-', '*', '/', '%', '^', '<', '>', '=', '!', '(', ')', '[', ']', '{', '}', ',', ':', ';', '.',
+];
+
+const NUMBER = /(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?/y;
+// λ is a letter, but here it introduces a lambda
+const IDENTIFIER = /(?!λ)[\p{L}_][\p{L}\p{N}_]*⋋?/uy;
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '\\': '\\', '"': '"', "'": "'" };
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const push = (type: TokenType, value: string, start: number) => {
+    tokens.push({ type, value, span: { start, end: pos } });
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+    const start = pos;
+
+    if (char === '\n') {
+      pos++;
+      // Blank lines collapse into one separator
+      if (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') push('newline', '\n', start);
+      continue;
+    }
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+    if (char === '#' || (char === '/' && source[pos + 1] === '/')) {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      pos++;
+      let text = '';
+      while (pos < source.length && source[pos] !== char && source[pos] !== '\n') {
+        if (source[pos] === '\\') {
+          const escape = source[pos + 1];
+          if (escape === 'u' && source[pos + 2] === '{') {
+            const close = source.indexOf('}', pos + 3);
+            const code = close === -1 ? NaN : parseInt(source.slice(pos + 3, close), 16);
+            if (Number.isNaN(code) || code > 0x10ffff) {
+              throw new NavLambdaSyntaxError('Invalid unicode escape', { start: pos, end: close === -1 ? pos + 2 : close + 1 });
+            }
+            text += String.fromCodePoint(code);
+            pos = close + 1;
+            continue;
+          }
+          if (!(escape in ESCAPES)) {
+            throw new NavLambdaSyntaxError(`Unknown escape sequence \\${escape ?? ''}`, { start: pos, end: pos + 2 });
+          }
+          text += ESCAPES[escape];
+          pos += 2;
+          continue;
+        }
+        text += source[pos++];
+      }
+      if (source[pos] !== char) {
+        throw new NavLambdaSyntaxError('Unterminated string', { start, end: pos });
+      }
+      pos++;
+      push('string', text, start);
+      continue;
+    }
+
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(source);
+    if (number && /[\d.]/.test(char)) {
+      pos += number[0].length;
+      push('number', number[0], start);
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = pos;
+    const identifier = IDENTIFIER.exec(source);
+    if (identifier) {
+      pos += identifier[0].length;
+      push(KEYWORDS.has(identifier[0]) ? 'keyword' : 'identifier', identifier[0], start);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      pos += operator.length;
+      push('operator', operator, start);
+      continue;
+    }
+
+    const codePoint = String.fromCodePoint(source.codePointAt(pos)!);
+    throw new NavLambdaSyntaxError(`Unexpected character '${codePoint}'`, { start, end: start + codePoint.length });
+  }
+
+  tokens.push({ type: 'eof', value: '', span: { start: pos, end: pos } });
+  return tokens;
+}
@@ -0,0 +1,313 @@
+/**
+ * NAVΛ Navigation
+ *
+ * Navigation fields and path planning behind the ⋋ builtins. A field is an
+ * attractive quadratic well at the goal plus a repulsive barrier around each
+ * obstacle; navigate_to⋋ plans a shortest obstacle-free path with A* on a grid
+ * and then pulls the string tight, descend⋋ follows the field's gradient.
+ * Planning happens in the xy-plane; 3D points get z interpolated along the way.
+ */
+
+import { NavLambdaError } from './errors';
+
+export interface Obstacle {
+  center: number[];
+  radius: number;
+}
+
+export interface NavField {
+  kind: 'field';
+  goal: number[];
+  obstacles: Obstacle[];
+  attraction: number;
+  repulsion: number;
+  influence: number; // distance from an obstacle's surface where repulsion fades out
+}
+
+export interface NavPath {
+  kind: 'path';
+  points: number[][];
+  length: number;
+  reached: boolean;
+}
+
+export interface PlanOptions {
+  clearance?: number;
+  resolution?: number; // grid cells along the longest side
+}
+
+const MAX_GRID_CELLS = 250_000;
+// Keeps the barrier finite inside obstacles so plots and descent stay usable
+const MIN_SURFACE_DISTANCE = 1e-3;
+
+const component = (point: number[], axis: number): number => point[axis] ?? 0;
+
+export const distance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let axis = 0; axis < Math.max(a.length, b.length); axis++) {
+    sum += (component(a, axis) - component(b, axis)) ** 2;
+  }
+  return Math.sqrt(sum);
+};
+
+const planarDistance = (a: number[], b: number[]): number => Math.hypot(a[0] - b[0], component(a, 1) - component(b, 1));
+
+export function pathLength(points: number[][]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i]);
+  return length;
+}
+
+export function makePath(points: number[][], reached: boolean): NavPath {
+  return { kind: 'path', points, length: pathLength(points), reached };
+}
+
+export function createField(goal: number[], obstacles: Obstacle[], options: Partial<Pick<NavField, 'attraction' | 'repulsion' | 'influence'>> = {}): NavField {
+  return {
+    kind: 'field',
+    goal,
+    obstacles,
+    attraction: options.attraction ?? 1,
+    repulsion: options.repulsion ?? 1,
+    influence: options.influence ?? 1,
+  };
+}
+
+/**
+ * Potential of the field at a point
+ */
+export function potential(field: NavField, point: number[]): number {
+  let value = 0.5 * field.attraction * distance(point, field.goal) ** 2;
+  for (const obstacle of field.obstacles) {
+    const surface = Math.max(distance(point, obstacle.center) - obstacle.radius, MIN_SURFACE_DISTANCE);
+    if (surface < field.influence) {
+      value += 0.5 * field.repulsion * (1 / surface - 1 / field.influence) ** 2;
+    }
+  }
+  return value;
+}
+
+/**
+ * Analytic gradient of the potential; same dimension as the point
+ */
+export function gradient(field: NavField, point: number[]): number[] {
+  const result = point.map((value, axis) => field.attraction * (value - component(field.goal, axis)));
+  for (const obstacle of field.obstacles) {
+    const centerDistance = distance(point, obstacle.center);
+    const surface = Math.max(centerDistance - obstacle.radius, MIN_SURFACE_DISTANCE);
+    if (surface >= field.influence || centerDistance === 0) continue;
+    const magnitude = field.repulsion * (1 / surface - 1 / field.influence) / surface ** 2;
+    point.forEach((value, axis) => {
+      result[axis] -= magnitude * (value - component(obstacle.center, axis)) / centerDistance;
+    });
+  }
+  return result;
+}
+
+const insideObstacle = (field: NavField, point: number[], clearance: number): Obstacle | undefined =>
+  field.obstacles.find(obstacle => planarDistance(point, obstacle.center) < obstacle.radius + clearance);
+
+// Whether the segment a→b stays clear of every obstacle (in the plane)
+const segmentClear = (field: NavField, a: number[], b: number[], clearance: number): boolean => {
+  const dx = b[0] - a[0];
+  const dy = component(b, 1) - component(a, 1);
+  const lengthSquared = dx * dx + dy * dy;
+  return field.obstacles.every(obstacle => {
+    const cx = obstacle.center[0] - a[0];
+    const cy = component(obstacle.center, 1) - component(a, 1);
+    const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, (cx * dx + cy * dy) / lengthSquared));
+    return Math.hypot(cx - t * dx, cy - t * dy) >= obstacle.radius + clearance;
+  });
+};
+
+/**
+ * Min-heap of grid cells keyed by f-score
+ */
+class CellHeap {
+  private cells: number[] = [];
+
+  constructor(private scores: Float64Array) {}
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number): void {
+    const cells = this.cells;
+    cells.push(cell);
+    let i = cells.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[cells[parent]] <= this.scores[cells[i]]) break;
+      [cells[parent], cells[i]] = [cells[i], cells[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const cells = this.cells;
+    const top = cells[0];
+    const last = cells.pop()!;
+    if (cells.length > 0) {
+      cells[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < cells.length && this.scores[cells[left]] < this.scores[cells[smallest]]) smallest = left;
+        if (right < cells.length && this.scores[cells[right]] < this.scores[cells[smallest]]) smallest = right;
+        if (smallest === i) break;
+        [cells[smallest], cells[i]] = [cells[i], cells[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const NEIGHBOURS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+/**
+ * Shortest obstacle-free path from start to the field's goal
+ */
+export function planPath(field: NavField, start: number[], options: PlanOptions = {}): NavPath {
+  const goal = field.goal;
+  const clearance = options.clearance ?? 0;
+  for (const [label, point] of [['Start', start], ['Goal', goal]] as const) {
+    const obstacle = insideObstacle(field, point, clearance);
+    if (obstacle) {
+      throw new NavLambdaError(`${label} [${point.join(', ')}] lies inside the obstacle at [${obstacle.center.join(', ')}]`, null);
+    }
+  }
+
+  const finish = (points: number[][], reached: boolean): NavPath => {
+    // Planning is planar; carry z along proportionally to the distance travelled
+    if (start.length > 2 || goal.length > 2) {
+      const planar = points.map((point, i) => (i === 0 ? 0 : planarDistance(point, points[i - 1])));
+      const total = planar.reduce((sum, step) => sum + step, 0);
+      let travelled = 0;
+      points = points.map((point, i) => {
+        travelled += planar[i];
+        const t = total === 0 ? 1 : travelled / total;
+        return [point[0], point[1], component(start, 2) + t * (component(goal, 2) - component(start, 2))];
+      });
+    }
+    return makePath(points, reached);
+  };
+
+  if (segmentClear(field, start, goal, clearance)) return finish([start.slice(0, 2), goal.slice(0, 2)], true);
+
+  // Grid over everything involved, with a margin to route around obstacles on the edge
+  const xs = [start[0], goal[0]];
+  const ys = [component(start, 1), component(goal, 1)];
+  for (const obstacle of field.obstacles) {
+    const reach = obstacle.radius + clearance;
+    xs.push(obstacle.center[0] - reach, obstacle.center[0] + reach);
+    ys.push(component(obstacle.center, 1) - reach, component(obstacle.center, 1) + reach);
+  }
+  const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys), 1e-6);
+  const margin = extent * 0.1;
+  const minX = Math.min(...xs) - margin;
+  const minY = Math.min(...ys) - margin;
+  const span = extent + 2 * margin;
+  const resolution = Math.max(8, Math.min(options.resolution ?? 160, Math.floor(Math.sqrt(MAX_GRID_CELLS))));
+  const step = span / resolution;
+  const width = Math.ceil((Math.max(...xs) + margin - minX) / step) + 1;
+  const height = Math.ceil((Math.max(...ys) + margin - minY) / step) + 1;
+
+  const toPoint = (cell: number): number[] => [minX + (cell % width) * step, minY + Math.floor(cell / width) * step];
+  const toCell = (point: number[]): number =>
+    Math.min(height - 1, Math.max(0, Math.round((component(point, 1) - minY) / step))) * width +
+    Math.min(width - 1, Math.max(0, Math.round((point[0] - minX) / step)));
+
+  const blocked = new Uint8Array(width * height);
+  for (let cell = 0; cell < blocked.length; cell++) {
+    if (insideObstacle(field, toPoint(cell), clearance)) blocked[cell] = 1;
+  }
+  const startCell = toCell(start);
+  const goalCell = toCell(goal);
+  blocked[startCell] = 0;
+  blocked[goalCell] = 0;
+
+  const costs = new Float64Array(width * height).fill(Infinity);
+  const scores = new Float64Array(width * height).fill(Infinity);
+  const previous = new Int32Array(width * height).fill(-1);
+  const closed = new Uint8Array(width * height);
+  const heuristic = (cell: number) => planarDistance(toPoint(cell), toPoint(goalCell));
+  const open = new CellHeap(scores);
+
+  costs[startCell] = 0;
+  scores[startCell] = heuristic(startCell);
+  open.push(startCell);
+
+  while (open.size > 0) {
+    const cell = open.pop();
+    if (cell === goalCell) break;
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+    const cx = cell % width;
+    const cy = Math.floor(cell / width);
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = ny * width + nx;
+      if (blocked[next] || closed[next]) continue;
+      // No cutting corners past a blocked cell
+      if (dx !== 0 && dy !== 0 && (blocked[cy * width + nx] || blocked[ny * width + cx])) continue;
+      const cost = costs[cell] + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1) * step;
+      if (cost < costs[next]) {
+        costs[next] = cost;
+        previous[next] = cell;
+        scores[next] = cost + heuristic(next);
+        open.push(next);
+      }
+    }
+  }
+
+  if (previous[goalCell] === -1) {
+    throw new NavLambdaError(`No obstacle-free path from [${start.join(', ')}] to [${goal.join(', ')}]`, null);
+  }
+
+  const cells: number[] = [];
+  for (let cell = goalCell; cell !== -1; cell = previous[cell]) cells.push(cell);
+  cells.reverse();
+  const raw = [start.slice(0, 2), ...cells.slice(1, -1).map(toPoint), goal.slice(0, 2)];
+
+  // String-pull: keep only the waypoints the path can't see past
+  const points = [raw[0]];
+  let anchor = 0;
+  while (anchor < raw.length - 1) {
+    let next = raw.length - 1;
+    while (next > anchor + 1 && !segmentClear(field, raw[anchor], raw[next], clearance)) next--;
+    points.push(raw[next]);
+    anchor = next;
+  }
+  return finish(points, true);
+}
+
+/**
+ * Gradient descent on the field's potential from start
+ */
+export function followField(field: NavField, start: number[], stepSize = 0.05, maxSteps = 2000): NavPath {
+  const points = [start.slice()];
+  let point = start.slice();
+  for (let i = 0; i < maxSteps; i++) {
+    if (distance(point, field.goal) <= stepSize) {
+      points.push(field.goal.slice(0, point.length));
+      return makePath(points, true);
+    }
+    const slope = gradient(field, point);
+    const magnitude = Math.hypot(...slope);
+    // Stuck in a local minimum
+    if (magnitude < 1e-9) break;
+    point = point.map((value, axis) => value - (stepSize * slope[axis]) / magnitude);
+    points.push(point);
+  }
+  return makePath(points, false);
+}
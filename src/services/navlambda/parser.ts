@@ -0,0 +1,425 @@
+/**
+ * NAVΛ Parser
+ *
+ * Recursive-descent parser for the NAVΛ core language. Operator precedence,
+ * loosest first:
+ *
+ *   |>            pipe: `x |> f(y)` is `f(x, y)`
+ *   or  ∨  ||
+ *   and ∧  &&
+ *   ==  !=  ≠
+ *   <  <=  ≤  >  >=  ≥
+ *   +  -  ⊕       (⊕: vector sum)
+ *   *  /  %  ⊗  · (⊗: element-wise product, ·: dot product)
+ *   -  not  ¬  !  (prefix)
+ *   ^             (right associative)
+ *   f(x)  v[i]  r.key  ∇F
+ */
+
+import type { Expression, Program, Statement } from './ast';
+import { NavLambdaSyntaxError, Span } from './errors';
+import { tokenize, Token } from './lexer';
+
+const BINARY_LEVELS: Record<string, string>[] = [
+  { '==': '==', '!=': '!=', '≠': '!=' },
+  { '<': '<', '<=': '<=', '≤': '<=', '>': '>', '>=': '>=', '≥': '>=' },
+  { '+': '+', '-': '-', '⊕': '⊕' },
+  { '*': '*', '/': '/', '%': '%', '⊗': '⊗', '·': '·' },
+];
+
+const describe = (token: Token): string => {
+  if (token.type === 'eof') return 'end of input';
+  if (token.type === 'newline') return 'end of line';
+  return `'${token.value}'`;
+};
+
+const spanOf = (from: { span: Span }, to: { span: Span }): Span => ({ start: from.span.start, end: to.span.end });
+
+class Parser {
+  private pos = 0;
+  // Inside ( ) [ ] and record literals, newlines don't end statements
+  private nesting = 0;
+  private lastToken: Token;
+
+  constructor(private tokens: Token[]) {
+    this.lastToken = tokens[0];
+  }
+
+  private peek(): Token {
+    if (this.nesting > 0) this.skipNewlines();
+    return this.tokens[this.pos];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    this.lastToken = token;
+    return token;
+  }
+
+  private skipNewlines(): void {
+    while (this.tokens[this.pos].type === 'newline') this.pos++;
+  }
+
+  private isOperator(value: string, token = this.peek()): boolean {
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private isKeyword(value: string, token = this.peek()): boolean {
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private matchOperator(...values: string[]): Token | null {
+    const token = this.peek();
+    return token.type === 'operator' && values.includes(token.value) ? this.advance() : null;
+  }
+
+  private expectOperator(value: string, context: string): Token {
+    const token = this.peek();
+    if (!this.isOperator(value, token)) {
+      throw new NavLambdaSyntaxError(`Expected '${value}' ${context}, found ${describe(token)}`, token.span);
+    }
+    return this.advance();
+  }
+
+  private expectIdentifier(context: string): Token {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw new NavLambdaSyntaxError(`Expected a name ${context}, found ${describe(token)}`, token.span);
+    }
+    return this.advance();
+  }
+
+  /**
+   * Run a parse step with newline handling switched on or off
+   */
+  private withNesting<T>(nesting: number, parse: () => T): T {
+    const saved = this.nesting;
+    this.nesting = nesting;
+    try {
+      return parse();
+    } finally {
+      this.nesting = saved;
+    }
+  }
+
+  parseProgram(): Program {
+    return { body: this.parseStatements('eof') };
+  }
+
+  private parseStatements(end: 'eof' | '}'): Statement[] {
+    const body: Statement[] = [];
+    const atEnd = (token: Token) => (end === 'eof' ? token.type === 'eof' : this.isOperator('}', token));
+    const skipSeparators = () => {
+      while (this.tokens[this.pos].type === 'newline' || this.isOperator(';', this.tokens[this.pos])) this.pos++;
+    };
+
+    skipSeparators();
+    while (!atEnd(this.tokens[this.pos])) {
+      const token = this.tokens[this.pos];
+      if (token.type === 'eof') {
+        throw new NavLambdaSyntaxError("Expected '}' to close the block, found end of input", token.span);
+      }
+      body.push(this.parseStatement());
+
+      const next = this.tokens[this.pos];
+      if (next.type === 'newline' || this.isOperator(';', next)) {
+        skipSeparators();
+      } else if (!atEnd(next)) {
+        throw new NavLambdaSyntaxError(`Unexpected ${describe(next)} after statement`, next.span);
+      }
+    }
+    return body;
+  }
+
+  private parseStatement(): Statement {
+    const start = this.peek();
+
+    if (this.isKeyword('let', start)) {
+      this.advance();
+      const name = this.expectIdentifier("after 'let'").value;
+      this.expectOperator('=', `after 'let ${name}'`);
+      const value = this.parseExpression();
+      return { kind: 'let', name, value, span: spanOf(start, value) };
+    }
+
+    if (this.isKeyword('fn', start)) {
+      this.advance();
+      const name = this.expectIdentifier("after 'fn'").value;
+      this.expectOperator('(', `after 'fn ${name}'`);
+      const params = this.withNesting(1, () => this.parseParams(')'));
+      this.expectOperator(')', 'to close the parameter list');
+      let body: Expression;
+      if (this.matchOperator('=')) {
+        body = this.parseExpression();
+      } else if (this.isOperator('{')) {
+        body = this.parseBlock();
+      } else {
+        const token = this.peek();
+        throw new NavLambdaSyntaxError(`Expected '=' or '{' after the parameters of ${name}, found ${describe(token)}`, token.span);
+      }
+      return { kind: 'fn', name, params, body, span: spanOf(start, body) };
+    }
+
+    const expression = this.parseExpression();
+    return { kind: 'expression', expression, span: expression.span };
+  }
+
+  private parseParams(end: string): string[] {
+    const params: string[] = [];
+    while (!this.isOperator(end)) {
+      const token = this.expectIdentifier('for a parameter');
+      if (params.includes(token.value)) {
+        throw new NavLambdaSyntaxError(`Duplicate parameter '${token.value}'`, token.span);
+      }
+      params.push(token.value);
+      if (!this.matchOperator(',')) break;
+    }
+    return params;
+  }
+
+  parseExpression(): Expression {
+    let left = this.parseOr();
+    while (this.matchOperator('|>')) {
+      this.skipNewlines();
+      const right = this.parseOr();
+      left = right.kind === 'call'
+        ? { kind: 'call', callee: right.callee, args: [left, ...right.args], span: spanOf(left, right) }
+        : { kind: 'call', callee: right, args: [left], span: spanOf(left, right) };
+    }
+    return left;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or') || this.isOperator('||') || this.isOperator('∨')) {
+      this.advance();
+      this.skipNewlines();
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'or', left, right, span: spanOf(left, right) };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseBinary(0);
+    while (this.isKeyword('and') || this.isOperator('&&') || this.isOperator('∧')) {
+      this.advance();
+      this.skipNewlines();
+      const right = this.parseBinary(0);
+      left = { kind: 'logical', operator: 'and', left, right, span: spanOf(left, right) };
+    }
+    return left;
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level === BINARY_LEVELS.length) return this.parseUnary();
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = token.type === 'operator' ? BINARY_LEVELS[level][token.value] : undefined;
+      if (!operator) return left;
+      this.advance();
+      this.skipNewlines();
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator, left, right, span: spanOf(left, right) };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (this.isOperator('-', token) || this.isOperator('!', token) || this.isOperator('¬', token) || this.isKeyword('not', token)) {
+      this.advance();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: token.value === '-' ? '-' : '!', operand, span: spanOf(token, operand) };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expression {
+    const base = this.parsePostfix();
+    if (this.matchOperator('^')) {
+      this.skipNewlines();
+      const exponent = this.parseUnary();
+      return { kind: 'binary', operator: '^', left: base, right: exponent, span: spanOf(base, exponent) };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.matchOperator('(')) {
+        const args = this.withNesting(this.nesting + 1, () => {
+          const list: Expression[] = [];
+          while (!this.isOperator(')')) {
+            list.push(this.parseExpression());
+            if (!this.matchOperator(',')) break;
+          }
+          this.expectOperator(')', 'to close the argument list');
+          return list;
+        });
+        expression = { kind: 'call', callee: expression, args, span: spanOf(expression, this.lastToken) };
+      } else if (this.matchOperator('[')) {
+        const index = this.withNesting(this.nesting + 1, () => {
+          const value = this.parseExpression();
+          this.expectOperator(']', 'to close the index');
+          return value;
+        });
+        expression = { kind: 'index', object: expression, index, span: spanOf(expression, this.lastToken) };
+      } else if (this.isOperator('.')) {
+        expression = this.parseMember(expression);
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseMember(object: Expression): Expression {
+    this.expectOperator('.', 'before a member name');
+    const token = this.peek();
+    if (token.type !== 'identifier' && token.type !== 'keyword') {
+      throw new NavLambdaSyntaxError(`Expected a member name after '.', found ${describe(token)}`, token.span);
+    }
+    this.advance();
+    return { kind: 'member', object, name: token.value, span: spanOf(object, token) };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { kind: 'number', value: Number(token.value), span: token.span };
+      case 'string':
+        this.advance();
+        return { kind: 'string', value: token.value, span: token.span };
+      case 'identifier':
+        this.advance();
+        return { kind: 'identifier', name: token.value, span: token.span };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          this.advance();
+          return { kind: 'boolean', value: token.value === 'true', span: token.span };
+        }
+        if (token.value === 'null') {
+          this.advance();
+          return { kind: 'null', span: token.span };
+        }
+        if (token.value === 'if') return this.parseIf();
+        break;
+      case 'operator':
+        if (token.value === '(') {
+          this.advance();
+          return this.withNesting(this.nesting + 1, () => {
+            const inner = this.parseExpression();
+            this.expectOperator(')', 'to close the parenthesis');
+            return inner;
+          });
+        }
+        if (token.value === '[') return this.parseVector();
+        if (token.value === '{') return this.startsRecord() ? this.parseRecord() : this.parseBlock();
+        if (token.value === '⋋' || token.value === 'λ') return this.parseLambda();
+        if (token.value === '∇') {
+          this.advance();
+          // ∇F(p) applies the gradient of F at p, so the operand stops before calls
+          let operand = this.parsePrimary();
+          while (this.isOperator('.')) operand = this.parseMember(operand);
+          return { kind: 'gradient', operand, span: spanOf(token, operand) };
+        }
+        break;
+    }
+    throw new NavLambdaSyntaxError(`Unexpected ${describe(token)}`, token.span);
+  }
+
+  private parseVector(): Expression {
+    const open = this.expectOperator('[', 'to start a vector');
+    return this.withNesting(this.nesting + 1, () => {
+      const items: Expression[] = [];
+      while (!this.isOperator(']')) {
+        items.push(this.parseExpression());
+        if (!this.matchOperator(',')) break;
+      }
+      const close = this.expectOperator(']', 'to close the vector');
+      return { kind: 'vector', items, span: spanOf(open, close) };
+    });
+  }
+
+  /**
+   * `{` starts a record when it is empty or its first entry is `key:`; otherwise a block
+   */
+  private startsRecord(): boolean {
+    let pos = this.pos + 1;
+    while (this.tokens[pos].type === 'newline') pos++;
+    const first = this.tokens[pos];
+    if (this.isOperator('}', first)) return true;
+    const second = this.tokens[pos + 1];
+    return (first.type === 'identifier' || first.type === 'string' || first.type === 'keyword') && this.isOperator(':', second);
+  }
+
+  private parseRecord(): Expression {
+    const open = this.expectOperator('{', 'to start a record');
+    return this.withNesting(this.nesting + 1, () => {
+      const entries: { key: string; value: Expression }[] = [];
+      while (!this.isOperator('}')) {
+        const key = this.peek();
+        if (key.type !== 'identifier' && key.type !== 'string' && key.type !== 'keyword') {
+          throw new NavLambdaSyntaxError(`Expected a record key, found ${describe(key)}`, key.span);
+        }
+        this.advance();
+        this.expectOperator(':', `after the record key '${key.value}'`);
+        entries.push({ key: key.value, value: this.parseExpression() });
+        if (!this.matchOperator(',')) break;
+      }
+      const close = this.expectOperator('}', 'to close the record');
+      return { kind: 'record', entries, span: spanOf(open, close) };
+    });
+  }
+
+  private parseBlock(): Expression {
+    const open = this.expectOperator('{', 'to start a block');
+    return this.withNesting(0, () => {
+      const body = this.parseStatements('}');
+      const close = this.expectOperator('}', 'to close the block');
+      return { kind: 'block', body, span: spanOf(open, close) };
+    });
+  }
+
+  private parseIf(): Expression {
+    const start = this.advance();
+    const condition = this.parseExpression();
+    const then = this.parseBlock();
+    let otherwise: Expression | null = null;
+
+    // `else` may start the next line
+    let pos = this.pos;
+    while (this.tokens[pos].type === 'newline') pos++;
+    if (this.isKeyword('else', this.tokens[pos])) {
+      this.pos = pos;
+      this.advance();
+      otherwise = this.isKeyword('if') ? this.parseIf() : this.parseBlock();
+    }
+    return { kind: 'if', condition, then, otherwise, span: spanOf(start, otherwise ?? then) };
+  }
+
+  private parseLambda(): Expression {
+    const start = this.advance();
+    const params = this.parseParams('->');
+    const arrow = this.peek();
+    if (!this.isOperator('->', arrow) && !this.isOperator('→', arrow)) {
+      throw new NavLambdaSyntaxError(`Expected '->' after the lambda parameters, found ${describe(arrow)}`, arrow.span);
+    }
+    this.advance();
+    this.skipNewlines();
+    const body = this.parseExpression();
+    return { kind: 'lambda', params, body, span: spanOf(start, body) };
+  }
+}
+
+/**
+ * Parse a NAVΛ program; throws NavLambdaSyntaxError with the span of the problem
+ */
+export function parseNavLambda(source: string): Program {
+  return new Parser(tokenize(source)).parseProgram();
+}
@@ -0,0 +1,184 @@
+/**
+ * NAVΛ Plots
+ *
+ * Renders navigation values as SVG: fields become a potential heat map with
+ * descent arrows, paths become polylines, obstacles are discs and bare points
+ * are markers. World y points up.
+ */
+
+import { gradient, NavField, NavPath, Obstacle, potential } from './navigation';
+import { asObstacle, asPoint, isField, isPath, isRecord, NavValue } from './values';
+
+const WIDTH = 480;
+const PADDING = 24;
+const HEAT_CELLS = 48;
+const HEAT_LEVELS = 24;
+const ARROWS = 16;
+
+interface Scene {
+  fields: NavField[];
+  paths: NavPath[];
+  obstacles: Obstacle[];
+  points: number[][];
+}
+
+const collect = (value: NavValue, scene: Scene): void => {
+  if (isField(value)) {
+    scene.fields.push(value);
+    scene.obstacles.push(...value.obstacles);
+    return;
+  }
+  if (isPath(value)) {
+    scene.paths.push(value);
+    return;
+  }
+  const obstacle = asObstacle(value);
+  if (obstacle) {
+    scene.obstacles.push(obstacle);
+    return;
+  }
+  const point = asPoint(value);
+  if (point) {
+    scene.points.push(point);
+    return;
+  }
+  if (Array.isArray(value)) value.forEach(item => collect(item, scene));
+  else if (isRecord(value)) value.forEach(item => collect(item, scene));
+};
+
+/**
+ * Whether a cell result is worth drawing on its own
+ */
+export function isPlottable(value: NavValue): boolean {
+  if (isField(value) || isPath(value)) return true;
+  return Array.isArray(value) && value.some(item => isField(item) || isPath(item));
+}
+
+// Dark blue → teal → yellow
+const heatColor = (t: number): string => {
+  const stops = [[15, 23, 42], [13, 148, 136], [250, 204, 21]];
+  const scaled = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(scaled), stops.length - 2);
+  const mix = scaled - index;
+  const [r, g, b] = stops[index].map((channel, i) => Math.round(channel + (stops[index + 1][i] - channel) * mix));
+  return `rgb(${r},${g},${b})`;
+};
+
+const round = (value: number): string => String(Math.round(value * 10) / 10);
+
+/**
+ * SVG markup for the navigation values; throws when there is nothing to draw
+ */
+export function renderPlot(values: NavValue[]): string {
+  const scene: Scene = { fields: [], paths: [], obstacles: [], points: [] };
+  values.forEach(value => collect(value, scene));
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const include = (point: number[], reach = 0) => {
+    xs.push(point[0] - reach, point[0] + reach);
+    ys.push(point[1] - reach, point[1] + reach);
+  };
+  scene.fields.forEach(field => include(field.goal, field.influence));
+  scene.obstacles.forEach(obstacle => include(obstacle.center, obstacle.radius));
+  scene.paths.forEach(path => path.points.forEach(point => include(point)));
+  scene.points.forEach(point => include(point));
+  if (xs.length === 0) throw new Error('plot() needs a field, path, obstacle or point');
+
+  let minX = Math.min(...xs);
+  let maxX = Math.max(...xs);
+  let minY = Math.min(...ys);
+  let maxY = Math.max(...ys);
+  const margin = Math.max(maxX - minX, maxY - minY, 1) * 0.08;
+  minX -= margin;
+  maxX += margin;
+  minY -= margin;
+  maxY += margin;
+
+  const scale = (WIDTH - 2 * PADDING) / Math.max(maxX - minX, maxY - minY);
+  const height = Math.round((maxY - minY) * scale + 2 * PADDING);
+  const sx = (x: number) => PADDING + (x - minX) * scale;
+  const sy = (y: number) => height - PADDING - (y - minY) * scale;
+  const parts: string[] = [];
+
+  for (const field of scene.fields) {
+    const cellWidth = (maxX - minX) / HEAT_CELLS;
+    const cellHeight = (maxY - minY) / HEAT_CELLS;
+    const samples: number[] = [];
+    for (let row = 0; row < HEAT_CELLS; row++) {
+      for (let col = 0; col < HEAT_CELLS; col++) {
+        samples.push(Math.log1p(potential(field, [minX + (col + 0.5) * cellWidth, minY + (row + 0.5) * cellHeight])));
+      }
+    }
+    const low = Math.min(...samples);
+    const range = Math.max(...samples) - low || 1;
+    // Quantised levels let neighbouring cells of a row merge into one rect
+    const levels = samples.map(sample => Math.round(((sample - low) / range) * HEAT_LEVELS));
+    for (let row = 0; row < HEAT_CELLS; row++) {
+      let col = 0;
+      while (col < HEAT_CELLS) {
+        const level = levels[row * HEAT_CELLS + col];
+        let run = 1;
+        while (col + run < HEAT_CELLS && levels[row * HEAT_CELLS + col + run] === level) run++;
+        const x = minX + col * cellWidth;
+        const y = minY + row * cellHeight;
+        parts.push(
+          `<rect x="${round(sx(x))}" y="${round(sy(y + cellHeight))}" width="${round(run * cellWidth * scale + 0.5)}" height="${round(cellHeight * scale + 0.5)}" fill="${heatColor(level / HEAT_LEVELS)}"/>`,
+        );
+        col += run;
+      }
+    }
+
+    const arrowLength = ((maxX - minX) / ARROWS) * 0.4;
+    for (let row = 0; row < ARROWS; row++) {
+      for (let col = 0; col < ARROWS; col++) {
+        const x = minX + ((col + 0.5) * (maxX - minX)) / ARROWS;
+        const y = minY + ((row + 0.5) * (maxY - minY)) / ARROWS;
+        if (field.obstacles.some(obstacle => Math.hypot(x - obstacle.center[0], y - obstacle.center[1]) < obstacle.radius)) continue;
+        const [gx, gy] = gradient(field, [x, y]);
+        const magnitude = Math.hypot(gx, gy);
+        if (magnitude < 1e-9) continue;
+        const tipX = x - (gx / magnitude) * arrowLength;
+        const tipY = y - (gy / magnitude) * arrowLength;
+        parts.push(
+          `<line x1="${round(sx(x))}" y1="${round(sy(y))}" x2="${round(sx(tipX))}" y2="${round(sy(tipY))}" stroke="rgba(255,255,255,0.55)" stroke-width="1" marker-end="url(#nav-arrow)"/>`,
+        );
+      }
+    }
+  }
+
+  for (const obstacle of scene.obstacles) {
+    parts.push(
+      `<circle cx="${round(sx(obstacle.center[0]))}" cy="${round(sy(obstacle.center[1]))}" r="${round(obstacle.radius * scale)}" fill="#475569" stroke="#cbd5e1" stroke-width="1.5"/>`,
+    );
+  }
+
+  for (const field of scene.fields) {
+    parts.push(
+      `<circle cx="${round(sx(field.goal[0]))}" cy="${round(sy(field.goal[1]))}" r="6" fill="#facc15" stroke="#0f172a" stroke-width="2"><title>goal</title></circle>`,
+    );
+  }
+
+  for (const path of scene.paths) {
+    if (path.points.length === 0) continue;
+    const points = path.points.map(point => `${round(sx(point[0]))},${round(sy(point[1]))}`).join(' ');
+    const [start, end] = [path.points[0], path.points[path.points.length - 1]];
+    parts.push(
+      `<polyline points="${points}" fill="none" stroke="#22d3ee" stroke-width="2.5" stroke-linejoin="round" stroke-linecap="round"/>`,
+      `<circle cx="${round(sx(start[0]))}" cy="${round(sy(start[1]))}" r="4.5" fill="#4ade80"><title>start</title></circle>`,
+      `<circle cx="${round(sx(end[0]))}" cy="${round(sy(end[1]))}" r="4.5" fill="${path.reached ? '#f8fafc' : '#f87171'}"><title>${path.reached ? 'end' : 'stopped'}</title></circle>`,
+    );
+  }
+
+  for (const point of scene.points) {
+    parts.push(`<circle cx="${round(sx(point[0]))}" cy="${round(sy(point[1]))}" r="3.5" fill="#e879f9"/>`);
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}">`,
+    '<defs><marker id="nav-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="5" markerHeight="5" orient="auto"><path d="M0,0 L6,3 L0,6 z" fill="rgba(255,255,255,0.7)"/></marker></defs>',
+    `<rect width="${WIDTH}" height="${height}" fill="#0f172a"/>`,
+    ...parts,
+    '</svg>',
+  ].join('');
+}
@@ -0,0 +1,158 @@
+/**
+ * NAVΛ Values
+ *
+ * Runtime values and their text/plain and application/json renderings.
+ * Vectors are plain arrays and records are Maps so key order is kept.
+ */
+
+import type { Expression } from './ast';
+import type { Environment } from './interpreter';
+import type { NavField, NavPath, Obstacle } from './navigation';
+
+export interface Closure {
+  kind: 'closure';
+  name: string;
+  params: string[];
+  body: Expression;
+  env: Environment;
+}
+
+export interface Builtin {
+  kind: 'builtin';
+  name: string;
+  call: (args: NavValue[]) => NavValue;
+}
+
+export type NavRecord = Map<string, NavValue>;
+
+export type NavValue =
+  | number
+  | string
+  | boolean
+  | null
+  | NavValue[]
+  | NavRecord
+  | Closure
+  | Builtin
+  | NavField
+  | NavPath;
+
+export type Callable = Closure | Builtin | NavField;
+
+const isTagged = (value: NavValue, kind: string): boolean =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) && value.kind === kind;
+
+export const isRecord = (value: NavValue): value is NavRecord => value instanceof Map;
+export const isVector = (value: NavValue): value is NavValue[] => Array.isArray(value);
+export const isField = (value: NavValue): value is NavField => isTagged(value, 'field');
+export const isPath = (value: NavValue): value is NavPath => isTagged(value, 'path');
+export const isCallable = (value: NavValue): value is Callable =>
+  isTagged(value, 'closure') || isTagged(value, 'builtin') || isTagged(value, 'field');
+
+/**
+ * A 2D or 3D point, or null when the value isn't one
+ */
+export function asPoint(value: NavValue | undefined): number[] | null {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3) return null;
+  return value.every(item => typeof item === 'number') ? (value as number[]) : null;
+}
+
+/**
+ * An obstacle record ({type: "obstacle", center, radius}), or null
+ */
+export function asObstacle(value: NavValue | undefined): Obstacle | null {
+  if (value === undefined || !isRecord(value) || value.get('type') !== 'obstacle') return null;
+  const center = asPoint(value.get('center'));
+  const radius = value.get('radius');
+  return center && typeof radius === 'number' ? { center, radius } : null;
+}
+
+export function isTruthy(value: NavValue): boolean {
+  if (value === null || value === false || value === 0 || value === '') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Type name used in error messages and by type()
+ */
+export function typeOf(value: NavValue): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'object') return typeof value;
+  if (Array.isArray(value)) return 'vector';
+  if (value instanceof Map) return 'record';
+  if (value.kind === 'closure' || value.kind === 'builtin') return 'function';
+  return value.kind;
+}
+
+const formatNumber = (value: number): string => {
+  if (Number.isInteger(value) || !Number.isFinite(value)) return String(value);
+  return String(Number(value.toPrecision(12)));
+};
+
+/**
+ * text/plain rendering
+ */
+export function formatValue(value: NavValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (value instanceof Map) {
+    return `{${Array.from(value, ([key, item]) => `${key}: ${formatValue(item)}`).join(', ')}}`;
+  }
+  switch (value.kind) {
+    case 'closure':
+      return `<fn ${value.name}(${value.params.join(', ')})>`;
+    case 'builtin':
+      return `<builtin ${value.name}>`;
+    case 'field':
+      return `<navigation field → ${formatValue(value.goal)}, ${value.obstacles.length} obstacle(s)>`;
+    case 'path':
+      return `<path ${value.points.length} waypoints, length ${formatNumber(value.length)}>`;
+  }
+}
+
+/**
+ * Like formatValue, but strings print without quotes (print, str)
+ */
+export function displayValue(value: NavValue): string {
+  return typeof value === 'string' ? value : formatValue(value);
+}
+
+/**
+ * Value for JSON from another language: objects become records
+ */
+export function fromJson(value: unknown): NavValue {
+  if (Array.isArray(value)) return value.map(fromJson);
+  if (value !== null && typeof value === 'object') {
+    return new Map(Object.entries(value).map(([key, item]) => [key, fromJson(item)]));
+  }
+  return value as number | string | boolean | null;
+}
+
+/**
+ * application/json rendering; non-finite numbers become null
+ */
+export function toJson(value: NavValue): unknown {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(toJson);
+  if (value instanceof Map) return Object.fromEntries(Array.from(value, ([key, item]) => [key, toJson(item)]));
+  switch (value.kind) {
+    case 'closure':
+      return { type: 'function', name: value.name, params: value.params };
+    case 'builtin':
+      return { type: 'builtin', name: value.name };
+    case 'field':
+      return {
+        type: 'navigation_field',
+        goal: toJson(value.goal),
+        obstacles: value.obstacles.map(obstacle => ({ center: toJson(obstacle.center), radius: obstacle.radius })),
+        attraction: value.attraction,
+        repulsion: value.repulsion,
+      };
+    case 'path':
+      return { type: 'path', points: toJson(value.points), length: toJson(value.length), reached: value.reached };
+  }
+}
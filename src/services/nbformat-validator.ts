@@ -0,0 +1,356 @@
+/**
+ * nbformat Validator
+ *
+ * Checks a parsed notebook against the nbformat 4.x JSON schema (minor versions 0–5).
+ * Violations of the schema are reported as errors with a JSON path and, when the
+ * notebook came from parseLosslessJson, a line/column. Properties the schema does
+ * not define are reported as warnings only — they are kept on save.
+ */
+
+import { getJsonLocation } from './lossless-json';
+
+export interface NotebookValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export const NBFORMAT_MAJOR = 4;
+export const NBFORMAT_LATEST_MINOR = 5;
+
+const CELL_ID_PATTERN = /^[a-zA-Z0-9-_]+$/;
+const MIME_TYPE_PATTERN = /^[a-zA-Z0-9]+\/[a-zA-Z0-9\-+.]+$/;
+const JSON_MIME_PATTERN = /^application\/(.*\+)?json$/;
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+const isMultilineString = (value: unknown): boolean =>
+  typeof value === 'string' || (Array.isArray(value) && value.every(line => typeof line === 'string'));
+
+class NotebookValidator {
+  private issues: NotebookValidationIssue[] = [];
+  private minor = NBFORMAT_LATEST_MINOR;
+
+  validate(notebook: unknown): NotebookValidationIssue[] {
+    this.issues = [];
+    if (!isRecord(notebook)) {
+      this.report('error', '', 'notebook must be a JSON object', null);
+      return this.issues;
+    }
+
+    this.requireKeys(notebook, '', ['metadata', 'nbformat_minor', 'nbformat', 'cells']);
+    this.checkUnknownKeys(notebook, '', ['metadata', 'nbformat_minor', 'nbformat', 'cells']);
+
+    if ('nbformat' in notebook && notebook.nbformat !== NBFORMAT_MAJOR) {
+      this.report('error', 'nbformat', `unsupported nbformat ${JSON.stringify(notebook.nbformat)}, expected ${NBFORMAT_MAJOR}`, notebook, 'nbformat');
+    }
+    if ('nbformat_minor' in notebook) {
+      if (!isInteger(notebook.nbformat_minor) || notebook.nbformat_minor < 0) {
+        this.report('error', 'nbformat_minor', 'must be a non-negative integer', notebook, 'nbformat_minor');
+      } else {
+        // Newer minors are validated against the latest schema we know
+        this.minor = Math.min(notebook.nbformat_minor, NBFORMAT_LATEST_MINOR);
+      }
+    }
+
+    if ('metadata' in notebook) {
+      this.checkNotebookMetadata(notebook.metadata, notebook);
+    }
+
+    if ('cells' in notebook) {
+      if (!Array.isArray(notebook.cells)) {
+        this.report('error', 'cells', 'must be an array', notebook, 'cells');
+      } else {
+        const seenIds = new Map<string, number>();
+        notebook.cells.forEach((cell, index) => this.checkCell(cell, index, notebook.cells as unknown[], seenIds));
+      }
+    }
+
+    return this.issues;
+  }
+
+  private report(
+    severity: NotebookValidationIssue['severity'],
+    path: string,
+    message: string,
+    container: object | null,
+    key?: string | number
+  ): void {
+    const location = container ? getJsonLocation(container, key) : undefined;
+    this.issues.push({
+      severity,
+      path,
+      message,
+      ...(location ? { line: location.line, column: location.column } : {}),
+    });
+  }
+
+  private requireKeys(value: JsonRecord, path: string, keys: string[]): void {
+    for (const key of keys) {
+      if (!(key in value)) {
+        this.report('error', path, `missing required property '${key}'`, value);
+      }
+    }
+  }
+
+  private checkUnknownKeys(value: JsonRecord, path: string, known: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        this.report('warning', join(path, key), 'property is not part of the nbformat schema and will be passed through', value, key);
+      }
+    }
+  }
+
+  private checkNotebookMetadata(metadata: unknown, notebook: JsonRecord): void {
+    if (!isRecord(metadata)) {
+      this.report('error', 'metadata', 'must be an object', notebook, 'metadata');
+      return;
+    }
+
+    if ('kernelspec' in metadata) {
+      const kernelspec = metadata.kernelspec;
+      if (!isRecord(kernelspec)) {
+        this.report('error', 'metadata.kernelspec', 'must be an object', metadata, 'kernelspec');
+      } else {
+        this.requireKeys(kernelspec, 'metadata.kernelspec', ['name', 'display_name']);
+        this.checkString(kernelspec, 'metadata.kernelspec', 'name');
+        this.checkString(kernelspec, 'metadata.kernelspec', 'display_name');
+      }
+    }
+
+    if ('language_info' in metadata) {
+      const info = metadata.language_info;
+      if (!isRecord(info)) {
+        this.report('error', 'metadata.language_info', 'must be an object', metadata, 'language_info');
+      } else {
+        this.requireKeys(info, 'metadata.language_info', ['name']);
+        for (const key of ['name', 'file_extension', 'mimetype', 'pygments_lexer']) {
+          this.checkString(info, 'metadata.language_info', key);
+        }
+        if ('codemirror_mode' in info && typeof info.codemirror_mode !== 'string' && !isRecord(info.codemirror_mode)) {
+          this.report('error', 'metadata.language_info.codemirror_mode', 'must be a string or an object', info, 'codemirror_mode');
+        }
+      }
+    }
+
+    if ('orig_nbformat' in metadata && (!isInteger(metadata.orig_nbformat) || metadata.orig_nbformat < 1)) {
+      this.report('error', 'metadata.orig_nbformat', 'must be an integer >= 1', metadata, 'orig_nbformat');
+    }
+    this.checkString(metadata, 'metadata', 'title');
+    if ('authors' in metadata && !Array.isArray(metadata.authors)) {
+      this.report('error', 'metadata.authors', 'must be an array', metadata, 'authors');
+    }
+  }
+
+  private checkCell(cell: unknown, index: number, cells: unknown[], seenIds: Map<string, number>): void {
+    const path = `cells[${index}]`;
+    if (!isRecord(cell)) {
+      this.report('error', path, 'cell must be an object', cells, index);
+      return;
+    }
+
+    const cellType = cell.cell_type;
+    if (cellType !== 'code' && cellType !== 'markdown' && cellType !== 'raw') {
+      this.report('error', join(path, 'cell_type'), `must be one of 'code', 'markdown', 'raw' (got ${JSON.stringify(cellType)})`, cell, 'cell_type');
+      return;
+    }
+
+    const required = cellType === 'code'
+      ? ['cell_type', 'metadata', 'source', 'outputs', 'execution_count']
+      : ['cell_type', 'metadata', 'source'];
+    const known = [...required];
+    if (cellType !== 'code' && this.minor >= 1) known.push('attachments');
+    if (this.minor >= 5) {
+      required.push('id');
+      known.push('id');
+    }
+    this.requireKeys(cell, path, required);
+    this.checkUnknownKeys(cell, path, known);
+
+    if ('id' in cell && this.minor >= 5) {
+      const id = cell.id;
+      if (typeof id !== 'string' || id.length < 1 || id.length > 64 || !CELL_ID_PATTERN.test(id)) {
+        this.report('error', join(path, 'id'), 'must be 1-64 characters of letters, digits, "-" or "_"', cell, 'id');
+      } else if (seenIds.has(id)) {
+        this.report('error', join(path, 'id'), `duplicate cell id '${id}' (also used by cells[${seenIds.get(id)}])`, cell, 'id');
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+
+    if ('source' in cell && !isMultilineString(cell.source)) {
+      this.report('error', join(path, 'source'), 'must be a string or an array of strings', cell, 'source');
+    }
+
+    if ('metadata' in cell) {
+      this.checkCellMetadata(cell.metadata, cell, path, cellType);
+    }
+
+    if ('attachments' in cell && known.includes('attachments')) {
+      this.checkAttachments(cell.attachments, cell, path);
+    }
+
+    if (cellType === 'code') {
+      const count = cell.execution_count;
+      if ('execution_count' in cell && count !== null && (!isInteger(count) || count < 0)) {
+        this.report('error', join(path, 'execution_count'), 'must be a non-negative integer or null', cell, 'execution_count');
+      }
+      if ('outputs' in cell) {
+        if (!Array.isArray(cell.outputs)) {
+          this.report('error', join(path, 'outputs'), 'must be an array', cell, 'outputs');
+        } else {
+          const outputs = cell.outputs;
+          outputs.forEach((output, i) => this.checkOutput(output, `${join(path, 'outputs')}[${i}]`, outputs, i));
+        }
+      }
+    }
+  }
+
+  private checkCellMetadata(metadata: unknown, cell: JsonRecord, path: string, cellType: string): void {
+    const metaPath = join(path, 'metadata');
+    if (!isRecord(metadata)) {
+      this.report('error', metaPath, 'must be an object', cell, 'metadata');
+      return;
+    }
+    this.checkString(metadata, metaPath, 'name');
+    if ('tags' in metadata) {
+      const tags = metadata.tags;
+      if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string' && !tag.includes(','))) {
+        this.report('error', join(metaPath, 'tags'), 'must be an array of strings without commas', metadata, 'tags');
+      } else if (new Set(tags).size !== tags.length) {
+        this.report('error', join(metaPath, 'tags'), 'tags must be unique', metadata, 'tags');
+      }
+    }
+    if ('jupyter' in metadata && !isRecord(metadata.jupyter)) {
+      this.report('error', join(metaPath, 'jupyter'), 'must be an object', metadata, 'jupyter');
+    }
+    if (cellType === 'raw') {
+      this.checkString(metadata, metaPath, 'format');
+    }
+    if (cellType === 'code') {
+      if ('execution' in metadata && !isRecord(metadata.execution)) {
+        this.report('error', join(metaPath, 'execution'), 'must be an object', metadata, 'execution');
+      }
+      if ('collapsed' in metadata && typeof metadata.collapsed !== 'boolean') {
+        this.report('error', join(metaPath, 'collapsed'), 'must be a boolean', metadata, 'collapsed');
+      }
+      if ('scrolled' in metadata && typeof metadata.scrolled !== 'boolean' && metadata.scrolled !== 'auto') {
+        this.report('error', join(metaPath, 'scrolled'), "must be a boolean or 'auto'", metadata, 'scrolled');
+      }
+    }
+  }
+
+  private checkAttachments(attachments: unknown, cell: JsonRecord, path: string): void {
+    const attachmentsPath = join(path, 'attachments');
+    if (!isRecord(attachments)) {
+      this.report('error', attachmentsPath, 'must be an object', cell, 'attachments');
+      return;
+    }
+    for (const [name, bundle] of Object.entries(attachments)) {
+      this.checkMimeBundle(bundle, join(attachmentsPath, name), attachments, name);
+    }
+  }
+
+  private checkOutput(output: unknown, path: string, outputs: unknown[], index: number): void {
+    if (!isRecord(output)) {
+      this.report('error', path, 'output must be an object', outputs, index);
+      return;
+    }
+
+    switch (output.output_type) {
+      case 'execute_result':
+        this.requireKeys(output, path, ['output_type', 'data', 'metadata', 'execution_count']);
+        this.checkUnknownKeys(output, path, ['output_type', 'data', 'metadata', 'execution_count']);
+        if ('execution_count' in output && output.execution_count !== null
+          && (!isInteger(output.execution_count) || output.execution_count < 0)) {
+          this.report('error', join(path, 'execution_count'), 'must be a non-negative integer or null', output, 'execution_count');
+        }
+        break;
+      case 'display_data':
+        this.requireKeys(output, path, ['output_type', 'data', 'metadata']);
+        this.checkUnknownKeys(output, path, ['output_type', 'data', 'metadata']);
+        break;
+      case 'stream':
+        this.requireKeys(output, path, ['output_type', 'name', 'text']);
+        this.checkUnknownKeys(output, path, ['output_type', 'name', 'text']);
+        this.checkString(output, path, 'name');
+        if ('text' in output && !isMultilineString(output.text)) {
+          this.report('error', join(path, 'text'), 'must be a string or an array of strings', output, 'text');
+        }
+        return;
+      case 'error':
+        this.requireKeys(output, path, ['output_type', 'ename', 'evalue', 'traceback']);
+        this.checkUnknownKeys(output, path, ['output_type', 'ename', 'evalue', 'traceback']);
+        this.checkString(output, path, 'ename');
+        this.checkString(output, path, 'evalue');
+        if ('traceback' in output
+          && (!Array.isArray(output.traceback) || !output.traceback.every(line => typeof line === 'string'))) {
+          this.report('error', join(path, 'traceback'), 'must be an array of strings', output, 'traceback');
+        }
+        return;
+      default:
+        this.report('error', join(path, 'output_type'),
+          `must be one of 'execute_result', 'display_data', 'stream', 'error' (got ${JSON.stringify(output.output_type)})`,
+          output, 'output_type');
+        return;
+    }
+
+    if ('data' in output) {
+      this.checkMimeBundle(output.data, join(path, 'data'), output, 'data');
+    }
+    if ('metadata' in output && !isRecord(output.metadata)) {
+      this.report('error', join(path, 'metadata'), 'must be an object', output, 'metadata');
+    }
+  }
+
+  private checkMimeBundle(bundle: unknown, path: string, container: object, key: string): void {
+    if (!isRecord(bundle)) {
+      this.report('error', path, 'mime bundle must be an object', container, key);
+      return;
+    }
+    for (const [mimeType, value] of Object.entries(bundle)) {
+      if (JSON_MIME_PATTERN.test(mimeType)) {
+        continue;
+      }
+      if (!MIME_TYPE_PATTERN.test(mimeType)) {
+        this.report('error', join(path, mimeType), 'is not a valid MIME type', bundle, mimeType);
+      } else if (!isMultilineString(value)) {
+        this.report('error', join(path, mimeType), 'must be a string or an array of strings', bundle, mimeType);
+      }
+    }
+  }
+
+  private checkString(value: JsonRecord, path: string, key: string): void {
+    if (key in value && typeof value[key] !== 'string') {
+      this.report('error', join(path, key), 'must be a string', value, key);
+    }
+  }
+}
+
+function join(path: string, key: string): string {
+  if (!path) return key;
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Validate a parsed notebook against the nbformat 4.x schema
+ */
+export function validateNotebook(notebook: unknown): NotebookValidationIssue[] {
+  return new NotebookValidator().validate(notebook);
+}
+
+/**
+ * Format an issue as "path: message (line L, column C)"
+ */
+export function formatValidationIssue(issue: NotebookValidationIssue): string {
+  const where = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : '';
+  return `${issue.path || '<root>'}: ${issue.message}${where}`;
+}
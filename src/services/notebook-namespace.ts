@@ -0,0 +1,168 @@
+/**
+ * Notebook Namespace
+ *
+ * The variables of a notebook session, across languages. After a cell runs,
+ * its runtime reports a snapshot of its globals; values that can be expressed
+ * as JSON are handed to the other runtimes before their next cell, so a
+ * Python dict becomes a JS object, a DataFrame becomes a SQL table, and so on.
+ * The most recent assignment wins: a variable belongs to the runtime that
+ * last changed it.
+ */
+
+// JavaScript and TypeScript cells share one sandbox, so they share a runtime here
+export type NamespaceRuntime = 'python' | 'javascript' | 'sql' | 'navlambda';
+
+export interface NamespaceVariable {
+  name: string;
+  runtime: NamespaceRuntime; // Runtime that last assigned it
+  type: string; // Type name in that runtime (dict, DataFrame, Array, table, ...)
+  size?: string; // Shape or length, e.g. "120×4" or "3 items"
+  preview: string;
+  json?: string; // Absent when the value can't be transferred (functions, modules, large values)
+  tabular?: boolean; // json is an array of row records (DataFrames, SQL tables)
+}
+
+// What a runtime reports about one of its globals
+export type VariableSnapshot = Omit<NamespaceVariable, 'runtime'>;
+
+// Values handed to a runtime before a cell runs
+export type NamespaceImport = Pick<NamespaceVariable, 'name' | 'json' | 'tabular'> & { json: string };
+
+// Larger values are listed but not transferred
+export const MAX_TRANSFER_CHARS = 1_000_000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Rows for a value that reads as a table: an array of records, or an object of
+ * equal-length columns. Returns null for anything else.
+ */
+export function toRecords(json: string): Record<string, unknown>[] | null {
+  const value: unknown = JSON.parse(json);
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(isPlainObject) ? value : null;
+  }
+  if (!isPlainObject(value)) return null;
+  const columns = Object.entries(value);
+  if (columns.length === 0 || !columns.every(([, column]) => Array.isArray(column))) return null;
+  const length = (columns[0][1] as unknown[]).length;
+  if (length === 0 || !columns.every(([, column]) => (column as unknown[]).length === length)) return null;
+  return Array.from({ length }, (_, row) =>
+    Object.fromEntries(columns.map(([name, column]) => [name, (column as unknown[])[row]]))
+  );
+}
+
+// Runtimes format JSON differently (1.0 vs 1, spacing); compare one canonical form
+const canonicalJson = (json: string | undefined): string | undefined => {
+  if (json === undefined || json.length > MAX_TRANSFER_CHARS) return undefined;
+  try {
+    return JSON.stringify(JSON.parse(json));
+  } catch {
+    return undefined;
+  }
+};
+
+class NotebookNamespace {
+  private sessions = new Map<string, Map<string, NamespaceVariable>>();
+  private listeners = new Set<(sessionId: string, variables: NamespaceVariable[]) => void>();
+
+  /**
+   * Every variable in the session, by name
+   */
+  list(sessionId: string): NamespaceVariable[] {
+    return Array.from(this.sessions.get(sessionId)?.values() ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(sessionId: string, name: string): NamespaceVariable | undefined {
+    return this.sessions.get(sessionId)?.get(name);
+  }
+
+  /**
+   * Transferable variables last assigned by other runtimes
+   */
+  importsFor(sessionId: string, runtime: NamespaceRuntime): NamespaceImport[] {
+    return this.list(sessionId)
+      .filter((variable): variable is NamespaceVariable & { json: string } =>
+        variable.runtime !== runtime && variable.json !== undefined)
+      .map(({ name, json, tabular }) => ({ name, json, ...(tabular ? { tabular } : {}) }));
+  }
+
+  /**
+   * Record a runtime's globals after a cell ran
+   *
+   * Imported values the cell left unchanged keep their original owner, and
+   * variables the runtime owned but no longer reports are removed.
+   */
+  update(sessionId: string, runtime: NamespaceRuntime, snapshot: VariableSnapshot[]): void {
+    let variables = this.sessions.get(sessionId);
+    if (!variables) {
+      if (snapshot.length === 0) return;
+      variables = new Map();
+      this.sessions.set(sessionId, variables);
+    }
+
+    const reported = new Set<string>();
+    for (const entry of snapshot) {
+      reported.add(entry.name);
+      const json = canonicalJson(entry.json);
+      const existing = variables.get(entry.name);
+      if (existing && existing.runtime !== runtime && existing.json !== undefined && existing.json === json) {
+        continue;
+      }
+      variables.set(entry.name, {
+        name: entry.name,
+        runtime,
+        type: entry.type,
+        ...(entry.size ? { size: entry.size } : {}),
+        preview: entry.preview,
+        ...(json !== undefined ? { json } : {}),
+        ...(json !== undefined && entry.tabular ? { tabular: true } : {}),
+      });
+    }
+    for (const [name, variable] of variables) {
+      if (variable.runtime === runtime && !reported.has(name)) {
+        variables.delete(name);
+      }
+    }
+    this.notify(sessionId);
+  }
+
+  /**
+   * Forget what one runtime holds in every session (its state was lost, e.g. the Python worker died)
+   */
+  clearRuntime(runtime: NamespaceRuntime): void {
+    Array.from(this.sessions.keys()).forEach(sessionId => this.update(sessionId, runtime, []));
+  }
+
+  /**
+   * Subscribe to namespace changes; returns an unsubscribe function
+   */
+  onChange(listener: (sessionId: string, variables: NamespaceVariable[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(sessionId: string): void {
+    const variables = this.list(sessionId);
+    this.listeners.forEach(listener => listener(sessionId, variables));
+  }
+
+  closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Clear every session (Restart Kernel)
+   */
+  reset(): void {
+    const sessionIds = Array.from(this.sessions.keys());
+    this.sessions.clear();
+    sessionIds.forEach(sessionId => this.notify(sessionId));
+  }
+}
+
+export const notebookNamespace = new NotebookNamespace();
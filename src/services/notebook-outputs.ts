@@ -0,0 +1,115 @@
+/**
+ * Notebook Output Helpers
+ *
+ * Builds a cell's output list incrementally from the messages a kernel emits
+ * while it runs, the way Jupyter front-ends do: consecutive writes to the same
+ * stream are merged, carriage returns overwrite the current line,
+ * update_display_data replaces earlier outputs that share a display id, and
+ * clear_output empties the list.
+ */
+
+import type { NotebookOutput } from './jupyter-notebook-service';
+
+export interface DisplayUpdate {
+  output_type: 'update_display_data';
+  data: NonNullable<NotebookOutput['data']>;
+  metadata?: Record<string, unknown>;
+  transient: { display_id: string };
+}
+
+export interface ClearOutput {
+  output_type: 'clear_output';
+  transient?: undefined;
+}
+
+// Anything a running cell can emit before it finishes
+export type OutputMessage = NotebookOutput | DisplayUpdate | ClearOutput;
+
+// A complete HTML document rendered in a sandboxed frame (HTML and CSS cells)
+export const HTML_PREVIEW_MIME = 'application/vnd.nava.preview+html';
+
+const textOf = (text: NotebookOutput['text']): string =>
+  Array.isArray(text) ? text.join('') : text || '';
+
+/**
+ * Apply terminal-style carriage returns: text after a `\r` overwrites the
+ * start of the current line. A trailing `\r` is kept so the next write can
+ * overwrite the line (progress bars).
+ */
+export function applyCarriageReturns(text: string): string {
+  if (!text.includes('\r')) {
+    return text;
+  }
+  return text
+    .replace(/\r+\n/g, '\n')
+    .split('\n')
+    .map(line => {
+      if (!line.includes('\r')) {
+        return line;
+      }
+      const parts = line.split('\r');
+      let current = '';
+      for (const part of parts) {
+        current = part + current.slice(part.length);
+      }
+      return line.endsWith('\r') ? `${current}\r` : current;
+    })
+    .join('\n');
+}
+
+/**
+ * Get the display id a live output was published under, if any
+ */
+export function displayIdOf(output: OutputMessage): string | undefined {
+  const transient = output.transient as { display_id?: unknown } | undefined;
+  return typeof transient?.display_id === 'string' ? transient.display_id : undefined;
+}
+
+/**
+ * Return a new output list with `message` applied
+ */
+export function appendOutput(outputs: NotebookOutput[], message: OutputMessage): NotebookOutput[] {
+  if (message.output_type === 'clear_output') {
+    return [];
+  }
+
+  if (message.output_type === 'update_display_data') {
+    const displayId = displayIdOf(message);
+    return outputs.map(output =>
+      displayId !== undefined && displayIdOf(output) === displayId
+        ? { ...output, data: message.data, metadata: message.metadata || {} }
+        : output
+    );
+  }
+
+  if (message.output_type === 'stream') {
+    const last = outputs[outputs.length - 1];
+    if (last && last.output_type === 'stream' && last.name === message.name) {
+      const merged = { ...last, text: applyCarriageReturns(textOf(last.text) + textOf(message.text)) };
+      return [...outputs.slice(0, -1), merged];
+    }
+    return [...outputs, { ...message, text: applyCarriageReturns(textOf(message.text)) }];
+  }
+
+  return [...outputs, message];
+}
+
+/**
+ * Drop the in-memory `transient` field, which nbformat does not store
+ *
+ * The list is returned unchanged when nothing needs stripping, so outputs
+ * loaded from a file keep their identity (and their original formatting).
+ */
+export function stripTransient(outputs: NotebookOutput[]): NotebookOutput[] {
+  if (!outputs.some(output => 'transient' in output)) {
+    return outputs;
+  }
+  return outputs.map(output => {
+    if (!('transient' in output)) {
+      return output;
+    }
+    const stored = { ...output };
+    delete stored.transient;
+    return stored;
+  });
+}
@@ -0,0 +1,214 @@
+/**
+ * Notebook Shortcuts
+ *
+ * Jupyter-style key bindings for the notebook panel. In command mode a cell is
+ * selected and single keys act on it (A, B, D D, ...); in edit mode keys go to
+ * the cell's editor and only modified keys are bound. Every command has
+ * default bindings that the user can remap; remaps are kept in localStorage.
+ *
+ * A binding is a sequence of chords separated by spaces, and a chord is its
+ * modifiers and key joined by "+": "Shift+Enter", "D D".
+ */
+
+const STORAGE_KEY = 'nava_notebook_shortcuts';
+
+export type ShortcutMode = 'command' | 'edit';
+
+export type NotebookCommand =
+  | 'enter-edit'
+  | 'command-mode'
+  | 'run-cell'
+  | 'run-cell-select-below'
+  | 'run-cell-insert-below'
+  | 'run-above'
+  | 'run-below'
+  | 'insert-above'
+  | 'insert-below'
+  | 'delete-cell'
+  | 'undo'
+  | 'redo'
+  | 'move-up'
+  | 'move-down'
+  | 'split-cell'
+  | 'merge-below'
+  | 'clear-outputs'
+  | 'to-code'
+  | 'to-markdown'
+  | 'to-raw'
+  | 'select-previous'
+  | 'select-next'
+  | 'interrupt'
+  | 'restart'
+  | 'save'
+  | 'show-shortcuts';
+
+export interface ShortcutDefinition {
+  command: NotebookCommand;
+  label: string;
+  modes: ShortcutMode[];
+  defaults: string[];
+}
+
+export const SHORTCUT_DEFINITIONS: readonly ShortcutDefinition[] = [
+  { command: 'enter-edit', label: 'Edit cell', modes: ['command'], defaults: ['Enter'] },
+  { command: 'command-mode', label: 'Leave the editor', modes: ['edit'], defaults: ['Escape'] },
+  { command: 'run-cell', label: 'Run cell', modes: ['command', 'edit'], defaults: ['Ctrl+Enter', 'Meta+Enter'] },
+  { command: 'run-cell-select-below', label: 'Run cell, select below', modes: ['command', 'edit'], defaults: ['Shift+Enter'] },
+  { command: 'run-cell-insert-below', label: 'Run cell, insert below', modes: ['command', 'edit'], defaults: ['Alt+Enter'] },
+  { command: 'run-above', label: 'Run cells above', modes: ['command'], defaults: [] },
+  { command: 'run-below', label: 'Run cell and below', modes: ['command'], defaults: [] },
+  { command: 'insert-above', label: 'Insert cell above', modes: ['command'], defaults: ['A'] },
+  { command: 'insert-below', label: 'Insert cell below', modes: ['command'], defaults: ['B'] },
+  { command: 'delete-cell', label: 'Delete cell', modes: ['command'], defaults: ['D D'] },
+  { command: 'undo', label: 'Undo cell operation', modes: ['command'], defaults: ['Z', 'Ctrl+Z', 'Meta+Z'] },
+  { command: 'redo', label: 'Redo cell operation', modes: ['command'], defaults: ['Shift+Z', 'Ctrl+Shift+Z', 'Meta+Shift+Z', 'Ctrl+Y'] },
+  { command: 'move-up', label: 'Move cell up', modes: ['command'], defaults: ['Ctrl+Shift+ArrowUp'] },
+  { command: 'move-down', label: 'Move cell down', modes: ['command'], defaults: ['Ctrl+Shift+ArrowDown'] },
+  { command: 'split-cell', label: 'Split cell at cursor', modes: ['edit'], defaults: ['Ctrl+Shift+_', 'Meta+Shift+_'] },
+  { command: 'merge-below', label: 'Merge with cell below', modes: ['command'], defaults: ['Shift+M'] },
+  { command: 'clear-outputs', label: 'Clear cell outputs', modes: ['command'], defaults: [] },
+  { command: 'to-code', label: 'Change to code', modes: ['command'], defaults: ['Y'] },
+  { command: 'to-markdown', label: 'Change to markdown', modes: ['command'], defaults: ['M'] },
+  { command: 'to-raw', label: 'Change to raw', modes: ['command'], defaults: ['R'] },
+  { command: 'select-previous', label: 'Select cell above', modes: ['command'], defaults: ['K', 'ArrowUp'] },
+  { command: 'select-next', label: 'Select cell below', modes: ['command'], defaults: ['J', 'ArrowDown'] },
+  { command: 'interrupt', label: 'Interrupt execution', modes: ['command'], defaults: ['I I'] },
+  { command: 'restart', label: 'Restart kernels', modes: ['command'], defaults: ['0 0'] },
+  { command: 'save', label: 'Save notebook', modes: ['command', 'edit'], defaults: ['Ctrl+S', 'Meta+S'] },
+  { command: 'show-shortcuts', label: 'Show keyboard shortcuts', modes: ['command'], defaults: ['H'] },
+];
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>;
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock']);
+
+/**
+ * The chord a key press makes ("Ctrl+Enter", "A"), or null for a bare modifier
+ */
+export function chordFromEvent(event: KeyEventLike): string | null {
+  if (MODIFIER_KEYS.has(event.key) || event.key === 'Unidentified' || event.key === 'Dead') return null;
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta',
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+}
+
+class NotebookShortcuts {
+  private overrides: Partial<Record<NotebookCommand, string[]>> | null = null;
+  private listeners = new Set<() => void>();
+
+  private load(): Partial<Record<NotebookCommand, string[]>> {
+    if (!this.overrides) {
+      this.overrides = {};
+      try {
+        const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : null;
+        if (parsed && typeof parsed === 'object') {
+          for (const definition of SHORTCUT_DEFINITIONS) {
+            const keys = (parsed as Record<string, unknown>)[definition.command];
+            if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+              this.overrides[definition.command] = keys;
+            }
+          }
+        }
+      } catch (error) {
+        console.warn('Ignoring unreadable keyboard shortcuts:', error);
+      }
+    }
+    return this.overrides;
+  }
+
+  private persist(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.load()));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Current bindings for a command: the user's, or the defaults
+   */
+  getBindings(command: NotebookCommand): string[] {
+    const definition = SHORTCUT_DEFINITIONS.find(entry => entry.command === command);
+    return this.load()[command] ?? definition?.defaults ?? [];
+  }
+
+  isCustomized(command: NotebookCommand): boolean {
+    return this.load()[command] !== undefined;
+  }
+
+  setBindings(command: NotebookCommand, keys: string[]): void {
+    const definition = SHORTCUT_DEFINITIONS.find(entry => entry.command === command);
+    const unique = Array.from(new Set(keys));
+    const overrides = this.load();
+    if (definition && unique.join('\n') === definition.defaults.join('\n')) {
+      delete overrides[command];
+    } else {
+      overrides[command] = unique;
+    }
+    this.persist();
+  }
+
+  /**
+   * Restore the defaults for one command, or for all of them
+   */
+  reset(command?: NotebookCommand): void {
+    const overrides = this.load();
+    if (command) {
+      delete overrides[command];
+    } else {
+      this.overrides = {};
+    }
+    this.persist();
+  }
+
+  /**
+   * The command bound to `keys` in `mode`, if any
+   */
+  lookup(mode: ShortcutMode, keys: string): NotebookCommand | undefined {
+    return SHORTCUT_DEFINITIONS.find(definition =>
+      definition.modes.includes(mode) && this.getBindings(definition.command).includes(keys)
+    )?.command;
+  }
+
+  /**
+   * Whether `keys` is the start of a longer binding in `mode`
+   */
+  isPrefix(mode: ShortcutMode, keys: string): boolean {
+    return SHORTCUT_DEFINITIONS.some(definition =>
+      definition.modes.includes(mode) && this.getBindings(definition.command).some(binding => binding.startsWith(`${keys} `))
+    );
+  }
+
+  /**
+   * Other commands that share a binding with `command` in one of its modes
+   */
+  conflicts(command: NotebookCommand): NotebookCommand[] {
+    const definition = SHORTCUT_DEFINITIONS.find(entry => entry.command === command);
+    if (!definition) return [];
+    const keys = this.getBindings(command);
+    return SHORTCUT_DEFINITIONS
+      .filter(other =>
+        other.command !== command &&
+        other.modes.some(mode => definition.modes.includes(mode)) &&
+        this.getBindings(other.command).some(binding => keys.includes(binding))
+      )
+      .map(other => other.command);
+  }
+
+  /**
+   * Subscribe to binding changes; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const notebookShortcuts = new NotebookShortcuts();
@@ -0,0 +1,245 @@
+/**
+ * Notebook Store
+ *
+ * Keeps the notebook library in IndexedDB so notebooks survive closing the
+ * studio or reloading the page. Each notebook is stored as its nbformat JSON
+ * plus a small summary (name, cell count, languages) that the library view
+ * lists without loading every notebook.
+ */
+
+const DB_NAME = 'nava-notebooks';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const CONTENTS = 'contents';
+const ACTIVE_NOTEBOOK_KEY = 'nava_active_notebook';
+const AUTOSAVE_DELAY_MS = 1000;
+
+export interface NotebookSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  cellCount: number;
+  languages: string[]; // Distinct code cell languages, in order of first use
+}
+
+export interface StoredNotebook extends NotebookSummary {
+  json: string; // nbformat document
+  cellLanguages: string[]; // Language of every cell in order ('vnc', 'python', ...); 'markdown' or 'raw' for text cells
+}
+
+// What the panel hands over on every change
+export interface NotebookDraft {
+  name: string;
+  json: string;
+  cellLanguages: string[];
+}
+
+interface StoredContent {
+  id: string;
+  json: string;
+  cellLanguages: string[];
+}
+
+const TEXT_CELLS = new Set(['markdown', 'raw']);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+  });
+
+export const createNotebookId = () => `nb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class NotebookStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private pending = new Map<string, { getDraft: () => NotebookDraft; timer: ReturnType<typeof setTimeout> }>();
+  private listeners = new Set<(notebooks: NotebookSummary[]) => void>();
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (!this.isAvailable()) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(CONTENTS)) db.createObjectStore(CONTENTS, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Could not open the notebook library'));
+      });
+      // Let a later call retry after a failure (e.g. a blocked upgrade)
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Every notebook in the library, most recently edited first
+   */
+  async list(): Promise<NotebookSummary[]> {
+    const db = await this.open();
+    const summaries = await requestToPromise<NotebookSummary[]>(
+      db.transaction(SUMMARIES, 'readonly').objectStore(SUMMARIES).getAll()
+    );
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<StoredNotebook | undefined> {
+    await this.flush(id);
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARIES, CONTENTS], 'readonly');
+    const [summary, content] = await Promise.all([
+      requestToPromise<NotebookSummary | undefined>(transaction.objectStore(SUMMARIES).get(id)),
+      requestToPromise<StoredContent | undefined>(transaction.objectStore(CONTENTS).get(id)),
+    ]);
+    if (!summary || !content) return undefined;
+    return { ...summary, json: content.json, cellLanguages: content.cellLanguages };
+  }
+
+  /**
+   * Write a notebook now, creating it if needed
+   */
+  async save(id: string, draft: NotebookDraft): Promise<NotebookSummary> {
+    const pending = this.pending.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(id);
+    }
+
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARIES, CONTENTS], 'readwrite');
+    const summaries = transaction.objectStore(SUMMARIES);
+    const existing = await requestToPromise<NotebookSummary | undefined>(summaries.get(id));
+    const now = Date.now();
+    const languages = Array.from(new Set(draft.cellLanguages.filter(language => !TEXT_CELLS.has(language))));
+    const summary: NotebookSummary = {
+      id,
+      name: draft.name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      cellCount: draft.cellLanguages.length,
+      languages,
+    };
+    summaries.put(summary);
+    transaction.objectStore(CONTENTS).put({ id, json: draft.json, cellLanguages: draft.cellLanguages } satisfies StoredContent);
+    await transactionDone(transaction);
+    await this.notify();
+    return summary;
+  }
+
+  /**
+   * Debounced save for autosave; repeated calls within the delay coalesce
+   * into one write, and the draft is only built when that write happens
+   */
+  scheduleSave(id: string, getDraft: () => NotebookDraft): void {
+    const pending = this.pending.get(id);
+    if (pending) clearTimeout(pending.timer);
+    const timer = setTimeout(() => {
+      void this.flush(id).catch(error => console.warn('Notebook autosave failed:', error));
+    }, AUTOSAVE_DELAY_MS);
+    this.pending.set(id, { getDraft, timer });
+  }
+
+  /**
+   * Write any scheduled save right away (one notebook, or all of them)
+   */
+  async flush(id?: string): Promise<void> {
+    const ids = id === undefined ? Array.from(this.pending.keys()) : [id];
+    for (const notebookId of ids) {
+      const pending = this.pending.get(notebookId);
+      if (pending) await this.save(notebookId, pending.getDraft());
+    }
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    await this.flush(id);
+    const db = await this.open();
+    const transaction = db.transaction(SUMMARIES, 'readwrite');
+    const summaries = transaction.objectStore(SUMMARIES);
+    const summary = await requestToPromise<NotebookSummary | undefined>(summaries.get(id));
+    if (!summary) throw new Error(`Notebook ${id} not found`);
+    summaries.put({ ...summary, name, updatedAt: Date.now() });
+    await transactionDone(transaction);
+    await this.notify();
+  }
+
+  /**
+   * Copy a notebook under a new id; returns the copy's summary
+   */
+  async duplicate(id: string, name?: string): Promise<NotebookSummary> {
+    const notebook = await this.get(id);
+    if (!notebook) throw new Error(`Notebook ${id} not found`);
+    return this.save(createNotebookId(), {
+      name: name ?? `${notebook.name.replace(/\.ipynb$/, '')} copy.ipynb`,
+      json: notebook.json,
+      cellLanguages: notebook.cellLanguages,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const pending = this.pending.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(id);
+    }
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARIES, CONTENTS], 'readwrite');
+    transaction.objectStore(SUMMARIES).delete(id);
+    transaction.objectStore(CONTENTS).delete(id);
+    await transactionDone(transaction);
+    if (this.getActiveId() === id) this.setActiveId(null);
+    await this.notify();
+  }
+
+  /**
+   * The notebook open in the panel, restored after a reload
+   */
+  getActiveId(): string | null {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(ACTIVE_NOTEBOOK_KEY);
+  }
+
+  setActiveId(id: string | null): void {
+    if (typeof localStorage === 'undefined') return;
+    if (id) {
+      localStorage.setItem(ACTIVE_NOTEBOOK_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_NOTEBOOK_KEY);
+    }
+  }
+
+  /**
+   * Subscribe to library changes; returns an unsubscribe function
+   */
+  onChange(listener: (notebooks: NotebookSummary[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const notebooks = await this.list();
+    this.listeners.forEach(listener => listener(notebooks));
+  }
+}
+
+export const notebookStore = new NotebookStore();
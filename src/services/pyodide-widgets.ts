@@ -0,0 +1,414 @@
+/**
+ * Pyodide Widgets
+ *
+ * Python source of the `ipywidgets` module the Pyodide worker provides in
+ * place of the real package, which needs an IPython kernel. It covers the
+ * core controls (IntSlider, FloatSlider, Dropdown, Checkbox, Text, Button,
+ * Output, HBox/VBox) with the same state keys as ipywidgets 8, so the front
+ * end's widget manager treats them like widgets from a Jupyter kernel.
+ */
+
+export const IPYWIDGETS_MODULE = `"""ipywidgets for the browser kernel
+
+The core controls, speaking the Jupyter widget protocol over the kernel's
+comm messages: a widget opens a comm with its state when it is created,
+assigning a synced attribute sends an update, and updates from the front end
+set attributes and run observers.
+"""
+
+import json
+import traceback
+import uuid
+
+import _nava_kernel
+from __main__ import _nava_capture
+
+__version__ = '8.1.0'
+
+_widgets = {}
+
+def _send(msg_type, comm_id, data, target_name=None):
+    message = {'msg_type': msg_type, 'comm_id': comm_id, 'data': data}
+    if target_name:
+        message['target_name'] = target_name
+    _nava_kernel.comm_send(json.dumps(message, default=str))
+
+def _serialize(value):
+    if isinstance(value, Widget):
+        return f'IPY_MODEL_{value.model_id}'
+    if isinstance(value, (list, tuple)):
+        return [_serialize(item) for item in value]
+    return value
+
+def _deserialize(value):
+    if isinstance(value, str) and value.startswith('IPY_MODEL_'):
+        return _widgets.get(value[len('IPY_MODEL_'):], value)
+    if isinstance(value, list):
+        return tuple(_deserialize(item) for item in value)
+    return value
+
+def _handle_comm(payload):
+    """A comm message from the front end; returns the traceback of a failing handler"""
+    message = json.loads(payload)
+    widget = _widgets.get(message['comm_id'])
+    if widget is None:
+        return None
+    try:
+        if message['msg_type'] == 'comm_close':
+            widget.close()
+        else:
+            widget._handle_message(message['data'])
+    except Exception:
+        return traceback.format_exc()
+    return None
+
+class Layout:
+    """Accepted for compatibility; the front end lays widgets out itself"""
+
+    def __init__(self, **kwargs):
+        self.__dict__.update(kwargs)
+
+class Widget:
+    _model_name = 'WidgetModel'
+    _view_name = None
+    _model_module = '@jupyter-widgets/base'
+    # Synced attributes and their defaults, merged down the class hierarchy
+    _traits = {}
+
+    def __init__(self, **kwargs):
+        traits = {}
+        for cls in reversed(type(self).__mro__):
+            traits.update(cls.__dict__.get('_traits', {}))
+        object.__setattr__(self, '_state', {})
+        object.__setattr__(self, '_observers', [])
+        object.__setattr__(self, 'model_id', uuid.uuid4().hex)
+        self.layout = kwargs.pop('layout', None) or Layout()
+        self.style = kwargs.pop('style', None) or {}
+        for name, default in traits.items():
+            self._state[name] = kwargs.pop(name, default)
+        # Validated once all are set, since some depend on others (a slider's range)
+        for name in traits:
+            self._state[name] = self._validate(name, self._state[name])
+        if kwargs:
+            raise TypeError(f'{type(self).__name__} got unexpected arguments: {", ".join(kwargs)}')
+        _widgets[self.model_id] = self
+        _send('comm_open', self.model_id, {'state': self.get_state(), 'buffer_paths': []}, 'jupyter.widget')
+
+    def __getattr__(self, name):
+        state = self.__dict__.get('_state', {})
+        if name in state:
+            return state[name]
+        raise AttributeError(f'{type(self).__name__!r} object has no attribute {name!r}')
+
+    def __setattr__(self, name, value):
+        if name in self.__dict__.get('_state', {}):
+            self._set(name, value)
+        else:
+            object.__setattr__(self, name, value)
+
+    def _validate(self, name, value):
+        return value
+
+    def _set(self, name, value, echo=True):
+        value = self._validate(name, value)
+        old = self._state[name]
+        if old == value and type(old) is type(value):
+            return
+        self._state[name] = value
+        if echo:
+            self.send_state(name)
+        self._changed(name, old, value)
+
+    def _changed(self, name, old, new):
+        self._notify(name, old, new)
+
+    def _notify(self, name, old, new):
+        change = {'name': name, 'old': old, 'new': new, 'owner': self, 'type': 'change'}
+        for handler, names in list(self._observers):
+            if names is None or name in names:
+                handler(change)
+
+    def observe(self, handler, names=None, type='change'):
+        names = {names} if isinstance(names, str) else (set(names) if names is not None else None)
+        self._observers.append((handler, names))
+
+    def unobserve(self, handler, names=None, type='change'):
+        self._observers[:] = [entry for entry in self._observers if entry[0] is not handler]
+
+    def get_state(self, key=None):
+        keys = [key] if isinstance(key, str) else (key or list(self._state))
+        state = {name: _serialize(self._state[name]) for name in keys}
+        if key is None:
+            state.update({
+                '_model_name': self._model_name,
+                '_model_module': self._model_module,
+                '_model_module_version': '2.0.0',
+                '_view_name': self._view_name,
+                '_view_module': self._model_module,
+                '_view_module_version': '2.0.0',
+            })
+        return state
+
+    def send_state(self, key=None):
+        if self.model_id in _widgets:
+            _send('comm_msg', self.model_id, {'method': 'update', 'state': self.get_state(key), 'buffer_paths': []})
+
+    def _handle_message(self, data):
+        method = data.get('method')
+        if method == 'update':
+            for name, value in data.get('state', {}).items():
+                if name in self._state:
+                    value = _deserialize(value)
+                    # A value the front end sent is only sent back if validation changed it
+                    self._set(name, value, echo=self._validate(name, value) != value)
+        elif method == 'request_state':
+            self.send_state()
+        elif method == 'custom':
+            self._handle_custom(data.get('content') or {})
+
+    def _handle_custom(self, content):
+        pass
+
+    def close(self):
+        if _widgets.pop(self.model_id, None) is not None:
+            _send('comm_close', self.model_id, {})
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        return {
+            'application/vnd.jupyter.widget-view+json': {
+                'version_major': 2,
+                'version_minor': 0,
+                'model_id': self.model_id,
+            },
+            'text/plain': repr(self),
+        }
+
+    def __repr__(self):
+        shown = ', '.join(f'{name}={self._state[name]!r}' for name in ('value', 'description') if name in self._state)
+        return f'{type(self).__name__}({shown})'
+
+class DOMWidget(Widget):
+    _model_module = '@jupyter-widgets/controls'
+
+class DescriptionWidget(DOMWidget):
+    _traits = {'description': '', 'disabled': False}
+
+class _ValueWidget(DescriptionWidget):
+    """A control whose value can be passed first: IntSlider(5), Checkbox(True)"""
+
+    def __init__(self, value=None, **kwargs):
+        if value is not None:
+            kwargs['value'] = value
+        super().__init__(**kwargs)
+
+class _Slider(_ValueWidget):
+    _traits = {'orientation': 'horizontal', 'readout': True, 'continuous_update': True}
+    _cast = float
+
+    def _validate(self, name, value):
+        if name == 'value':
+            value = self._cast(value)
+            state = self._state
+            if 'min' in state and value < state['min']:
+                value = state['min']
+            if 'max' in state and value > state['max']:
+                value = state['max']
+        elif name in ('min', 'max', 'step'):
+            value = self._cast(value)
+        return value
+
+    def _changed(self, name, old, new):
+        super()._changed(name, old, new)
+        # A narrower range pulls the value inside it
+        if name in ('min', 'max'):
+            self._set('value', self._state['value'])
+
+class IntSlider(_Slider):
+    _model_name = 'IntSliderModel'
+    _view_name = 'IntSliderView'
+    _traits = {'value': 0, 'min': 0, 'max': 100, 'step': 1, 'readout_format': 'd'}
+    _cast = int
+
+class FloatSlider(_Slider):
+    _model_name = 'FloatSliderModel'
+    _view_name = 'FloatSliderView'
+    _traits = {'value': 0.0, 'min': 0.0, 'max': 10.0, 'step': 0.1, 'readout_format': '.2f'}
+
+class Checkbox(_ValueWidget):
+    _model_name = 'CheckboxModel'
+    _view_name = 'CheckboxView'
+    _traits = {'value': False, 'indent': True}
+
+    def _validate(self, name, value):
+        return bool(value) if name == 'value' else value
+
+class Text(_ValueWidget):
+    _model_name = 'TextModel'
+    _view_name = 'TextView'
+    _traits = {'value': '', 'placeholder': '', 'continuous_update': True}
+
+    def _validate(self, name, value):
+        return str(value) if name in ('value', 'placeholder') else value
+
+class Dropdown(DescriptionWidget):
+    """Options are labels, (label, value) pairs or a dict; the front end only sees labels and \`index\`"""
+    _model_name = 'DropdownModel'
+    _view_name = 'DropdownView'
+    _traits = {'_options_labels': (), 'index': None}
+
+    def __init__(self, options=(), value=None, label=None, index=None, **kwargs):
+        pairs = self._pairs(options)
+        object.__setattr__(self, '_options', pairs)
+        if index is None and label is not None:
+            index = [pair[0] for pair in pairs].index(label)
+        if index is None and value is not None:
+            index = self._index_of(value)
+        if index is None and pairs:
+            index = 0
+        super().__init__(_options_labels=tuple(pair[0] for pair in pairs), index=index, **kwargs)
+
+    @staticmethod
+    def _pairs(options):
+        if isinstance(options, dict):
+            options = list(options.items())
+        return tuple(option if isinstance(option, tuple) and len(option) == 2 else (str(option), option) for option in options)
+
+    def _index_of(self, value):
+        for i, pair in enumerate(self._options):
+            if pair[1] == value:
+                return i
+        raise ValueError(f'{value!r} is not one of the options')
+
+    def _validate(self, name, value):
+        if name == 'index' and value is not None and not 0 <= value < len(self._options):
+            raise IndexError(f'index {value} is out of range')
+        return value
+
+    def _pair(self, index):
+        return self._options[index] if index is not None else (None, None)
+
+    @property
+    def options(self):
+        return self._options
+
+    @options.setter
+    def options(self, options):
+        value = self.value
+        object.__setattr__(self, '_options', self._pairs(options))
+        self._set('_options_labels', tuple(pair[0] for pair in self._options))
+        values = [pair[1] for pair in self._options]
+        self._set('index', values.index(value) if value in values else (0 if values else None))
+
+    @property
+    def value(self):
+        return self._pair(self._state['index'])[1]
+
+    @value.setter
+    def value(self, value):
+        self._set('index', None if value is None else self._index_of(value))
+
+    @property
+    def label(self):
+        return self._pair(self._state['index'])[0]
+
+    @label.setter
+    def label(self, label):
+        self._set('index', [pair[0] for pair in self._options].index(label))
+
+    def _changed(self, name, old, new):
+        super()._changed(name, old, new)
+        # Observers of value and label hear about a new selection too
+        if name == 'index':
+            for part, field in (('label', 0), ('value', 1)):
+                before, after = self._pair(old)[field], self._pair(new)[field]
+                if before != after:
+                    self._notify(part, before, after)
+
+    def __repr__(self):
+        return f'Dropdown(options={[pair[0] for pair in self._options]!r}, value={self.value!r})'
+
+class Button(DescriptionWidget):
+    _model_name = 'ButtonModel'
+    _view_name = 'ButtonView'
+    _traits = {'tooltip': '', 'button_style': '', 'icon': ''}
+
+    def __init__(self, **kwargs):
+        object.__setattr__(self, '_click_handlers', [])
+        super().__init__(**kwargs)
+
+    def on_click(self, callback, remove=False):
+        if remove:
+            self._click_handlers[:] = [handler for handler in self._click_handlers if handler is not callback]
+        else:
+            self._click_handlers.append(callback)
+
+    def click(self):
+        for handler in list(self._click_handlers):
+            handler(self)
+
+    def _handle_custom(self, content):
+        if content.get('event') == 'click':
+            self.click()
+
+class Output(DOMWidget):
+    """\`with out:\` sends prints, displays and errors to the widget instead of the cell"""
+    _model_name = 'OutputModel'
+    _view_name = 'OutputView'
+    _model_module = '@jupyter-widgets/output'
+    _traits = {'outputs': (), 'msg_id': ''}
+
+    def __enter__(self):
+        _nava_capture.append(self)
+        return self
+
+    def __exit__(self, etype, evalue, tb):
+        _nava_capture.remove(self)
+        if etype is None:
+            return None
+        lines = ''.join(traceback.format_exception(etype, evalue, tb)).rstrip('\\n').split('\\n')
+        self._append({'output_type': 'error', 'ename': etype.__name__, 'evalue': str(evalue), 'traceback': lines})
+        # Shown in the widget, so it stops here as it does in IPython
+        return True
+
+    def _append(self, output):
+        outputs = list(self._state['outputs'])
+        last = outputs[-1] if outputs else None
+        if output['output_type'] == 'stream' and last and last.get('output_type') == 'stream' and last['name'] == output['name']:
+            outputs[-1] = {**last, 'text': last['text'] + output['text']}
+        else:
+            outputs.append(output)
+        self._set('outputs', tuple(outputs))
+
+    def append_stdout(self, text):
+        self._append({'output_type': 'stream', 'name': 'stdout', 'text': text})
+
+    def append_stderr(self, text):
+        self._append({'output_type': 'stream', 'name': 'stderr', 'text': text})
+
+    def append_display_data(self, obj):
+        from __main__ import _mime_bundle
+        data, metadata = _mime_bundle(obj)
+        self._append({'output_type': 'display_data', 'data': data, 'metadata': metadata})
+
+    def clear_output(self, wait=False):
+        self._set('outputs', ())
+
+class Box(DOMWidget):
+    _model_name = 'BoxModel'
+    _view_name = 'BoxView'
+    _traits = {'children': ()}
+
+    def __init__(self, children=(), **kwargs):
+        super().__init__(children=tuple(children), **kwargs)
+
+    def _validate(self, name, value):
+        return tuple(value) if name == 'children' else value
+
+class HBox(Box):
+    _model_name = 'HBoxModel'
+    _view_name = 'HBoxView'
+
+class VBox(Box):
+    _model_name = 'VBoxModel'
+    _view_name = 'VBoxView'
+`;
@@ -0,0 +1,57 @@
+/**
+ * Pyodide Worker Protocol
+ *
+ * Messages exchanged between PythonExecutionService (main thread) and the
+ * Pyodide runtime running in pyodide.worker.ts.
+ */
+
+import type { CellExecutionResult } from './jupyter-notebook-service';
+import type { OutputMessage } from './notebook-outputs';
+import type { NamespaceImport, VariableSnapshot } from './notebook-namespace';
+import type { SqlStatementResult } from './sql-execution-service';
+import type { CommMessage } from './widget-manager';
+
+export type KernelStatus = 'starting' | 'idle' | 'busy' | 'dead';
+
+// Value written into the interrupt buffer to raise KeyboardInterrupt (SIGINT)
+export const PYODIDE_SIGINT = 2;
+
+export type PyodideWorkerRequest =
+  | {
+      type: 'init';
+      // Pyodide distributions to try in order; packages load lazily from the one that answers
+      indexURLs: string[];
+      // Directory of wheels for %pip install, listed in its index.json
+      wheelsURL: string;
+      // Only available when the page is cross-origin isolated
+      interruptBuffer?: SharedArrayBuffer;
+    }
+  // `namespace` holds values from other languages, assigned as globals first
+  | { type: 'execute'; id: string; code: string; executionCount: number; namespace?: NamespaceImport[] }
+  // Clears the user namespace without reloading the runtime
+  | { type: 'restart'; id: string }
+  // Offsets are UTF-16 code units, as in the editor
+  | { type: 'complete'; id: string; code: string; cursorPos: number }
+  | { type: 'status'; id: string }
+  // A widget message from the front end (update, button click)
+  | { type: 'comm'; message: CommMessage }
+  // Answer to a sql_query: every statement's result, or why it failed
+  | { type: 'sql_reply'; queryId: string; results?: SqlStatementResult[]; error?: string };
+
+export type PyodideWorkerResponse =
+  | { type: 'ready'; version: string; interruptible: boolean }
+  | { type: 'init_error'; message: string }
+  // Streamed while the cell runs; the final result repeats them merged
+  | { type: 'output'; id: string; output: OutputMessage }
+  // register_sql_table(name, df) was called; the frame is sent as CSV
+  | { type: 'sql_table'; id: string; name: string; csv: string }
+  // %%sql in the cell: run the query on the notebook's SQL database and send a sql_reply
+  | { type: 'sql_query'; id: string; queryId: string; sql: string }
+  // `variables` describes the user globals after the cell ran
+  | { type: 'result'; id: string; result: CellExecutionResult; variables?: VariableSnapshot[] }
+  | { type: 'restarted'; id: string }
+  // A widget was created, changed or closed on the Python side
+  | { type: 'comm'; message: CommMessage }
+  // `types` (Jedi only) is parallel to `matches`: 'function', 'module', 'instance', ...
+  | { type: 'complete_reply'; id: string; matches: string[]; cursorStart: number; cursorEnd: number; types?: string[] }
+  | { type: 'status'; id: string; status: KernelStatus };
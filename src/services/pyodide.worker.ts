@@ -0,0 +1,1107 @@
+/**
+ * Pyodide Worker
+ *
+ * Hosts the Pyodide runtime off the main thread so long-running cells do not
+ * freeze the studio UI. Driven by PythonExecutionService through the messages
+ * in pyodide-worker-protocol.ts.
+ *
+ * Cells run through a small IPython-style shell (_nava_shell in the prelude):
+ * magics, rich display of the last expression and real exception names.
+ * Packages are not preloaded: before a cell runs, the Pyodide packages it
+ * imports are loaded from the distribution, and `%pip install` installs
+ * through micropip, from the app's local wheel directory when it has the
+ * package.
+ */
+
+import type { NotebookOutput, CellExecutionResult } from './jupyter-notebook-service';
+import type { KernelStatus, PyodideWorkerRequest, PyodideWorkerResponse } from './pyodide-worker-protocol';
+import { appendOutput, OutputMessage } from './notebook-outputs';
+import { MAX_TRANSFER_CHARS, NamespaceImport, VariableSnapshot } from './notebook-namespace';
+import type { CommMessage } from './widget-manager';
+import { IPYWIDGETS_MODULE } from './pyodide-widgets';
+
+interface PyodideRuntime {
+  version: string;
+  runPython(code: string): unknown;
+  runPythonAsync(code: string): Promise<unknown>;
+  loadPackage(names: string[]): Promise<void>;
+  setInterruptBuffer(buffer: Uint8Array): void;
+  registerJsModule(name: string, module: object): void;
+}
+
+declare function importScripts(...urls: string[]): void;
+declare function loadPyodide(options: { indexURL: string }): Promise<PyodideRuntime>;
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<PyodideWorkerRequest>) => void) | null;
+  postMessage(message: PyodideWorkerResponse): void;
+};
+
+// Python side of the kernel: stdout/stderr writers that forward every write
+// to the worker, and display()/update_display() builtins for rich outputs
+const KERNEL_PRELUDE = `
+import builtins
+import io
+import json
+import os
+import sys
+import types
+import uuid
+import _nava_kernel
+
+# Cells run in these globals and may rebind json, re or any other module name,
+# so the kernel's own code reaches the modules it uses through these aliases
+import inspect as _nava_inspect
+import io as _nava_io
+import json as _nava_json
+import keyword as _nava_keyword
+import re as _nava_re
+import sys as _nava_sys
+import time as _nava_time
+import types as _nava_types
+import uuid as _nava_uuid
+
+# There is no DOM in the worker; figures are rendered to PNG after each cell
+os.environ.setdefault('MPLBACKEND', 'Agg')
+
+# ipywidgets Output widgets inside \`with out:\` blocks, innermost last; what
+# would be shown in the cell goes to the innermost one instead
+_nava_capture = []
+
+class _KernelStream(io.TextIOBase):
+    def __init__(self, name):
+        self.name = name
+
+    def writable(self):
+        return True
+
+    def write(self, text):
+        if not isinstance(text, str):
+            raise TypeError(f"write() argument must be str, not {type(text).__name__}")
+        if text and _nava_capture:
+            _nava_capture[-1]._append({'output_type': 'stream', 'name': self.name, 'text': text})
+        elif text:
+            _nava_kernel.write_stream(self.name, text)
+        return len(text)
+
+    def flush(self):
+        _nava_kernel.flush_streams()
+
+sys.stdout = _KernelStream('stdout')
+sys.stderr = _KernelStream('stderr')
+
+# IPython's rich display protocol: every _repr_*_ an object has goes into its
+# MIME bundle, beside a pretty-printed text/plain
+_NAVA_REPR_METHODS = (
+    ('text/html', '_repr_html_'),
+    ('text/markdown', '_repr_markdown_'),
+    ('text/latex', '_repr_latex_'),
+    ('image/svg+xml', '_repr_svg_'),
+    ('image/png', '_repr_png_'),
+    ('image/jpeg', '_repr_jpeg_'),
+    ('application/json', '_repr_json_'),
+    ('application/javascript', '_repr_javascript_'),
+)
+
+def _mime_value(mime, value):
+    if isinstance(value, bytes):
+        if mime in ('image/png', 'image/jpeg'):
+            import base64
+            return base64.b64encode(value).decode('ascii')
+        return value.decode('utf-8')
+    if mime == 'application/json' and isinstance(value, str):
+        return _nava_json.loads(value)
+    return value
+
+# (data, metadata) for an object; a repr method that raises is left out
+def _mime_bundle(obj):
+    data = {}
+    metadata = {}
+    if isinstance(obj, type):
+        methods = ()
+    else:
+        methods = (('*', '_repr_mimebundle_'),) + _NAVA_REPR_METHODS
+    for mime, name in methods:
+        method = getattr(obj, name, None)
+        if mime in data or not callable(method):
+            continue
+        try:
+            value = method(include=None, exclude=None) if mime == '*' else method()
+        except Exception:
+            continue
+        if isinstance(value, tuple) and len(value) == 2:
+            value, extra = value
+            if extra and mime == '*':
+                metadata.update(extra)
+            elif extra:
+                metadata[mime] = extra
+        if value is None:
+            continue
+        if mime == '*':
+            data.update({key: _mime_value(key, inner) for key, inner in value.items()})
+        else:
+            data[mime] = _mime_value(mime, value)
+    if 'text/plain' not in data:
+        import pprint
+        data['text/plain'] = pprint.pformat(obj, sort_dicts=False)
+    return data, metadata
+
+class DisplayHandle:
+    def __init__(self, display_id):
+        self.display_id = display_id
+
+    def display(self, obj, **kwargs):
+        display(obj, display_id=self.display_id, **kwargs)
+
+    def update(self, obj, **kwargs):
+        update_display(obj, display_id=self.display_id, **kwargs)
+
+def _publish(obj, raw, metadata, display_id, update):
+    data, bundle_metadata = (obj, {}) if raw else _mime_bundle(obj)
+    if _nava_capture and not update:
+        _nava_capture[-1]._append({'output_type': 'display_data', 'data': data, 'metadata': {**bundle_metadata, **(metadata or {})}})
+        return
+    _nava_kernel.publish_display(_nava_json.dumps({
+        'data': data,
+        'metadata': {**bundle_metadata, **(metadata or {})},
+        'display_id': display_id,
+        'update': update,
+    }, default=repr))
+
+def display(*objs, raw=False, metadata=None, display_id=None):
+    if display_id is True:
+        display_id = _nava_uuid.uuid4().hex
+    for obj in objs:
+        _publish(obj, raw, metadata, display_id, False)
+    return DisplayHandle(display_id) if display_id else None
+
+def update_display(obj, *, display_id, raw=False, metadata=None):
+    _publish(obj, raw, metadata, display_id, True)
+
+def register_sql_table(name, frame):
+    """Make a DataFrame (or anything pandas can build one from) queryable in SQL cells as \`name\`"""
+    import pandas
+    if not isinstance(frame, pandas.DataFrame):
+        frame = pandas.DataFrame(frame)
+    _nava_kernel.register_sql_table(str(name), frame.to_csv(index=False))
+
+builtins.display = display
+builtins.update_display = update_display
+builtins.DisplayHandle = DisplayHandle
+builtins.register_sql_table = register_sql_table
+
+def clear_output(wait=False):
+    if _nava_capture:
+        _nava_capture[-1].clear_output()
+    else:
+        _nava_kernel.clear_output()
+
+# Stand-ins for IPython.display, so notebooks written for Jupyter find what
+# they import. get_ipython() is None: libraries then skip IPython-only paths.
+class _DisplayObject:
+    mimetype = 'text/plain'
+    binary = False
+
+    def __init__(self, data=None, url=None, filename=None, metadata=None):
+        if data is None and filename is not None:
+            with open(filename, 'rb' if self.binary else 'r') as source:
+                data = source.read()
+        self.data = data
+        self.url = url
+        self.metadata = metadata
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        if self.data is None:
+            return {}
+        return {self.mimetype: self.data}, ({self.mimetype: self.metadata} if self.metadata else {})
+
+    def __repr__(self):
+        return f'<IPython.core.display.{type(self).__name__} object>'
+
+class HTML(_DisplayObject):
+    mimetype = 'text/html'
+
+class Markdown(_DisplayObject):
+    mimetype = 'text/markdown'
+
+class Latex(_DisplayObject):
+    mimetype = 'text/latex'
+
+class Math(_DisplayObject):
+    mimetype = 'text/latex'
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        return {self.mimetype: f"$\\\\displaystyle {str(self.data).strip('$')}$"}
+
+class SVG(_DisplayObject):
+    mimetype = 'image/svg+xml'
+
+class Javascript(_DisplayObject):
+    mimetype = 'application/javascript'
+
+class JSON(_DisplayObject):
+    mimetype = 'application/json'
+
+    def __init__(self, data=None, url=None, filename=None, metadata=None, **kwargs):
+        super().__init__(_nava_json.loads(data) if isinstance(data, str) else data, url, filename, metadata)
+
+class Image(_DisplayObject):
+    binary = True
+
+    def __init__(self, data=None, url=None, filename=None, format=None, width=None, height=None, metadata=None, **kwargs):
+        if isinstance(data, str) and filename is None and url is None:
+            if data.startswith(('http://', 'https://', 'data:')):
+                url, data = data, None
+            else:
+                filename, data = data, None
+        super().__init__(data, url, filename, metadata)
+        if format is None and filename:
+            format = filename.rsplit('.', 1)[-1].lower()
+        self.mimetype = 'image/jpeg' if format in ('jpg', 'jpeg') else 'image/png'
+        self.metadata = {**(metadata or {}), **({'width': width} if width else {}), **({'height': height} if height else {})}
+
+    def _repr_mimebundle_(self, include=None, exclude=None):
+        if self.data is None and self.url:
+            import html
+            size = ''.join(f' {key}="{value}"' for key, value in self.metadata.items() if key in ('width', 'height'))
+            return {'text/html': f'<img src="{html.escape(self.url)}"{size}/>'}
+        return super()._repr_mimebundle_(include, exclude)
+
+def _nava_ipython_modules():
+    ipython = types.ModuleType('IPython')
+    core = types.ModuleType('IPython.core')
+    display_module = types.ModuleType('IPython.display')
+    for value in (display, update_display, clear_output, DisplayHandle, HTML, Markdown, Latex, Math, SVG, Javascript, JSON, Image):
+        setattr(display_module, value.__name__, value)
+    ipython.display = display_module
+    ipython.core = core
+    ipython.get_ipython = lambda: None
+    ipython.version_info = (8, 0, 0)
+    core.display = display_module
+    sys.modules.update({
+        'IPython': ipython,
+        'IPython.display': display_module,
+        'IPython.core': core,
+        'IPython.core.display': display_module,
+    })
+
+_nava_ipython_modules()
+
+# Open matplotlib figures as a base64 PNG (closing them), in a function so the
+# check leaves no names behind in the user namespace. Only looks when the cell
+# (or an earlier one) imported pyplot, so matplotlib is never loaded for it.
+def _nava_figure():
+    plt = _nava_sys.modules.get('matplotlib.pyplot')
+    if plt is None:
+        return None
+    try:
+        if not plt.get_fignums():
+            return None
+        import base64
+        buffer = _nava_io.BytesIO()
+        plt.savefig(buffer, format='png')
+        plt.close('all')
+        return base64.b64encode(buffer.getvalue()).decode('utf-8')
+    except Exception:
+        return None
+
+# The notebook namespace: values from other languages come in as JSON, and
+# after each cell the user globals are described (and converted where possible)
+import reprlib
+
+_nava_repr = reprlib.Repr()
+_nava_repr.maxstring = 80
+_nava_repr.maxother = 80
+
+def _nava_import(payload):
+    namespace = globals()
+    for entry in _nava_json.loads(payload):
+        name = entry['name']
+        if not name.isidentifier() or _nava_keyword.iskeyword(name):
+            continue
+        # The kernel's own names (json, display, _nava_shell, ...) are kept
+        # unless a cell has already assigned the name itself
+        if name in _nava_shell.baseline and namespace.get(name) is _nava_shell.baseline[name]:
+            continue
+        value = _nava_json.loads(entry['json'])
+        if entry.get('tabular'):
+            import pandas
+            value = pandas.DataFrame(value)
+        namespace[name] = value
+
+def _nava_size(value):
+    shape = getattr(value, 'shape', None)
+    if isinstance(shape, tuple) and shape:
+        return '×'.join(str(n) for n in shape)
+    if isinstance(value, str):
+        return f'{len(value)} char' + ('' if len(value) == 1 else 's')
+    if isinstance(value, (list, tuple, dict, set, frozenset)):
+        return f'{len(value)} item' + ('' if len(value) == 1 else 's')
+    return None
+
+# (json, is_table) for values other languages can use, else None
+def _nava_to_json(value, max_items):
+    if isinstance(value, (_nava_types.FunctionType, type)):
+        return None
+    module = type(value).__module__
+    if module.startswith('pandas'):
+        if type(value).__name__ == 'DataFrame' and len(value) <= max_items:
+            return value.to_json(orient='records', date_format='iso'), True
+        if type(value).__name__ == 'Series' and len(value) <= max_items:
+            return value.to_json(orient='values', date_format='iso'), False
+        return None
+    if module == 'numpy':
+        if getattr(value, 'size', 1) > max_items:
+            return None
+        value = value.tolist()
+    if isinstance(value, (list, tuple, dict, set)) and len(value) > max_items:
+        return None
+    return _nava_json.dumps(value, separators=(',', ':'), ensure_ascii=False, allow_nan=False), False
+
+def _nava_snapshot(baseline, max_items, max_chars):
+    variables = []
+    for name, value in list(globals().items()):
+        if name in baseline or name.startswith('_') or isinstance(value, _nava_types.ModuleType):
+            continue
+        if type(value).__name__ == 'DataFrame':
+            preview = 'columns: ' + ', '.join(str(column) for column in list(value.columns)[:12])
+        else:
+            preview = ' '.join(_nava_repr.repr(value).split())
+        entry = {'name': name, 'type': type(value).__name__, 'preview': preview}
+        size = _nava_size(value)
+        if size:
+            entry['size'] = size
+        try:
+            converted = _nava_to_json(value, max_items)
+        except (TypeError, ValueError):
+            converted = None
+        if converted and len(converted[0]) <= max_chars:
+            entry['json'] = converted[0]
+            if converted[1]:
+                entry['tabular'] = True
+        variables.append(entry)
+    return _nava_json.dumps(variables)
+
+# An IPython-style shell around the user namespace: %magic lines and %%magic
+# cells, the Pyodide packages a cell imports loaded before it runs, the value
+# of its last expression shown as an execute_result, and errors reported with
+# their exception type and a traceback that starts at the cell's own code
+import inspect
+import re
+import time
+
+class UsageError(Exception):
+    pass
+
+class SQLError(Exception):
+    pass
+
+class ResultSet:
+    """The rows a %%sql query returned; DataFrame() turns them into pandas"""
+
+    def __init__(self, columns, rows, total_rows):
+        self.columns = columns
+        self.rows = rows
+        self.total_rows = total_rows
+
+    def __len__(self):
+        return len(self.rows)
+
+    def __iter__(self):
+        return iter(self.rows)
+
+    def __getitem__(self, index):
+        return self.rows[index]
+
+    def DataFrame(self):
+        import pandas
+        return pandas.DataFrame(self.rows, columns=self.columns)
+
+    @staticmethod
+    def _text(value):
+        return 'NULL' if value is None else str(value)
+
+    def _footer(self):
+        if self.total_rows > len(self.rows):
+            return f'{len(self.rows)} of {self.total_rows} rows'
+        return None
+
+    def __repr__(self):
+        table = [[str(column) for column in self.columns]]
+        table += [[self._text(row.get(column)) for column in self.columns] for row in self.rows]
+        widths = [max(len(line[i]) for line in table) for i in range(len(self.columns))]
+        lines = [' | '.join(cell.ljust(width) for cell, width in zip(line, widths)) for line in table]
+        lines.insert(1, '-+-'.join('-' * width for width in widths))
+        footer = self._footer()
+        return '\\n'.join(lines + ([footer] if footer else []))
+
+    def _repr_html_(self):
+        import html
+        head = ''.join(f'<th>{html.escape(str(column))}</th>' for column in self.columns)
+        body = ''.join(
+            '<tr>' + ''.join(f'<td>{html.escape(self._text(row.get(column)))}</td>' for column in self.columns) + '</tr>'
+            for row in self.rows
+        )
+        footer = self._footer()
+        caption = f'<p>{footer}</p>' if footer else ''
+        return f'<table><thead><tr>{head}</tr></thead><tbody>{body}</tbody></table>{caption}'
+
+def _nava_format_time(seconds):
+    for unit, scale in (('s', 1.0), ('ms', 1e-3), ('µs', 1e-6)):
+        if seconds >= scale:
+            return f'{seconds / scale:.3g} {unit}'
+    return f'{seconds / 1e-9:.3g} ns'
+
+class _NavaShell:
+    # A line of its own starting with %name, or !pip
+    LINE_MAGIC = _nava_re.compile(r'^([ \\t]*)(?:%|!(?=pip\\b))(\\w+)(.*)$', _nava_re.M)
+
+    def __init__(self):
+        # The kernel's globals, by name, as the prelude left them
+        self.baseline = {}
+        self.filename = '<cell>'
+        self.first_line = 1
+        self.line_magics = {
+            'time': self.time,
+            'timeit': self.timeit,
+            'who': self.who,
+            'reset': self.reset,
+            'pip': self.pip,
+            'sql': self.sql,
+        }
+        self.cell_magics = {'time': self.time, 'timeit': self.timeit, 'sql': self.sql}
+
+    def transform(self, source):
+        cell = _nava_re.match(r'(?:[ \\t]*\\n)*%%(\\w+)[ \\t]*([^\\n]*)\\n?', source)
+        if cell:
+            name, line = cell.group(1), cell.group(2)
+            first_line = source.count('\\n', 0, cell.end()) + 1
+            body = source[cell.end():]
+            return f'await _nava_shell.cell_magic({name!r}, {line!r}, {body!r}, {first_line})'
+        def replace(match):
+            first_line = source.count('\\n', 0, match.start()) + 1
+            indent, name, line = match.groups()
+            return f'{indent}await _nava_shell.line_magic({name!r}, {line.strip()!r}, {first_line})'
+        return self.LINE_MAGIC.sub(replace, source)
+
+    async def run_cell(self, source, execution_count):
+        """Run a cell; returns its error as JSON, or null"""
+        import linecache
+        self.filename = f'<In[{execution_count}]>'
+        # Lets tracebacks quote the cell's lines
+        linecache.cache[self.filename] = (len(source), None, source.splitlines(True), self.filename)
+        self.first_line = 1
+        try:
+            value = await self.run_code(self.transform(source))
+        except BaseException as error:
+            self.publish_figures()
+            return _nava_json.dumps(self.describe_error(error))
+        self.displayhook(value, execution_count)
+        self.publish_figures()
+        return 'null'
+
+    async def load_imports(self, code):
+        import pyodide_js
+        await pyodide_js.loadPackagesFromImports(code)
+        if _nava_re.search(r'\\b(register_sql_table|DataFrame)\\b', code):
+            await pyodide_js.loadPackage('pandas')
+
+    async def run_code(self, code):
+        """Run code in the user namespace, numbered from first_line of the cell"""
+        from pyodide.code import eval_code_async
+        await self.load_imports(code)
+        return await eval_code_async(
+            '\\n' * (self.first_line - 1) + code,
+            globals(),
+            return_mode='last_expr',
+            quiet_trailing_semicolon=True,
+            filename=self.filename,
+        )
+
+    async def line_magic(self, name, line, first_line):
+        magic = self.line_magics.get(name)
+        if magic is None:
+            raise UsageError(f'Line magic function \`%{name}\` not found.')
+        self.first_line = first_line
+        result = magic(line)
+        return await result if _nava_inspect.isawaitable(result) else result
+
+    async def cell_magic(self, name, line, cell, first_line):
+        magic = self.cell_magics.get(name)
+        if magic is None:
+            raise UsageError(f'Cell magic \`%%{name}\` not found.')
+        self.first_line = first_line
+        result = magic(line, cell)
+        return await result if _nava_inspect.isawaitable(result) else result
+
+    def displayhook(self, value, execution_count):
+        if value is None:
+            return
+        globals()['_'] = value
+        data, metadata = _mime_bundle(value)
+        _nava_kernel.publish_result(_nava_json.dumps({
+            'execution_count': execution_count,
+            'data': data,
+            'metadata': metadata,
+        }, default=repr))
+
+    def publish_figures(self):
+        figure = _nava_figure()
+        if figure:
+            _publish({'image/png': figure, 'text/plain': '<matplotlib.figure.Figure>'}, True, None, None, False)
+
+    def describe_error(self, error):
+        import traceback
+        report = traceback.TracebackException(type(error), error, None if isinstance(error, UsageError) else error.__traceback__)
+        # Leave out the frames of this shell and of Pyodide's eval
+        report.stack = traceback.StackSummary.from_list(
+            [frame for frame in report.stack if not self.is_internal(frame.filename)]
+        )
+        text = ''.join(report.format())
+        return {'ename': type(error).__name__, 'evalue': str(error), 'traceback': text.rstrip('\\n').split('\\n')}
+
+    @staticmethod
+    def is_internal(filename):
+        return filename == '<exec>' or '/_pyodide/' in filename or '/pyodide/' in filename
+
+    def user_names(self):
+        return [name for name in globals() if name not in self.baseline and not name.startswith('_')]
+
+    async def time(self, line, cell=None):
+        code = line if cell is None else cell
+        wall, cpu = _nava_time.perf_counter(), _nava_time.process_time()
+        value = await self.run_code(code)
+        cpu, wall = _nava_time.process_time() - cpu, _nava_time.perf_counter() - wall
+        print(f'CPU times: total: {_nava_format_time(cpu)}\\nWall time: {_nava_format_time(wall)}')
+        return value
+
+    async def timeit(self, line, cell=None):
+        import statistics
+        import timeit
+        options = {'n': None, 'r': 7}
+        option = _nava_re.match(r'\\s*-([nr])\\s*(\\d+)', line)
+        while option:
+            options[option.group(1)] = int(option.group(2))
+            line = line[option.end():]
+            option = _nava_re.match(r'\\s*-([nr])\\s*(\\d+)', line)
+        # As in IPython, %%timeit's own line is setup code run before each repeat
+        setup, statement = ('pass', line.strip()) if cell is None else (line.strip() or 'pass', cell)
+        if not statement.strip():
+            raise UsageError('%timeit needs a statement to time')
+        await self.load_imports(setup + '\\n' + statement)
+        timer = timeit.Timer(statement, setup, globals=globals())
+        number = options['n'] or timer.autorange()[0]
+        repeat = max(options['r'], 1)
+        per_loop = [total / number for total in timer.repeat(repeat, number)]
+        mean, spread = statistics.fmean(per_loop), statistics.pstdev(per_loop)
+        runs = f"{repeat} run{'s' if repeat != 1 else ''}"
+        loops = f"{number} loop{'s' if number != 1 else ''} each"
+        print(f'{_nava_format_time(mean)} ± {_nava_format_time(spread)} per loop (mean ± std. dev. of {runs}, {loops})')
+
+    def who(self, line):
+        wanted = line.split()
+        names = sorted(name for name in self.user_names() if not wanted or type(globals()[name]).__name__ in wanted)
+        print('\\t'.join(names) if names else 'Interactive namespace is empty.')
+
+    def reset(self, line=''):
+        # There is no prompt to confirm with, so %reset acts like %reset -f
+        namespace = globals()
+        for name in [name for name in namespace if name not in self.baseline]:
+            del namespace[name]
+
+    async def sql(self, line, cell=None):
+        """%%sql [name <<] runs the cell on the notebook's SQL database; %sql takes a one-line query"""
+        target = None
+        query = line
+        if cell is not None:
+            assignment = _nava_re.fullmatch(r'\\s*(?:([A-Za-z_]\\w*)\\s*<<\\s*)?', line)
+            if not assignment:
+                raise UsageError('Usage: %%sql [name <<]')
+            target, query = assignment.group(1), cell
+        if not query.strip():
+            raise UsageError('%sql needs a query')
+        reply = _nava_json.loads(await _nava_kernel.run_sql(query))
+        if reply.get('error'):
+            raise SQLError(reply['error'])
+        tables = [result for result in reply['results'] if result['columns']]
+        if not tables:
+            count = len(reply['results'])
+            print(f"{count} statement{'s' if count != 1 else ''} executed")
+            return None
+        last = tables[-1]
+        result = ResultSet(last['columns'], last['rows'], last['totalRows'])
+        if target:
+            globals()[target] = result
+            return None
+        return result
+
+    # %pip install: micropip takes wheels by URL, Pyodide's own packages by
+    # name and anything else from PyPI; the app's local wheel directory comes first
+    async def pip(self, line):
+        import pyodide_js
+        import shlex
+        args = shlex.split(line)
+        if not args or args[0] != 'install':
+            raise UsageError('Only %pip install is available in the browser kernel')
+        requirements = [arg for arg in args[1:] if not arg.startswith('-')]
+        if not requirements:
+            raise UsageError('Usage: %pip install <package> ...')
+        await pyodide_js.loadPackage('micropip')
+        import micropip
+        wheels = _nava_json.loads(await _nava_kernel.local_wheels())
+        before = {name: package.version for name, package in micropip.list().items()}
+        for requirement in requirements:
+            name = _nava_re.split(r'[\\s\\[<>=!~;@]', requirement, maxsplit=1)[0]
+            wheel = wheels.get(_nava_re.sub(r'[-_.]+', '-', name).lower())
+            if wheel:
+                print(f"Installing {requirement} from {wheel.rsplit('/', 1)[-1]}")
+            else:
+                print(f'Installing {requirement}')
+            await micropip.install(wheel or requirement)
+        installed = sorted(
+            f'{name}-{package.version}'
+            for name, package in micropip.list().items()
+            if before.get(name) != package.version
+        )
+        print('Successfully installed ' + ' '.join(installed) if installed else 'Requirement already satisfied')
+
+_nava_shell = _NavaShell()
+
+# Completions at a code point offset: Jedi when it is installed, otherwise
+# rlcompleter on the dotted name before the cursor
+def _nava_complete(code, cursor_pos, limit):
+    try:
+        import jedi
+    except ImportError:
+        jedi = None
+    if jedi is not None:
+        before = code[:cursor_pos]
+        line = before.count('\\n') + 1
+        column = len(before) - (before.rfind('\\n') + 1)
+        try:
+            completions = jedi.Interpreter(code, [globals()]).complete(line, column)
+        except Exception:
+            completions = []
+        if completions:
+            typed = len(completions[0].name) - len(completions[0].complete)
+            return _nava_json.dumps({
+                'matches': [c.name for c in completions[:limit]],
+                'types': [c.type for c in completions[:limit]],
+                'start': cursor_pos - typed,
+            })
+
+    import rlcompleter
+    start = cursor_pos
+    while start > 0 and (code[start - 1].isalnum() or code[start - 1] in '_.'):
+        start -= 1
+    token = code[start:cursor_pos]
+    matches = []
+    if token:
+        completer = rlcompleter.Completer(globals())
+        while len(matches) < limit:
+            match = completer.complete(token, len(matches))
+            if match is None:
+                break
+            matches.append(match)
+    # rlcompleter returns whole dotted names; the editor replaces only the last part
+    segment = token.rfind('.') + 1
+    return _nava_json.dumps({
+        'matches': [m[segment:].rstrip('(') for m in matches],
+        'start': start + segment,
+    })
+
+# Modules the worker provides from source (see pyodide-widgets.ts)
+def _nava_module(name, source):
+    module = _nava_types.ModuleType(name)
+    module.__file__ = f'/nava/{name}.py'
+    exec(compile(source, module.__file__, 'exec'), module.__dict__)
+    _nava_sys.modules[name] = module
+
+_nava_shell.baseline = dict(globals())
+`;
+
+// Flush buffered stream text once it grows past this many characters
+const STREAM_BUFFER_LIMIT = 8192;
+
+// Rows or items beyond which a value is listed but not handed to other languages
+const MAX_TRANSFER_ITEMS = 10000;
+
+const MAX_COMPLETIONS = 200;
+
+interface ActiveExecution {
+  id: string;
+  outputs: NotebookOutput[];
+  stream: { name: 'stdout' | 'stderr'; text: string } | null;
+}
+
+let pyodide: PyodideRuntime | null = null;
+let wheelsURL = '';
+// %%sql queries waiting on the main thread, by query id
+const sqlQueries = new Map<string, (reply: string) => void>();
+let sqlQueryCounter = 0;
+let interruptBuffer: Uint8Array | null = null;
+let status: KernelStatus = 'starting';
+let active: ActiveExecution | null = null;
+
+// Names present before any user code ran; restart deletes everything else
+let baselineGlobals: string[] = [];
+// Jedi is loaded on the first completion request, not at startup
+let jediLoading: Promise<void> | null = null;
+
+const post = (message: PyodideWorkerResponse) => workerScope.postMessage(message);
+
+/**
+ * Record an output for the running cell and forward it to the main thread
+ */
+function emit(output: OutputMessage): void {
+  if (!active) return;
+  active.outputs = appendOutput(active.outputs, output);
+  post({ type: 'output', id: active.id, output });
+}
+
+function flushStreams(): void {
+  if (!active?.stream) return;
+  const { name, text } = active.stream;
+  active.stream = null;
+  emit({ output_type: 'stream', name, text });
+}
+
+/**
+ * Buffer a stream write; complete lines and carriage returns are sent right away
+ */
+function writeStream(name: 'stdout' | 'stderr', text: string): void {
+  if (!active) return;
+  if (active.stream && active.stream.name !== name) {
+    flushStreams();
+  }
+  active.stream = { name, text: (active.stream?.text || '') + text };
+  if (/[\n\r]/.test(text) || active.stream.text.length > STREAM_BUFFER_LIMIT) {
+    flushStreams();
+  }
+}
+
+function publishDisplay(payload: string): void {
+  const { data, metadata, display_id: displayId, update } = JSON.parse(payload) as {
+    data: NonNullable<NotebookOutput['data']>;
+    metadata: Record<string, unknown>;
+    display_id: string | null;
+    update: boolean;
+  };
+  flushStreams();
+  if (update) {
+    if (displayId) {
+      emit({ output_type: 'update_display_data', data, metadata, transient: { display_id: displayId } });
+    }
+    return;
+  }
+  emit({
+    output_type: 'display_data',
+    data,
+    metadata,
+    ...(displayId ? { transient: { display_id: displayId } } : {}),
+  });
+}
+
+/**
+ * Load Pyodide from the first distribution that has it
+ */
+async function loadRuntime(indexURLs: string[]): Promise<PyodideRuntime> {
+  let lastError: unknown = new Error('No Pyodide distribution configured');
+  for (const indexURL of indexURLs) {
+    try {
+      importScripts(`${indexURL}pyodide.js`);
+      return await loadPyodide({ indexURL });
+    } catch (error) {
+      console.warn(`Pyodide is not available from ${indexURL}:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * The value of a cell's last expression, as IPython's displayhook shows it
+ */
+function publishResult(payload: string): void {
+  const { execution_count: executionCount, data, metadata } = JSON.parse(payload) as {
+    execution_count: number;
+    data: NonNullable<NotebookOutput['data']>;
+    metadata: Record<string, unknown>;
+  };
+  flushStreams();
+  emit({ output_type: 'execute_result', execution_count: executionCount, data, metadata });
+}
+
+function clearOutput(): void {
+  if (active) active.stream = null;
+  emit({ output_type: 'clear_output' });
+}
+
+/**
+ * Ask the main thread to run a %%sql query; resolves to the reply as JSON
+ */
+function runSql(sql: string): Promise<string> {
+  if (!active) return Promise.resolve(JSON.stringify({ error: 'SQL can only run from a cell' }));
+  const id = active.id;
+  const queryId = `sql-${++sqlQueryCounter}`;
+  return new Promise(resolve => {
+    sqlQueries.set(queryId, resolve);
+    post({ type: 'sql_query', id, queryId, sql });
+  });
+}
+
+async function initialize(indexURLs: string[], wheels: string, buffer?: SharedArrayBuffer): Promise<void> {
+  try {
+    pyodide = await loadRuntime(indexURLs);
+    wheelsURL = wheels;
+
+    if (buffer) {
+      interruptBuffer = new Uint8Array(buffer);
+      pyodide.setInterruptBuffer(interruptBuffer);
+    }
+
+    pyodide.registerJsModule('_nava_kernel', {
+      write_stream: writeStream,
+      flush_streams: flushStreams,
+      publish_display: publishDisplay,
+      register_sql_table: (name: string, csv: string) => {
+        if (active) post({ type: 'sql_table', id: active.id, name, csv });
+      },
+      publish_result: publishResult,
+      clear_output: clearOutput,
+      run_sql: runSql,
+      local_wheels: async () => JSON.stringify(await localWheels()),
+      comm_send: (payload: string) => post({ type: 'comm', message: JSON.parse(payload) as CommMessage }),
+    });
+    pyodide.runPython(KERNEL_PRELUDE);
+    pyodide.runPython(`_nava_module('ipywidgets', ${JSON.stringify(IPYWIDGETS_MODULE)})`);
+    baselineGlobals = toJs(pyodide.runPython('list(globals().keys())')) as string[];
+
+    status = 'idle';
+    post({ type: 'ready', version: pyodide.version, interruptible: interruptBuffer !== null });
+  } catch (error) {
+    status = 'dead';
+    post({ type: 'init_error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Convert a PyProxy into a plain JS value where possible
+ */
+function toJs(value: unknown): unknown {
+  const proxy = value as { toJs?: () => unknown; destroy?: () => void } | null;
+  if (proxy && typeof proxy.toJs === 'function') {
+    const converted = proxy.toJs();
+    proxy.destroy?.();
+    return converted;
+  }
+  return value;
+}
+
+/**
+ * The local wheel directory's index.json, as package name to wheel URL
+ */
+async function localWheels(): Promise<Record<string, string>> {
+  try {
+    const response = await fetch(`${wheelsURL}index.json`, { cache: 'no-cache' });
+    if (!response.ok) return {};
+    const index = await response.json() as Record<string, string>;
+    return Object.fromEntries(
+      Object.entries(index).map(([name, file]) => [name, new URL(file, wheelsURL).href])
+    );
+  } catch (error) {
+    console.warn('Could not read the local wheel index:', error);
+    return {};
+  }
+}
+
+/**
+ * Run a cell through the shell, streaming stdout/stderr, displays, the last value and figures
+ */
+async function execute(id: string, code: string, executionCount: number): Promise<CellExecutionResult> {
+  if (!pyodide) {
+    throw new Error('Pyodide not initialized');
+  }
+  const runtime = pyodide;
+  const execution: ActiveExecution = { id, outputs: [], stream: null };
+  active = execution;
+
+  // A stale interrupt from a previous cell must not abort this one
+  if (interruptBuffer) {
+    interruptBuffer[0] = 0;
+  }
+
+  try {
+    let reply: unknown;
+    try {
+      reply = await runtime.runPythonAsync(`await _nava_shell.run_cell(${JSON.stringify(code)}, ${executionCount})`);
+    } finally {
+      flushStreams();
+    }
+    const error = JSON.parse(String(reply)) as CellExecutionResult['error'] | null;
+    if (error) {
+      const outputs = appendOutput(execution.outputs, { output_type: 'error', ...error });
+      return { success: false, outputs, execution_count: executionCount, error };
+    }
+    return { success: true, outputs: execution.outputs, execution_count: executionCount };
+  } catch (error) {
+    // The shell itself failed (or was interrupted); Pyodide raises PythonError
+    // with the exception type and the formatted traceback
+    const pyError = error as { type?: string; message?: string };
+    const message = pyError.message || String(error);
+    const traceback = message.trimEnd().split('\n');
+    const ename = pyError.type || (error instanceof Error ? error.name : 'KernelError');
+    const lastLine = traceback[traceback.length - 1] || '';
+    const evalue = lastLine.startsWith(`${ename}:`) ? lastLine.slice(ename.length + 1).trim() : lastLine;
+
+    const outputs = appendOutput(execution.outputs, { output_type: 'error', ename, evalue, traceback });
+    return {
+      success: false,
+      outputs,
+      execution_count: executionCount,
+      error: { ename, evalue, traceback },
+    };
+  } finally {
+    active = null;
+  }
+}
+
+/**
+ * Assign values from other languages as globals; tables arrive as DataFrames
+ */
+async function importNamespace(namespace: NamespaceImport[]): Promise<void> {
+  if (!pyodide || namespace.length === 0) return;
+  if (namespace.some(entry => entry.tabular)) {
+    await pyodide.loadPackage(['pandas']);
+  }
+  pyodide.runPython(`_nava_import(${JSON.stringify(JSON.stringify(namespace))})`);
+}
+
+/**
+ * Describe the user globals for the notebook's variable namespace
+ */
+function snapshotNamespace(): VariableSnapshot[] {
+  if (!pyodide) return [];
+  try {
+    const text = pyodide.runPython(
+      `_nava_snapshot(set(${JSON.stringify(baselineGlobals)}), ${MAX_TRANSFER_ITEMS}, ${MAX_TRANSFER_CHARS})`
+    );
+    return JSON.parse(String(text)) as VariableSnapshot[];
+  } catch (error) {
+    console.warn('Could not list Python variables:', error);
+    return [];
+  }
+}
+
+/**
+ * Completions at a UTF-16 offset, answered in UTF-16 offsets like the editor uses
+ */
+async function complete(code: string, cursorPos: number): Promise<{ matches: string[]; cursorStart: number; types?: string[] }> {
+  if (!pyodide) return { matches: [], cursorStart: cursorPos };
+  const runtime = pyodide;
+  jediLoading ??= runtime.loadPackage(['jedi']).catch(error => console.warn('Jedi is unavailable, using rlcompleter:', error));
+  await jediLoading;
+
+  // Python indexes strings by code point
+  const points = Array.from(code);
+  const pointPos = Array.from(code.slice(0, cursorPos)).length;
+  const reply = JSON.parse(String(runtime.runPython(
+    `_nava_complete(${JSON.stringify(code)}, ${pointPos}, ${MAX_COMPLETIONS})`
+  ))) as { matches: string[]; types?: string[]; start: number };
+  return {
+    matches: reply.matches,
+    cursorStart: points.slice(0, reply.start).join('').length,
+    ...(reply.types ? { types: reply.types } : {}),
+  };
+}
+
+/**
+ * Deliver a widget message from the front end. Nothing is running, so what
+ * its handlers print (outside an Output widget) goes to the console.
+ */
+function handleComm(message: CommMessage): void {
+  if (!pyodide) return;
+  const execution: ActiveExecution = { id: '', outputs: [], stream: null };
+  active = execution;
+  try {
+    const failure = pyodide.runPython(
+      `_nava_sys.modules['ipywidgets']._handle_comm(${JSON.stringify(JSON.stringify(message))})`
+    );
+    flushStreams();
+    execution.outputs.forEach(output => console.info('Python widget callback:', output.text ?? output.data ?? output));
+    if (typeof failure === 'string') console.warn(`A Python widget callback failed:\n${failure}`);
+  } catch (error) {
+    console.warn('Could not deliver a widget message:', error);
+  } finally {
+    active = null;
+  }
+}
+
+/**
+ * Drop every user-defined global, keeping the runtime and loaded packages
+ */
+function resetNamespace(): void {
+  pyodide?.runPython('_nava_shell.reset()');
+}
+
+// Messages are handled one at a time so cells never interleave
+let queue: Promise<void> = Promise.resolve();
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'status') {
+    post({ type: 'status', id: request.id, status });
+    return;
+  }
+  // Answers a query the running cell is waiting on, so it can't wait in the queue
+  if (request.type === 'sql_reply') {
+    const { queryId, ...reply } = request;
+    sqlQueries.get(queryId)?.(JSON.stringify(reply));
+    sqlQueries.delete(queryId);
+    return;
+  }
+  queue = queue.then(async () => {
+    switch (request.type) {
+      case 'init':
+        await initialize(request.indexURLs, request.wheelsURL, request.interruptBuffer);
+        break;
+      case 'execute': {
+        status = 'busy';
+        let result: CellExecutionResult;
+        try {
+          await importNamespace(request.namespace ?? []);
+          result = await execute(request.id, request.code, request.executionCount);
+        } catch (error) {
+          const evalue = error instanceof Error ? error.message : String(error);
+          result = {
+            success: false,
+            outputs: [{ output_type: 'error', ename: 'KernelError', evalue, traceback: [evalue] }],
+            execution_count: request.executionCount,
+            error: { ename: 'KernelError', evalue, traceback: [evalue] },
+          };
+        }
+        status = pyodide ? 'idle' : 'dead';
+        post({ type: 'result', id: request.id, result, variables: snapshotNamespace() });
+        break;
+      }
+      case 'comm':
+        handleComm(request.message);
+        break;
+      case 'restart':
+        resetNamespace();
+        post({ type: 'restarted', id: request.id });
+        break;
+      case 'complete': {
+        let reply: Awaited<ReturnType<typeof complete>>;
+        try {
+          reply = await complete(request.code, request.cursorPos);
+        } catch (error) {
+          console.warn('Python completion failed:', error);
+          reply = { matches: [], cursorStart: request.cursorPos };
+        }
+        post({ type: 'complete_reply', id: request.id, cursorEnd: request.cursorPos, ...reply });
+        break;
+      }
+    }
+  });
+};
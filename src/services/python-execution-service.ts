@@ -5,88 +5,303 @@
  * Supports both browser-based (Pyodide) and backend execution
  */
 
-import type { NotebookOutput, CellExecutionResult } from './jupyter-notebook-service';
+import type { CellExecutionResult } from './jupyter-notebook-service';
+import { PYODIDE_SIGINT } from './pyodide-worker-protocol';
+import type { KernelStatus, PyodideWorkerRequest, PyodideWorkerResponse } from './pyodide-worker-protocol';
+import type { OutputMessage } from './notebook-outputs';
+import type { NamespaceImport, VariableSnapshot } from './notebook-namespace';
+import type { CompletionResult } from './jupyter-kernel-client';
+import type { SqlStatementResult } from './sql-execution-service';
+import { widgetManager, WidgetSource } from './widget-manager';
+
+export type { KernelStatus } from './pyodide-worker-protocol';
 
 export interface PythonExecutionOptions {
   timeout?: number;
   captureOutput?: boolean;
   workingDirectory?: string;
   environment?: Record<string, string>;
+  signal?: AbortSignal; // Aborting interrupts the running cell
+  onOutput?: (output: OutputMessage) => void; // Called for each output as the cell produces it
+  onSqlTable?: (name: string, csv: string) => void; // register_sql_table() was called (Pyodide only)
+  onSqlQuery?: (sql: string) => Promise<SqlStatementResult[]>; // Runs %%sql queries (Pyodide only)
+  namespace?: NamespaceImport[]; // Values from other languages, assigned as globals first (Pyodide only)
+  onVariables?: (variables: VariableSnapshot[]) => void; // The user globals after the cell ran (Pyodide only)
+}
+
+// Pyodide and local wheels are served from this origin (npm run pyodide:fetch puts
+// them under public/pyodide/) so the service worker can keep them for offline use.
+// The CDN is only tried when this origin doesn't have the requested version.
+const PYODIDE_VERSION = process.env.NEXT_PUBLIC_PYODIDE_VERSION || '0.24.1';
+const PYODIDE_BASE_URL = (process.env.NEXT_PUBLIC_PYODIDE_BASE_URL || '/pyodide/').replace(/\/*$/, '/');
+const PYODIDE_CDN_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+
+type WorkerRequestWithId = Extract<PyodideWorkerRequest, { id: string }>;
+
+interface PendingRequest {
+  resolve: (response: PyodideWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onOutput?: (output: OutputMessage) => void;
+  onSqlTable?: (name: string, csv: string) => void;
+  onSqlQuery?: (sql: string) => Promise<SqlStatementResult[]>;
 }
 
+const kernelError = (ename: string, evalue: string): Error => {
+  const error = new Error(evalue);
+  error.name = ename;
+  return error;
+};
+
 class PythonExecutionService {
   private executionCount = 0;
-  private pyodide: any = null;
-  private pyodideLoading = false;
+  private worker: Worker | null = null;
+  private workerReady: Promise<boolean> | null = null;
+  private interruptBuffer: Uint8Array | null = null;
+  private pending = new Map<string, PendingRequest>();
+  // Cells in the worker's queue; other requests (completions) don't make the kernel busy
+  private runningCells = 0;
+  private requestCounter = 0;
+  private status: KernelStatus = 'dead';
+  private statusListeners = new Set<(status: KernelStatus) => void>();
+  // Identifies this page's kernel on the /api/python backend
+  private sessionId = `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private backendSessionStarted = false;
+  // ipywidgets in the worker; the front end's changes go back through it
+  private widgetSource: WidgetSource = {
+    id: 'pyodide',
+    send: message => {
+      const request: PyodideWorkerRequest = { type: 'comm', message };
+      this.worker?.postMessage(request);
+    },
+  };
 
   /**
    * Initialize Pyodide for browser-based Python execution
    */
   async initializePyodide(): Promise<void> {
-    if (this.pyodide) {
-      return;
+    await this.startWorker();
+  }
+
+  /**
+   * Spawn the Pyodide worker and wait until the runtime is loaded
+   */
+  private startWorker(): Promise<boolean> {
+    if (this.workerReady) {
+      return this.workerReady;
+    }
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+      return Promise.resolve(false);
+    }
+
+    this.setStatus('starting');
+    const worker = new Worker(new URL('./pyodide.worker.ts', import.meta.url));
+    this.worker = worker;
+
+    // SharedArrayBuffer is only available when the page is cross-origin isolated
+    let sharedBuffer: SharedArrayBuffer | undefined;
+    if (typeof SharedArrayBuffer !== 'undefined' && window.crossOriginIsolated) {
+      sharedBuffer = new SharedArrayBuffer(1);
+      this.interruptBuffer = new Uint8Array(sharedBuffer);
+    } else {
+      this.interruptBuffer = null;
+    }
+
+    this.workerReady = new Promise<boolean>(resolve => {
+      worker.onmessage = (event: MessageEvent<PyodideWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          this.setStatus('idle');
+          resolve(true);
+          return;
+        }
+        if (message.type === 'comm') {
+          widgetManager.receive(message.message, this.widgetSource);
+          return;
+        }
+        if (message.type === 'init_error') {
+          console.warn('Pyodide initialization failed, falling back to backend execution:', message.message);
+          this.stopWorker(kernelError('KernelError', message.message));
+          resolve(false);
+          return;
+        }
+        const request = this.pending.get(message.id);
+        if (message.type === 'output') {
+          request?.onOutput?.(message.output);
+          return;
+        }
+        if (message.type === 'sql_table') {
+          request?.onSqlTable?.(message.name, message.csv);
+          return;
+        }
+        if (message.type === 'sql_query') {
+          this.answerSqlQuery(worker, message.queryId, message.sql, request?.onSqlQuery);
+          return;
+        }
+        if (request) {
+          this.pending.delete(message.id);
+          request.resolve(message);
+        }
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        console.warn('Pyodide worker crashed:', event.message);
+        this.stopWorker(kernelError('KernelError', `The Python kernel crashed: ${event.message}`));
+        resolve(false);
+      };
+    });
+
+    // The worker resolves URLs against its own script, so they are made absolute here
+    const baseURL = new URL(PYODIDE_BASE_URL, window.location.href).href;
+    const init: PyodideWorkerRequest = {
+      type: 'init',
+      indexURLs: [`${baseURL}v${PYODIDE_VERSION}/full/`, PYODIDE_CDN_URL],
+      wheelsURL: `${baseURL}wheels/`,
+      interruptBuffer: sharedBuffer,
+    };
+    worker.postMessage(init);
+
+    return this.workerReady;
+  }
+
+  /**
+   * Terminate the worker, failing every request still waiting on it
+   */
+  private stopWorker(reason: Error): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.interruptBuffer = null;
+    widgetManager.dropSource(this.widgetSource.id);
+    for (const request of this.pending.values()) {
+      request.reject(reason);
     }
+    this.pending.clear();
+    this.setStatus('dead');
+  }
 
-    if (this.pyodideLoading) {
-      // Wait for existing load
-      while (this.pyodideLoading) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+  /**
+   * Send a request to the worker and wait for its reply
+   */
+  private request(
+    message: WorkerRequestWithId,
+    callbacks: Pick<PendingRequest, 'onOutput' | 'onSqlTable' | 'onSqlQuery'> = {}
+  ): Promise<PyodideWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.worker) {
+        reject(kernelError('KernelError', 'The Python kernel is not running'));
+        return;
       }
+      this.pending.set(message.id, { resolve, reject, ...callbacks });
+      this.worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Run a cell's %%sql query and send the worker its sql_reply
+   */
+  private answerSqlQuery(
+    worker: Worker,
+    queryId: string,
+    sql: string,
+    run?: (sql: string) => Promise<SqlStatementResult[]>
+  ): void {
+    const reply = (answer: { results?: SqlStatementResult[]; error?: string }) => {
+      const message: PyodideWorkerRequest = { type: 'sql_reply', queryId, ...answer };
+      worker.postMessage(message);
+    };
+    if (!run) {
+      reply({ error: 'SQL queries are not available here' });
       return;
     }
+    run(sql).then(
+      results => reply({ results }),
+      error => reply({ error: error instanceof Error ? error.message : String(error) })
+    );
+  }
 
-    this.pyodideLoading = true;
+  private nextRequestId(): string {
+    this.requestCounter++;
+    return `req-${this.requestCounter}`;
+  }
 
-    try {
-      // Dynamically load Pyodide from CDN
-      if (typeof window !== 'undefined') {
-        // Check if Pyodide is already loaded
-        if ((window as any).loadPyodide) {
-          const { loadPyodide } = (window as any);
-          this.pyodide = await loadPyodide({
-            indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/',
-          });
-        } else {
-          // Load Pyodide from CDN
-          await new Promise<void>((resolve, reject) => {
-            const script = document.createElement('script');
-            script.src = 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/pyodide.js';
-            script.onload = () => resolve();
-            script.onerror = () => reject(new Error('Failed to load Pyodide'));
-            document.head.appendChild(script);
-          });
-
-          // @ts-ignore - Pyodide is loaded from CDN
-          const { loadPyodide } = (window as any);
-          this.pyodide = await loadPyodide({
-            indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.24.1/full/',
-          });
-        }
+  private setStatus(status: KernelStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
 
-        // Install common packages
-        await this.pyodide.loadPackage(['micropip', 'numpy', 'matplotlib', 'pandas', 'scipy']);
-        
-        // Set up matplotlib backend for browser
-        this.pyodide.runPython(`
-import matplotlib
-matplotlib.use('Agg')
-import matplotlib.pyplot as plt
-import io
-import base64
-import sys
-from io import StringIO
-        `);
-      }
-    } catch (error) {
-      console.warn('Pyodide initialization failed, falling back to backend execution:', error);
-      this.pyodide = null;
-    } finally {
-      this.pyodideLoading = false;
+  /**
+   * Current state of the in-browser kernel
+   */
+  getKernelStatus(): KernelStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to kernel status changes; returns an unsubscribe function
+   */
+  onKernelStatusChange(listener: (status: KernelStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether interrupts keep the interpreter state (requires cross-origin isolation)
+   */
+  canInterruptInPlace(): boolean {
+    return this.interruptBuffer !== null;
+  }
+
+  /**
+   * Interrupt the running cell
+   *
+   * With an interrupt buffer this raises KeyboardInterrupt inside Python.
+   * Otherwise the worker is terminated and a fresh kernel is started, which
+   * loses the session's variables.
+   */
+  interrupt(): void {
+    if (!this.worker || this.runningCells === 0) {
+      return;
+    }
+    if (this.interruptBuffer) {
+      this.interruptBuffer[0] = PYODIDE_SIGINT;
+      return;
     }
+    this.stopWorker(kernelError('KeyboardInterrupt', 'Execution interrupted; the kernel was restarted'));
+    this.workerReady = null;
+    void this.startWorker();
+  }
+
+  /**
+   * Restart the kernel, clearing all user-defined state
+   *
+   * An idle kernel only has its namespace cleared, keeping the loaded runtime
+   * and packages; a busy or dead one is replaced with a new worker. A
+   * session on the /api/python backend is shut down as well.
+   */
+  async restartKernel(): Promise<void> {
+    this.executionCount = 0;
+    if (this.backendSessionStarted) {
+      this.backendSessionStarted = false;
+      await fetch(`/api/python/execute?sessionId=${encodeURIComponent(this.sessionId)}`, { method: 'DELETE' })
+        .catch(() => undefined);
+    }
+    if (this.worker && this.status === 'idle') {
+      await this.request({ type: 'restart', id: this.nextRequestId() });
+      return;
+    }
+    this.stopWorker(kernelError('KernelRestarted', 'The kernel was restarted'));
+    this.workerReady = null;
+    await this.startWorker();
   }
 
   /**
    * Execute Python code and return Jupyter-compatible outputs
+   *
+   * In the Pyodide kernel, stream and display outputs are also passed to
+   * `options.onOutput` as they are produced; the returned result holds them all.
    */
   async executeCode(
     code: string,
@@ -94,8 +309,12 @@ from io import StringIO
   ): Promise<CellExecutionResult> {
     this.executionCount++;
 
+    if (options.signal?.aborted) {
+      return this.interruptedResult('Execution cancelled before it started');
+    }
+
     // Try Pyodide first (browser-based)
-    if (this.pyodide || await this.tryInitializePyodide()) {
+    if (await this.tryInitializePyodide()) {
       return await this.executeWithPyodide(code, options);
     }
 
@@ -108,173 +327,88 @@ from io import StringIO
    */
   private async tryInitializePyodide(): Promise<boolean> {
     try {
-      await this.initializePyodide();
-      return this.pyodide !== null;
+      return await this.startWorker();
     } catch {
       return false;
     }
   }
 
   /**
-   * Execute Python code using Pyodide (browser-based)
+   * Execute Python code in the Pyodide worker
    */
   private async executeWithPyodide(
     code: string,
     options: PythonExecutionOptions
   ): Promise<CellExecutionResult> {
-    if (!this.pyodide) {
-      throw new Error('Pyodide not initialized');
-    }
-
-    const outputs: NotebookOutput[] = [];
+    const executionCount = this.executionCount;
+    const onAbort = () => this.interrupt();
+    options.signal?.addEventListener('abort', onAbort);
+    const timer = options.timeout ? setTimeout(onAbort, options.timeout) : null;
 
+    this.setStatus('busy');
+    this.runningCells++;
     try {
-      // Set up stdout/stderr capture
-      this.pyodide.runPython(`
-import sys
-from io import StringIO
-_stdout_capture = StringIO()
-_stderr_capture = StringIO()
-sys.stdout = _stdout_capture
-sys.stderr = _stderr_capture
-      `);
-
-      // Execute code
-      let result: any;
-      try {
-        result = this.pyodide.runPython(code);
-      } catch (execError: any) {
-        // Get stderr if there was an error
-        const stderrContent = this.pyodide.runPython('_stderr_capture.getvalue()');
-        if (stderrContent) {
-          outputs.push({
-            output_type: 'stream',
-            name: 'stderr',
-            text: stderrContent,
-          });
-        }
-        throw execError;
-      }
-
-      // Get stdout
-      const stdoutContent = this.pyodide.runPython('_stdout_capture.getvalue()');
-      if (stdoutContent) {
-        outputs.push({
-          output_type: 'stream',
-          name: 'stdout',
-          text: stdoutContent,
-        });
-      }
-
-      // Get stderr
-      const stderrContent = this.pyodide.runPython('_stderr_capture.getvalue()');
-      if (stderrContent) {
-        outputs.push({
-          output_type: 'stream',
-          name: 'stderr',
-          text: stderrContent,
-        });
+      const response = await this.request({
+        type: 'execute',
+        id: this.nextRequestId(),
+        code,
+        executionCount,
+        namespace: options.namespace,
+      }, { onOutput: options.onOutput, onSqlTable: options.onSqlTable, onSqlQuery: options.onSqlQuery });
+      if (response.type !== 'result') {
+        throw kernelError('KernelError', `Unexpected reply from the Python kernel: ${response.type}`);
       }
-
-      // Check for matplotlib figures
-      try {
-        const hasFigure = this.pyodide.runPython(`
-try:
-    import matplotlib.pyplot as plt
-    has_fig = len(plt.get_fignums()) > 0
-    if has_fig:
-        import io
-        import base64
-        buf = io.BytesIO()
-        plt.savefig(buf, format='png')
-        buf.seek(0)
-        img_data = base64.b64encode(buf.read()).decode('utf-8')
-        plt.close('all')
-        img_data
-    else:
-        None
-except Exception as e:
-    None
-        `);
-
-        if (hasFigure && hasFigure !== 'None') {
-          outputs.push({
-            output_type: 'display_data',
-            data: {
-              'image/png': hasFigure,
-              'text/plain': '<matplotlib.figure.Figure>',
-            },
-          });
-        }
-      } catch (plotError) {
-        // Ignore plot errors
+      if (response.variables) {
+        options.onVariables?.(response.variables);
       }
-
-      // If there's a return value, display it
-      if (result !== undefined && result !== null && result !== 'None') {
-        const repr = String(result);
-        if (repr && repr !== 'None') {
-          outputs.push({
-            output_type: 'execute_result',
-            execution_count: this.executionCount,
-            data: {
-              'text/plain': repr,
-            },
-          });
-        }
+      return response.result;
+    } catch (error) {
+      const ename = error instanceof Error ? error.name : 'KernelError';
+      const evalue = error instanceof Error ? error.message : String(error);
+      return this.errorResult(ename, evalue, executionCount);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      if (timer) clearTimeout(timer);
+      this.runningCells--;
+      if (this.worker && this.runningCells === 0 && this.status === 'busy') {
+        this.setStatus('idle');
       }
+    }
+  }
 
-      return {
-        success: true,
-        outputs,
-        execution_count: this.executionCount,
-      };
-    } catch (error: any) {
-      // Try to get Python traceback
-      let traceback: string[] = [];
-      let errorName = 'Error';
-      let errorValue = String(error);
-
-      try {
-        const pyError = this.pyodide.runPython(`
-import traceback
-try:
-    exc_type, exc_value, exc_traceback = sys.exc_info()
-    if exc_traceback:
-        tb_lines = traceback.format_exception(exc_type, exc_value, exc_traceback)
-        '\\n'.join(tb_lines)
-    else:
-        str(sys.last_value) if hasattr(sys, 'last_value') else 'Unknown error'
-except:
-    'Error occurred'
-        `);
-        if (pyError) {
-          traceback = pyError.split('\n');
-          errorValue = traceback[0] || String(error);
-        }
-      } catch {
-        // Fallback to JavaScript error
-        traceback = error.stack ? error.stack.split('\n') : [String(error)];
-      }
+  /**
+   * Completions from the Pyodide kernel (Jedi, or rlcompleter without it)
+   *
+   * Returns null while the kernel isn't idle rather than queueing behind a running cell.
+   */
+  async complete(code: string, cursorPos: number): Promise<CompletionResult | null> {
+    if (!this.worker || this.status !== 'idle') return null;
+    const response = await this.request({ type: 'complete', id: this.nextRequestId(), code, cursorPos });
+    if (response.type !== 'complete_reply') return null;
+    const { matches, cursorStart, cursorEnd, types } = response;
+    return {
+      matches,
+      cursorStart,
+      cursorEnd,
+      // Same shape ipykernel uses, so the editor reads types the same way for both kernels
+      metadata: types
+        ? { _jupyter_types_experimental: matches.map((text, i) => ({ text, type: types[i], start: cursorStart, end: cursorEnd })) }
+        : {},
+    };
+  }
 
-      const errorOutput: NotebookOutput = {
-        output_type: 'error',
-        ename: errorName,
-        evalue: errorValue,
-        traceback: traceback.length > 0 ? traceback : [String(error)],
-      };
+  private errorResult(ename: string, evalue: string, executionCount = this.executionCount): CellExecutionResult {
+    const traceback = [`${ename}: ${evalue}`];
+    return {
+      success: false,
+      outputs: [{ output_type: 'error', ename, evalue, traceback }],
+      execution_count: executionCount,
+      error: { ename, evalue, traceback },
+    };
+  }
 
-      return {
-        success: false,
-        outputs: [errorOutput],
-        execution_count: this.executionCount,
-        error: {
-          ename: errorOutput.ename!,
-          evalue: errorOutput.evalue!,
-          traceback: errorOutput.traceback!,
-        },
-      };
-    }
+  private interruptedResult(evalue: string): CellExecutionResult {
+    return this.errorResult('KeyboardInterrupt', evalue);
   }
 
   /**
@@ -312,9 +446,8 @@ except:
       try {
         const tauriApi = await import('@tauri-apps/api/tauri' as any);
         invoke = tauriApi.invoke;
-      } catch (importError) {
-        // Module not found - we're in web mode, fall back to simulation
-        return this.simulateExecution(code);
+      } catch {
+        return this.errorResult('BackendError', 'The Tauri API is not available in this build');
       }
 
       const result = await invoke('execute_python_code', {
@@ -326,9 +459,8 @@ except:
 
       result.execution_count = this.executionCount;
       return result;
-    } catch (error: any) {
-      // If Tauri command doesn't exist or execution fails, fall back to simulation
-      return this.simulateExecution(code);
+    } catch (error) {
+      return this.errorResult('BackendError', `Tauri execution failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -339,6 +471,16 @@ except:
     code: string,
     options: PythonExecutionOptions
   ): Promise<CellExecutionResult> {
+    // The server kernel reports the interrupt as a KeyboardInterrupt result
+    const onAbort = () => {
+      void fetch('/api/python/interrupt', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: this.sessionId }),
+      }).catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
     try {
       const response = await fetch('/api/python/execute', {
         method: 'POST',
@@ -350,70 +492,29 @@ except:
           timeout: options.timeout || 30000,
           workingDirectory: options.workingDirectory,
           environment: options.environment,
+          sessionId: this.sessionId,
+          executionCount: this.executionCount,
         }),
       });
 
       if (!response.ok) {
+        // A route that answered with a reason (disabled, bad request) is reported as is
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        if (body?.error) {
+          return this.errorResult('BackendError', body.error);
+        }
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       const result = await response.json() as CellExecutionResult;
       result.execution_count = this.executionCount;
+      this.backendSessionStarted = true;
       return result;
-    } catch (error: any) {
-      // Fallback: simulate execution for development
-      return this.simulateExecution(code);
-    }
-  }
-
-  /**
-   * Simulate Python execution (for development/testing)
-   */
-  private simulateExecution(code: string): CellExecutionResult {
-    // Simple simulation - in production, this should never be used
-    const outputs: NotebookOutput[] = [];
-
-    // Check for print statements
-    const printMatches = code.match(/print\s*\([^)]+\)/g);
-    if (printMatches) {
-      printMatches.forEach(match => {
-        const content = match.replace(/print\s*\(['"]?([^'"]+)['"]?\)/, '$1');
-        outputs.push({
-          output_type: 'stream',
-          name: 'stdout',
-          text: content + '\n',
-        });
-      });
-    }
-
-    // Check for imports
-    if (code.includes('import matplotlib') || code.includes('import plt')) {
-      outputs.push({
-        output_type: 'display_data',
-        data: {
-          'text/plain': '<matplotlib.figure.Figure>',
-        },
-      });
-    }
-
-    if (outputs.length === 0) {
-      outputs.push({
-        output_type: 'execute_result',
-        execution_count: this.executionCount,
-        data: {
-          'text/plain': 'Code executed successfully (simulated)',
-        },
-      });
+    } catch (error) {
+      return this.errorResult('BackendError', `The Python backend could not run the cell: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
     }
-
-    return {
-      success: true,
-      outputs,
-      execution_count: this.executionCount,
-      data: {
-          'text/plain': 'Code executed successfully (simulated)',
-      },
-    } as any;
   }
 
   /**
@@ -0,0 +1,409 @@
+/**
+ * SQL Execution Service
+ *
+ * Runs SQL cells on DuckDB-WASM in the browser. Every notebook session gets
+ * its own in-memory database; CSV, JSON and Parquet files attached to the
+ * session (or DataFrames handed over from Python, and table-shaped variables
+ * from other languages) are exposed as views.
+ * DuckDB is loaded from jsDelivr on first use; unlike Pyodide it is not served
+ * from this origin, so SQL cells need the network the first time they run.
+ */
+
+import { MAX_TRANSFER_CHARS, VariableSnapshot } from './notebook-namespace';
+
+const DUCKDB_VERSION = '1.28.0';
+const DUCKDB_ESM_URL = `https://cdn.jsdelivr.net/npm/@duckdb/duckdb-wasm@${DUCKDB_VERSION}/+esm`;
+
+// Rows converted per statement; the table formatters only show the first 100
+const MAX_RESULT_ROWS = 1000;
+
+export type SqlFileFormat = 'csv' | 'json' | 'parquet';
+
+export interface SqlTableInfo {
+  name: string;
+  fileName: string;
+  format: SqlFileFormat;
+  source: 'file' | 'python' | 'namespace'; // namespace: a variable from another language
+}
+
+export interface SqlStatementResult {
+  statement: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  totalRows: number;
+}
+
+// Minimal typing for the parts of @duckdb/duckdb-wasm used here
+interface DuckDBBundle {
+  mainModule: string;
+  mainWorker: string;
+  pthreadWorker?: string | null;
+}
+
+interface ArrowTable {
+  numRows: number;
+  schema: { fields: { name: string }[] };
+  toArray(): { toJSON(): Record<string, unknown> }[];
+}
+
+interface DuckDBConnection {
+  query(sql: string): Promise<ArrowTable>;
+  close(): Promise<void>;
+}
+
+interface DuckDBDatabase {
+  instantiate(mainModule: string, pthreadWorker?: string | null): Promise<void>;
+  connect(): Promise<DuckDBConnection>;
+  registerFileText(name: string, text: string): Promise<void>;
+  registerFileBuffer(name: string, buffer: Uint8Array): Promise<void>;
+  dropFile(name: string): Promise<void>;
+  terminate(): Promise<void>;
+}
+
+interface DuckDBModule {
+  getJsDelivrBundles(): unknown;
+  selectBundle(bundles: unknown): Promise<DuckDBBundle>;
+  AsyncDuckDB: new (logger: unknown, worker: Worker) => DuckDBDatabase;
+  VoidLogger: new () => unknown;
+}
+
+interface SqlSession {
+  db: DuckDBDatabase;
+  connection: DuckDBConnection;
+  worker: Worker;
+  tables: Map<string, SqlTableInfo>;
+  // Statements and registrations run one at a time per session
+  queue: Promise<unknown>;
+}
+
+const FORMAT_READERS: Record<SqlFileFormat, string> = {
+  csv: 'read_csv_auto',
+  json: 'read_json_auto',
+  parquet: 'read_parquet',
+};
+
+export const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Derive a SQL-friendly table name from a file name ("Sales 2024.csv" -> sales_2024)
+ */
+export function tableNameForFile(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(base) ? base : `t_${base || 'data'}`;
+}
+
+export function formatForFile(fileName: string): SqlFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'json' || extension === 'ndjson' || extension === 'jsonl') return 'json';
+  if (extension === 'parquet') return 'parquet';
+  return null;
+}
+
+/**
+ * Split a script into statements on `;`, ignoring semicolons in strings and comments
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    if (char === "'" || char === '"' || char === '`') {
+      const end = sql.indexOf(char, i + 1);
+      // Doubled quotes are escapes; indexOf lands on the first and the loop picks up the second
+      const stop = end === -1 ? sql.length : end + 1;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (char === ';') {
+      statements.push(current);
+      current = '';
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  statements.push(current);
+
+  // Drop statements that are only whitespace and comments
+  return statements
+    .map(statement => statement.trim())
+    .filter(statement => statement.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, '').trim() !== '');
+}
+
+/**
+ * Turn Arrow values into plain values the table formatters and JSON can handle
+ */
+function toPlainValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return `<${value.length} bytes>`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const json = (value as { toJSON?: () => unknown }).toJSON?.() ?? value;
+    return JSON.stringify(json, (_key, inner) => (typeof inner === 'bigint' ? inner.toString() : inner));
+  }
+  return value;
+}
+
+function toPlainRows(table: ArrowTable, columns: string[], limit: number): Record<string, unknown>[] {
+  return table.toArray().slice(0, limit).map(row => {
+    const json = row.toJSON();
+    const plain: Record<string, unknown> = {};
+    for (const column of columns) {
+      plain[column] = toPlainValue(json[column]);
+    }
+    return plain;
+  });
+}
+
+let duckdbModule: Promise<DuckDBModule> | null = null;
+
+function loadDuckDB(): Promise<DuckDBModule> {
+  if (!duckdbModule) {
+    duckdbModule = import(/* webpackIgnore: true */ DUCKDB_ESM_URL) as Promise<DuckDBModule>;
+    duckdbModule.catch(() => {
+      duckdbModule = null;
+    });
+  }
+  return duckdbModule;
+}
+
+class SqlExecutionService {
+  private sessions = new Map<string, Promise<SqlSession>>();
+  private tableListeners = new Set<(sessionId: string, tables: SqlTableInfo[]) => void>();
+
+  /**
+   * Get the session's database, creating it on first use
+   */
+  private getSession(sessionId: string): Promise<SqlSession> {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = this.createSession();
+      session.catch(() => this.sessions.delete(sessionId));
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private async createSession(): Promise<SqlSession> {
+    if (typeof window === 'undefined') {
+      throw new Error('DuckDB is only available in the browser');
+    }
+    const duckdb = await loadDuckDB();
+    const bundle = await duckdb.selectBundle(duckdb.getJsDelivrBundles());
+    // Workers can't be constructed from a cross-origin URL directly
+    const workerUrl = URL.createObjectURL(
+      new Blob([`importScripts(${JSON.stringify(bundle.mainWorker)});`], { type: 'text/javascript' })
+    );
+    const worker = new Worker(workerUrl);
+    URL.revokeObjectURL(workerUrl);
+
+    const db = new duckdb.AsyncDuckDB(new duckdb.VoidLogger(), worker);
+    await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+    const connection = await db.connect();
+    return { db, connection, worker, tables: new Map(), queue: Promise.resolve() };
+  }
+
+  /**
+   * Queue work on a session so statements and registrations never interleave
+   */
+  private async enqueue<T>(sessionId: string, task: (session: SqlSession) => Promise<T>): Promise<T> {
+    const session = await this.getSession(sessionId);
+    const run = session.queue.then(() => task(session));
+    session.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Execute one or more `;`-separated statements and return each statement's result
+   */
+  async execute(sessionId: string, sql: string): Promise<SqlStatementResult[]> {
+    return this.enqueue(sessionId, async session => {
+      const results: SqlStatementResult[] = [];
+      for (const statement of splitSqlStatements(sql)) {
+        const table = await session.connection.query(statement);
+        const columns = table.schema.fields.map(field => field.name);
+        const rows = toPlainRows(table, columns, MAX_RESULT_ROWS);
+        results.push({ statement, columns, rows, totalRows: table.numRows });
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Register file contents and expose them as a view named `name`
+   */
+  async registerTable(
+    sessionId: string,
+    name: string,
+    data: string | Uint8Array,
+    format: SqlFileFormat,
+    source: SqlTableInfo['source'] = 'file'
+  ): Promise<SqlTableInfo> {
+    const info = await this.enqueue(sessionId, async session => {
+      const fileName = `${name}.${format}`;
+      await session.db.dropFile(fileName).catch(() => undefined);
+      if (typeof data === 'string') {
+        await session.db.registerFileText(fileName, data);
+      } else {
+        await session.db.registerFileBuffer(fileName, data);
+      }
+      await session.connection.query(
+        `CREATE OR REPLACE VIEW ${quoteIdentifier(name)} AS SELECT * FROM ${FORMAT_READERS[format]}(${quoteLiteral(fileName)})`
+      );
+      const table: SqlTableInfo = { name, fileName, format, source };
+      session.tables.set(name, table);
+      return table;
+    });
+    await this.notifyTables(sessionId);
+    return info;
+  }
+
+  /**
+   * Make an attached CSV, JSON or Parquet file queryable; the table is named after the file
+   */
+  async attachFile(sessionId: string, file: File): Promise<SqlTableInfo> {
+    const format = formatForFile(file.name);
+    if (!format) {
+      throw new Error(`Unsupported data file "${file.name}": expected .csv, .json or .parquet`);
+    }
+    const data = format === 'parquet' ? new Uint8Array(await file.arrayBuffer()) : await file.text();
+    return this.registerTable(sessionId, tableNameForFile(file.name), data, format);
+  }
+
+  /**
+   * Drop a table registered with registerTable/attachFile
+   */
+  async detachTable(sessionId: string, name: string): Promise<void> {
+    await this.enqueue(sessionId, async session => {
+      const table = session.tables.get(name);
+      if (!table) return;
+      await session.connection.query(`DROP VIEW IF EXISTS ${quoteIdentifier(name)}`);
+      await session.db.dropFile(table.fileName).catch(() => undefined);
+      session.tables.delete(name);
+    });
+    await this.notifyTables(sessionId);
+  }
+
+  /**
+   * Tables registered in a session (not tables created with SQL)
+   */
+  async listTables(sessionId: string): Promise<SqlTableInfo[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    return Array.from((await session).tables.values());
+  }
+
+  /**
+   * Column names of every table and view, for completions; empty before the session's first query
+   */
+  async describeSchema(sessionId: string): Promise<{ table: string; columns: string[] }[]> {
+    if (!this.sessions.has(sessionId)) return [];
+    return this.enqueue(sessionId, async session => {
+      const result = await session.connection.query(
+        "SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'main' ORDER BY table_name, ordinal_position"
+      );
+      const tables = new Map<string, string[]>();
+      for (const row of result.toArray()) {
+        const { table_name: table, column_name: column } = row.toJSON() as { table_name: string; column_name: string };
+        tables.set(table, [...(tables.get(table) ?? []), column]);
+      }
+      return Array.from(tables, ([table, columns]) => ({ table, columns }));
+    });
+  }
+
+  /**
+   * Describe the session's tables and views for the notebook namespace
+   *
+   * Tables with at most `maxRows` rows carry their rows as JSON. Views made
+   * from other languages' variables are left out; they belong to those languages.
+   */
+  async describeTables(sessionId: string, maxRows: number): Promise<VariableSnapshot[]> {
+    if (!this.sessions.has(sessionId)) return [];
+    return this.enqueue(sessionId, async session => {
+      const listing = await session.connection.query(
+        "SELECT table_name, table_type FROM information_schema.tables WHERE table_schema = 'main' ORDER BY table_name"
+      );
+      const snapshots: VariableSnapshot[] = [];
+      for (const row of listing.toArray()) {
+        const { table_name: name, table_type: tableType } = row.toJSON() as { table_name: string; table_type: string };
+        if (session.tables.get(name)?.source === 'namespace') continue;
+        const type = tableType === 'VIEW' ? 'view' : 'table';
+        try {
+          const count = await session.connection.query(`SELECT count(*) AS n FROM ${quoteIdentifier(name)}`);
+          const totalRows = Number(count.toArray()[0].toJSON().n);
+          const sample = await session.connection.query(`SELECT * FROM ${quoteIdentifier(name)} LIMIT ${maxRows + 1}`);
+          const columns = sample.schema.fields.map(field => field.name);
+          const snapshot: VariableSnapshot = {
+            name,
+            type,
+            size: `${totalRows}×${columns.length}`,
+            preview: `columns: ${columns.slice(0, 12).join(', ')}${columns.length > 12 ? ', …' : ''}`,
+          };
+          if (totalRows <= maxRows) {
+            const json = JSON.stringify(toPlainRows(sample, columns, maxRows));
+            if (json.length <= MAX_TRANSFER_CHARS) {
+              snapshot.json = json;
+              snapshot.tabular = true;
+            }
+          }
+          snapshots.push(snapshot);
+        } catch (error) {
+          // A view over a file that no longer parses still shows up, without data
+          snapshots.push({ name, type, preview: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      return snapshots;
+    });
+  }
+
+  /**
+   * Subscribe to table registrations; returns an unsubscribe function
+   */
+  onTablesChange(listener: (sessionId: string, tables: SqlTableInfo[]) => void): () => void {
+    this.tableListeners.add(listener);
+    return () => {
+      this.tableListeners.delete(listener);
+    };
+  }
+
+  private async notifyTables(sessionId: string): Promise<void> {
+    const tables = await this.listTables(sessionId);
+    this.tableListeners.forEach(listener => listener(sessionId, tables));
+  }
+
+  /**
+   * Discard a session's database
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    try {
+      const { connection, db, worker } = await session;
+      await connection.close().catch(() => undefined);
+      await db.terminate().catch(() => undefined);
+      worker.terminate();
+    } catch {
+      // The session never started
+    }
+  }
+}
+
+export const sqlExecutionService = new SqlExecutionService();
@@ -0,0 +1,192 @@
+/**
+ * TypeScript Compiler Service
+ *
+ * Type-checks and transpiles TypeScript cells in the browser before they run
+ * in the JavaScript sandbox. Each notebook session keeps the source of every
+ * TypeScript cell that compiled, and later cells are checked against them, so
+ * declarations carry over from cell to cell like in a REPL. The compiler and
+ * its lib files are loaded from jsDelivr on first use (they aren't part of
+ * the self-hosted Pyodide distribution).
+ */
+
+import type * as TypeScript from 'typescript';
+import type { CodeDiagnostic } from './jupyter-notebook-service';
+
+type TypeScriptModule = typeof TypeScript;
+
+// Matches the compiler the studio itself is built with
+const TYPESCRIPT_VERSION = '5.9.3';
+const TYPESCRIPT_CDN = `https://cdn.jsdelivr.net/npm/typescript@${TYPESCRIPT_VERSION}`;
+
+// The sandbox is a worker, so cells see the worker globals rather than the DOM
+const ROOT_LIBS = ['lib.es2022.d.ts', 'lib.webworker.d.ts'];
+
+// Diagnostics that don't apply to notebook cells:
+// top-level await (cells are run as async scripts) and redeclaring a name from
+// an earlier cell (the later declaration replaces it at runtime)
+const IGNORED_DIAGNOSTICS = new Set([1375, 1378, 1431, 1432, 2300, 2393, 2451]);
+
+export interface TypeScriptCompilation {
+  javascript: string;
+  diagnostics: CodeDiagnostic[];
+}
+
+let typescriptModule: Promise<TypeScriptModule> | null = null;
+
+function loadTypeScript(): Promise<TypeScriptModule> {
+  if (!typescriptModule) {
+    typescriptModule = import(/* webpackIgnore: true */ `${TYPESCRIPT_CDN}/+esm`)
+      .then((module: { default?: TypeScriptModule } & TypeScriptModule) => module.default ?? module);
+    typescriptModule.catch(() => {
+      typescriptModule = null;
+    });
+  }
+  return typescriptModule;
+}
+
+let libFiles: Promise<Map<string, string>> | null = null;
+
+/**
+ * Fetch the root lib files and everything they reference
+ */
+function loadLibFiles(ts: TypeScriptModule): Promise<Map<string, string>> {
+  if (!libFiles) {
+    libFiles = (async () => {
+      const files = new Map<string, string>();
+      const fetchLib = async (fileName: string): Promise<void> => {
+        if (files.has(fileName)) return;
+        files.set(fileName, '');
+        const response = await fetch(`${TYPESCRIPT_CDN}/lib/${fileName}`);
+        if (!response.ok) {
+          throw new Error(`Could not load ${fileName} (${response.status})`);
+        }
+        const text = await response.text();
+        files.set(fileName, text);
+        const references = ts.preProcessFile(text, true, true).libReferenceDirectives;
+        await Promise.all(references.map(reference => fetchLib(`lib.${reference.fileName.toLowerCase()}.d.ts`)));
+      };
+      await Promise.all(ROOT_LIBS.map(fetchLib));
+      return files;
+    })();
+    libFiles.catch(() => {
+      libFiles = null;
+    });
+  }
+  return libFiles;
+}
+
+class TypeScriptCompiler {
+  // Per session: cell id -> source of the last version of that cell that compiled
+  private sessions = new Map<string, Map<string, string>>();
+  // Parsed files, reused across compilations while their text is unchanged
+  private sourceFiles = new Map<string, TypeScript.SourceFile>();
+
+  /**
+   * Type-check a cell against the session's earlier cells and transpile it to JavaScript
+   *
+   * `globals` are names other languages put in the sandbox; they are declared as `any`.
+   */
+  async compile(sessionId: string, cellId: string, source: string, globals: string[] = []): Promise<TypeScriptCompilation> {
+    const ts = await loadTypeScript();
+    const libs = await loadLibFiles(ts);
+
+    let cells = this.sessions.get(sessionId);
+    if (!cells) {
+      cells = new Map();
+      this.sessions.set(sessionId, cells);
+    }
+
+    const cellFile = (id: string) => `/${sessionId}/${id}.ts`;
+    const files = new Map(libs);
+    cells.forEach((text, id) => {
+      if (id !== cellId) files.set(cellFile(id), text);
+    });
+    const currentFile = cellFile(cellId);
+    files.set(currentFile, source);
+    const declarations = globals
+      .filter(name => /^[A-Za-z_$][\w$]*$/.test(name))
+      .map(name => `declare var ${name}: any;`);
+    if (declarations.length > 0) {
+      files.set(`/${sessionId}/__namespace__.d.ts`, declarations.join('\n'));
+    }
+
+    const options: TypeScript.CompilerOptions = {
+      target: ts.ScriptTarget.ES2022,
+      strict: true,
+      noLib: true,
+      noEmit: true,
+      skipLibCheck: true,
+      allowUnreachableCode: true,
+      types: [],
+    };
+    const host: TypeScript.CompilerHost = {
+      getSourceFile: (fileName, languageVersion) => {
+        const text = files.get(fileName);
+        if (text === undefined) return undefined;
+        const cached = this.sourceFiles.get(fileName);
+        if (cached && cached.text === text) return cached;
+        const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+        this.sourceFiles.set(fileName, sourceFile);
+        return sourceFile;
+      },
+      getDefaultLibFileName: () => ROOT_LIBS[0],
+      writeFile: () => undefined,
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: fileName => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: fileName => files.has(fileName),
+      readFile: fileName => files.get(fileName),
+    };
+
+    const program = ts.createProgram(Array.from(files.keys()), options, host);
+    const sourceFile = program.getSourceFile(currentFile)!;
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]
+      .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error && !IGNORED_DIAGNOSTICS.has(diagnostic.code))
+      .map(diagnostic => {
+        const start = diagnostic.start ?? 0;
+        const end = start + (diagnostic.length ?? 0);
+        const from = sourceFile.getLineAndCharacterOfPosition(start);
+        const to = sourceFile.getLineAndCharacterOfPosition(end);
+        return {
+          code: `TS${diagnostic.code}`,
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+          line: from.line + 1,
+          column: from.character + 1,
+          endLine: to.line + 1,
+          endColumn: to.character + 1,
+        };
+      });
+
+    if (diagnostics.length > 0) {
+      return { javascript: '', diagnostics };
+    }
+
+    cells.set(cellId, source);
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+      reportDiagnostics: false,
+    });
+    return { javascript: outputText, diagnostics: [] };
+  }
+
+  /**
+   * Forget a session's cells (Restart Kernel, or the notebook was closed)
+   */
+  closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    const prefix = `/${sessionId}/`;
+    Array.from(this.sourceFiles.keys())
+      .filter(fileName => fileName.startsWith(prefix))
+      .forEach(fileName => this.sourceFiles.delete(fileName));
+  }
+
+  reset(): void {
+    Array.from(this.sessions.keys()).forEach(sessionId => this.closeSession(sessionId));
+  }
+}
+
+export const typescriptCompiler = new TypeScriptCompiler();
@@ -0,0 +1,151 @@
+/**
+ * Widget Manager
+ *
+ * Front-end half of the Jupyter widget protocol (ipywidgets, protocol version
+ * 2). A kernel opens a comm on the `jupyter.widget` target for every widget
+ * with its full state; after that both sides send `update` messages with the
+ * keys that changed, and the front end sends `custom` messages for events like
+ * button clicks. Widgets reference each other as "IPY_MODEL_<id>".
+ *
+ * Models from every kernel (the Pyodide worker, Jupyter servers) live here,
+ * each remembering the source it came from so replies go back to the same
+ * kernel. Outputs a kernel sends while an Output widget is capturing its
+ * request (state `msg_id`) go into that widget instead of the cell.
+ */
+
+import type { NotebookOutput } from './jupyter-notebook-service';
+import { appendOutput, OutputMessage } from './notebook-outputs';
+
+export const WIDGET_VIEW_MIME = 'application/vnd.jupyter.widget-view+json';
+export const WIDGET_TARGET = 'jupyter.widget';
+const MODEL_PREFIX = 'IPY_MODEL_';
+
+export interface CommMessage {
+  msg_type: 'comm_open' | 'comm_msg' | 'comm_close';
+  comm_id: string;
+  target_name?: string;
+  data: Record<string, unknown>;
+}
+
+export interface WidgetSource {
+  id: string; // 'pyodide', 'jupyter:<kernel id>'
+  send: (message: CommMessage) => void;
+}
+
+export interface WidgetModel {
+  id: string;
+  modelName: string; // 'IntSliderModel', 'OutputModel', ...
+  state: Record<string, unknown>;
+}
+
+interface Entry {
+  model: WidgetModel;
+  source: WidgetSource;
+}
+
+/**
+ * The model id in a widget reference ("IPY_MODEL_<id>"), or null
+ */
+export function modelIdOf(reference: unknown): string | null {
+  return typeof reference === 'string' && reference.startsWith(MODEL_PREFIX) ? reference.slice(MODEL_PREFIX.length) : null;
+}
+
+class WidgetManager {
+  private entries = new Map<string, Entry>();
+  private listeners = new Set<(id: string) => void>();
+
+  /**
+   * Handle a comm message from a kernel
+   */
+  receive(message: CommMessage, source: WidgetSource): void {
+    const { comm_id: id, data } = message;
+    if (message.msg_type === 'comm_open') {
+      if (message.target_name !== WIDGET_TARGET) return;
+      const state = (data.state || {}) as Record<string, unknown>;
+      this.entries.set(id, { model: { id, modelName: String(state._model_name || 'WidgetModel'), state }, source });
+      this.notify(id);
+      return;
+    }
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    if (message.msg_type === 'comm_close') {
+      this.entries.delete(id);
+      this.notify(id);
+      return;
+    }
+    // ipywidgets 8 echoes front-end updates back as echo_update
+    if ((data.method === 'update' || data.method === 'echo_update') && data.state) {
+      this.patch(entry, data.state as Record<string, unknown>);
+    }
+  }
+
+  getModel(id: string): WidgetModel | undefined {
+    return this.entries.get(id)?.model;
+  }
+
+  /**
+   * Change some of a widget's state here and in its kernel
+   */
+  update(id: string, state: Record<string, unknown>): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.patch(entry, state);
+    entry.source.send({ msg_type: 'comm_msg', comm_id: id, data: { method: 'update', state, buffer_paths: [] } });
+  }
+
+  /**
+   * Send a widget event to its kernel: { event: 'click' } for buttons
+   */
+  sendCustom(id: string, content: Record<string, unknown>): void {
+    this.entries.get(id)?.source.send({ msg_type: 'comm_msg', comm_id: id, data: { method: 'custom', content } });
+  }
+
+  /**
+   * Route an output from the kernel request `msgId` into the Output widget
+   * capturing it; false when no widget is
+   */
+  captureOutput(msgId: string, output: OutputMessage): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.model.modelName === 'OutputModel' && entry.model.state.msg_id === msgId) {
+        const outputs = (entry.model.state.outputs || []) as NotebookOutput[];
+        this.patch(entry, { outputs: appendOutput(outputs, output) });
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Forget every widget of a kernel that stopped
+   */
+  dropSource(sourceId: string): void {
+    for (const [id, entry] of Array.from(this.entries)) {
+      if (entry.source.id === sourceId) {
+        this.entries.delete(id);
+        this.notify(id);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to model changes (called with the model id); returns an unsubscribe function
+   */
+  onChange(listener: (id: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Models are replaced rather than mutated, so views can compare them by identity
+  private patch(entry: Entry, state: Record<string, unknown>): void {
+    entry.model = { ...entry.model, state: { ...entry.model.state, ...state } };
+    this.notify(entry.model.id);
+  }
+
+  private notify(id: string): void {
+    this.listeners.forEach(listener => listener(id));
+  }
+}
+
+export const widgetManager = new WidgetManager();